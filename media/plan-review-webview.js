@@ -95,6 +95,10 @@
         });
     }
 
+    function isOpenAnnotation(annotation) {
+        return annotation.status !== 'resolved' && annotation.status !== 'wontFix';
+    }
+
     function formatAnnotationLabel(annotation) {
         const category = annotation.metadata && annotation.metadata.category;
         return categoryLabels[category] || annotation.kind;
@@ -299,7 +303,7 @@
                 { label: 'Diff Files', value: diffFiles.length },
                 { label: 'Hunks', value: hunkCount },
                 { label: 'Annotations', value: artifact.annotations.length },
-                { label: 'Open', value: artifact.annotations.filter(function (annotation) { return annotation.status === 'open'; }).length },
+                { label: 'Open', value: artifact.annotations.filter(isOpenAnnotation).length },
                 { label: 'Exports', value: artifact.exportState && artifact.exportState.exports ? artifact.exportState.exports.length : 0 }
             ];
         }
@@ -308,7 +312,7 @@
             { label: 'Sections', value: (artifact.content.sections || []).length },
             { label: 'Blocks', value: (artifact.content.blocks || []).length },
             { label: 'Annotations', value: artifact.annotations.length },
-            { label: 'Open', value: artifact.annotations.filter(function (annotation) { return annotation.status === 'open'; }).length },
+            { label: 'Open', value: artifact.annotations.filter(isOpenAnnotation).length },
             { label: 'Exports', value: artifact.exportState && artifact.exportState.exports ? artifact.exportState.exports.length : 0 }
         ];
     }
@@ -8,17 +8,43 @@
 
 const vscode = acquireVsCodeApi();
 
+// Mirrors ANNOTATION_STATUS_LABELS in src/managers/annotationWorkflow.ts
+const STATUS_LABELS = {
+  open: 'Open',
+  inProgress: 'In Progress',
+  needsVerification: 'Needs Verification',
+  deferred: 'Deferred',
+  wontFix: "Won't Fix",
+  resolved: 'Resolved',
+};
+
+// Mirrors DUE_DATE_BUCKET_LABELS in src/managers/annotationAssignments.ts
+const DUE_BUCKET_LABELS = {
+  overdue: 'Overdue',
+  today: 'Due Today',
+  upcoming: 'Upcoming',
+  none: 'No Due Date',
+  closed: 'Closed',
+};
+
 // State management
 const state = {
   annotations: [],
   availableTags: [],
   tagLabels: {},
+  tagParents: {},
+  currentUser: '',
   filters: {
     status: 'all',
+    assignee: 'all',
     tag: 'all',
     search: '',
     groupBy: 'file',
+    view: '',
   },
+  savedViews: [],
+  // Matches for the saved view and search box, evaluated by the extension: { query, view, ids, error }
+  searchResults: null,
 };
 
 // DOM Elements
@@ -28,7 +54,9 @@ const elements = {
   searchInput: document.getElementById('filter-search'),
   clearSearchBtn: document.getElementById('btn-clear-search'),
   statusFilter: document.getElementById('filter-status'),
+  assigneeFilter: document.getElementById('filter-assignee'),
   tagFilter: document.getElementById('filter-tag'),
+  viewSelect: document.getElementById('view-select'),
   groupBySelect: document.getElementById('groupby-select'),
   resetFiltersBtn: document.getElementById('btn-reset-filters'),
   resolveAllBtn: document.getElementById('btn-resolve-all'),
@@ -74,6 +102,42 @@ class AnnotationHandlers {
     });
   }
 
+  handleReply(id) {
+    this.vscode.postMessage({
+      command: 'reply',
+      id: id,
+    });
+  }
+
+  handleReanchor(id) {
+    this.vscode.postMessage({
+      command: 'reanchor',
+      id: id,
+    });
+  }
+
+  handleSetStatus(id) {
+    this.vscode.postMessage({
+      command: 'setStatus',
+      id: id,
+    });
+  }
+
+  handleAssign(id) {
+    this.vscode.postMessage({
+      command: 'assign',
+      id: id,
+    });
+  }
+
+  handleEditReply(annotationId, replyId) {
+    this.vscode.postMessage({
+      command: 'editReply',
+      id: annotationId,
+      replyId: replyId,
+    });
+  }
+
   handleResolveAll() {
     this.vscode.postMessage({
       command: 'resolveAll',
@@ -177,6 +241,51 @@ class AnnotationHandlers {
       });
     }
 
+    // Reply button
+    const replyBtn = card.querySelector('[data-action="reply"]');
+    if (replyBtn) {
+      replyBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.handleReply(annotation.id);
+      });
+    }
+
+    // Re-anchor button
+    const reanchorBtn = card.querySelector('[data-action="reanchor"]');
+    if (reanchorBtn) {
+      reanchorBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.handleReanchor(annotation.id);
+      });
+    }
+
+    // Status button
+    const statusBtn = card.querySelector('[data-action="setStatus"]');
+    if (statusBtn) {
+      statusBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.handleSetStatus(annotation.id);
+      });
+    }
+
+    // Assign button
+    const assignBtn = card.querySelector('[data-action="assign"]');
+    if (assignBtn) {
+      assignBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.handleAssign(annotation.id);
+      });
+    }
+
+    // Edit reply buttons
+    const editReplyBtns = card.querySelectorAll('[data-action="editReply"]');
+    editReplyBtns.forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.handleEditReply(annotation.id, btn.dataset.replyId);
+      });
+    });
+
     // Add tag button
     const addTagBtn = card.querySelector('[data-action="addTag"]');
     if (addTagBtn) {
@@ -199,7 +308,7 @@ class AnnotationHandlers {
     // Make entire card clickable to navigate
     card.addEventListener('click', (e) => {
       // Only navigate if not clicking on action buttons or tags
-      if (!e.target.closest('.card-action-btn') && !e.target.closest('.tag-remove') && !e.target.closest('.tag-add')) {
+      if (!e.target.closest('.card-action-btn') && !e.target.closest('.tag-remove') && !e.target.closest('.tag-add') && !e.target.closest('.reply-edit')) {
         this.handleNavigate(annotation);
       }
     });
@@ -213,27 +322,35 @@ class AnnotationHandlers {
 // ==================== Filtering ====================
 function filterAnnotations(annotations, filters) {
   return annotations.filter((ann) => {
-    if (filters.status === 'resolved' && !ann.resolved) {
+    if (filters.status === 'unresolved' && ann.resolved) {
       return false;
     }
-    if (filters.status === 'unresolved' && ann.resolved) {
+    if (filters.status !== 'all' && filters.status !== 'unresolved' && getStatus(ann) !== filters.status) {
+      return false;
+    }
+    if (filters.assignee === 'me' && !isAssignedToCurrentUser(ann)) {
       return false;
     }
 
     if (filters.tag && filters.tag !== 'all') {
-      const hasTag = ann.tags?.some((tagId) => tagId === filters.tag);
+      const hasTag = ann.tags?.some((tagId) => tagId === filters.tag || getTagAncestors(tagId).includes(filters.tag));
       if (!hasTag) {
         return false;
       }
     }
 
-    if (filters.search) {
+    const searchResults = getSearchResults(filters);
+    if (searchResults?.ids && !searchResults.ids.has(ann.id)) {
+      return false;
+    }
+    if (filters.search && (!searchResults || searchResults.error)) {
       const searchLower = filters.search.toLowerCase();
       const searchText = [
         ann.comment,
         ann.text,
         ann.filePath,
         ann.author,
+        ...(ann.replies || []).map((reply) => reply.body),
         ...(ann.tags || []).map((tagId) => getTagLabel(tagId)),
       ]
         .filter(Boolean)
@@ -249,12 +366,26 @@ function filterAnnotations(annotations, filters) {
   });
 }
 
+/**
+ * Matches for the current saved view and structured query, once the extension has
+ * evaluated them. Until then, and for invalid queries, the search falls back to a
+ * substring match.
+ */
+function getSearchResults(filters) {
+  const results = state.searchResults;
+  if (!results || results.query !== filters.search || results.view !== (filters.view || '')) {
+    return null;
+  }
+  return results;
+}
+
 function extractTags(annotations) {
   const tags = new Set();
   annotations.forEach((ann) => {
     if (ann.tags && Array.isArray(ann.tags)) {
       ann.tags.forEach((tagId) => {
         tags.add(tagId);
+        getTagAncestors(tagId).forEach((ancestorId) => tags.add(ancestorId));
       });
     }
   });
@@ -265,6 +396,19 @@ function getTagLabel(tagId) {
   return state.tagLabels[tagId] || tagId;
 }
 
+/**
+ * Parent tag IDs, nearest first, so that filtering by a parent tag includes its nested tags
+ */
+function getTagAncestors(tagId) {
+  const ancestors = [];
+  let parentId = state.tagParents[tagId];
+  while (parentId && parentId !== tagId && !ancestors.includes(parentId)) {
+    ancestors.push(parentId);
+    parentId = state.tagParents[parentId];
+  }
+  return ancestors;
+}
+
 function calculateStats(annotations) {
   const resolved = annotations.filter((a) => a.resolved).length;
   return {
@@ -292,6 +436,19 @@ function updateTagFilter(filterElement, tags, currentValue) {
   }
 }
 
+function updateSearchError(search) {
+  if (!elements.searchInput) {
+    return;
+  }
+
+  const results = getSearchResults(state.filters);
+  const error = search && results ? results.error : '';
+  elements.searchInput.classList.toggle('invalid', !!error);
+  elements.searchInput.title = error
+    ? `Invalid query: ${error}`
+    : 'Search annotations, e.g. tag:bug status:open file:src/** priority>=high "exact phrase"';
+}
+
 function updateFilterControls(filters) {
   if (elements.workflowSelect && !elements.workflowSelect.value) {
     elements.runWorkflowBtn.disabled = true;
@@ -305,10 +462,20 @@ function updateFilterControls(filters) {
     elements.clearSearchBtn.disabled = !filters.search;
   }
 
+  updateSearchError(filters.search);
+
+  if (elements.viewSelect) {
+    elements.viewSelect.value = filters.view || '';
+  }
+
   if (elements.statusFilter) {
     elements.statusFilter.value = filters.status;
   }
 
+  if (elements.assigneeFilter) {
+    elements.assigneeFilter.value = filters.assignee || 'all';
+  }
+
   if (elements.groupBySelect) {
     elements.groupBySelect.value = filters.groupBy;
   }
@@ -332,6 +499,10 @@ function createAnnotationCard(annotation) {
   if (annotation.resolved) {
     card.classList.add('resolved');
   }
+  const orphaned = isOrphaned(annotation);
+  if (orphaned) {
+    card.classList.add('orphaned');
+  }
 
   card.dataset.annotationId = annotation.id;
 
@@ -342,12 +513,29 @@ function createAnnotationCard(annotation) {
   filePath.className = 'card-file';
   filePath.textContent = annotation.filePath.split(/[\\/]/).pop() || annotation.filePath;
   filePath.title = annotation.filePath;
+  const targetLabel = getTargetLabel(annotation);
+  if (targetLabel) {
+    const target = document.createElement('span');
+    target.className = 'card-target';
+    target.textContent = targetLabel;
+    filePath.appendChild(target);
+  }
 
+  const status = getStatus(annotation);
   const statusBadge = document.createElement('div');
-  statusBadge.className = `card-status ${annotation.resolved ? 'resolved' : 'unresolved'}`;
-  statusBadge.textContent = annotation.resolved ? 'Resolved' : 'Unresolved';
+  statusBadge.className = `card-status ${annotation.resolved ? 'resolved' : 'unresolved'} status-${status}`;
+  statusBadge.textContent = STATUS_LABELS[status] || status;
 
   header.appendChild(filePath);
+  if (orphaned) {
+    const orphanBadge = document.createElement('div');
+    orphanBadge.className = 'card-status orphaned';
+    orphanBadge.textContent = 'Orphaned';
+    orphanBadge.title = annotation.anchorStatus.reason === 'fileMissing'
+      ? 'The annotated file was deleted or moved'
+      : 'The annotated code could not be found';
+    header.appendChild(orphanBadge);
+  }
   header.appendChild(statusBadge);
   card.appendChild(header);
 
@@ -359,6 +547,14 @@ function createAnnotationCard(annotation) {
   comment.textContent = annotation.comment;
   body.appendChild(comment);
 
+  if (annotation.assignee || annotation.dueDate) {
+    body.appendChild(createAssignmentRow(annotation));
+  }
+
+  if (annotation.replies && annotation.replies.length > 0) {
+    body.appendChild(createReplyThread(annotation.replies));
+  }
+
   card.appendChild(body);
 
   const footer = document.createElement('div');
@@ -415,6 +611,13 @@ function createAnnotationCard(annotation) {
   editBtn.dataset.action = 'edit';
   editBtn.dataset.annotationId = annotation.id;
 
+  const replyBtn = document.createElement('button');
+  replyBtn.className = 'card-action-btn';
+  replyBtn.innerHTML = '<i class="codicon codicon-comment-discussion"></i>';
+  replyBtn.title = 'Reply';
+  replyBtn.dataset.action = 'reply';
+  replyBtn.dataset.annotationId = annotation.id;
+
   const toggleBtn = document.createElement('button');
   toggleBtn.className = 'card-action-btn';
   toggleBtn.innerHTML = annotation.resolved
@@ -424,6 +627,20 @@ function createAnnotationCard(annotation) {
   toggleBtn.dataset.action = 'toggle';
   toggleBtn.dataset.annotationId = annotation.id;
 
+  const assignBtn = document.createElement('button');
+  assignBtn.className = 'card-action-btn';
+  assignBtn.innerHTML = '<i class="codicon codicon-person-add"></i>';
+  assignBtn.title = 'Assign';
+  assignBtn.dataset.action = 'assign';
+  assignBtn.dataset.annotationId = annotation.id;
+
+  const statusBtn = document.createElement('button');
+  statusBtn.className = 'card-action-btn';
+  statusBtn.innerHTML = '<i class="codicon codicon-tasklist"></i>';
+  statusBtn.title = 'Set status';
+  statusBtn.dataset.action = 'setStatus';
+  statusBtn.dataset.annotationId = annotation.id;
+
   const deleteBtn = document.createElement('button');
   deleteBtn.className = 'card-action-btn';
   deleteBtn.innerHTML = '<i class="codicon codicon-trash"></i>';
@@ -432,8 +649,20 @@ function createAnnotationCard(annotation) {
   deleteBtn.dataset.annotationId = annotation.id;
 
   actions.appendChild(gotoBtn);
+  if (orphaned) {
+    const reanchorBtn = document.createElement('button');
+    reanchorBtn.className = 'card-action-btn';
+    reanchorBtn.innerHTML = '<i class="codicon codicon-pinned"></i>';
+    reanchorBtn.title = 'Re-anchor to a new selection';
+    reanchorBtn.dataset.action = 'reanchor';
+    reanchorBtn.dataset.annotationId = annotation.id;
+    actions.appendChild(reanchorBtn);
+  }
   actions.appendChild(editBtn);
+  actions.appendChild(replyBtn);
   actions.appendChild(toggleBtn);
+  actions.appendChild(statusBtn);
+  actions.appendChild(assignBtn);
   actions.appendChild(deleteBtn);
 
   footer.appendChild(actions);
@@ -442,6 +671,70 @@ function createAnnotationCard(annotation) {
   return card;
 }
 
+function createAssignmentRow(annotation) {
+  const row = document.createElement('div');
+  row.className = 'card-assignment';
+
+  if (annotation.assignee) {
+    const assignee = document.createElement('span');
+    assignee.className = 'card-assignee';
+    assignee.textContent = `@${annotation.assignee}`;
+    row.appendChild(assignee);
+  }
+
+  if (annotation.dueDate) {
+    const due = document.createElement('span');
+    const bucket = getDueBucket(annotation);
+    due.className = `card-due due-${bucket}`;
+    due.textContent = bucket === 'overdue' ? `Overdue since ${annotation.dueDate}` : `Due ${annotation.dueDate}`;
+    row.appendChild(due);
+  }
+
+  return row;
+}
+
+function createReplyThread(replies) {
+  const thread = document.createElement('div');
+  thread.className = 'card-thread';
+
+  replies.forEach((reply) => {
+    const item = document.createElement('div');
+    item.className = 'thread-reply';
+
+    const meta = document.createElement('div');
+    meta.className = 'thread-reply-meta';
+
+    const author = document.createElement('span');
+    author.className = 'thread-reply-author';
+    author.textContent = reply.author;
+
+    const timestamp = document.createElement('span');
+    timestamp.className = 'thread-reply-time';
+    timestamp.textContent = new Date(reply.timestamp).toLocaleString() + (reply.edited ? ' (edited)' : '');
+
+    const editBtn = document.createElement('button');
+    editBtn.className = 'reply-edit';
+    editBtn.innerHTML = '<i class="codicon codicon-edit"></i>';
+    editBtn.title = 'Edit reply';
+    editBtn.dataset.action = 'editReply';
+    editBtn.dataset.replyId = reply.id;
+
+    meta.appendChild(author);
+    meta.appendChild(timestamp);
+    meta.appendChild(editBtn);
+
+    const body = document.createElement('div');
+    body.className = 'thread-reply-body';
+    body.textContent = reply.body;
+
+    item.appendChild(meta);
+    item.appendChild(body);
+    thread.appendChild(item);
+  });
+
+  return thread;
+}
+
 function createGroupHeader(groupName) {
   const header = document.createElement('div');
   header.className = 'group-header';
@@ -449,6 +742,48 @@ function createGroupHeader(groupName) {
   return header;
 }
 
+function getStatus(annotation) {
+  return annotation.status || (annotation.resolved ? 'resolved' : 'open');
+}
+
+function isAssignedToCurrentUser(annotation) {
+  return !!annotation.assignee
+    && !!state.currentUser
+    && annotation.assignee.trim().toLowerCase() === state.currentUser.trim().toLowerCase();
+}
+
+function getDueBucket(annotation) {
+  if (annotation.resolved) {
+    return 'closed';
+  }
+  if (!annotation.dueDate) {
+    return 'none';
+  }
+
+  const now = new Date();
+  const today = [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0'),
+  ].join('-');
+  if (annotation.dueDate < today) {
+    return 'overdue';
+  }
+  return annotation.dueDate === today ? 'today' : 'upcoming';
+}
+
+function isOrphaned(annotation) {
+  return !!annotation.anchorStatus && annotation.anchorStatus.state === 'orphaned';
+}
+
+// Notebook cell and whole-file annotations name their target; text ranges need no label
+function getTargetLabel(annotation) {
+  if (!annotation.target) {
+    return '';
+  }
+  return annotation.target.type === 'file' ? 'Whole file' : `Cell ${annotation.target.cellIndex + 1}`;
+}
+
 function groupAnnotations(annotations, groupBy) {
   const groups = {};
 
@@ -467,7 +802,9 @@ function groupAnnotations(annotations, groupBy) {
         key = 'Untagged';
       }
     } else if (groupBy === 'status') {
-      key = ann.resolved ? 'Resolved' : 'Unresolved';
+      key = STATUS_LABELS[getStatus(ann)] || getStatus(ann);
+    } else if (groupBy === 'due') {
+      key = DUE_BUCKET_LABELS[getDueBucket(ann)];
     }
 
     if (!groups[key]) {
@@ -497,7 +834,16 @@ function renderAnnotationsList(container, annotations, groupBy) {
 
   container.innerHTML = '';
 
-  const grouped = groupAnnotations(annotations, groupBy);
+  // Orphaned annotations are listed first, whatever the grouping, so they get re-anchored
+  const orphaned = annotations.filter(isOrphaned);
+  if (orphaned.length > 0) {
+    container.appendChild(createGroupHeader('Orphaned'));
+    orphaned.forEach((ann) => {
+      container.appendChild(createAnnotationCard(ann));
+    });
+  }
+
+  const grouped = groupAnnotations(annotations.filter((ann) => !isOrphaned(ann)), groupBy);
   const sortedGroups = Object.keys(grouped).sort();
 
   sortedGroups.forEach((groupName) => {
@@ -615,15 +961,31 @@ function setupEventListeners() {
   elements.resetFiltersBtn?.addEventListener('click', () => {
     state.filters = {
       status: 'all',
+      assignee: 'all',
       tag: 'all',
       search: '',
       groupBy: 'file',
+      view: '',
     };
     updateFilterControls(state.filters);
     notifyFilterStateChanged();
     applyFiltersAndRender();
   });
 
+  if (!elements.viewSelect) {
+    console.warn('[Annotative] view-select element not found');
+  }
+  elements.viewSelect?.addEventListener('change', (e) => {
+    const view = state.savedViews.find((candidate) => candidate.name === e.target.value);
+    state.filters.view = view ? view.name : '';
+    if (view?.groupBy) {
+      state.filters.groupBy = view.groupBy;
+    }
+    updateFilterControls(state.filters);
+    notifyFilterStateChanged();
+    applyFiltersAndRender();
+  });
+
   if (!elements.statusFilter) {
     console.warn('[Annotative] filter-status element not found');
   }
@@ -633,6 +995,15 @@ function setupEventListeners() {
     applyFiltersAndRender();
   });
 
+  if (!elements.assigneeFilter) {
+    console.warn('[Annotative] filter-assignee element not found');
+  }
+  elements.assigneeFilter?.addEventListener('change', (e) => {
+    state.filters.assignee = e.target.value;
+    notifyFilterStateChanged();
+    applyFiltersAndRender();
+  });
+
   if (!elements.tagFilter) {
     console.warn('[Annotative] filter-tag element not found');
   }
@@ -685,7 +1056,7 @@ function handleExtensionMessage(message) {
   try {
     switch (message.command) {
       case 'updateAnnotations':
-        handleUpdateAnnotations(message.annotations || []);
+        handleUpdateAnnotations(message.annotations || [], message.currentUser);
         break;
       case 'tagsUpdated':
         handleTagsUpdated(message.tags || []);
@@ -702,6 +1073,15 @@ function handleExtensionMessage(message) {
       case 'filterStateUpdated':
         handleFilterStateUpdated(message.filters || {});
         break;
+      case 'revealAnnotation':
+        handleRevealAnnotation(message.id);
+        break;
+      case 'searchResults':
+        handleSearchResults(message);
+        break;
+      case 'savedViewsUpdated':
+        handleSavedViewsUpdated(message.views || []);
+        break;
       default:
         console.warn('[Annotative] Unknown command:', message.command);
     }
@@ -710,15 +1090,55 @@ function handleExtensionMessage(message) {
   }
 }
 
+function handleSearchResults(message) {
+  state.searchResults = {
+    query: message.query || '',
+    view: message.view || '',
+    ids: Array.isArray(message.ids) ? new Set(message.ids) : null,
+    error: message.error || '',
+  };
+  updateSearchError(state.filters.search);
+  applyFiltersAndRender();
+}
+
+function handleSavedViewsUpdated(views) {
+  state.savedViews = Array.isArray(views) ? views : [];
+  if (!elements.viewSelect) {
+    return;
+  }
+
+  elements.viewSelect.innerHTML = '<option value="">No Saved View</option>';
+  state.savedViews.forEach((view) => {
+    const option = document.createElement('option');
+    option.value = view.name;
+    option.textContent = view.name;
+    elements.viewSelect.appendChild(option);
+  });
+  elements.viewSelect.value = state.savedViews.some((view) => view.name === state.filters.view) ? state.filters.view : '';
+}
+
+function handleRevealAnnotation(id) {
+  const card = document.querySelector(`[data-annotation-id="${CSS.escape(id)}"]`);
+  if (!card) {
+    console.warn('[Annotative] Annotation to reveal is hidden by the current filters:', id);
+    return;
+  }
+
+  card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  card.classList.add('revealed');
+  setTimeout(() => card.classList.remove('revealed'), 2000);
+}
+
 function requestAnnotations() {
   vscode.postMessage({
     command: 'requestAnnotations',
   });
 }
 
-function handleUpdateAnnotations(annotations) {
+function handleUpdateAnnotations(annotations, currentUser) {
   try {
     state.annotations = annotations || [];
+    state.currentUser = currentUser || state.currentUser;
     updateFilterControls(state.filters);
     applyFiltersAndRender();
   } catch (error) {
@@ -731,6 +1151,9 @@ function handleTagsUpdated(tags) {
     const availableTags = Array.isArray(tags) ? tags : [];
     state.availableTags = availableTags;
     state.tagLabels = Object.fromEntries(availableTags.map((tag) => [tag.id, tag.label]));
+    state.tagParents = Object.fromEntries(
+      availableTags.filter((tag) => tag.parentId).map((tag) => [tag.id, tag.parentId])
+    );
     updateTagFilter(elements.tagFilter, extractTags(state.annotations), state.filters.tag);
   } catch (error) {
     console.error('[Annotative] Error updating tags:', error);
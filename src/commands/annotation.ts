@@ -1,10 +1,20 @@
 /**
  * Annotation Commands
- * Handles: add, remove, toggle, edit, view, undo
+ * Handles: add, annotate file, remove, toggle, set status, assign, set due date, edit, view, undo, redo, reanchor, hover actions
  */
 
+import * as fs from 'fs';
 import * as vscode from 'vscode';
-import { AnnotationItem } from '../ui';
+import {
+    AnnotationUndoConflictError,
+    formatHistoryEntry,
+    getAllowedTransitions,
+    getAnnotationStatus,
+    getStatusLabel,
+    normalizeDueDate,
+} from '../managers';
+import { Annotation } from '../types';
+import { ANNOTATION_HOVER_ACTIONS, AnnotationItem, pickTagsForAnnotation, revealTargetedAnnotation } from '../ui';
 import { CommandContext } from './index';
 
 export function registerAnnotationCommands(
@@ -14,6 +24,25 @@ export function registerAnnotationCommands(
     const { annotationManager, sidebarWebview, ANNOTATION_COLORS } = cmdContext;
     const exportService = annotationManager.getExportService();
 
+    // Commands invoked from the command palette have no target, so ask for one
+    const pickAnnotation = async (item?: AnnotationItem | { annotation: Annotation }): Promise<Annotation | undefined> => {
+        if (item?.annotation) {
+            return item.annotation;
+        }
+
+        await annotationManager.ensureAnnotationsLoaded();
+        const picked = await vscode.window.showQuickPick(
+            annotationManager.getAllAnnotations().map(candidate => ({
+                label: candidate.comment,
+                description: getStatusLabel(getAnnotationStatus(candidate)),
+                detail: vscode.workspace.asRelativePath(candidate.filePath),
+                annotation: candidate,
+            })),
+            { placeHolder: 'Select an annotation' }
+        );
+        return picked?.annotation;
+    };
+
     // Command: Add annotation to selected text
     const addAnnotationCommand = vscode.commands.registerTextEditorCommand(
         'annotative.addAnnotation',
@@ -37,21 +66,8 @@ export function registerAnnotationCommands(
                 return;
             }
 
-            // Get available tags (user-defined only)
-            const customTags = annotationManager.getCustomTags();
-            let selectedTags: string[] = [];
-
-            if (customTags.length > 0) {
-                const tagOptions = customTags.map(tag => ({
-                    label: tag.name,
-                    value: tag.id,
-                }));
-                const selected = await vscode.window.showQuickPick(tagOptions, {
-                    placeHolder: 'Select tags (optional)',
-                    canPickMany: true
-                });
-                selectedTags = selected?.map(tag => tag.value) || [];
-            }
+            // Get tags (user-defined only), with suggestions pre-selected
+            const selectedTags = await pickTagsForAnnotation(annotationManager, comment, editor.document.uri.fsPath);
 
             // Get color via quick pick
             const selectedColor = await vscode.window.showQuickPick(ANNOTATION_COLORS, {
@@ -141,23 +157,8 @@ export function registerAnnotationCommands(
                 return;
             }
 
-            // Prompt for tags if custom tags exist
-            const customTags = annotationManager.getCustomTags();
-            let selectedTags: string[] = [];
-
-            if (customTags.length > 0) {
-                const tagOptions = customTags.map(tag => ({
-                    label: tag.name,
-                    value: tag.id,
-                }));
-                const tags = await vscode.window.showQuickPick(tagOptions, {
-                    placeHolder: 'Select tags (optional)',
-                    canPickMany: true
-                });
-                if (tags) {
-                    selectedTags = tags.map(tag => tag.value);
-                }
-            }
+            // Prompt for tags if custom tags exist, with suggestions pre-selected
+            const selectedTags = await pickTagsForAnnotation(annotationManager, template.comment, editor.document.uri.fsPath);
 
             // Add annotation with template and selected tags
             await annotationManager.addAnnotation(
@@ -204,6 +205,43 @@ export function registerAnnotationCommands(
         }
     );
 
+    // Command: Annotate a whole file, e.g. an image, from the explorer or the active tab
+    const annotateFileCommand = vscode.commands.registerCommand(
+        'annotative.annotateFile',
+        async (uri?: vscode.Uri) => {
+            const activeInput = vscode.window.tabGroups.activeTabGroup.activeTab?.input as { uri?: unknown } | undefined;
+            const targetUri = uri instanceof vscode.Uri
+                ? uri
+                : activeInput?.uri instanceof vscode.Uri ? activeInput.uri : undefined;
+            if (!targetUri || targetUri.scheme !== 'file') {
+                vscode.window.showWarningMessage('Open or select a file to annotate.');
+                return;
+            }
+
+            const comment = await vscode.window.showInputBox({
+                prompt: `Add a comment on ${vscode.workspace.asRelativePath(targetUri)}`,
+                placeHolder: 'Describe the issue or note',
+                validateInput: (value) => {
+                    return value.trim().length === 0 ? 'Comment required' : null;
+                }
+            });
+
+            if (!comment) {
+                return;
+            }
+
+            const selectedTags = await pickTagsForAnnotation(annotationManager, comment, targetUri.fsPath);
+
+            const selectedColor = await vscode.window.showQuickPick(ANNOTATION_COLORS, {
+                placeHolder: 'Select a color'
+            });
+
+            await annotationManager.addFileAnnotation(targetUri.fsPath, comment, selectedTags, selectedColor?.value);
+            sidebarWebview.refreshAnnotations();
+            vscode.window.showInformationMessage('Annotation added.');
+        }
+    );
+
     // Command: Remove annotation
     const removeAnnotationCommand = vscode.commands.registerCommand(
         'annotative.removeAnnotation',
@@ -225,11 +263,136 @@ export function registerAnnotationCommands(
     const toggleResolvedCommand = vscode.commands.registerCommand(
         'annotative.toggleResolved',
         async (item: AnnotationItem) => {
-            await annotationManager.toggleResolvedStatus(item.annotation.id, item.annotation.filePath);
+            try {
+                await annotationManager.toggleResolvedStatus(item.annotation.id, item.annotation.filePath);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to change status: ${message}`);
+                return;
+            }
+            sidebarWebview.refreshAnnotations();
+
+            const updated = annotationManager.getAnnotation(item.annotation.id, item.annotation.filePath) || item.annotation;
+            vscode.window.showInformationMessage(`Status: ${getStatusLabel(getAnnotationStatus(updated))}`);
+        }
+    );
+
+    // Command: Move an annotation to another workflow status
+    const setStatusCommand = vscode.commands.registerCommand(
+        'annotative.setStatus',
+        async (item?: AnnotationItem | { annotation: Annotation }) => {
+            const annotation = await pickAnnotation(item);
+            if (!annotation) {
+                return;
+            }
+
+            const currentStatus = getAnnotationStatus(annotation);
+            const allowed = getAllowedTransitions(currentStatus);
+            if (allowed.length === 0) {
+                vscode.window.showWarningMessage(`No status changes are allowed from ${getStatusLabel(currentStatus)}.`);
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                allowed.map(status => ({ label: getStatusLabel(status), value: status })),
+                { placeHolder: `Current status: ${getStatusLabel(currentStatus)}` }
+            );
+            if (!selected) {
+                return;
+            }
+
+            try {
+                await annotationManager.setAnnotationStatus(annotation.id, annotation.filePath, selected.value);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to change status: ${message}`);
+                return;
+            }
+            sidebarWebview.refreshAnnotations();
+            vscode.window.showInformationMessage(`Status: ${selected.label}`);
+        }
+    );
+
+    // Command: Assign an annotation to someone
+    const assignAnnotationCommand = vscode.commands.registerCommand(
+        'annotative.assignAnnotation',
+        async (item?: AnnotationItem | { annotation: Annotation }) => {
+            const annotation = await pickAnnotation(item);
+            if (!annotation) {
+                return;
+            }
+
+            const suggestions = await annotationManager.getAssigneeSuggestions();
+            const currentUser = annotationManager.getCurrentUser();
+            const otherLabel = 'Other...';
+            const unassignLabel = 'Unassigned';
+            const selected = await vscode.window.showQuickPick(
+                [
+                    ...suggestions.map(name => ({
+                        label: name,
+                        description: [
+                            name === currentUser ? 'you' : '',
+                            name === annotation.assignee ? '(current)' : '',
+                        ].filter(Boolean).join(' '),
+                    })),
+                    { label: unassignLabel, description: annotation.assignee ? '' : '(current)' },
+                    { label: otherLabel, description: 'Enter a name' },
+                ],
+                { placeHolder: 'Assign annotation to' }
+            );
+            if (!selected) {
+                return;
+            }
+
+            let assignee = selected.label === unassignLabel ? '' : selected.label;
+            if (selected.label === otherLabel) {
+                const entered = await vscode.window.showInputBox({
+                    prompt: 'Assignee name',
+                    value: annotation.assignee,
+                    validateInput: (value) => value.trim().length === 0 ? 'Name required' : null
+                });
+                if (!entered) {
+                    return;
+                }
+                assignee = entered;
+            }
+
+            await annotationManager.assignAnnotation(annotation.id, annotation.filePath, { assignee });
             sidebarWebview.refreshAnnotations();
+            vscode.window.showInformationMessage(assignee ? `Assigned to ${assignee.trim()}.` : 'Annotation unassigned.');
+        }
+    );
 
-            const status = item.annotation.resolved ? 'open' : 'resolved';
-            vscode.window.showInformationMessage(`Status: ${status}`);
+    // Command: Set or clear an annotation's due date
+    const setDueDateCommand = vscode.commands.registerCommand(
+        'annotative.setDueDate',
+        async (item?: AnnotationItem | { annotation: Annotation }) => {
+            const annotation = await pickAnnotation(item);
+            if (!annotation) {
+                return;
+            }
+
+            const dueDate = await vscode.window.showInputBox({
+                prompt: 'Due date (YYYY-MM-DD). Leave empty to clear.',
+                placeHolder: 'YYYY-MM-DD',
+                value: annotation.dueDate,
+                validateInput: (value) => {
+                    return value.trim().length > 0 && !normalizeDueDate(value) ? 'Use a valid YYYY-MM-DD date' : null;
+                }
+            });
+            if (dueDate === undefined) {
+                return;
+            }
+
+            try {
+                await annotationManager.assignAnnotation(annotation.id, annotation.filePath, { dueDate });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to set due date: ${message}`);
+                return;
+            }
+            sidebarWebview.refreshAnnotations();
+            vscode.window.showInformationMessage(dueDate.trim() ? `Due ${dueDate.trim()}.` : 'Due date cleared.');
         }
     );
 
@@ -304,12 +467,26 @@ export function registerAnnotationCommands(
             const tagsStr = annotation.tags && annotation.tags.length > 0
                 ? annotationManager.resolveTagLabels(annotation.tags).join(', ')
                 : 'none';
-            const resolvedStr = annotation.resolved ? 'Resolved' : 'Open';
+            const statusStr = getStatusLabel(getAnnotationStatus(annotation));
+            const history = annotation.history || [];
 
-            vscode.window.showInformationMessage(
-                `${resolvedStr} | Tags: ${tagsStr} | ${annotation.comment}`,
-                { modal: false }
+            const action = await vscode.window.showInformationMessage(
+                `${statusStr} | Tags: ${tagsStr} | ${annotation.comment}`,
+                { modal: false },
+                ...(history.length > 0 ? ['Show History'] : [])
             );
+            if (action !== 'Show History') {
+                return;
+            }
+
+            const entries = history
+                .map(entry => formatHistoryEntry(entry, tagIds => annotationManager.resolveTagLabels(tagIds)))
+                .join('\n');
+            const doc = await vscode.workspace.openTextDocument({
+                content: `# Annotation History\n\n> ${annotation.comment}\n\n${entries}\n`,
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(doc);
         }
     );
 
@@ -327,13 +504,161 @@ export function registerAnnotationCommands(
         }
     );
 
+    // Command: Undo the most recent annotation change
+    const undoCommand = vscode.commands.registerCommand(
+        'annotative.undo',
+        async () => {
+            const label = await runUndoStep(overwriteChanged => annotationManager.undo(overwriteChanged), 'Undo Anyway');
+            if (label === false) {
+                return;
+            }
+            if (label) {
+                sidebarWebview.refreshAnnotations();
+                vscode.window.showInformationMessage(`Undid: ${label}`);
+            } else {
+                vscode.window.showWarningMessage('Nothing to undo');
+            }
+        }
+    );
+
+    // Command: Redo the most recently undone annotation change
+    const redoCommand = vscode.commands.registerCommand(
+        'annotative.redo',
+        async () => {
+            const label = await runUndoStep(overwriteChanged => annotationManager.redo(overwriteChanged), 'Redo Anyway');
+            if (label === false) {
+                return;
+            }
+            if (label) {
+                sidebarWebview.refreshAnnotations();
+                vscode.window.showInformationMessage(`Redid: ${label}`);
+            } else {
+                vscode.window.showWarningMessage('Nothing to redo');
+            }
+        }
+    );
+
+    // Command: Re-anchor an orphaned (or any) annotation to the current selection
+    const reanchorAnnotationCommand = vscode.commands.registerCommand(
+        'annotative.reanchorAnnotation',
+        async (item?: AnnotationItem | { annotation: Annotation }) => {
+            let annotation = item?.annotation;
+
+            if (!annotation) {
+                await annotationManager.ensureAnnotationsLoaded();
+                const orphaned = annotationManager.getOrphanedAnnotations();
+                if (orphaned.length === 0) {
+                    vscode.window.showInformationMessage('No orphaned annotations.');
+                    return;
+                }
+
+                const picked = await vscode.window.showQuickPick(
+                    orphaned.map(candidate => ({
+                        label: candidate.comment,
+                        description: vscode.workspace.asRelativePath(candidate.filePath),
+                        detail: candidate.text,
+                        annotation: candidate,
+                    })),
+                    { placeHolder: 'Select an annotation to re-anchor' }
+                );
+                if (!picked) {
+                    return;
+                }
+                annotation = picked.annotation;
+            }
+
+            const fileExists = fs.existsSync(annotation.filePath);
+            if (fileExists && !await revealTargetedAnnotation(annotation)) {
+                const document = await vscode.workspace.openTextDocument(annotation.filePath);
+                const editor = await vscode.window.showTextDocument(document);
+                editor.revealRange(annotation.range, vscode.TextEditorRevealType.InCenter);
+            }
+
+            const action = await vscode.window.showInformationMessage(
+                fileExists
+                    ? 'Select the new code for this annotation, then choose "Use Selection".'
+                    : 'The annotated file no longer exists. Open the file where the code now lives, select it, then choose "Use Selection".',
+                'Use Selection'
+            );
+            if (action !== 'Use Selection') {
+                return;
+            }
+
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.selection.isEmpty) {
+                vscode.window.showWarningMessage('Select text to re-anchor the annotation to.');
+                return;
+            }
+
+            const reanchored = await annotationManager.reanchorAnnotation(
+                annotation.id,
+                annotation.filePath,
+                editor.document,
+                new vscode.Range(editor.selection.start, editor.selection.end)
+            );
+            if (!reanchored) {
+                vscode.window.showWarningMessage('Annotation no longer exists.');
+                return;
+            }
+
+            sidebarWebview.refreshAnnotations();
+            vscode.window.showInformationMessage('Annotation re-anchored.');
+        }
+    );
+
+    // Command: Run an action from a hover link. Links carry ids because command arguments
+    // are JSON and would lose the annotation's Range
+    const runAnnotationActionCommand = vscode.commands.registerCommand(
+        'annotative.runAnnotationAction',
+        async (action: string, annotationId: string, filePath: string) => {
+            const annotation = annotationManager.getAnnotation(annotationId, filePath);
+            if (!annotation || !(ANNOTATION_HOVER_ACTIONS as readonly string[]).includes(action)) {
+                return;
+            }
+
+            await vscode.commands.executeCommand(`annotative.${action}`, { annotation });
+        }
+    );
+
     return {
         addAnnotationCommand,
         addAnnotationFromTemplateCommand,
+        annotateFileCommand,
         removeAnnotationCommand,
         toggleResolvedCommand,
+        setStatusCommand,
+        assignAnnotationCommand,
+        setDueDateCommand,
         editAnnotationCommand,
         viewAnnotationCommand,
-        undoLastAnnotationCommand
+        undoLastAnnotationCommand,
+        undoCommand,
+        redoCommand,
+        reanchorAnnotationCommand,
+        runAnnotationActionCommand
     };
 }
+
+/**
+ * Run an undo or redo, asking before it overwrites annotations that changed after the
+ * step was recorded. Returns false when the user keeps their changes.
+ */
+async function runUndoStep(
+    step: (overwriteChanged: boolean) => Promise<string | undefined>,
+    overwriteAction: string
+): Promise<string | undefined | false> {
+    try {
+        return await step(false);
+    } catch (error) {
+        if (!(error instanceof AnnotationUndoConflictError)) {
+            throw error;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `${error.message} and would lose those changes.`,
+            { modal: true },
+            overwriteAction
+        );
+        return choice === overwriteAction ? step(true) : false;
+    }
+}
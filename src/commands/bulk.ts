@@ -50,17 +50,19 @@ export function registerBulkCommands(
             });
 
             if (newTags && newTags.length > 0) {
-                for (const annotation of selected) {
-                    const updated = new Set(annotation.tags || []);
-                    newTags.forEach(tag => updated.add(tag.value));
-                    await annotationManager.editAnnotation(
-                        annotation.id,
-                        annotation.filePath,
-                        annotation.comment,
-                        Array.from(updated),
-                        annotation.color
-                    );
-                }
+                await annotationManager.runBatch('Bulk tag', async () => {
+                    for (const annotation of selected) {
+                        const updated = new Set(annotation.tags || []);
+                        newTags.forEach(tag => updated.add(tag.value));
+                        await annotationManager.editAnnotation(
+                            annotation.id,
+                            annotation.filePath,
+                            annotation.comment,
+                            Array.from(updated),
+                            annotation.color
+                        );
+                    }
+                });
                 annotationProvider.deselectAllAnnotations();
                 sidebarWebview.refreshAnnotations();
                 vscode.window.showInformationMessage(`Tagged ${selected.length} annotation(s)`);
@@ -84,9 +86,11 @@ export function registerBulkCommands(
             );
 
             if (confirmed === 'Yes') {
-                for (const annotation of selected) {
-                    await annotationManager.toggleResolvedStatus(annotation.id, annotation.filePath);
-                }
+                await annotationManager.runBatch('Bulk resolve', async () => {
+                    for (const annotation of selected) {
+                        await annotationManager.toggleResolvedStatus(annotation.id, annotation.filePath);
+                    }
+                });
                 annotationProvider.deselectAllAnnotations();
                 sidebarWebview.refreshAnnotations();
                 vscode.window.showInformationMessage(`Resolved ${selected.length} annotation(s)`);
@@ -105,14 +109,16 @@ export function registerBulkCommands(
             }
 
             const confirmed = await vscode.window.showWarningMessage(
-                `Delete ${selected.length} annotation(s)? Cannot be undone.`,
+                `Delete ${selected.length} annotation(s)?`,
                 'Yes', 'No'
             );
 
             if (confirmed === 'Yes') {
-                for (const annotation of selected) {
-                    await annotationManager.removeAnnotation(annotation.id, annotation.filePath);
-                }
+                await annotationManager.runBatch('Bulk delete', async () => {
+                    for (const annotation of selected) {
+                        await annotationManager.removeAnnotation(annotation.id, annotation.filePath);
+                    }
+                });
                 annotationProvider.deselectAllAnnotations();
                 sidebarWebview.refreshAnnotations();
                 vscode.window.showInformationMessage(`Deleted ${selected.length} annotation(s)`);
@@ -135,15 +141,17 @@ export function registerBulkCommands(
             });
 
             if (selectedColor) {
-                for (const annotation of selected) {
-                    await annotationManager.editAnnotation(
-                        annotation.id,
-                        annotation.filePath,
-                        annotation.comment,
-                        annotation.tags,
-                        selectedColor.value
-                    );
-                }
+                await annotationManager.runBatch('Bulk color', async () => {
+                    for (const annotation of selected) {
+                        await annotationManager.editAnnotation(
+                            annotation.id,
+                            annotation.filePath,
+                            annotation.comment,
+                            annotation.tags,
+                            selectedColor.value
+                        );
+                    }
+                });
                 annotationProvider.deselectAllAnnotations();
                 sidebarWebview.refreshAnnotations();
                 vscode.window.showInformationMessage(`Changed color for ${selected.length} annotation(s)`);
@@ -0,0 +1,115 @@
+/**
+ * Comment Thread Commands
+ * Handles: reply, resolve, reopen, edit, save, cancel edit, and delete reply in native comment threads
+ */
+
+import * as vscode from 'vscode';
+import { AnnotationComment } from '../ui';
+import { CommandContext } from './index';
+
+function getCommentText(comment: AnnotationComment): string {
+    return typeof comment.body === 'string' ? comment.body : comment.body.value;
+}
+
+export function registerCommentCommands(
+    context: vscode.ExtensionContext,
+    cmdContext: CommandContext
+) {
+    const { annotationManager, commentController } = cmdContext;
+
+    if (!commentController) {
+        return {};
+    }
+
+    const reportError = (action: string, error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Failed to ${action}: ${message}`);
+    };
+
+    // Command: Reply from the thread's reply box
+    const replyCommand = vscode.commands.registerCommand(
+        'annotative.comments.reply',
+        async (reply: vscode.CommentReply) => {
+            const annotation = commentController.getAnnotation(reply.thread);
+            if (!annotation || reply.text.trim().length === 0) {
+                return;
+            }
+
+            await annotationManager.addReply(annotation.id, annotation.filePath, reply.text);
+        }
+    );
+
+    // Command: Resolve or reopen the thread's annotation
+    const setThreadStatus = (status: 'open' | 'resolved') => async (thread: vscode.CommentThread) => {
+        const annotation = commentController.getAnnotation(thread);
+        if (!annotation) {
+            return;
+        }
+
+        try {
+            await annotationManager.setAnnotationStatus(annotation.id, annotation.filePath, status);
+        } catch (error) {
+            reportError('change status', error);
+        }
+    };
+    const resolveThreadCommand = vscode.commands.registerCommand('annotative.comments.resolve', setThreadStatus('resolved'));
+    const reopenThreadCommand = vscode.commands.registerCommand('annotative.comments.reopen', setThreadStatus('open'));
+
+    // Command: Switch a comment into edit mode
+    const editCommentCommand = vscode.commands.registerCommand(
+        'annotative.comments.edit',
+        (comment: AnnotationComment) => {
+            commentController.startEditing(comment);
+        }
+    );
+
+    // Command: Save an edited annotation comment or reply
+    const saveCommentCommand = vscode.commands.registerCommand(
+        'annotative.comments.save',
+        async (comment: AnnotationComment) => {
+            const annotation = commentController.getAnnotation(comment);
+            const text = getCommentText(comment).trim();
+            if (!annotation || text.length === 0) {
+                return;
+            }
+
+            commentController.cancelEditing(comment);
+            if (comment.replyId) {
+                await annotationManager.editReply(annotation.id, annotation.filePath, comment.replyId, text);
+            } else {
+                await annotationManager.editAnnotation(annotation.id, annotation.filePath, text, annotation.tags, annotation.color);
+            }
+        }
+    );
+
+    // Command: Leave edit mode without saving
+    const cancelEditCommand = vscode.commands.registerCommand(
+        'annotative.comments.cancelEdit',
+        (comment: AnnotationComment) => {
+            commentController.cancelEditing(comment);
+        }
+    );
+
+    // Command: Delete a reply
+    const deleteReplyCommand = vscode.commands.registerCommand(
+        'annotative.comments.deleteReply',
+        async (comment: AnnotationComment) => {
+            const annotation = commentController.getAnnotation(comment);
+            if (!annotation || !comment.replyId) {
+                return;
+            }
+
+            await annotationManager.removeReply(annotation.id, annotation.filePath, comment.replyId);
+        }
+    );
+
+    return {
+        replyCommand,
+        resolveThreadCommand,
+        reopenThreadCommand,
+        editCommentCommand,
+        saveCommentCommand,
+        cancelEditCommand,
+        deleteReplyCommand
+    };
+}
@@ -83,6 +83,7 @@ export function registerExportCommands(
                 return;
             }
 
+            await annotationManager.ensureAnnotationsLoaded();
             const annotations = annotationManager.getAllAnnotations();
             if (annotations.length === 0) {
                 vscode.window.showInformationMessage('No annotations to export');
@@ -129,6 +130,7 @@ export function registerExportCommands(
                 return;
             }
 
+            await annotationManager.ensureAnnotationsLoaded();
             const allAnnotations = annotationManager.getAllAnnotations();
             const selectedAnnotations = allAnnotations.filter(a => selectedIds.includes(a.id));
 
@@ -226,6 +228,7 @@ export function registerExportCommands(
                 return;
             }
 
+            await annotationManager.ensureAnnotationsLoaded();
             const annotations = annotationManager.getAllAnnotations();
             const prepared = exportService.prepareCopilotIntentExport(
                 annotations,
@@ -285,6 +288,7 @@ export function registerExportCommands(
                 return;
             }
 
+            await annotationManager.ensureAnnotationsLoaded();
             const allAnnotations = annotationManager.getAllAnnotations();
             const annotations = includeResolved.value
                 ? allAnnotations
@@ -325,6 +329,7 @@ export function registerExportCommands(
                 return;
             }
 
+            await annotationManager.ensureAnnotationsLoaded();
             const allAnnotations = annotationManager.getAllAnnotations();
             const unresolved = allAnnotations.filter(a => !a.resolved);
 
@@ -1,10 +1,12 @@
 /**
  * Filter & View Commands
- * Handles: filter by status, filter by tag, search, clear filters, refresh, go to annotation
+ * Handles: filter by status, filter by assignee, filter by tag, search, clear filters, refresh, go to annotation
  */
 
 import * as vscode from 'vscode';
+import { ANNOTATION_STATUSES, getStatusLabel } from '../managers';
 import { Annotation } from '../types';
+import { revealTargetedAnnotation, showAnnotationSearch } from '../ui';
 import { CommandContext } from './index';
 
 export function registerFilterCommands(
@@ -33,7 +35,11 @@ export function registerFilterCommands(
             const options = [
                 { label: 'All Annotations', value: 'all' as const, description: currentFilter === 'all' ? '(current)' : '' },
                 { label: 'Unresolved Only', value: 'unresolved' as const, description: currentFilter === 'unresolved' ? '(current)' : '' },
-                { label: 'Resolved Only', value: 'resolved' as const, description: currentFilter === 'resolved' ? '(current)' : '' }
+                ...ANNOTATION_STATUSES.map(status => ({
+                    label: `${getStatusLabel(status)} Only`,
+                    value: status,
+                    description: currentFilter === status ? '(current)' : ''
+                }))
             ];
 
             const selected = await vscode.window.showQuickPick(options, {
@@ -47,6 +53,27 @@ export function registerFilterCommands(
         }
     );
 
+    // Command: Filter by assignee
+    const filterByAssigneeCommand = vscode.commands.registerCommand(
+        'annotative.filterByAssignee',
+        async () => {
+            const currentFilter = sidebarWebview.getFilterState().assignee;
+            const options = [
+                { label: 'Everyone', value: 'all' as const, description: currentFilter === 'all' ? '(current)' : '' },
+                { label: 'My Annotations', value: 'me' as const, description: currentFilter === 'me' ? '(current)' : '' }
+            ];
+
+            const selected = await vscode.window.showQuickPick(options, {
+                placeHolder: 'Show annotations assigned to'
+            });
+
+            if (selected) {
+                sidebarWebview.setFilterState({ assignee: selected.value });
+                vscode.window.showInformationMessage(`Filter: ${selected.label}`);
+            }
+        }
+    );
+
     // Command: Filter by tag
     const filterByTagCommand = vscode.commands.registerCommand(
         'annotative.filterByTag',
@@ -78,19 +105,12 @@ export function registerFilterCommands(
     const searchAnnotationsCommand = vscode.commands.registerCommand(
         'annotative.searchAnnotations',
         async () => {
-            const query = await vscode.window.showInputBox({
-                prompt: 'Search annotations by comment, code, author, or tag',
-                placeHolder: 'Enter search query...',
-                value: sidebarWebview.getFilterState().search
-            });
-
-            if (query !== undefined) {
-                sidebarWebview.setFilterState({ search: query.trim() });
-                if (query) {
-                    vscode.window.showInformationMessage(`Search: "${query}"`);
-                } else {
-                    vscode.window.showInformationMessage('Search cleared');
-                }
+            const result = await showAnnotationSearch(annotationManager, sidebarWebview.getFilterState().search);
+            if (result?.type === 'annotation') {
+                await vscode.commands.executeCommand('annotative.goToAnnotation', result.annotation);
+            } else if (result?.type === 'showInSidebar') {
+                sidebarWebview.setFilterState({ search: result.query });
+                await sidebarWebview.show();
             }
         }
     );
@@ -109,6 +129,10 @@ export function registerFilterCommands(
         'annotative.goToAnnotation',
         async (annotation: Annotation) => {
             try {
+                if (await revealTargetedAnnotation(annotation)) {
+                    return;
+                }
+
                 const document = await vscode.workspace.openTextDocument(vscode.Uri.file(annotation.filePath));
                 await annotationManager.rebaseAnnotationsForDocument(document);
                 const editor = await vscode.window.showTextDocument(document);
@@ -132,7 +156,8 @@ export function registerFilterCommands(
                 { label: 'By File', value: 'file' as const, description: currentGroupBy === 'file' ? '(current)' : '' },
                 { label: 'By Tag', value: 'tag' as const, description: currentGroupBy === 'tag' ? '(current)' : '' },
                 { label: 'By Status', value: 'status' as const, description: currentGroupBy === 'status' ? '(current)' : '' },
-                { label: 'By Folder', value: 'folder' as const, description: currentGroupBy === 'folder' ? '(current)' : '' }
+                { label: 'By Folder', value: 'folder' as const, description: currentGroupBy === 'folder' ? '(current)' : '' },
+                { label: 'By Due Date', value: 'due' as const, description: currentGroupBy === 'due' ? '(current)' : '' }
             ];
 
             const selected = await vscode.window.showQuickPick(options, {
@@ -149,6 +174,7 @@ export function registerFilterCommands(
     return {
         refreshCommand,
         filterByStatusCommand,
+        filterByAssigneeCommand,
         filterByTagCommand,
         searchAnnotationsCommand,
         clearFiltersCommand,
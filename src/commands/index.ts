@@ -4,8 +4,16 @@
  */
 
 import * as vscode from 'vscode';
-import { AiResponseReviewService, AnnotationManager, LocalDiffReviewService, MarkdownPlanReviewService, ReviewArtifactManager } from '../managers';
-import { AnnotationProvider, PlanReviewPanel, SidebarWebview } from '../ui';
+import {
+    AiResponseReviewService,
+    AnnotationManager,
+    LocalDiffReviewService,
+    MarkdownPlanReviewService,
+    ReviewArtifactManager,
+    SavedViewManager,
+    StorageMergeService,
+} from '../managers';
+import { AnnotationCommentController, AnnotationProvider, PlanReviewPanel, SidebarWebview } from '../ui';
 
 export type CommandContext = {
     annotationManager: AnnotationManager;
@@ -16,16 +24,24 @@ export type CommandContext = {
     localDiffReviewService?: LocalDiffReviewService;
     markdownPlanReviewService?: MarkdownPlanReviewService;
     planReviewPanel?: PlanReviewPanel;
+    storageMergeService?: StorageMergeService;
+    savedViewManager?: SavedViewManager;
+    commentController?: AnnotationCommentController;
     ANNOTATION_COLORS: Array<{ label: string; value: string }>;
 };
 
 // Import all command modules
 export { registerAnnotationCommands } from './annotation';
 export { registerAiResponseReviewCommands } from './aiResponseReview';
+export { registerCommentCommands } from './comments';
 export { registerExportCommands } from './export';
 export { registerFilterCommands } from './filters';
 export { registerLocalDiffReviewCommands } from './localDiffReview';
 export { registerNavigationCommands } from './navigation';
 export { registerPlanReviewCommands } from './planReview';
+export { registerRuleCommands } from './rules';
+export { registerSavedViewCommands } from './savedViews';
 export { registerSidebarCommands } from './sidebar';
+export { registerStorageMergeCommands } from './storageMerge';
 export { registerTagCommands } from './tags';
+export { registerTagPackCommands } from './tagPacks';
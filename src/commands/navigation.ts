@@ -24,8 +24,7 @@ export function registerNavigationCommands(
             return;
         }
 
-        const filePath = editor.document.uri.fsPath;
-        const annotations = manager.getAnnotationsForFile(filePath);
+        const annotations = manager.getAnnotationsForDocument(editor.document);
 
         if (annotations.length === 0) {
             vscode.window.showInformationMessage('No annotations in this file');
@@ -119,7 +118,7 @@ export function registerNavigationCommands(
         'annotative.deleteAll',
         async () => {
             const confirmed = await vscode.window.showWarningMessage(
-                'Delete ALL annotations? This cannot be undone!',
+                'Delete ALL annotations? Use "Undo Annotation Change" to restore them.',
                 'Yes', 'No'
             );
 
@@ -0,0 +1,92 @@
+/**
+ * Automation Rule Commands
+ * Handles: dry run of the rules in .annotative/rules.json against existing annotations
+ */
+
+import * as vscode from 'vscode';
+import {
+    AnnotationManager,
+    AnnotationRuleChange,
+    AnnotationRuleDryRun,
+    getStatusLabel,
+    isAnnotationStatus,
+    RULES_FILE_NAME,
+} from '../managers';
+import { CommandContext } from './index';
+
+export function registerRuleCommands(
+    context: vscode.ExtensionContext,
+    cmdContext: CommandContext
+) {
+    const { annotationManager } = cmdContext;
+
+    // Command: Report what the automation rules would change, without changing anything
+    const dryRunRulesCommand = vscode.commands.registerCommand(
+        'annotative.dryRunRules',
+        async () => {
+            await annotationManager.ready;
+            if (!await annotationManager.reloadRules()) {
+                vscode.window.showErrorMessage(`Could not read ${RULES_FILE_NAME}. It must be valid JSON with a "rules" list.`);
+                return;
+            }
+
+            await annotationManager.ensureAnnotationsLoaded();
+            const dryRun = annotationManager.previewRules();
+            if (dryRun.ruleCount === 0 && dryRun.errors.length === 0) {
+                vscode.window.showInformationMessage(`No automation rules. Add them to .annotative/${RULES_FILE_NAME}.`);
+                return;
+            }
+
+            const doc = await vscode.workspace.openTextDocument({
+                content: formatDryRunReport(annotationManager, dryRun),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(doc);
+        }
+    );
+
+    return {
+        dryRunRulesCommand
+    };
+}
+
+function formatDryRunReport(annotationManager: AnnotationManager, dryRun: AnnotationRuleDryRun): string {
+    const total = annotationManager.getAllAnnotations().length;
+    const lines = [
+        '# Automation Rules Dry Run',
+        '',
+        `${dryRun.ruleCount} rule(s) would change ${dryRun.results.length} of ${total} annotation(s). Nothing was changed.`,
+    ];
+
+    if (dryRun.errors.length > 0) {
+        lines.push('', '## Skipped Rules', '', ...dryRun.errors.map(error => `- ${error}`));
+    }
+
+    dryRun.results.forEach(({ annotation, changes }) => {
+        const location = `${vscode.workspace.asRelativePath(annotation.filePath, false)}:${annotation.range.start.line + 1}`;
+        lines.push(
+            '',
+            `## ${location}`,
+            '',
+            `> ${annotation.comment.split('\n')[0]}`,
+            '',
+            ...changes.map(change => formatChange(annotationManager, change))
+        );
+    });
+
+    return `${lines.join('\n')}\n`;
+}
+
+function formatChange(annotationManager: AnnotationManager, change: AnnotationRuleChange): string {
+    const formatValue = (value: AnnotationRuleChange['newValue'] | undefined) => {
+        if (Array.isArray(value)) {
+            return value.length > 0 ? annotationManager.resolveTagLabels(value).join(', ') : '(none)';
+        }
+        if (change.field === 'status' && isAnnotationStatus(value)) {
+            return getStatusLabel(value);
+        }
+        return value ?? '(none)';
+    };
+
+    return `- ${change.field}: ${formatValue(change.previousValue)} → ${formatValue(change.newValue)} (${change.rules.join(', ')})`;
+}
@@ -0,0 +1,126 @@
+/**
+ * Saved View Commands
+ * Handles: select, save, and delete saved filter views for the sidebar
+ */
+
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { pickSavedView, promptForSavedView } from '../ui';
+import { CommandContext } from './index';
+
+export function registerSavedViewCommands(
+    context: vscode.ExtensionContext,
+    cmdContext: CommandContext
+) {
+    const { annotationManager, sidebarWebview, savedViewManager } = cmdContext;
+
+    if (!savedViewManager) {
+        return {};
+    }
+
+    // Command: Pick a saved view for the sidebar
+    const selectSavedViewCommand = vscode.commands.registerCommand(
+        'annotative.selectSavedView',
+        async () => {
+            await savedViewManager.ready;
+            const pick = await pickSavedView(
+                savedViewManager.getViews(),
+                sidebarWebview.getFilterState().view,
+                tagId => annotationManager.resolveTagLabel(tagId)
+            );
+
+            switch (pick?.type) {
+                case 'apply':
+                    sidebarWebview.applySavedView(pick.name);
+                    await sidebarWebview.show();
+                    break;
+                case 'save':
+                    await vscode.commands.executeCommand('annotative.saveView');
+                    break;
+                case 'delete':
+                    await vscode.commands.executeCommand('annotative.deleteSavedView');
+                    break;
+                case 'openFile': {
+                    const filePath = savedViewManager.getStorageFilePath();
+                    if (!filePath || !fs.existsSync(filePath)) {
+                        vscode.window.showInformationMessage('No saved views yet. Saving a view creates .annotative/views.json.');
+                        return;
+                    }
+                    await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+                    break;
+                }
+            }
+        }
+    );
+
+    // Command: Save the sidebar filters as a named view
+    const saveViewCommand = vscode.commands.registerCommand(
+        'annotative.saveView',
+        async () => {
+            await savedViewManager.ready;
+            const filters = sidebarWebview.getFilterState();
+            const view = await promptForSavedView(
+                annotationManager,
+                filters,
+                filters.view ? savedViewManager.getView(filters.view) : undefined
+            );
+            if (!view) {
+                return;
+            }
+
+            const replacing = savedViewManager.getView(view.name);
+            if (replacing && replacing.name !== filters.view) {
+                const overwrite = await vscode.window.showWarningMessage(
+                    `A view named "${replacing.name}" already exists. Replace it?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (overwrite !== 'Replace') {
+                    return;
+                }
+            }
+
+            try {
+                await savedViewManager.saveView(view);
+                sidebarWebview.applySavedView(view.name);
+                vscode.window.showInformationMessage(`Saved view "${view.name}"`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to save view: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    );
+
+    // Command: Delete a saved view
+    const deleteSavedViewCommand = vscode.commands.registerCommand(
+        'annotative.deleteSavedView',
+        async () => {
+            await savedViewManager.ready;
+            const views = savedViewManager.getViews();
+            if (views.length === 0) {
+                vscode.window.showInformationMessage('No saved views to delete');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                views.map(view => ({ label: view.name })),
+                { placeHolder: 'Select a saved view to delete' }
+            );
+            if (!selected) {
+                return;
+            }
+
+            try {
+                await savedViewManager.deleteView(selected.label);
+                vscode.window.showInformationMessage(`Deleted view "${selected.label}"`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to delete view: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    );
+
+    return {
+        selectSavedViewCommand,
+        saveViewCommand,
+        deleteSavedViewCommand
+    };
+}
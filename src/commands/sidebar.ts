@@ -1,9 +1,11 @@
 /**
  * Sidebar Commands
- * Handles: show sidebar, toggle sidebar, project storage initialization
+ * Handles: show sidebar, toggle sidebar, reveal annotation, project storage initialization, storage layout migration
  */
 
 import * as vscode from 'vscode';
+import { Annotation, AnnotationStorageLayout } from '../types';
+import { AnnotationItem } from '../ui';
 import { CommandContext } from './index';
 
 function getStorageInitializationErrorMessage(error: unknown): string {
@@ -36,6 +38,14 @@ export function registerSidebarCommands(
         }
     );
 
+    // Command: Reveal an annotation's card in the sidebar
+    const revealInSidebarCommand = vscode.commands.registerCommand(
+        'annotative.revealInSidebar',
+        async (item: AnnotationItem | { annotation: Annotation }) => {
+            await sidebarWebview.revealAnnotation(item.annotation.id);
+        }
+    );
+
     // Command: Initialize project-based storage
     const initProjectStorageCommand = vscode.commands.registerCommand(
         'annotative.initProjectStorage',
@@ -86,10 +96,49 @@ export function registerSidebarCommands(
         }
     );
 
+    // Command: Switch between single-file and per-file storage layouts
+    const migrateStorageLayoutCommand = vscode.commands.registerCommand(
+        'annotative.migrateStorageLayout',
+        async () => {
+            const currentLayout = annotationManager.getStorageLayout();
+            const options: Array<vscode.QuickPickItem & { layout: AnnotationStorageLayout }> = [
+                {
+                    label: 'Single File',
+                    description: currentLayout === 'single' ? 'Current' : undefined,
+                    detail: 'Store every annotation in .annotative/annotations.json',
+                    layout: 'single',
+                },
+                {
+                    label: 'Sharded',
+                    description: currentLayout === 'sharded' ? 'Current' : undefined,
+                    detail: 'Store one file per annotated source file under .annotative/annotations/',
+                    layout: 'sharded',
+                },
+            ];
+
+            const selected = await vscode.window.showQuickPick(options, {
+                placeHolder: 'Select annotation storage layout',
+            });
+
+            if (!selected || selected.layout === currentLayout) {
+                return;
+            }
+
+            try {
+                await annotationManager.migrateStorageLayout(selected.layout);
+                vscode.window.showInformationMessage(`Annotation storage migrated to the ${selected.label.toLowerCase()} layout.`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to migrate storage layout: ${error}`);
+            }
+        }
+    );
+
     return {
         showSidebarCommand,
         toggleSidebarCommand,
+        revealInSidebarCommand,
         initProjectStorageCommand,
-        showStorageInfoCommand
+        showStorageInfoCommand,
+        migrateStorageLayoutCommand
     };
 }
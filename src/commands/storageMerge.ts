@@ -0,0 +1,92 @@
+/**
+ * Storage Merge Commands
+ * Handles: resolveStorageConflicts, installMergeDriver
+ */
+
+import * as vscode from 'vscode';
+import { formatStorageMergeConflicts, MERGE_DRIVER_FILE_NAME, type StorageConflictResolution } from '../managers';
+import { CommandContext } from './index';
+
+function formatResolutionReport(resolutions: StorageConflictResolution[]): string {
+    let markdown = '# Annotative Storage Merge\n\n';
+
+    resolutions.forEach(resolution => {
+        markdown += `## ${resolution.filePath}\n\n`;
+
+        if (resolution.error) {
+            markdown += `**Not merged:** ${resolution.error}\n\n`;
+            return;
+        }
+
+        markdown += resolution.staged
+            ? '**Status:** Merged and staged\n\n'
+            : '**Status:** Merged with conflicts that need review (not staged)\n\n';
+
+        if (resolution.result && resolution.result.conflicts.length > 0) {
+            markdown += `${formatStorageMergeConflicts(resolution.result.conflicts)}\n\n`;
+        }
+    });
+
+    return markdown;
+}
+
+export function registerStorageMergeCommands(
+    context: vscode.ExtensionContext,
+    cmdContext: CommandContext
+) {
+    const { annotationManager, storageMergeService } = cmdContext;
+
+    if (!storageMergeService) {
+        return {};
+    }
+
+    const resolveStorageConflictsCommand = vscode.commands.registerCommand(
+        'annotative.resolveStorageConflicts',
+        async () => {
+            try {
+                const resolutions = await storageMergeService.resolveConflicts(annotationManager.getStorageDirectory());
+                if (resolutions.length === 0) {
+                    vscode.window.showInformationMessage('No conflicted Annotative storage files found.');
+                    return;
+                }
+
+                await annotationManager.reloadFromStorage();
+
+                const doc = await vscode.workspace.openTextDocument({
+                    content: formatResolutionReport(resolutions),
+                    language: 'markdown'
+                });
+                await vscode.window.showTextDocument(doc);
+
+                const staged = resolutions.filter(resolution => resolution.staged).length;
+                vscode.window.showInformationMessage(`Merged ${staged} of ${resolutions.length} Annotative storage file(s).`);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to resolve storage conflicts: ${message}`);
+            }
+        }
+    );
+
+    const installMergeDriverCommand = vscode.commands.registerCommand(
+        'annotative.installMergeDriver',
+        async () => {
+            try {
+                const result = await storageMergeService.installMergeDriver(
+                    annotationManager.getStorageDirectory(),
+                    vscode.Uri.joinPath(context.extensionUri, 'dist', MERGE_DRIVER_FILE_NAME).fsPath,
+                    context.globalStorageUri.fsPath
+                );
+                const attributesNote = result.gitattributesUpdated ? ' and updated .gitattributes' : '';
+                vscode.window.showInformationMessage(`Installed the Annotative merge driver in git config${attributesNote}.`);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Failed to install merge driver: ${message}`);
+            }
+        }
+    );
+
+    return {
+        resolveStorageConflictsCommand,
+        installMergeDriverCommand,
+    };
+}
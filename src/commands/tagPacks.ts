@@ -0,0 +1,240 @@
+/**
+ * Tag Pack Commands
+ * Handles: export the custom tags as a tag pack, import packs from files or settings
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AnnotationManager } from '../managers';
+import { createTagPack, parseTagPack, readTagPack, TagPackConflictChoice, TagPackImportReport, writeTagPack } from '../tags';
+import { AnnotationTag, TagPackFile } from '../types';
+import { getPreferredWorkspaceFolder } from '../utils/workspaceContext';
+import { CommandContext } from './index';
+
+type TagPackSource = vscode.QuickPickItem & { load: () => Promise<TagPackFile | undefined> };
+
+export function registerTagPackCommands(
+    context: vscode.ExtensionContext,
+    cmdContext: CommandContext
+) {
+    const { annotationManager, sidebarWebview } = cmdContext;
+
+    // Command: Export custom tags as a tag pack
+    const exportTagPackCommand = vscode.commands.registerCommand(
+        'annotative.exportTagPack',
+        async () => {
+            const customTags = annotationManager.getCustomTags();
+            if (customTags.length === 0) {
+                vscode.window.showInformationMessage('No tags to export.');
+                return;
+            }
+
+            const selectedTags = await vscode.window.showQuickPick(
+                customTags.map(tag => ({ label: annotationManager.resolveTagLabel(tag.id), tag, picked: true })),
+                { placeHolder: 'Tags to export (parents of selected tags are included)', canPickMany: true }
+            );
+            if (!selectedTags || selectedTags.length === 0) {
+                return;
+            }
+
+            const workspaceFolder = getPreferredWorkspaceFolder();
+            const name = await vscode.window.showInputBox({
+                prompt: 'Tag pack name',
+                value: workspaceFolder ? `${workspaceFolder.name} tags` : 'Review tags',
+                validateInput: value => value.trim() ? null : 'Name required'
+            });
+            if (!name) {
+                return;
+            }
+
+            const version = await vscode.window.showInputBox({
+                prompt: 'Tag pack version',
+                value: '1.0.0',
+                validateInput: value => value.trim() ? null : 'Version required'
+            });
+            if (!version) {
+                return;
+            }
+
+            const fileName = `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tags'}.tagpack.json`;
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : undefined,
+                filters: { 'Tag Packs': ['json'] },
+                saveLabel: 'Export Tag Pack'
+            });
+            if (!target) {
+                return;
+            }
+
+            try {
+                const pack = createTagPack(
+                    selectedTags.map(item => item.tag),
+                    customTags,
+                    name.trim(),
+                    version.trim()
+                );
+                await writeTagPack(target.fsPath, pack);
+                vscode.window.showInformationMessage(`Exported ${pack.customTags.length} tag(s) to ${path.basename(target.fsPath)}`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to export tag pack: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    );
+
+    // Command: Import a tag pack from a file or the annotative.tags.packs setting
+    const importTagPackCommand = vscode.commands.registerCommand(
+        'annotative.importTagPack',
+        async () => {
+            try {
+                const source = await pickTagPackSource();
+                const pack = await source?.load();
+                if (!pack) {
+                    return;
+                }
+
+                const report = await annotationManager.importTagPack(
+                    pack,
+                    (existing, incoming) => promptForTagConflict(annotationManager, existing, incoming)
+                );
+                sidebarWebview.refreshAnnotations();
+
+                const summary = summarizeImport(pack, report);
+                const hasDetails = report.skipped.length > 0 || report.renamed.length > 0 || report.movedToTopLevel.length > 0;
+                const action = await vscode.window.showInformationMessage(summary, ...(hasDetails ? ['Show Details'] : []));
+                if (action === 'Show Details') {
+                    const doc = await vscode.workspace.openTextDocument({
+                        content: formatImportReport(pack, report),
+                        language: 'markdown'
+                    });
+                    await vscode.window.showTextDocument(doc);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to import tag pack: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    );
+
+    return {
+        exportTagPackCommand,
+        importTagPackCommand
+    };
+}
+
+/**
+ * Packs from the annotative.tags.packs setting, then a file picker. With no packs
+ * configured, the file picker opens directly.
+ */
+async function pickTagPackSource(): Promise<TagPackSource | undefined> {
+    const fileSource: TagPackSource = {
+        label: '$(folder-opened) Import from File...',
+        load: async () => {
+            const selected = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'Tag Packs': ['json'] },
+                openLabel: 'Import Tag Pack'
+            });
+            return selected && selected.length > 0 ? readTagPack(selected[0].fsPath) : undefined;
+        }
+    };
+
+    const configuredSources = getConfiguredTagPackSources();
+    if (configuredSources.length === 0) {
+        return fileSource;
+    }
+
+    return vscode.window.showQuickPick([...configuredSources, fileSource], {
+        placeHolder: 'Select a tag pack to import'
+    });
+}
+
+function getConfiguredTagPackSources(): TagPackSource[] {
+    const entries = vscode.workspace.getConfiguration('annotative').get<unknown[]>('tags.packs', []);
+    const workspaceFolder = getPreferredWorkspaceFolder();
+
+    return (Array.isArray(entries) ? entries : []).flatMap((entry, index): TagPackSource[] => {
+        if (typeof entry === 'string' && entry.trim()) {
+            const filePath = path.isAbsolute(entry) || !workspaceFolder
+                ? entry
+                : path.join(workspaceFolder.uri.fsPath, entry);
+            return [{
+                label: `$(file) ${path.basename(entry)}`,
+                description: entry,
+                load: () => readTagPack(filePath)
+            }];
+        }
+
+        if (entry && typeof entry === 'object') {
+            const pack = parseTagPack(entry, `Tag pack ${index + 1}`);
+            return [{
+                label: `$(settings-gear) ${pack.name}`,
+                description: `v${pack.version} · workspace setting`,
+                detail: pack.description,
+                load: async () => pack
+            }];
+        }
+
+        return [];
+    });
+}
+
+async function promptForTagConflict(
+    annotationManager: AnnotationManager,
+    existing: AnnotationTag,
+    incoming: AnnotationTag
+): Promise<TagPackConflictChoice | undefined> {
+    const choices: Record<string, TagPackConflictChoice> = {
+        'Keep Existing': 'keep',
+        'Use Pack Version': 'replace',
+        'Import as Copy': 'rename',
+    };
+    const describe = (tag: AnnotationTag) => [
+        tag.name,
+        tag.category,
+        tag.metadata?.priority,
+        tag.metadata?.color,
+        tag.parent ? `in ${annotationManager.resolveTagLabel(tag.parent)}` : undefined,
+    ].filter(Boolean).join(', ');
+
+    const selected = await vscode.window.showWarningMessage(
+        `Tag "${annotationManager.resolveTagLabel(existing.id)}" already exists with a different definition.`,
+        {
+            modal: true,
+            detail: `Existing: ${describe(existing)}\nPack: ${describe(incoming)}`
+        },
+        ...Object.keys(choices)
+    );
+    return selected ? choices[selected] : undefined;
+}
+
+function summarizeImport(pack: TagPackFile, report: TagPackImportReport): string {
+    const parts = [
+        `${report.added.length} added`,
+        report.updated.length > 0 ? `${report.updated.length} updated` : '',
+        report.renamed.length > 0 ? `${report.renamed.length} renamed` : '',
+        report.skipped.length > 0 ? `${report.skipped.length} skipped` : '',
+        report.unchanged.length > 0 ? `${report.unchanged.length} already present` : '',
+    ].filter(Boolean);
+    return `Imported tag pack "${pack.name}" v${pack.version}: ${parts.join(', ')}`;
+}
+
+function formatImportReport(pack: TagPackFile, report: TagPackImportReport): string {
+    const lines = [
+        `# Tag Pack Import: ${pack.name} v${pack.version}`,
+        '',
+        `- Added: ${report.added.join(', ') || 'none'}`,
+        `- Updated: ${report.updated.join(', ') || 'none'}`,
+        `- Already present: ${report.unchanged.join(', ') || 'none'}`,
+    ];
+
+    if (report.renamed.length > 0) {
+        lines.push('', '## Renamed', '', ...report.renamed.map(entry => `- \`${entry.from}\` imported as \`${entry.to}\``));
+    }
+    if (report.skipped.length > 0) {
+        lines.push('', '## Skipped', '', ...report.skipped.map(entry => `- \`${entry.id}\`: ${entry.reason}`));
+    }
+    if (report.movedToTopLevel.length > 0) {
+        lines.push('', '## Imported at the Top Level', '', ...report.movedToTopLevel.map(entry => `- \`${entry.id}\`: ${entry.reason}`));
+    }
+
+    return `${lines.join('\n')}\n`;
+}
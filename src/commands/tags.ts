@@ -1,9 +1,11 @@
 /**
  * Tag Commands
- * Handles: add tag, remove tag, manage tags for annotations
+ * Handles: add tag, remove tag, manage tags for annotations, rename, merge, and delete tags
  */
 
 import * as vscode from 'vscode';
+import { AnnotationManager } from '../managers';
+import { rewriteTagIds, TagRewritePlan } from '../tags';
 import { AnnotationItem } from '../ui';
 import { CommandContext } from './index';
 
@@ -44,7 +46,7 @@ export function registerTagCommands(
 
             // Let user select tag to add
             const tagOptions = availableTags.map(t => ({
-                label: t.name,
+                label: annotationManager.resolveTagLabel(t.id),
                 value: t.id
             }));
 
@@ -141,7 +143,7 @@ export function registerTagCommands(
 
             const currentTags = annotation.tags || [];
             const tagOptions = customTags.map(tag => ({
-                label: tag.name,
+                label: annotationManager.resolveTagLabel(tag.id),
                 value: tag.id,
                 picked: currentTags.includes(tag.id),
             }));
@@ -212,20 +214,9 @@ export function registerTagCommands(
         async () => {
             // Get tag name
             const tagName = await vscode.window.showInputBox({
-                prompt: 'Tag name',
-                placeHolder: 'e.g., needs-review',
-                validateInput: (value) => {
-                    if (!value || value.trim().length === 0) {
-                        return 'Name required';
-                    }
-                    if (value.length > 30) {
-                        return 'Max 30 characters';
-                    }
-                    if (!/^[a-zA-Z0-9-_]+$/.test(value)) {
-                        return 'Letters, numbers, hyphens, underscores only';
-                    }
-                    return null;
-                }
+                prompt: 'Tag name, with / to nest it below a parent tag',
+                placeHolder: 'e.g., needs-review or security/xss',
+                validateInput: (value) => annotationManager.getTagManager().validateTagName(value).error ?? null
             });
 
             if (!tagName) {
@@ -316,7 +307,7 @@ export function registerTagCommands(
             }
 
             const tagOptions = customTags.map(tag => ({
-                label: tag.name,
+                label: annotationManager.resolveTagLabel(tag.id),
                 description: tag.category,
                 value: tag.id
             }));
@@ -329,27 +320,104 @@ export function registerTagCommands(
                 return;
             }
 
-            // Confirm deletion
-            const confirm = await vscode.window.showWarningMessage(
-                `Delete tag "${selectedTag.label}"?`,
-                { modal: true },
-                'Delete'
+            // Annotations with the tag can move to another tag instead of losing it
+            let replacementId: string | undefined;
+            const affected = await annotationManager.getTagRewriteImpact(
+                annotationManager.getTagManager().planTagDelete(selectedTag.value)
             );
+            if (affected.length > 0) {
+                const replacement = await pickCustomTag(
+                    annotationManager,
+                    `${affected.length} annotation(s) use "${selectedTag.label}". Replace it with`,
+                    [selectedTag.value],
+                    { label: '$(close) Remove from annotations', value: undefined }
+                );
+                if (!replacement) {
+                    return;
+                }
+                replacementId = replacement.value;
+            }
+
+            try {
+                const plan = annotationManager.getTagManager().planTagDelete(selectedTag.value, replacementId);
+                if (await confirmTagRewrite(annotationManager, plan, 'Delete')) {
+                    await applyTagRewrite(cmdContext, plan);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    );
+
+    // Command: Rename a custom tag and the references to it
+    const renameCustomTagCommand = vscode.commands.registerCommand(
+        'annotative.renameCustomTag',
+        async () => {
+            if (annotationManager.getCustomTags().length === 0) {
+                vscode.window.showInformationMessage('No tags to rename.');
+                return;
+            }
+
+            const selectedTag = await pickCustomTag(annotationManager, 'Select tag to rename');
+            if (!selectedTag?.value) {
+                return;
+            }
 
-            if (confirm !== 'Delete') {
+            const tagManager = annotationManager.getTagManager();
+            const currentName = tagManager.getTag(selectedTag.value)?.name;
+            const newName = await vscode.window.showInputBox({
+                prompt: `New name for "${selectedTag.label}"`,
+                value: currentName,
+                validateInput: (value) => value.includes('/')
+                    ? 'Use Edit Tag to nest the tag below another tag'
+                    : tagManager.validateTagName(value).error ?? null
+            });
+            if (!newName || newName.trim() === currentName) {
                 return;
             }
 
             try {
-                const deleted = await annotationManager.deleteCustomTag(selectedTag.value);
-                if (deleted) {
-                    sidebarWebview.refreshAnnotations();
-                    vscode.window.showInformationMessage(`Deleted: ${selectedTag.label}`);
-                } else {
-                    vscode.window.showErrorMessage('Failed to delete tag');
+                const plan = tagManager.planTagRename(selectedTag.value, newName);
+                if (await confirmTagRewrite(annotationManager, plan, 'Rename')) {
+                    await applyTagRewrite(cmdContext, plan);
                 }
             } catch (error) {
-                vscode.window.showErrorMessage(`Error: ${error}`);
+                vscode.window.showErrorMessage(`Failed to rename tag: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    );
+
+    // Command: Merge one custom tag into another
+    const mergeCustomTagsCommand = vscode.commands.registerCommand(
+        'annotative.mergeCustomTags',
+        async () => {
+            if (annotationManager.getCustomTags().length < 2) {
+                vscode.window.showInformationMessage('Merging needs at least two tags.');
+                return;
+            }
+
+            const source = await pickCustomTag(annotationManager, 'Select tag to merge (it will be removed)');
+            if (!source?.value) {
+                return;
+            }
+
+            const tagManager = annotationManager.getTagManager();
+            const target = await pickCustomTag(
+                annotationManager,
+                `Merge "${source.label}" into`,
+                [source.value, ...tagManager.getDescendantIds(source.value)]
+            );
+            if (!target?.value) {
+                return;
+            }
+
+            try {
+                const plan = tagManager.planTagMerge(source.value, target.value);
+                if (await confirmTagRewrite(annotationManager, plan, 'Merge')) {
+                    await applyTagRewrite(cmdContext, plan);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to merge tags: ${error instanceof Error ? error.message : String(error)}`);
             }
         }
     );
@@ -366,8 +434,8 @@ export function registerTagCommands(
             }
 
             const tagOptions = customTags.map(tag => ({
-                label: tag.name,
-                description: `${tag.category} - ${tag.metadata?.priority || 'medium'}`,
+                label: annotationManager.resolveTagLabel(tag.id),
+                description: `${tag.category} - ${annotationManager.getTagManager().getTagPriority(tag.id)}`,
                 value: tag.id
             }));
 
@@ -382,7 +450,7 @@ export function registerTagCommands(
             // Get new name
             const newName = await vscode.window.showInputBox({
                 prompt: 'New name (leave empty to keep current)',
-                placeHolder: selectedTag.label,
+                placeHolder: annotationManager.getTagManager().getTag(selectedTag.value)?.name,
                 validateInput: (value) => {
                     if (value && value.length > 30) {
                         return 'Max 30 characters';
@@ -398,6 +466,31 @@ export function registerTagCommands(
                 return; // User cancelled
             }
 
+            // Get new parent, leaving out the tag itself and its nested tags
+            const tagManager = annotationManager.getTagManager();
+            const currentParent = tagManager.getAncestorIds(selectedTag.value)[0];
+            const nestedTags = new Set([selectedTag.value, ...tagManager.getDescendantIds(selectedTag.value)]);
+            const parentOptions = [
+                {
+                    label: 'Keep current',
+                    description: currentParent ? annotationManager.resolveTagLabel(currentParent) : 'top level',
+                    keep: true,
+                    value: currentParent
+                },
+                { label: 'Top level', description: '', keep: false, value: undefined as string | undefined },
+                ...customTags
+                    .filter(tag => !nestedTags.has(tag.id))
+                    .map(tag => ({ label: annotationManager.resolveTagLabel(tag.id), description: '', keep: false, value: tag.id as string | undefined }))
+            ];
+
+            const selectedParent = await vscode.window.showQuickPick(parentOptions, {
+                placeHolder: 'Nest below another tag'
+            });
+
+            if (!selectedParent) {
+                return;
+            }
+
             // Get new color
             const colorOptions = [
                 { label: 'Keep current', value: '' },
@@ -421,11 +514,14 @@ export function registerTagCommands(
 
             try {
                 const metadata = selectedColor.value ? { color: selectedColor.value } : undefined;
-                const updatedTag = await annotationManager.updateCustomTag(
+                let updatedTag = await annotationManager.updateCustomTag(
                     selectedTag.value,
                     newName || undefined,
                     metadata
                 );
+                if (updatedTag && !selectedParent.keep && selectedParent.value !== currentParent) {
+                    updatedTag = await annotationManager.moveCustomTag(selectedTag.value, selectedParent.value);
+                }
 
                 if (updatedTag) {
                     sidebarWebview.refreshAnnotations();
@@ -457,7 +553,7 @@ export function registerTagCommands(
             }
 
             const allTags = customTags.map(tag => ({
-                label: `$(tag) ${tag.name}`,
+                label: `$(tag) ${annotationManager.resolveTagLabel(tag.id)}`,
                 description: tag.category,
                 detail: tag.metadata?.description
             }));
@@ -477,7 +573,78 @@ export function registerTagCommands(
         clearTagsCommand,
         createCustomTagCommand,
         deleteCustomTagCommand,
+        renameCustomTagCommand,
+        mergeCustomTagsCommand,
         editCustomTagCommand,
         listTagsCommand
     };
 }
+
+type TagPickItem = vscode.QuickPickItem & { value: string | undefined };
+
+const MAX_PREVIEW_ANNOTATIONS = 10;
+
+/**
+ * Pick a custom tag by its full path, leaving out `excludeIds`. `extraOption` comes first.
+ */
+async function pickCustomTag(
+    annotationManager: AnnotationManager,
+    placeHolder: string,
+    excludeIds: readonly string[] = [],
+    extraOption?: TagPickItem
+): Promise<TagPickItem | undefined> {
+    const tagOptions: TagPickItem[] = annotationManager.getCustomTags()
+        .filter(tag => !excludeIds.includes(tag.id))
+        .map(tag => ({
+            label: annotationManager.resolveTagLabel(tag.id),
+            description: tag.category,
+            value: tag.id
+        }));
+
+    return vscode.window.showQuickPick(extraOption ? [extraOption, ...tagOptions] : tagOptions, { placeHolder });
+}
+
+/**
+ * Show the annotations a rename, merge, or delete will change, with their tags before
+ * and after, and ask before applying it
+ */
+async function confirmTagRewrite(
+    annotationManager: AnnotationManager,
+    plan: TagRewritePlan,
+    action: string
+): Promise<boolean> {
+    const affected = await annotationManager.getTagRewriteImpact(plan);
+    const formatTags = (tagIds: readonly string[]) => tagIds.length > 0 ? tagIds.join(', ') : 'no tags';
+    const previewLines = affected.slice(0, MAX_PREVIEW_ANNOTATIONS).map(annotation => {
+        const location = `${vscode.workspace.asRelativePath(annotation.filePath)}:${annotation.range.start.line + 1}`;
+        const tags = annotation.tags || [];
+        const comment = annotation.comment.length > 40 ? `${annotation.comment.slice(0, 40)}...` : annotation.comment;
+        return `${location} "${comment}"\n    ${formatTags(tags)} → ${formatTags(rewriteTagIds(tags, plan.replacements))}`;
+    });
+    if (affected.length > MAX_PREVIEW_ANNOTATIONS) {
+        previewLines.push(`...and ${affected.length - MAX_PREVIEW_ANNOTATIONS} more`);
+    }
+
+    const detail = affected.length > 0
+        ? [`${affected.length} annotation(s) will be updated:`, '', ...previewLines].join('\n')
+        : 'No annotations use this tag.';
+    const confirm = await vscode.window.showWarningMessage(`${plan.label}?`, { modal: true, detail }, action);
+    return confirm === action;
+}
+
+/**
+ * Apply the plan, then point the sidebar's tag filter and saved views at the new tags
+ */
+async function applyTagRewrite(cmdContext: CommandContext, plan: TagRewritePlan): Promise<void> {
+    const { annotationManager, sidebarWebview, savedViewManager } = cmdContext;
+    const changed = await annotationManager.applyTagRewrite(plan);
+
+    const filterTag = sidebarWebview.getFilterState().tag;
+    if (plan.replacements.has(filterTag)) {
+        sidebarWebview.setFilterState({ tag: plan.replacements.get(filterTag) || 'all' });
+    }
+    await savedViewManager?.replaceTags(plan.replacements);
+
+    sidebarWebview.refreshAnnotations();
+    vscode.window.showInformationMessage(`${plan.label}: updated ${changed} annotation(s)`);
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
-import { AnnotationManager } from './managers';
+import { AnnotationManager, formatAnnotationLocation, getAnnotationStatus, getStatusLabel } from './managers';
 import { CopilotExporter } from './copilotExporter';
+import { createAnnotationQueryContext, matchesAnnotationQuery, parseAnnotationQuery } from './ui/filtering';
 import { Annotation, Tag } from './types';
 
 /**
@@ -22,6 +23,7 @@ export function registerChatParticipant(
         'annotative.participant',
         async (request, context, stream, token) => {
             try {
+                await annotationManager.ensureAnnotationsLoaded();
                 const command = request.command;
 
                 // Handle different commands
@@ -38,6 +40,9 @@ export function registerChatParticipant(
                     case 'review':
                         await handleReviewCommand(stream, annotationManager, request);
                         break;
+                    case 'search':
+                        await handleSearchCommand(stream, annotationManager, request);
+                        break;
                     default:
                         await handleDefaultRequest(stream, annotationManager, request);
                 }
@@ -108,7 +113,9 @@ async function handleIssuesCommand(
         fileAnnotations.forEach(annotation => {
             const lineStart = annotation.range.start.line + 1;
             const lineEnd = annotation.range.end.line + 1;
-            const lineRange = lineStart === lineEnd ? `L${lineStart}` : `L${lineStart}-${lineEnd}`;
+            const lineRange = annotation.target
+                ? formatAnnotationLocation(annotation)
+                : lineStart === lineEnd ? `L${lineStart}` : `L${lineStart}-${lineEnd}`;
             const tags = annotation.tags && annotation.tags.length > 0
                 ? ` \`${annotation.tags.join('` `')}\``
                 : '';
@@ -120,6 +127,42 @@ async function handleIssuesCommand(
     stream.markdown(`\n\nUse \`@annotative /fix\` to get suggestions for these issues.`);
 }
 
+/**
+ * Handle /search command - Find annotations with the structured query syntax
+ */
+async function handleSearchCommand(
+    stream: vscode.ChatResponseStream,
+    manager: AnnotationManager,
+    request: vscode.ChatRequest
+): Promise<void> {
+    const source = request.prompt.trim();
+    if (!source) {
+        stream.markdown('Add a query, for example `@annotative /search tag:security status:open file:src/** priority>=high`.');
+        return;
+    }
+
+    const query = parseAnnotationQuery(source);
+    const context = createAnnotationQueryContext(manager);
+    const annotations = manager.getAllAnnotations().filter(annotation => matchesAnnotationQuery(annotation, query, context));
+
+    stream.markdown(`# Search Results\n\n`);
+    if (annotations.length === 0) {
+        stream.markdown(`No annotations match \`${source}\`.\n`);
+        return;
+    }
+
+    stream.markdown(`Found ${annotations.length} annotation(s) matching \`${source}\`:\n\n`);
+    annotations.forEach(annotation => {
+        const relativePath = vscode.workspace.asRelativePath(annotation.filePath);
+        const status = getStatusLabel(getAnnotationStatus(annotation));
+        const tags = annotation.tags && annotation.tags.length > 0
+            ? ` \`${manager.resolveTagLabels(annotation.tags).join('` `')}\``
+            : '';
+
+        stream.markdown(`- **${relativePath}** (${formatAnnotationLocation(annotation)}) · ${status}${tags}: ${annotation.comment}\n`);
+    });
+}
+
 /**
  * Handle /explain command - Explain a specific annotation
  */
@@ -162,18 +205,18 @@ async function handleExplainCommand(
     }
 
     const relativePath = vscode.workspace.asRelativePath(annotation.filePath);
-    const lineStart = annotation.range.start.line + 1;
-    const lineEnd = annotation.range.end.line + 1;
 
     stream.markdown(`# Annotation Analysis\n\n`);
-    stream.markdown(`**File:** ${relativePath} (Lines ${lineStart}-${lineEnd})\n\n`);
+    stream.markdown(`**File:** ${relativePath} (${formatAnnotationLocation(annotation)})\n\n`);
     stream.markdown(`**Issue:** ${annotation.comment}\n\n`);
 
     if (annotation.tags && annotation.tags.length > 0) {
         stream.markdown(`**Tags:** ${annotation.tags.map(t => `\`${t}\``).join(', ')}\n\n`);
     }
 
-    stream.markdown(`**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`);
+    if (annotation.target?.type !== 'file') {
+        stream.markdown(`**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`);
+    }
 
     // Ask Copilot to analyze
     stream.markdown(`Based on the tags and context, here's my analysis:\n\n`);
@@ -218,10 +261,8 @@ async function handleFixCommand(
 
     for (const annotation of prioritized.slice(0, 5)) { // Limit to first 5
         const relativePath = vscode.workspace.asRelativePath(annotation.filePath);
-        const lineStart = annotation.range.start.line + 1;
-        const lineEnd = annotation.range.end.line + 1;
 
-        stream.markdown(`## ${relativePath}:${lineStart}-${lineEnd}\n\n`);
+        stream.markdown(`## ${relativePath} (${formatAnnotationLocation(annotation)})\n\n`);
         stream.markdown(`**Issue:** ${annotation.comment}\n\n`);
 
         if (annotation.tags && annotation.tags.length > 0) {
@@ -278,11 +319,9 @@ async function handleReviewCommand(
         stream.markdown(`## Unresolved Issues\n\n`);
 
         unresolved.forEach((annotation, idx) => {
-            const lineStart = annotation.range.start.line + 1;
-            const lineEnd = annotation.range.end.line + 1;
             const tagLabel = annotation.tags && annotation.tags.length > 0 ? `[${annotation.tags[0]}]` : '';
 
-            stream.markdown(`${idx + 1}. ${tagLabel} **Lines ${lineStart}-${lineEnd}**: ${annotation.comment}\n`);
+            stream.markdown(`${idx + 1}. ${tagLabel} **${formatAnnotationLocation(annotation)}**: ${annotation.comment}\n`);
         });
 
         stream.markdown(`\n\nWould you like me to suggest fixes? Use \`@annotative /fix\` to get detailed suggestions.`);
@@ -317,7 +356,8 @@ async function handleDefaultRequest(
         stream.markdown(`- \`@annotative /explain #1\` - Explain a specific annotation\n`);
         stream.markdown(`- \`@annotative /fix\` - Get fix suggestions for all issues\n`);
         stream.markdown(`- \`@annotative /fix tag security\` - Fix annotations with specific tag\n`);
-        stream.markdown(`- \`@annotative /review\` - Review current file with annotation context\n\n`);
+        stream.markdown(`- \`@annotative /review\` - Review current file with annotation context\n`);
+        stream.markdown(`- \`@annotative /search tag:security status:open\` - Find annotations with a query\n\n`);
         stream.markdown(`## Examples\n\n`);
         stream.markdown(`- "Show me all security issues" → \`@annotative /issues\`\n`);
         stream.markdown(`- "How do I fix the performance problems?" → \`@annotative /fix tag performance\`\n`);
@@ -437,7 +477,7 @@ export function registerChatVariableIfAvailable(
                         const formatted = annotations.map(a => {
                             const lineStart = a.range.start.line + 1;
                             const lineEnd = a.range.end.line + 1;
-                            const status = a.resolved ? '[Resolved]' : '[Open]';
+                            const status = `[${getStatusLabel(getAnnotationStatus(a))}]`;
                             const tags = a.tags && a.tags.length > 0 ? ` [${a.tags.join(', ')}]` : '';
 
                             return {
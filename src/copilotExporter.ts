@@ -2,6 +2,9 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { Annotation, CopilotExportOptions, ExportOptions, Tag, AnnotationTag } from './types';
+import { formatDueDate } from './managers/annotationAssignments';
+import { getAnnotationStatus, getStatusLabel } from './managers/annotationWorkflow';
+import { formatAnnotationLocation } from './managers/annotationTargets';
 import { getRelativePathForFile, groupAnnotationsByFile } from './managers/exportSupport';
 
 export enum CopilotExportFormat {
@@ -74,17 +77,21 @@ export class CopilotExporter {
         options: CopilotExportOptions = {}
     ): Promise<string> {
         const relativePath = getRelativePathForFile(annotation.filePath);
-        const lineStart = annotation.range.start.line + 1;
-        const lineEnd = annotation.range.end.line + 1;
 
         let output = `# Code Review Context from Annotative\n\n`;
-        output += `## File: \`${relativePath}\` (Lines ${lineStart}-${lineEnd})\n\n`;
+        output += `## File: \`${relativePath}\` (${formatAnnotationLocation(annotation)})\n\n`;
 
         // Add annotation details
-        const status = annotation.resolved ? 'Resolved' : 'Unresolved';
+        const status = getStatusLabel(getAnnotationStatus(annotation));
         output += `### Annotation: ${annotation.comment}\n\n`;
         output += `**Author:** ${annotation.author}\n`;
         output += `**Status:** ${status}\n`;
+        if (annotation.assignee) {
+            output += `**Assignee:** ${annotation.assignee}\n`;
+        }
+        if (annotation.dueDate) {
+            output += `**Due:** ${formatDueDate(annotation)}\n`;
+        }
 
         if (annotation.tags && annotation.tags.length > 0) {
             const tagStrings = this.tagsToStrings(annotation.tags);
@@ -95,10 +102,12 @@ export class CopilotExporter {
         output += `\n`;
 
         // Get code with context
-        const codeContext = await this.getCodeContext(annotation, options);
-        const languageId = await this.getLanguageId(annotation.filePath);
+        if (this.hasCode(annotation)) {
+            const codeContext = await this.getCodeContext(annotation, options);
+            const languageId = await this.getLanguageId(annotation);
 
-        output += `**Code:**\n\`\`\`${languageId}\n${codeContext}\n\`\`\`\n\n`;
+            output += `**Code:**\n\`\`\`${languageId}\n${codeContext}\n\`\`\`\n\n`;
+        }
 
         // Add smart prompt based on tags
         const prompt = this.generateSmartPrompt(annotation);
@@ -116,17 +125,22 @@ export class CopilotExporter {
         const relativePath = getRelativePathForFile(annotation.filePath);
         const lineStart = annotation.range.start.line + 1;
         const lineEnd = annotation.range.end.line + 1;
-        const languageId = await this.getLanguageId(annotation.filePath);
 
         let output = `I'm reviewing this code and found an issue. Can you help?\n\n`;
-        output += `**File:** ${relativePath}:${lineStart}-${lineEnd}\n`;
+        output += annotation.target
+            ? `**File:** ${relativePath} (${formatAnnotationLocation(annotation)})\n`
+            : `**File:** ${relativePath}:${lineStart}-${lineEnd}\n`;
         output += `**Issue:** ${annotation.comment}\n`;
 
         if (annotation.tags && annotation.tags.length > 0) {
             output += `**Tags:** ${annotation.tags.join(', ')}\n`;
         }
 
-        output += `\n\`\`\`${languageId}\n${annotation.text}\n\`\`\`\n\n`;
+        output += `\n`;
+        if (this.hasCode(annotation)) {
+            const languageId = await this.getLanguageId(annotation);
+            output += `\`\`\`${languageId}\n${annotation.text}\n\`\`\`\n\n`;
+        }
         output += `What would you suggest?\n`;
 
         return output;
@@ -174,10 +188,7 @@ export class CopilotExporter {
             output += `## File: \`${relativePath}\`\n\n`;
 
             fileAnnotations.forEach((annotation, idx) => {
-                const lineStart = annotation.range.start.line + 1;
-                const lineEnd = annotation.range.end.line + 1;
-
-                output += `### Issue ${idx + 1} (Lines ${lineStart}-${lineEnd})\n\n`;
+                output += `### Issue ${idx + 1} (${formatAnnotationLocation(annotation)})\n\n`;
                 output += `**Problem:** ${annotation.comment}\n\n`;
 
                 if (annotation.tags && annotation.tags.length > 0) {
@@ -218,7 +229,7 @@ export class CopilotExporter {
                 const lineEnd = annotation.range.end.line + 1;
 
                 output += `  <annotation>\n`;
-                output += `    <location lines="${lineStart}-${lineEnd}"/>\n`;
+                output += `    <location lines="${lineStart}-${lineEnd}"${this.formatTargetAttributes(annotation)}/>\n`;
                 output += `    <issue>${this.escapeXml(annotation.comment)}</issue>\n`;
 
                 if (annotation.tags && annotation.tags.length > 0) {
@@ -226,7 +237,9 @@ export class CopilotExporter {
                     output += `    <tags>${tagStrings.map(t => this.escapeXml(t)).join(', ')}</tags>\n`;
                 }
 
-                output += `    <code>\n${this.escapeXml(annotation.text)}\n    </code>\n`;
+                if (this.hasCode(annotation)) {
+                    output += `    <code>\n${this.escapeXml(annotation.text)}\n    </code>\n`;
+                }
                 output += `  </annotation>\n`;
             });
 
@@ -291,6 +304,9 @@ export class CopilotExporter {
         options: CopilotExportOptions
     ): Promise<string> {
         const contextLines = options.contextLines ?? 5;
+        if (annotation.target) {
+            return annotation.text;
+        }
 
         try {
             const document = await vscode.workspace.openTextDocument(annotation.filePath);
@@ -321,7 +337,13 @@ export class CopilotExporter {
     /**
      * Get language ID for syntax highlighting
      */
-    private static async getLanguageId(filePath: string): Promise<string> {
+    private static async getLanguageId(annotation: Annotation): Promise<string> {
+        // A notebook's text is its JSON, not the cell's language
+        if (annotation.target) {
+            return '';
+        }
+
+        const filePath = annotation.filePath;
         try {
             const document = await vscode.workspace.openTextDocument(filePath);
             return document.languageId;
@@ -381,18 +403,21 @@ export class CopilotExporter {
             output += `**Status:** ${unresolvedCount} unresolved, ${fileAnnotations.length - unresolvedCount} resolved\n\n`;
 
             fileAnnotations.forEach((annotation, index) => {
-                const lineStart = annotation.range.start.line + 1;
-                const lineEnd = annotation.range.end.line + 1;
-                const lineRange = lineStart === lineEnd ? `Line ${lineStart}` : `Lines ${lineStart}-${lineEnd}`;
-                const status = annotation.resolved ? '[Resolved]' : '[Open]';
+                const lineRange = formatAnnotationLocation(annotation);
+                const status = `[${getStatusLabel(getAnnotationStatus(annotation))}]`;
                 const tags = annotation.tags && annotation.tags.length > 0
                     ? ` \`${annotation.tags.join('` `')}\``
                     : '';
 
                 output += `### ${status} Annotation ${index + 1}: ${lineRange}${tags}\n\n`;
                 output += `**Comment:** ${annotation.comment}\n\n`;
-                output += `**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`;
+                if (this.hasCode(annotation)) {
+                    output += `**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`;
+                }
                 output += `**Author:** ${annotation.author} | **Date:** ${new Date(annotation.timestamp).toLocaleDateString()}\n\n`;
+                if (annotation.assignee || annotation.dueDate) {
+                    output += `${this.formatAssignment(annotation)}\n\n`;
+                }
                 output += `---\n\n`;
             });
         });
@@ -418,9 +443,9 @@ export class CopilotExporter {
             const lineStart = annotation.range.start.line + 1;
             const lineEnd = annotation.range.end.line + 1;
 
-            output += `    <annotation id="${annotation.id}" status="${annotation.resolved ? 'resolved' : 'unresolved'}">\n`;
+            output += `    <annotation id="${annotation.id}" status="${getAnnotationStatus(annotation)}">\n`;
             output += `      <file>${this.escapeXml(relativePath)}</file>\n`;
-            output += `      <location start="${lineStart}" end="${lineEnd}" />\n`;
+            output += `      <location start="${lineStart}" end="${lineEnd}"${this.formatTargetAttributes(annotation)} />\n`;
             output += `      <comment>${this.escapeXml(annotation.comment)}</comment>\n`;
 
             if (annotation.tags && annotation.tags.length > 0) {
@@ -432,8 +457,15 @@ export class CopilotExporter {
                 output += `      </tags>\n`;
             }
 
-            output += `      <code><![CDATA[\n${annotation.text}\n      ]]></code>\n`;
+            if (this.hasCode(annotation)) {
+                output += `      <code><![CDATA[\n${annotation.text}\n      ]]></code>\n`;
+            }
             output += `      <metadata author="${this.escapeXml(annotation.author)}" timestamp="${new Date(annotation.timestamp).toISOString()}" />\n`;
+            if (annotation.assignee || annotation.dueDate) {
+                const assignee = annotation.assignee ? ` assignee="${this.escapeXml(annotation.assignee)}"` : '';
+                const due = annotation.dueDate ? ` due="${annotation.dueDate}"` : '';
+                output += `      <assignment${assignee}${due} />\n`;
+            }
             output += `    </annotation>\n`;
         });
 
@@ -498,15 +530,20 @@ export class CopilotExporter {
             const lineStart = annotation.range.start.line + 1;
             const lineEnd = annotation.range.end.line + 1;
             const lineRange = lineStart === lineEnd ? `L${lineStart}` : `L${lineStart}-${lineEnd}`;
-            const status = annotation.resolved ? '[Resolved]' : '[Open]';
+            const location = annotation.target ? ` (${formatAnnotationLocation(annotation)})` : `:${lineRange}`;
+            const status = `[${getStatusLabel(getAnnotationStatus(annotation))}]`;
 
-            output += `${index + 1}. ${status} ${relativePath}:${lineRange}\n`;
+            output += `${index + 1}. ${status} ${relativePath}${location}\n`;
             output += `   ${annotation.comment}\n`;
 
             if (annotation.tags && annotation.tags.length > 0) {
                 output += `   Tags: ${annotation.tags.join(', ')}\n`;
             }
 
+            if (annotation.assignee || annotation.dueDate) {
+                output += `   ${this.formatAssignment(annotation, false)}\n`;
+            }
+
             output += '\n';
         });
 
@@ -527,18 +564,22 @@ export class CopilotExporter {
             output += `## File: \`${relativePath}\`\n\n`;
 
             fileAnnotations.forEach(annotation => {
-                const lineStart = annotation.range.start.line + 1;
-                const lineEnd = annotation.range.end.line + 1;
-                const status = annotation.resolved ? 'Resolved' : 'Unresolved';
+                const status = getStatusLabel(getAnnotationStatus(annotation));
 
-                output += `### ${status} - Lines ${lineStart}-${lineEnd}\n\n`;
+                output += `### ${status} - ${formatAnnotationLocation(annotation)}\n\n`;
                 output += `**Issue:** ${annotation.comment}\n\n`;
 
+                if (annotation.assignee || annotation.dueDate) {
+                    output += `${this.formatAssignment(annotation)}\n\n`;
+                }
+
                 if (annotation.tags && annotation.tags.length > 0) {
                     output += `**Tags:** ${annotation.tags.map(t => `\`${t}\``).join(', ')}\n\n`;
                 }
 
-                output += `**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`;
+                if (this.hasCode(annotation)) {
+                    output += `**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`;
+                }
             });
         });
 
@@ -551,11 +592,37 @@ export class CopilotExporter {
         return groupAnnotationsByFile(annotations);
     }
 
+    /**
+     * Whole-file annotations have no annotated text to quote.
+     */
+    private static hasCode(annotation: Annotation): boolean {
+        return annotation.target?.type !== 'file';
+    }
+
+    private static formatTargetAttributes(annotation: Annotation): string {
+        if (annotation.target?.type === 'notebookCell') {
+            return ` cell="${annotation.target.cellIndex + 1}" cellId="${this.escapeXml(annotation.target.cellId)}"`;
+        }
+        return annotation.target?.type === 'file' ? ' target="file"' : '';
+    }
+
     private static isImportLine(line: string): boolean {
         const trimmedLine = line.trim();
         return /^(import\s|export\s+\{.*\}\s+from\s|const\s+.+?=\s*require\(|from\s+.+\s+import\s)/.test(trimmedLine);
     }
 
+    private static formatAssignment(annotation: Annotation, markdown = true): string {
+        const label = (name: string) => markdown ? `**${name}:**` : `${name}:`;
+        const parts: string[] = [];
+        if (annotation.assignee) {
+            parts.push(`${label('Assignee')} ${annotation.assignee}`);
+        }
+        if (annotation.dueDate) {
+            parts.push(`${label('Due')} ${formatDueDate(annotation)}`);
+        }
+        return parts.join(' | ');
+    }
+
     private static escapeXml(text: string): string {
         return text
             .replace(/&/g, '&amp;')
@@ -597,10 +664,8 @@ export class CopilotExporter {
         let content = `# Annotations for \`${relativePath}\`\n\n`;
 
         annotations.forEach((annotation, index) => {
-            const lineStart = annotation.range.start.line + 1;
-            const lineEnd = annotation.range.end.line + 1;
-            const lineRange = lineStart === lineEnd ? `Line ${lineStart}` : `Lines ${lineStart}-${lineEnd}`;
-            const status = annotation.resolved ? 'Resolved' : 'Unresolved';
+            const lineRange = formatAnnotationLocation(annotation);
+            const status = getStatusLabel(getAnnotationStatus(annotation));
 
             content += `## Annotation ${index + 1}: ${lineRange}\n\n`;
             content += `**Status:** ${status}\n\n`;
@@ -610,9 +675,18 @@ export class CopilotExporter {
                 content += `**Tags:** ${annotation.tags.map(t => `\`${t}\``).join(', ')}\n\n`;
             }
 
-            content += `**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`;
+            if (this.hasCode(annotation)) {
+                content += `**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`;
+            }
             content += `**Author:** ${annotation.author}\n`;
-            content += `**Date:** ${new Date(annotation.timestamp).toLocaleString()}\n\n`;
+            content += `**Date:** ${new Date(annotation.timestamp).toLocaleString()}\n`;
+            if (annotation.assignee) {
+                content += `**Assignee:** ${annotation.assignee}\n`;
+            }
+            if (annotation.dueDate) {
+                content += `**Due:** ${formatDueDate(annotation)}\n`;
+            }
+            content += `\n`;
             content += `---\n\n`;
         });
 
@@ -1,17 +1,40 @@
 import * as vscode from 'vscode';
-import { AiResponseReviewService, AnnotationManager, LocalDiffReviewService, MarkdownPlanReviewService, ReviewArtifactManager } from './managers';
-import { PlanReviewPanel, SidebarWebview } from './ui';
+import {
+    AiResponseReviewService,
+    AnnotationManager,
+    LocalDiffReviewService,
+    MarkdownPlanReviewService,
+    MERGE_DRIVER_FILE_NAME,
+    NOTEBOOK_CELL_SCHEME,
+    ReviewArtifactManager,
+    SavedViewManager,
+    StorageMergeService,
+    StorageWatcher,
+} from './managers';
+import {
+    AnnotationCodeLensProvider,
+    AnnotationCommentController,
+    AnnotationFileDecorationProvider,
+    AnnotationHoverProvider,
+    PlanReviewPanel,
+    SidebarWebview,
+} from './ui';
 import { registerChatParticipant, registerChatVariableIfAvailable } from './copilotChatParticipant';
 import {
     registerAnnotationCommands,
     registerAiResponseReviewCommands,
+    registerCommentCommands,
     registerExportCommands,
     registerFilterCommands,
     registerLocalDiffReviewCommands,
     registerNavigationCommands,
     registerPlanReviewCommands,
+    registerRuleCommands,
+    registerSavedViewCommands,
     registerSidebarCommands,
+    registerStorageMergeCommands,
     registerTagCommands,
+    registerTagPackCommands,
     type CommandContext
 } from './commands';
 
@@ -34,6 +57,8 @@ let aiResponseReviewService: AiResponseReviewService;
 let localDiffReviewService: LocalDiffReviewService;
 let markdownPlanReviewService: MarkdownPlanReviewService;
 let planReviewPanel: PlanReviewPanel;
+let storageMergeService: StorageMergeService;
+let savedViewManager: SavedViewManager;
 
 export function activate(context: vscode.ExtensionContext) {
     // Initialize core managers
@@ -42,7 +67,17 @@ export function activate(context: vscode.ExtensionContext) {
     aiResponseReviewService = new AiResponseReviewService(reviewArtifactManager);
     localDiffReviewService = new LocalDiffReviewService(reviewArtifactManager);
     markdownPlanReviewService = new MarkdownPlanReviewService(reviewArtifactManager);
-    sidebarWebview = new SidebarWebview(context.extensionUri, annotationManager);
+    storageMergeService = new StorageMergeService();
+    // Git runs an installed copy of the merge driver, so refresh it after extension updates
+    void storageMergeService
+        .updateInstalledDriver(
+            vscode.Uri.joinPath(context.extensionUri, 'dist', MERGE_DRIVER_FILE_NAME).fsPath,
+            context.globalStorageUri.fsPath
+        )
+        .catch(error => console.error('Failed to update the storage merge driver:', error));
+    savedViewManager = new SavedViewManager();
+    context.subscriptions.push(savedViewManager);
+    sidebarWebview = new SidebarWebview(context.extensionUri, annotationManager, savedViewManager, context.workspaceState);
     planReviewPanel = new PlanReviewPanel(context.extensionUri, reviewArtifactManager);
 
     // Register sidebar webview provider
@@ -54,6 +89,37 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Reconcile .annotative changes made outside the extension (pulls, branch switches)
+    context.subscriptions.push(
+        new StorageWatcher(annotationManager, reviewArtifactManager, {
+            onReviewArtifactChanged: filePath => planReviewPanel.reloadArtifactFile(filePath),
+            onSavedViewsChanged: () => savedViewManager.reload()
+        })
+    );
+
+    // Summaries and quick actions above annotated lines, in text files and notebook cells
+    const annotatedDocuments: vscode.DocumentSelector = [{ scheme: 'file' }, { scheme: NOTEBOOK_CELL_SCHEME }];
+    const codeLensProvider = new AnnotationCodeLensProvider(annotationManager);
+    context.subscriptions.push(
+        codeLensProvider,
+        vscode.languages.registerCodeLensProvider(annotatedDocuments, codeLensProvider)
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider(annotatedDocuments, new AnnotationHoverProvider(annotationManager))
+    );
+
+    // Open annotation counts on files and folders in the explorer and SCM views
+    const fileDecorationProvider = new AnnotationFileDecorationProvider(annotationManager);
+    context.subscriptions.push(
+        fileDecorationProvider,
+        vscode.window.registerFileDecorationProvider(fileDecorationProvider)
+    );
+
+    // Opt-in mirror of annotations as native comment threads
+    const commentController = new AnnotationCommentController(annotationManager);
+    context.subscriptions.push(commentController);
+
     // Subscribe to annotation changes
     context.subscriptions.push(
         annotationManager.onDidChangeAnnotations(() => {
@@ -78,6 +144,9 @@ export function activate(context: vscode.ExtensionContext) {
         localDiffReviewService,
         markdownPlanReviewService,
         planReviewPanel,
+        storageMergeService,
+        savedViewManager,
+        commentController,
         ANNOTATION_COLORS
     };
 
@@ -85,13 +154,18 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         ...Object.values(registerAnnotationCommands(context, cmdContext)),
         ...Object.values(registerAiResponseReviewCommands(context, cmdContext)),
+        ...Object.values(registerCommentCommands(context, cmdContext)),
         ...Object.values(registerExportCommands(context, cmdContext)),
         ...Object.values(registerFilterCommands(context, cmdContext)),
         ...Object.values(registerLocalDiffReviewCommands(context, cmdContext)),
         ...Object.values(registerNavigationCommands(context, cmdContext)),
         ...Object.values(registerPlanReviewCommands(context, cmdContext)),
+        ...Object.values(registerRuleCommands(context, cmdContext)),
+        ...Object.values(registerSavedViewCommands(context, cmdContext)),
         ...Object.values(registerSidebarCommands(context, cmdContext)),
-        ...Object.values(registerTagCommands(context, cmdContext))
+        ...Object.values(registerStorageMergeCommands(context, cmdContext)),
+        ...Object.values(registerTagCommands(context, cmdContext)),
+        ...Object.values(registerTagPackCommands(context, cmdContext))
     );
 
     // Update decorations for active editor
@@ -131,6 +205,19 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Decoration settings only take effect on the next repaint
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (
+                event.affectsConfiguration('annotative.gutter')
+                || event.affectsConfiguration('annotative.overviewRuler')
+                || event.affectsConfiguration('annotative.decorations')
+            ) {
+                vscode.window.visibleTextEditors.forEach(editor => annotationManager.updateDecorations(editor));
+            }
+        })
+    );
+
     if (vscode.window.activeTextEditor) {
         annotationManager.updateDecorations(vscode.window.activeTextEditor);
     }
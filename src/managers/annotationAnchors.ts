@@ -1,8 +1,10 @@
 import * as vscode from 'vscode';
-import { Annotation, AnnotationAnchor, StoredRange } from '../types';
+import { Annotation, AnnotationAnchor, AnnotationAnchorStatus, AnnotationOrphanReason, StoredRange } from '../types';
 
 const ANCHOR_CONTEXT_CHARS = 48;
 const MIN_CONTEXT_CHARS = 6;
+// Beats the best proximity score by more than the margin pickBestCandidate asks for
+const GIT_HINT_SCORE = 30;
 
 interface TextIndex {
     lineOffsets: number[];
@@ -10,16 +12,23 @@ interface TextIndex {
     normalizedOffsets: number[];
 }
 
+interface TextSpan {
+    startOffset: number;
+    endOffset: number;
+}
+
 interface CandidateMatch {
     startOffset: number;
     endOffset: number;
     score: number;
+    similarity: number;
 }
 
 export interface ReattachmentResult {
     range: vscode.Range;
     text: string;
     anchor?: AnnotationAnchor;
+    status: AnnotationAnchorStatus;
     changed: boolean;
     reattached: boolean;
 }
@@ -45,39 +54,98 @@ export function captureAnnotationAnchor(documentText: string, range: vscode.Rang
     };
 }
 
-export function reattachAnnotation(annotation: Annotation, documentText: string): ReattachmentResult {
+/**
+ * Reattach an annotation to the current document text. A `mappedRange` computed from git
+ * history is tried first and accepted when it still holds the anchored text.
+ */
+export function reattachAnnotation(annotation: Annotation, documentText: string, mappedRange?: vscode.Range): ReattachmentResult {
     const index = buildTextIndex(documentText);
     const fallbackOffsets = clampStoredRange(annotation.range, documentText, index.lineOffsets);
     const fallbackRange = createRangeFromOffsets(fallbackOffsets.startOffset, fallbackOffsets.endOffset, index.lineOffsets);
     const fallbackText = documentText.slice(fallbackOffsets.startOffset, fallbackOffsets.endOffset);
-    const fallbackAnchor = captureAnnotationAnchor(documentText, fallbackRange);
 
     if (!annotation.anchor?.selectedText) {
-        return {
-            range: fallbackRange,
-            text: fallbackText,
-            anchor: fallbackAnchor,
-            changed: !annotation.range.isEqual(fallbackRange) || annotation.text !== fallbackText || !anchorsEqual(annotation.anchor, fallbackAnchor),
-            reattached: false,
-        };
+        // Legacy annotations have nothing to match against, so the stored range is kept as-is.
+        const confidence = normalizeSnippet(annotation.text) === normalizeSnippet(fallbackText) ? 1 : 0.5;
+        return buildFallbackResult(annotation, documentText, fallbackRange, fallbackText, { state: 'anchored', confidence });
     }
 
     const anchor = annotation.anchor;
-    const exactMatch = findExactAnchorMatch(anchor, documentText, index, fallbackOffsets.startOffset);
+    let gitHint: TextSpan | undefined;
+    if (mappedRange) {
+        const mappedOffsets = clampRangeOffsets(mappedRange, documentText, index.lineOffsets);
+        const mappedText = documentText.slice(mappedOffsets.startOffset, mappedOffsets.endOffset);
+        if (normalizeSnippet(mappedText) === normalizeSnippet(anchor.selectedText)) {
+            const mappedMatch = { ...mappedOffsets, score: 100, similarity: 1 };
+            return buildResolvedResult(annotation, documentText, index.lineOffsets, mappedMatch, 1);
+        }
+
+        // The mapped lines were edited, so they only tell the matchers where to look
+        gitHint = clampRangeOffsets({
+            start: { line: mappedRange.start.line, character: 0 },
+            end: { line: mappedRange.end.line + 1, character: 0 },
+        }, documentText, index.lineOffsets);
+    }
+
+    const exactMatch = findExactAnchorMatch(anchor, documentText, index, fallbackOffsets.startOffset, gitHint);
     if (exactMatch) {
-        return buildResolvedResult(annotation, documentText, index.lineOffsets, exactMatch.startOffset, exactMatch.endOffset, true);
+        return buildResolvedResult(annotation, documentText, index.lineOffsets, exactMatch, toConfidence(exactMatch.score / 100));
     }
 
-    const contextualMatch = findContextualAnchorMatch(anchor, documentText, index, fallbackOffsets.startOffset);
+    const contextualMatch = findContextualAnchorMatch(anchor, documentText, index, fallbackOffsets.startOffset, gitHint);
     if (contextualMatch) {
-        return buildResolvedResult(annotation, documentText, index.lineOffsets, contextualMatch.startOffset, contextualMatch.endOffset, true);
+        // The selected text itself changed, so confidence is bounded by how similar it still is.
+        return buildResolvedResult(annotation, documentText, index.lineOffsets, contextualMatch, toConfidence(contextualMatch.similarity * 0.9));
+    }
+
+    // Ambiguous matches fall back to the stored range as long as it still holds the anchored text.
+    if (normalizeSnippet(fallbackText) === normalizeSnippet(anchor.selectedText)) {
+        return buildFallbackResult(annotation, documentText, fallbackRange, fallbackText, { state: 'anchored', confidence: 0.5 });
     }
 
+    const status: AnnotationAnchorStatus = { state: 'orphaned', confidence: 0, reason: 'textNotFound' };
     return {
         range: fallbackRange,
-        text: fallbackText,
-        anchor: fallbackAnchor,
-        changed: !annotation.range.isEqual(fallbackRange) || annotation.text !== fallbackText || !anchorsEqual(annotation.anchor, fallbackAnchor),
+        text: annotation.text,
+        anchor: annotation.anchor,
+        status,
+        changed: !annotation.range.isEqual(fallbackRange) || !anchorStatusEqual(annotation.anchorStatus, status),
+        reattached: false,
+    };
+}
+
+export function createOrphanedStatus(reason: AnnotationOrphanReason): AnnotationAnchorStatus {
+    return { state: 'orphaned', confidence: 0, reason };
+}
+
+export function isOrphanedAnnotation(annotation: Annotation): boolean {
+    return annotation.anchorStatus?.state === 'orphaned';
+}
+
+export function anchorStatusEqual(left?: AnnotationAnchorStatus, right?: AnnotationAnchorStatus): boolean {
+    return left?.state === right?.state
+        && left?.confidence === right?.confidence
+        && left?.reason === right?.reason;
+}
+
+function buildFallbackResult(
+    annotation: Annotation,
+    documentText: string,
+    range: vscode.Range,
+    text: string,
+    status: AnnotationAnchorStatus,
+): ReattachmentResult {
+    const anchor = captureAnnotationAnchor(documentText, range);
+
+    return {
+        range,
+        text,
+        anchor,
+        status,
+        changed: !annotation.range.isEqual(range)
+            || annotation.text !== text
+            || !anchorsEqual(annotation.anchor, anchor)
+            || !anchorStatusEqual(annotation.anchorStatus, status),
         reattached: false,
     };
 }
@@ -86,28 +154,37 @@ function buildResolvedResult(
     annotation: Annotation,
     documentText: string,
     lineOffsets: number[],
-    startOffset: number,
-    endOffset: number,
-    reattached: boolean,
+    match: CandidateMatch,
+    confidence: number,
 ): ReattachmentResult {
-    const range = createRangeFromOffsets(startOffset, endOffset, lineOffsets);
-    const text = documentText.slice(startOffset, endOffset);
+    const range = createRangeFromOffsets(match.startOffset, match.endOffset, lineOffsets);
+    const text = documentText.slice(match.startOffset, match.endOffset);
     const anchor = captureAnnotationAnchor(documentText, range);
+    const status: AnnotationAnchorStatus = { state: 'anchored', confidence };
 
     return {
         range,
         text,
         anchor,
-        changed: !annotation.range.isEqual(range) || annotation.text !== text || !anchorsEqual(annotation.anchor, anchor),
-        reattached,
+        status,
+        changed: !annotation.range.isEqual(range)
+            || annotation.text !== text
+            || !anchorsEqual(annotation.anchor, anchor)
+            || !anchorStatusEqual(annotation.anchorStatus, status),
+        reattached: true,
     };
 }
 
+function toConfidence(value: number): number {
+    return Math.round(Math.max(0, Math.min(1, value)) * 100) / 100;
+}
+
 function findExactAnchorMatch(
     anchor: AnnotationAnchor,
     documentText: string,
     index: TextIndex,
     originalStartOffset: number,
+    gitHint?: TextSpan,
 ): CandidateMatch | undefined {
     const normalizedNeedle = normalizeSnippet(anchor.selectedText);
     if (!normalizedNeedle) {
@@ -148,8 +225,8 @@ function findExactAnchorMatch(
             score += 10;
         }
 
-        score += proximityScore(startOffset, originalStartOffset, Math.max(1, normalizedNeedle.length));
-        candidates.push({ startOffset, endOffset, score });
+        score += positionScore({ startOffset, endOffset }, originalStartOffset, Math.max(1, normalizedNeedle.length), gitHint);
+        candidates.push({ startOffset, endOffset, score, similarity: 1 });
         searchIndex = matchIndex + 1;
     }
 
@@ -161,6 +238,7 @@ function findContextualAnchorMatch(
     documentText: string,
     index: TextIndex,
     originalStartOffset: number,
+    gitHint?: TextSpan,
 ): CandidateMatch | undefined {
     const prefix = normalizeSnippet(anchor.prefixContext);
     const suffix = normalizeSnippet(anchor.suffixContext);
@@ -219,8 +297,8 @@ function findContextualAnchorMatch(
 
             let score = 75;
             score += Math.round(similarity * 20);
-            score += proximityScore(trimmedOffsets.startOffset, originalStartOffset, Math.max(1, normalizedSelection.length));
-            candidates.push({ startOffset: trimmedOffsets.startOffset, endOffset: trimmedOffsets.endOffset, score });
+            score += positionScore(trimmedOffsets, originalStartOffset, Math.max(1, normalizedSelection.length), gitHint);
+            candidates.push({ startOffset: trimmedOffsets.startOffset, endOffset: trimmedOffsets.endOffset, score, similarity });
             suffixIndex = suffixMatchIndex + 1;
         }
 
@@ -250,6 +328,18 @@ function pickBestCandidate(candidates: CandidateMatch[], minimumScore: number):
     return best;
 }
 
+/**
+ * Candidates on the lines git mapped the anchor to outrank every other occurrence, which
+ * settles duplicates that the stored position alone cannot.
+ */
+function positionScore(candidate: TextSpan, originalStartOffset: number, anchorLength: number, gitHint?: TextSpan): number {
+    if (gitHint && candidate.startOffset < gitHint.endOffset && candidate.endOffset >= gitHint.startOffset) {
+        return GIT_HINT_SCORE;
+    }
+
+    return proximityScore(candidate.startOffset, gitHint?.startOffset ?? originalStartOffset, anchorLength);
+}
+
 function proximityScore(candidateStart: number, originalStart: number, anchorLength: number): number {
     const distance = Math.abs(candidateStart - originalStart);
     const unit = Math.max(16, anchorLength * 2);
@@ -0,0 +1,110 @@
+import { Annotation } from '../types';
+import { GitCommandRunner } from '../utils/git';
+
+const DUE_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const GIT_AUTHOR_HISTORY_LIMIT = 1000;
+
+export type DueDateBucket = 'overdue' | 'today' | 'upcoming' | 'none' | 'closed';
+
+export const DUE_DATE_BUCKETS: readonly DueDateBucket[] = ['overdue', 'today', 'upcoming', 'none', 'closed'];
+
+export const DUE_DATE_BUCKET_LABELS: Record<DueDateBucket, string> = {
+    overdue: 'Overdue',
+    today: 'Due Today',
+    upcoming: 'Upcoming',
+    none: 'No Due Date',
+    closed: 'Closed',
+};
+
+/**
+ * Accept a calendar date as `YYYY-MM-DD`. Anything else, including impossible dates such
+ * as 2026-02-30, is dropped.
+ */
+export function normalizeDueDate(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const match = DUE_DATE_PATTERN.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return undefined;
+    }
+
+    return match[0];
+}
+
+/**
+ * Format a date as `YYYY-MM-DD` in local time, matching how due dates are stored.
+ */
+export function toLocalDateString(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Closed annotations are never overdue, and neither are those without a due date.
+ */
+export function getDueDateBucket(annotation: Pick<Annotation, 'dueDate' | 'resolved'>, now: Date = new Date()): DueDateBucket {
+    if (annotation.resolved) {
+        return 'closed';
+    }
+    if (!annotation.dueDate) {
+        return 'none';
+    }
+
+    const today = toLocalDateString(now);
+    if (annotation.dueDate < today) {
+        return 'overdue';
+    }
+    return annotation.dueDate === today ? 'today' : 'upcoming';
+}
+
+export function isOverdue(annotation: Pick<Annotation, 'dueDate' | 'resolved'>, now: Date = new Date()): boolean {
+    return getDueDateBucket(annotation, now) === 'overdue';
+}
+
+/**
+ * Due date for display, flagged when overdue. Empty when there is no due date.
+ */
+export function formatDueDate(annotation: Pick<Annotation, 'dueDate' | 'resolved'>, now: Date = new Date()): string {
+    if (!annotation.dueDate) {
+        return '';
+    }
+    return isOverdue(annotation, now) ? `${annotation.dueDate} (overdue)` : annotation.dueDate;
+}
+
+export function isAssignedTo(annotation: Pick<Annotation, 'assignee'>, user: string): boolean {
+    return !!annotation.assignee && annotation.assignee.trim().toLowerCase() === user.trim().toLowerCase();
+}
+
+/**
+ * Commit authors of the repository containing `cwd`, most active first.
+ */
+export async function listGitAuthors(cwd: string, runGitCommand: GitCommandRunner): Promise<string[]> {
+    let output: string;
+    try {
+        output = await runGitCommand(cwd, ['log', '--format=%aN', '-n', String(GIT_AUTHOR_HISTORY_LIMIT)]);
+    } catch {
+        // Not a git repository, or git is unavailable
+        return [];
+    }
+
+    const commitCounts = new Map<string, number>();
+    output.split(/\r?\n/).forEach(line => {
+        const author = line.trim();
+        if (author) {
+            commitCounts.set(author, (commitCounts.get(author) || 0) + 1);
+        }
+    });
+
+    return [...commitCounts.entries()]
+        .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+        .map(([author]) => author);
+}
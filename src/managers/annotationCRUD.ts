@@ -1,8 +1,31 @@
 import * as vscode from 'vscode';
-import { Annotation } from '../types';
+import {
+    Annotation,
+    AnnotationAssignment,
+    AnnotationHistoryField,
+    AnnotationHistoryValue,
+    AnnotationReply,
+    AnnotationStatus,
+    TagPriority,
+} from '../types';
+import { rewriteTagIds } from '../tags';
+import { getCurrentAuthor } from '../utils/author';
 import { captureAnnotationAnchor } from './annotationAnchors';
+import { normalizeDueDate } from './annotationAssignments';
+import { AnnotationRuleChange, AnnotationRuleEdit } from './annotationRules';
 import { AnnotationDecorations } from './annotationDecorations';
 import { AnnotationStorageManager } from './annotationStorage';
+import { createNotebookCellTarget, findNotebookCell } from './annotationTargets';
+import { canTransition, getAnnotationStatus, getStatusLabel, isClosedStatus } from './annotationWorkflow';
+
+/**
+ * Works out what automation rules change on an annotation. Given what an edit changed,
+ * only the rules that change triggers run.
+ */
+export type AnnotationRuleEvaluator = (
+    annotation: Annotation,
+    edit?: AnnotationRuleEdit
+) => readonly AnnotationRuleChange[];
 
 /**
  * Handles CRUD operations for annotations
@@ -25,25 +48,34 @@ export class AnnotationCRUD {
         range: vscode.Range,
         comment: string,
         tags?: string[],
-        color?: string
+        color?: string,
+        evaluateRules?: AnnotationRuleEvaluator
     ): Promise<Annotation> {
-        const filePath = editor.document.uri.fsPath;
+        // Cells are stored under their notebook, with the range relative to the cell
+        const cell = findNotebookCell(editor.document);
+        const filePath = cell ? cell.notebook.uri.fsPath : editor.document.uri.fsPath;
         const documentText = editor.document.getText();
         const selectedText = editor.document.getText(range);
+        const author = await this.getAuthor();
+        const timestamp = new Date();
 
         const annotation: Annotation = {
             id: this.generateId(),
             filePath,
             range,
             text: selectedText,
+            target: cell ? createNotebookCellTarget(cell) : undefined,
             comment,
-            author: await this.getAuthor(),
-            timestamp: new Date(),
+            author,
+            timestamp,
             resolved: false,
+            status: 'open',
             tags: tags || [],
             color: color || '#ffc107',
             anchor: captureAnnotationAnchor(documentText, range),
+            history: [{ timestamp, author, field: 'created', newValue: comment }],
         };
+        this.applyRuleChanges(annotation, author, evaluateRules?.(annotation) || []);
 
         if (!this.annotations.has(filePath)) {
             this.annotations.set(filePath, []);
@@ -57,6 +89,47 @@ export class AnnotationCRUD {
         return annotation;
     }
 
+    /**
+     * Add an annotation to a whole file, for resources without text such as images
+     */
+    async addFileAnnotation(
+        filePath: string,
+        comment: string,
+        tags?: string[],
+        color?: string,
+        evaluateRules?: AnnotationRuleEvaluator
+    ): Promise<Annotation> {
+        const author = await this.getAuthor();
+        const timestamp = new Date();
+
+        const annotation: Annotation = {
+            id: this.generateId(),
+            filePath,
+            range: new vscode.Range(0, 0, 0, 0),
+            text: '',
+            target: { type: 'file' },
+            comment,
+            author,
+            timestamp,
+            resolved: false,
+            status: 'open',
+            tags: tags || [],
+            color: color || '#ffc107',
+            history: [{ timestamp, author, field: 'created', newValue: comment }],
+        };
+        this.applyRuleChanges(annotation, author, evaluateRules?.(annotation) || []);
+
+        if (!this.annotations.has(filePath)) {
+            this.annotations.set(filePath, []);
+        }
+
+        this.annotations.get(filePath)!.push(annotation);
+        this.annotationHistory.push(annotation);
+        await this.storage.saveAnnotations();
+
+        return annotation;
+    }
+
     /**
      * Remove an annotation
      */
@@ -78,23 +151,85 @@ export class AnnotationCRUD {
     }
 
     /**
-     * Toggle resolved status
+     * Toggle between open and resolved. Annotations in any closed status reopen.
      */
     async toggleResolvedStatus(annotationId: string, filePath: string): Promise<void> {
+        const annotation = this.annotations.get(filePath)?.find(a => a.id === annotationId);
+        if (annotation) {
+            await this.setStatus(annotationId, filePath, annotation.resolved ? 'open' : 'resolved');
+        }
+    }
+
+    /**
+     * Move an annotation to another workflow status. Throws when the configured
+     * workflow does not allow the transition.
+     */
+    async setStatus(annotationId: string, filePath: string, status: AnnotationStatus): Promise<boolean> {
         const fileAnnotations = this.annotations.get(filePath);
-        if (fileAnnotations) {
-            const annotation = fileAnnotations.find(a => a.id === annotationId);
-            if (annotation) {
-                annotation.resolved = !annotation.resolved;
-                await this.storage.saveAnnotations();
+        const annotation = fileAnnotations?.find(a => a.id === annotationId);
+        if (!fileAnnotations || !annotation) {
+            return false;
+        }
 
-                // Update decorations for the active editor if it matches
-                const activeEditor = vscode.window.activeTextEditor;
-                if (activeEditor && activeEditor.document.uri.fsPath === filePath) {
-                    this.decorations.updateDecorations(activeEditor, fileAnnotations);
-                }
+        const currentStatus = getAnnotationStatus(annotation);
+        if (currentStatus === status) {
+            return false;
+        }
+        if (!canTransition(currentStatus, status)) {
+            throw new Error(`Cannot change status from ${getStatusLabel(currentStatus)} to ${getStatusLabel(status)}`);
+        }
+
+        this.applyStatus(annotation, await this.getAuthor(), status);
+        await this.storage.saveAnnotations();
+
+        // Update decorations for the active editor if it matches
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor && activeEditor.document.uri.fsPath === filePath) {
+            this.decorations.updateDecorations(activeEditor, fileAnnotations);
+        }
+
+        return true;
+    }
+
+    /**
+     * Change who an annotation is assigned to and when it is due. Fields left undefined
+     * are kept; empty strings clear them.
+     */
+    async setAssignment(annotationId: string, filePath: string, assignment: AnnotationAssignment): Promise<boolean> {
+        const fileAnnotations = this.annotations.get(filePath);
+        const annotation = fileAnnotations?.find(a => a.id === annotationId);
+        if (!fileAnnotations || !annotation) {
+            return false;
+        }
+
+        const dueDate = assignment.dueDate?.trim() ? normalizeDueDate(assignment.dueDate) : undefined;
+        if (assignment.dueDate?.trim() && !dueDate) {
+            throw new Error(`Invalid due date: ${assignment.dueDate}. Use YYYY-MM-DD.`);
+        }
+
+        const author = await this.getAuthor();
+        let changed = false;
+
+        if (assignment.assignee !== undefined) {
+            const assignee = assignment.assignee.trim() || undefined;
+            if (assignee !== annotation.assignee) {
+                this.recordChange(annotation, author, 'assignee', annotation.assignee, assignee);
+                annotation.assignee = assignee;
+                changed = true;
             }
         }
+
+        if (assignment.dueDate !== undefined && dueDate !== annotation.dueDate) {
+            this.recordChange(annotation, author, 'dueDate', annotation.dueDate, dueDate);
+            annotation.dueDate = dueDate;
+            changed = true;
+        }
+
+        if (changed) {
+            await this.storage.saveAnnotations();
+        }
+
+        return changed;
     }
 
     /**
@@ -105,17 +240,37 @@ export class AnnotationCRUD {
         filePath: string,
         comment: string,
         tags?: string[],
-        color?: string
+        color?: string,
+        evaluateRules?: AnnotationRuleEvaluator
     ): Promise<void> {
         const fileAnnotations = this.annotations.get(filePath);
         if (fileAnnotations) {
             const annotation = fileAnnotations.find(a => a.id === annotationId);
             if (annotation) {
+                const author = await this.getAuthor();
+                const nextTags = tags || [];
+                const edit: AnnotationRuleEdit = {
+                    commentChanged: annotation.comment !== comment,
+                    addedTags: nextTags.filter(tag => !(annotation.tags || []).includes(tag)),
+                };
+                if (edit.commentChanged) {
+                    this.recordChange(annotation, author, 'comment', annotation.comment, comment);
+                }
+                if (!sameTags(annotation.tags, nextTags)) {
+                    this.recordChange(annotation, author, 'tags', [...(annotation.tags || [])], [...nextTags]);
+                }
+                if (color && annotation.color !== color) {
+                    this.recordChange(annotation, author, 'color', annotation.color, color);
+                }
+
                 annotation.comment = comment;
-                annotation.tags = tags || [];
+                annotation.tags = nextTags;
                 if (color) {
                     annotation.color = color;
                 }
+                if (evaluateRules && (edit.commentChanged || edit.addedTags.length > 0)) {
+                    this.applyRuleChanges(annotation, author, evaluateRules(annotation, edit));
+                }
 
                 const activeEditor = vscode.window.activeTextEditor;
                 if (activeEditor && activeEditor.document.uri.fsPath === filePath) {
@@ -133,6 +288,111 @@ export class AnnotationCRUD {
         }
     }
 
+    /**
+     * Append a reply to an annotation's discussion thread
+     */
+    async addReply(annotationId: string, filePath: string, body: string): Promise<AnnotationReply | undefined> {
+        const annotation = this.getAnnotation(annotationId, filePath);
+        if (!annotation) {
+            return undefined;
+        }
+
+        const reply: AnnotationReply = {
+            id: this.generateId(),
+            author: await this.getAuthor(),
+            body,
+            timestamp: new Date(),
+        };
+
+        annotation.replies = [...(annotation.replies || []), reply];
+        this.recordChange(annotation, reply.author, 'reply', undefined, body);
+        await this.storage.saveAnnotations();
+
+        return reply;
+    }
+
+    /**
+     * Edit the body of an existing reply
+     */
+    async editReply(annotationId: string, filePath: string, replyId: string, body: string): Promise<AnnotationReply | undefined> {
+        const annotation = this.getAnnotation(annotationId, filePath);
+        const reply = annotation?.replies?.find(r => r.id === replyId);
+        if (!annotation || !reply) {
+            return undefined;
+        }
+
+        if (reply.body !== body) {
+            this.recordChange(annotation, await this.getAuthor(), 'reply', reply.body, body);
+            reply.body = body;
+            reply.edited = true;
+            await this.storage.saveAnnotations();
+        }
+
+        return reply;
+    }
+
+    /**
+     * Remove a reply from an annotation's discussion thread
+     */
+    async removeReply(annotationId: string, filePath: string, replyId: string): Promise<boolean> {
+        const annotation = this.getAnnotation(annotationId, filePath);
+        const index = annotation?.replies?.findIndex(r => r.id === replyId) ?? -1;
+        if (!annotation?.replies || index === -1) {
+            return false;
+        }
+
+        const [removed] = annotation.replies.splice(index, 1);
+        this.recordChange(annotation, await this.getAuthor(), 'reply', removed.body, undefined);
+        await this.storage.saveAnnotations();
+
+        return true;
+    }
+
+    /**
+     * Attach an annotation to a new selection, possibly in another file, and recapture its anchor
+     */
+    async reanchorAnnotation(
+        annotationId: string,
+        filePath: string,
+        document: vscode.TextDocument,
+        range: vscode.Range
+    ): Promise<Annotation | undefined> {
+        const fileAnnotations = this.annotations.get(filePath);
+        const index = fileAnnotations?.findIndex(a => a.id === annotationId) ?? -1;
+        if (!fileAnnotations || index === -1) {
+            return undefined;
+        }
+
+        const annotation = fileAnnotations[index];
+        const cell = findNotebookCell(document);
+        const targetPath = cell ? cell.notebook.uri.fsPath : document.uri.fsPath;
+        this.recordChange(
+            annotation,
+            await this.getAuthor(),
+            'range',
+            formatLocation(annotation.filePath, annotation.range),
+            formatLocation(targetPath, range)
+        );
+        annotation.range = range;
+        annotation.text = document.getText(range);
+        annotation.target = cell ? createNotebookCellTarget(cell) : undefined;
+        annotation.anchor = captureAnnotationAnchor(document.getText(), range);
+        annotation.anchorStatus = { state: 'anchored', confidence: 1 };
+        annotation.gitAnchor = undefined;
+
+        if (targetPath !== filePath) {
+            fileAnnotations.splice(index, 1);
+            annotation.filePath = targetPath;
+            if (!this.annotations.has(targetPath)) {
+                this.annotations.set(targetPath, []);
+            }
+            this.annotations.get(targetPath)!.push(annotation);
+        }
+
+        await this.storage.saveAnnotations();
+        return annotation;
+    }
+
     /**
      * Get annotation by ID
      */
@@ -169,13 +429,13 @@ export class AnnotationCRUD {
      */
     async resolveAll(filePath?: string): Promise<number> {
         let resolvedCount = 0;
+        const author = await this.getAuthor();
 
         if (filePath) {
             const fileAnnotations = this.annotations.get(filePath);
             if (fileAnnotations) {
                 fileAnnotations.forEach(ann => {
-                    if (!ann.resolved) {
-                        ann.resolved = true;
+                    if (this.resolveIfAllowed(ann, author)) {
                         resolvedCount++;
                     }
                 });
@@ -183,8 +443,7 @@ export class AnnotationCRUD {
         } else {
             this.annotations.forEach(fileAnnotations => {
                 fileAnnotations.forEach(ann => {
-                    if (!ann.resolved) {
-                        ann.resolved = true;
+                    if (this.resolveIfAllowed(ann, author)) {
                         resolvedCount++;
                     }
                 });
@@ -272,6 +531,96 @@ export class AnnotationCRUD {
         return deletedCount;
     }
 
+    /**
+     * Rewrite tag IDs on every annotation after a tag was renamed, merged, or deleted.
+     * Returns the number of annotations changed.
+     */
+    async replaceTagIds(replacements: ReadonlyMap<string, string | undefined>): Promise<number> {
+        let changedCount = 0;
+        const author = await this.getAuthor();
+
+        this.annotations.forEach(fileAnnotations => {
+            fileAnnotations.forEach(annotation => {
+                const nextTags = rewriteTagIds(annotation.tags || [], replacements);
+                if (!sameTags(annotation.tags, nextTags)) {
+                    this.recordChange(annotation, author, 'tags', [...(annotation.tags || [])], [...nextTags]);
+                    annotation.tags = nextTags;
+                    changedCount++;
+                }
+            });
+        });
+
+        if (changedCount > 0) {
+            await this.storage.saveAnnotations();
+
+            const activeEditor = vscode.window.activeTextEditor;
+            if (activeEditor) {
+                const fileAnnotations = this.annotations.get(activeEditor.document.uri.fsPath) || [];
+                this.decorations.updateDecorations(activeEditor, fileAnnotations);
+            }
+        }
+
+        return changedCount;
+    }
+
+    /**
+     * Apply the changes automation rules worked out for an annotation, recording each
+     * field in its change log. The caller saves.
+     */
+    private applyRuleChanges(annotation: Annotation, author: string, changes: readonly AnnotationRuleChange[]): void {
+        changes.forEach(change => {
+            if (change.field === 'status') {
+                this.applyStatus(annotation, author, change.newValue as AnnotationStatus);
+                return;
+            }
+
+            this.recordChange(annotation, author, change.field, change.previousValue, change.newValue);
+            if (change.field === 'tags') {
+                annotation.tags = [...change.newValue as string[]];
+            } else if (change.field === 'priority') {
+                annotation.priority = change.newValue as TagPriority;
+            } else {
+                annotation[change.field] = change.newValue as string;
+            }
+        });
+    }
+
+    /**
+     * Resolve an annotation that is still active unless the workflow forbids it
+     */
+    private resolveIfAllowed(annotation: Annotation, author: string): boolean {
+        const currentStatus = getAnnotationStatus(annotation);
+        if (isClosedStatus(currentStatus) || !canTransition(currentStatus, 'resolved')) {
+            return false;
+        }
+
+        this.applyStatus(annotation, author, 'resolved');
+        return true;
+    }
+
+    private applyStatus(annotation: Annotation, author: string, status: AnnotationStatus): void {
+        const previousStatus = getAnnotationStatus(annotation);
+        annotation.status = status;
+        annotation.resolved = isClosedStatus(status);
+        this.recordChange(annotation, author, 'status', previousStatus, status);
+    }
+
+    /**
+     * Append an entry to the annotation's change log
+     */
+    private recordChange(
+        annotation: Annotation,
+        author: string,
+        field: AnnotationHistoryField,
+        previousValue: AnnotationHistoryValue | undefined,
+        newValue: AnnotationHistoryValue | undefined
+    ): void {
+        annotation.history = [
+            ...(annotation.history || []),
+            { timestamp: new Date(), author, field, previousValue, newValue },
+        ];
+    }
+
     /**
      * Generate unique ID
      */
@@ -283,16 +632,15 @@ export class AnnotationCRUD {
      * Get author name
      */
     private async getAuthor(): Promise<string> {
-        try {
-            const gitConfig = vscode.workspace.getConfiguration('git');
-            const userName = gitConfig.get<string>('user.name');
-            if (userName) {
-                return userName;
-            }
-        } catch (error) {
-            // Ignore
-        }
-
-        return process.env.USERNAME || process.env.USER || 'Unknown User';
+        return getCurrentAuthor();
     }
 }
+
+function sameTags(left: readonly string[] | undefined, right: readonly string[]): boolean {
+    const current = left || [];
+    return current.length === right.length && current.every((tag, index) => tag === right[index]);
+}
+
+function formatLocation(filePath: string, range: vscode.Range): string {
+    return `${vscode.workspace.asRelativePath(filePath)}:${range.start.line + 1}`;
+}
@@ -1,5 +1,56 @@
 import * as vscode from 'vscode';
-import { Annotation } from '../types';
+import { Annotation, AnnotationTag, TagPriority } from '../types';
+import { getGutterGlyph, getGutterGlyphKey, GutterGlyph, GutterIconStyle, renderGutterIconSvg } from './annotationGutter';
+import { findNotebookCell, isAnnotationInDocument } from './annotationTargets';
+
+export interface AnnotationDecorationsOptions {
+    resolveTag?: (tagId: string) => AnnotationTag | undefined;
+    getPriority?: (annotation: Annotation) => TagPriority | undefined;
+}
+
+export type OverviewRulerColorSource = 'priority' | 'tag';
+
+interface HighlightStyle {
+    color: string;
+    muted: boolean;
+    wholeLine: boolean;
+}
+
+const DEFAULT_COLOR = '#ffc107';
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const PRIORITY_COLORS: Record<TagPriority, string> = {
+    critical: '#f44336',
+    high: '#ff9800',
+    medium: '#ffc107',
+    low: '#4caf50',
+};
+
+/**
+ * Color of an annotation's overview ruler mark: its priority color, or the color of its
+ * first tag that has a hex color. Falls back to the annotation's own color.
+ */
+export function getOverviewRulerColor(
+    annotation: Annotation,
+    source: OverviewRulerColorSource,
+    resolveTag: (tagId: string) => AnnotationTag | undefined,
+    priority?: TagPriority
+): string {
+    if (source === 'tag') {
+        const tagColor = (annotation.tags || [])
+            .map(tagId => resolveTag(tagId)?.metadata?.color)
+            .find((color): color is string => !!color && HEX_COLOR_PATTERN.test(color));
+        if (tagColor) {
+            return tagColor;
+        }
+    } else {
+        const effectivePriority = annotation.priority ?? priority;
+        if (effectivePriority) {
+            return PRIORITY_COLORS[effectivePriority];
+        }
+    }
+
+    return annotation.color || DEFAULT_COLOR;
+}
 
 /**
  * Manages editor decorations for annotations
@@ -7,40 +58,75 @@ import { Annotation } from '../types';
  */
 export class AnnotationDecorations {
     private decorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+    private rulerDecorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+    private gutterDecorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
+
+    constructor(private readonly options: AnnotationDecorationsOptions = {}) {}
 
     /**
      * Update decorations for an editor
      */
     updateDecorations(editor: vscode.TextEditor, fileAnnotations: Annotation[]): void {
-        const unresolvedAnnotations = fileAnnotations.filter(annotation => !annotation.resolved);
+        const configuration = vscode.workspace.getConfiguration('annotative');
+        const showResolved = configuration.get<boolean>('decorations.showResolved', false);
+        const wholeLineThreshold = configuration.get<number>('decorations.wholeLineThreshold', 0);
+        const showRuler = configuration.get<boolean>('overviewRuler.enabled', true);
+        const rulerSource = configuration.get<OverviewRulerColorSource>('overviewRuler.colorBy', 'priority');
+        const resolveTag = this.options.resolveTag ?? (() => undefined);
+
+        // Notebook cell editors share the notebook's path, so each shows only its own cell
+        const cell = findNotebookCell(editor.document);
+        const editorAnnotations = fileAnnotations.filter(annotation => isAnnotationInDocument(annotation, cell));
 
-        // Group annotations by color
-        const annotationsByColor = new Map<string, vscode.DecorationOptions[]>();
+        // Closed statuses need no attention unless asked for. Orphaned annotations would
+        // otherwise highlight whatever code now sits at their old range
+        const highlightedAnnotations = editorAnnotations.filter(annotation =>
+            (showResolved || !annotation.resolved) && annotation.anchorStatus?.state !== 'orphaned'
+        );
 
-        unresolvedAnnotations.forEach(annotation => {
-            const color = annotation.color || '#ffc107'; // Default to yellow
+        // Group annotations by highlight style and by ruler color
+        const annotationsByStyle = new Map<string, { style: HighlightStyle; options: vscode.DecorationOptions[] }>();
+        const annotationsByRulerColor = new Map<string, vscode.Range[]>();
 
-            if (!annotationsByColor.has(color)) {
-                annotationsByColor.set(color, []);
+        highlightedAnnotations.forEach(annotation => {
+            const lineCount = annotation.range.end.line - annotation.range.start.line + 1;
+            const style: HighlightStyle = {
+                color: annotation.color || DEFAULT_COLOR,
+                muted: annotation.resolved,
+                wholeLine: wholeLineThreshold > 0 && lineCount >= wholeLineThreshold,
+            };
+            const styleKey = `${style.color}|${style.muted}|${style.wholeLine}`;
+
+            if (!annotationsByStyle.has(styleKey)) {
+                annotationsByStyle.set(styleKey, { style, options: [] });
             }
 
-            annotationsByColor.get(color)!.push({
-                range: annotation.range,
-                hoverMessage: new vscode.MarkdownString(
-                    `**Annotation by ${annotation.author}**\n\n${annotation.comment}\n\n*${annotation.timestamp.toLocaleString()}*`
-                )
-            });
+            // Hovers come from AnnotationHoverProvider so resolved annotations get one too
+            annotationsByStyle.get(styleKey)!.options.push({ range: annotation.range });
+
+            if (showRuler) {
+                const rulerColor = getOverviewRulerColor(annotation, rulerSource, resolveTag, this.options.getPriority?.(annotation));
+                const rulerKey = `${rulerColor}|${annotation.resolved}`;
+                annotationsByRulerColor.set(rulerKey, [...(annotationsByRulerColor.get(rulerKey) || []), annotation.range]);
+            }
         });
 
+        const annotationsByGlyph = this.getGutterDecorations(editorAnnotations);
+
         // Clear all existing decorations first
-        this.decorationTypes.forEach(decorationType => {
-            editor.setDecorations(decorationType, []);
+        this.clearDecorations(editor);
+
+        // Apply decorations for each style group
+        annotationsByStyle.forEach(({ style, options }, key) => {
+            editor.setDecorations(this.getHighlightDecorationType(key, style), options);
+        });
+
+        annotationsByRulerColor.forEach((ranges, key) => {
+            editor.setDecorations(this.getRulerDecorationType(key), ranges);
         });
 
-        // Apply decorations for each color group
-        annotationsByColor.forEach((decorationOptions, color) => {
-            const decorationType = this.getDecorationTypeForColor(color);
-            editor.setDecorations(decorationType, decorationOptions);
+        annotationsByGlyph.forEach(({ glyph, ranges }, key) => {
+            editor.setDecorations(this.getGutterDecorationType(key, glyph), ranges);
         });
     }
 
@@ -48,7 +134,7 @@ export class AnnotationDecorations {
      * Clear all decorations
      */
     clearDecorations(editor: vscode.TextEditor): void {
-        this.decorationTypes.forEach(decorationType => {
+        this.getAllDecorationTypes().forEach(decorationType => {
             editor.setDecorations(decorationType, []);
         });
     }
@@ -57,37 +143,115 @@ export class AnnotationDecorations {
      * Dispose all decoration types
      */
     dispose(): void {
-        this.decorationTypes.forEach(decorationType => {
+        this.getAllDecorationTypes().forEach(decorationType => {
             decorationType.dispose();
         });
         this.decorationTypes.clear();
+        this.rulerDecorationTypes.clear();
+        this.gutterDecorationTypes.clear();
     }
 
     /**
-     * Create or get a decoration type for a specific color
+     * Gutter icons mark the first line of every anchored annotation, resolved ones included,
+     * so annotations stay visible when their range is scrolled out of view horizontally.
      */
-    private getDecorationTypeForColor(color: string): vscode.TextEditorDecorationType {
-        if (!this.decorationTypes.has(color)) {
-            // Convert hex to rgba for background (20% opacity)
-            const rgbaBackground = this.hexToRgba(color, 0.2);
-            const rgbaBorder = this.hexToRgba(color, 0.5);
+    private getGutterDecorations(fileAnnotations: Annotation[]): Map<string, { glyph: GutterGlyph; ranges: vscode.Range[] }> {
+        const configuration = vscode.workspace.getConfiguration('annotative');
+        const annotationsByGlyph = new Map<string, { glyph: GutterGlyph; ranges: vscode.Range[] }>();
+        if (!configuration.get<boolean>('gutter.enabled', true)) {
+            return annotationsByGlyph;
+        }
+
+        const style = configuration.get<GutterIconStyle>('gutter.iconStyle', 'priority');
+        const resolveTag = this.options.resolveTag ?? (() => undefined);
+        const claimedLines = new Set<number>();
+
+        // Open annotations win the line when several start on it
+        [...fileAnnotations]
+            .filter(annotation => annotation.anchorStatus?.state !== 'orphaned')
+            .sort((left, right) => Number(left.resolved) - Number(right.resolved))
+            .forEach(annotation => {
+                const line = annotation.range.start.line;
+                if (claimedLines.has(line)) {
+                    return;
+                }
+                claimedLines.add(line);
+
+                const glyph = getGutterGlyph(annotation, style, resolveTag, this.options.getPriority?.(annotation));
+                const key = getGutterGlyphKey(glyph);
+                if (!annotationsByGlyph.has(key)) {
+                    annotationsByGlyph.set(key, { glyph, ranges: [] });
+                }
+                annotationsByGlyph.get(key)!.ranges.push(new vscode.Range(line, 0, line, 0));
+            });
+
+        return annotationsByGlyph;
+    }
+
+    private getGutterDecorationType(key: string, glyph: GutterGlyph): vscode.TextEditorDecorationType {
+        if (!this.gutterDecorationTypes.has(key)) {
+            const svg = Buffer.from(renderGutterIconSvg(glyph)).toString('base64');
+            this.gutterDecorationTypes.set(key, vscode.window.createTextEditorDecorationType({
+                gutterIconPath: vscode.Uri.parse(`data:image/svg+xml;base64,${svg}`),
+                gutterIconSize: 'contain',
+            }));
+        }
+
+        return this.gutterDecorationTypes.get(key)!;
+    }
+
+    /**
+     * Create or get a decoration type for a highlight style. Resolved annotations get a
+     * fainter, dashed variant
+     */
+    private getHighlightDecorationType(key: string, style: HighlightStyle): vscode.TextEditorDecorationType {
+        if (!this.decorationTypes.has(key)) {
+            // Convert hex to rgba for background (20% opacity, 8% when muted)
+            const rgbaBackground = this.hexToRgba(style.color, style.muted ? 0.08 : 0.2);
+            const rgbaBorder = this.hexToRgba(style.color, style.muted ? 0.3 : 0.5);
 
             const decorationType = vscode.window.createTextEditorDecorationType({
                 backgroundColor: rgbaBackground,
-                border: `1px solid ${rgbaBorder}`,
+                // Whole-line highlights of long ranges read better without a box around them
+                border: style.wholeLine ? undefined : `1px ${style.muted ? 'dashed' : 'solid'} ${rgbaBorder}`,
                 borderRadius: '2px',
-                isWholeLine: false,
+                isWholeLine: style.wholeLine,
                 after: {
                     contentText: '',
-                    color: color,
+                    color: style.color,
                     fontWeight: 'bold'
                 }
             });
 
-            this.decorationTypes.set(color, decorationType);
+            this.decorationTypes.set(key, decorationType);
+        }
+
+        return this.decorationTypes.get(key)!;
+    }
+
+    /**
+     * Overview ruler marks live on their own decoration types because their color follows
+     * priority or tags rather than the highlight color. The stable API has no minimap
+     * equivalent, so annotations cannot be marked there.
+     */
+    private getRulerDecorationType(key: string): vscode.TextEditorDecorationType {
+        if (!this.rulerDecorationTypes.has(key)) {
+            const [color, resolved] = key.split('|');
+            this.rulerDecorationTypes.set(key, vscode.window.createTextEditorDecorationType({
+                overviewRulerColor: resolved === 'true' ? this.hexToRgba(color, 0.35) : color,
+                overviewRulerLane: vscode.OverviewRulerLane.Right,
+            }));
         }
 
-        return this.decorationTypes.get(color)!;
+        return this.rulerDecorationTypes.get(key)!;
+    }
+
+    private getAllDecorationTypes(): vscode.TextEditorDecorationType[] {
+        return [
+            ...this.decorationTypes.values(),
+            ...this.rulerDecorationTypes.values(),
+            ...this.gutterDecorationTypes.values(),
+        ];
     }
 
     /**
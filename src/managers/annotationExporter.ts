@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import { Annotation, ExportData } from '../types';
-import { getRelativePathForFile, getWorkspaceNameForAnnotations, groupAnnotationsByFile } from './exportSupport';
+import { formatDueDate } from './annotationAssignments';
+import { formatAnnotationLocation } from './annotationTargets';
+import { getAnnotationStatus, getStatusLabel } from './annotationWorkflow';
+import { formatHistoryEntry, getRelativePathForFile, getWorkspaceNameForAnnotations, groupAnnotationsByFile } from './exportSupport';
 
 /**
  * Export and utility functions for annotations
@@ -45,20 +48,50 @@ export class AnnotationExporter {
             markdown += `## ${relativePath}\n\n`;
 
             annotations.forEach((annotation, index) => {
-                const statusIcon = annotation.resolved ? '[Resolved]' : '[Open]';
-                markdown += `### ${statusIcon} Annotation ${index + 1}\n\n`;
+                const statusLabel = getStatusLabel(getAnnotationStatus(annotation));
+                markdown += `### [${statusLabel}] Annotation ${index + 1}\n\n`;
                 markdown += `**Author:** ${annotation.author}  \n`;
                 markdown += `**Date:** ${annotation.timestamp.toLocaleString()}  \n`;
-                markdown += `**Lines:** ${annotation.range.start.line + 1}-${annotation.range.end.line + 1}  \n`;
-                markdown += `**Status:** ${annotation.resolved ? 'Resolved' : 'Open'}\n\n`;
+                markdown += annotation.target
+                    ? `**Location:** ${formatAnnotationLocation(annotation)}  \n`
+                    : `**Lines:** ${annotation.range.start.line + 1}-${annotation.range.end.line + 1}  \n`;
+                if (annotation.assignee) {
+                    markdown += `**Assignee:** ${annotation.assignee}  \n`;
+                }
+                if (annotation.dueDate) {
+                    markdown += `**Due:** ${formatDueDate(annotation)}  \n`;
+                }
+                const orphanedLabel = annotation.anchorStatus?.state === 'orphaned' ? ' (orphaned: code no longer found)' : '';
+                markdown += `**Status:** ${statusLabel}${orphanedLabel}\n\n`;
 
-                markdown += `**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`;
+                if (annotation.target?.type !== 'file') {
+                    markdown += `**Code:**\n\`\`\`\n${annotation.text}\n\`\`\`\n\n`;
+                }
                 markdown += `**Comment:**\n${annotation.comment}\n\n`;
 
                 if (annotation.tags && annotation.tags.length > 0) {
                     markdown += `**Tags:** ${this.resolveTagLabels(annotation.tags).join(', ')}\n\n`;
                 }
 
+                if (annotation.replies && annotation.replies.length > 0) {
+                    markdown += '**Discussion:**\n\n';
+                    annotation.replies.forEach(reply => {
+                        const editedLabel = reply.edited ? ' (edited)' : '';
+                        // Indent continuation lines so multi-line bodies stay inside the bullet
+                        const body = reply.body.split(/\r?\n/).join('\n  ');
+                        markdown += `- **${reply.author}** (${reply.timestamp.toLocaleString()})${editedLabel}: ${body}\n`;
+                    });
+                    markdown += '\n';
+                }
+
+                if (annotation.history && annotation.history.length > 0) {
+                    markdown += '**History:**\n\n';
+                    annotation.history.forEach(entry => {
+                        markdown += `${formatHistoryEntry(entry, tagIds => this.resolveTagLabels(tagIds))}\n`;
+                    });
+                    markdown += '\n';
+                }
+
                 markdown += '---\n\n';
             });
         });
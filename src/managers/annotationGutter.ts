@@ -0,0 +1,97 @@
+import { Annotation, AnnotationTag, TagPriority } from '../types';
+
+export type GutterIconStyle = 'priority' | 'tag';
+
+/**
+ * What a gutter icon draws. `letter` is only set for tag glyphs.
+ */
+export interface GutterGlyph {
+    shape: 'diamond' | 'triangle' | 'circle' | 'ring' | 'bar' | 'check' | 'badge';
+    color: string;
+    letter?: string;
+}
+
+const DEFAULT_COLOR = '#ffc107';
+const RESOLVED_COLOR = '#89d185';
+const PRIORITY_SHAPES: Record<TagPriority, GutterGlyph['shape']> = {
+    critical: 'diamond',
+    high: 'triangle',
+    medium: 'circle',
+    low: 'ring',
+};
+
+/**
+ * Choose the gutter glyph for an annotation. Closed annotations share a check mark so they
+ * stay visible without competing with open ones.
+ */
+export function getGutterGlyph(
+    annotation: Annotation,
+    style: GutterIconStyle,
+    resolveTag: (tagId: string) => AnnotationTag | undefined,
+    priority?: TagPriority
+): GutterGlyph {
+    if (annotation.resolved) {
+        return { shape: 'check', color: RESOLVED_COLOR };
+    }
+
+    const color = annotation.color || DEFAULT_COLOR;
+    if (style === 'tag') {
+        const primaryTag = annotation.tags?.length ? resolveTag(annotation.tags[0]) : undefined;
+        const name = primaryTag?.name || annotation.tags?.[0];
+        if (name) {
+            return {
+                shape: 'badge',
+                color: primaryTag?.metadata?.color || color,
+                letter: name.charAt(0).toUpperCase(),
+            };
+        }
+    }
+
+    const effectivePriority = annotation.priority ?? priority;
+    return {
+        shape: effectivePriority ? PRIORITY_SHAPES[effectivePriority] : 'bar',
+        color,
+    };
+}
+
+export function getGutterGlyphKey(glyph: GutterGlyph): string {
+    return `${glyph.shape}:${glyph.color}:${glyph.letter ?? ''}`;
+}
+
+/**
+ * Render a glyph as a 16x16 SVG.
+ */
+export function renderGutterIconSvg(glyph: GutterGlyph): string {
+    const { color } = glyph;
+    let body: string;
+
+    switch (glyph.shape) {
+        case 'diamond':
+            body = `<path d="M8 1 L15 8 L8 15 L1 8 Z" fill="${color}"/><path d="M8 4 V9 M8 11 V12" stroke="#fff" stroke-width="2"/>`;
+            break;
+        case 'triangle':
+            body = `<path d="M8 2 L14 13 L2 13 Z" fill="${color}"/>`;
+            break;
+        case 'circle':
+            body = `<circle cx="8" cy="8" r="5" fill="${color}"/>`;
+            break;
+        case 'ring':
+            body = `<circle cx="8" cy="8" r="4.5" fill="none" stroke="${color}" stroke-width="2"/>`;
+            break;
+        case 'check':
+            body = `<path d="M3 8.5 L6.5 12 L13 4.5" fill="none" stroke="${color}" stroke-width="2"/>`;
+            break;
+        case 'badge':
+            body = `<circle cx="8" cy="8" r="7" fill="${color}"/>`
+                + `<text x="8" y="11.5" font-size="10" font-family="sans-serif" font-weight="bold" text-anchor="middle" fill="#fff">${escapeSvgText(glyph.letter ?? '')}</text>`;
+            break;
+        default:
+            body = `<rect x="6" y="2" width="4" height="12" rx="1" fill="${color}"/>`;
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16">${body}</svg>`;
+}
+
+function escapeSvgText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
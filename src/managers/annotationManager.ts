@@ -1,21 +1,67 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import {
     Annotation,
+    AnnotationAssignment,
+    AnnotationReply,
+    AnnotationRule,
     AnnotationStatistics,
+    AnnotationStatus,
+    AnnotationStorageLayout,
     AnnotationTag,
     AnnotationTagOption,
     ExportData,
     TagCategory,
     TagMetadata,
+    TagPackFile,
     TagPriority,
     TagSuggestion,
 } from '../types';
-import { TagManager } from '../tags';
-import { reattachAnnotation } from './annotationAnchors';
-import { AnnotationCRUD } from './annotationCRUD';
+import {
+    TagHierarchyIssue,
+    TagManager,
+    TagPackConflictResolver,
+    TagPackImportReport,
+    TagRewritePlan,
+    TagSuggestionContext,
+} from '../tags';
+import { getCurrentAuthor } from '../utils/author';
+import { GitCommandRunner, runGitCommand } from '../utils/git';
+import { getPreferredWorkspaceFolder } from '../utils/workspaceContext';
+import { listGitAuthors } from './annotationAssignments';
+import { anchorStatusEqual, createOrphanedStatus, isOrphanedAnnotation, reattachAnnotation } from './annotationAnchors';
+import { AnnotationCRUD, AnnotationRuleEvaluator } from './annotationCRUD';
+import {
+    AnnotationRuleContext,
+    AnnotationRuleDryRun,
+    evaluateAnnotationRules,
+    loadAnnotationRules,
+    RULES_FILE_NAME,
+} from './annotationRules';
 import { AnnotationDecorations } from './annotationDecorations';
 import { AnnotationExportService } from './annotationExportService';
+import { detectGitRenames, FileRename, remapRenamedPath } from './annotationRenames';
+import {
+    AnnotationSnapshot,
+    AnnotationUndoConflictError,
+    AnnotationUndoStack,
+    diffAnnotationSnapshots,
+    snapshotMatches,
+} from './annotationUndoStack';
+import { captureGitAnchor, DiffHunk, mapGitAnchorRange, readGitDiffHunks } from './gitAnchors';
 import { AnnotationStorageManager } from './annotationStorage';
+import { createNotebookCellTarget, findNotebookCell, isAnnotationInDocument, isTextAnnotation } from './annotationTargets';
+import { StorageMergeConflict, storageValuesEqual } from './storageMerge';
+
+export interface AnnotationManagerOptions {
+    runGitCommand?: GitCommandRunner;
+}
+
+export interface StorageReconcileSummary {
+    changed: boolean;
+    unreadable: boolean;
+    conflicts: StorageMergeConflict[];
+}
 
 /**
  * Main annotation manager - orchestrates all annotation operations.
@@ -29,30 +75,91 @@ export class AnnotationManager {
     private exportService: AnnotationExportService;
     private onDidChangeAnnotationsEmitter = new vscode.EventEmitter<void>();
     private persistenceScheduled = false;
+    private readonly runGitCommand: GitCommandRunner;
+    private readonly workspaceListeners: vscode.Disposable[] = [];
+    private readonly undoStack: AnnotationUndoStack;
+    private trackingDepth = 0;
+    private rules: AnnotationRule[] = [];
+    private ruleErrors: string[] = [];
+    private readonly ruleEvaluator: AnnotationRuleEvaluator = (annotation, edit) =>
+        evaluateAnnotationRules(annotation, this.rules, this.getRuleContext(), edit);
     public readonly onDidChangeAnnotations = this.onDidChangeAnnotationsEmitter.event;
     public readonly ready: Promise<void>;
 
-    constructor(private context: vscode.ExtensionContext) {
+    constructor(private context: vscode.ExtensionContext, options: AnnotationManagerOptions = {}) {
         this.tagManager = new TagManager();
-        this.decorations = new AnnotationDecorations();
+        this.decorations = new AnnotationDecorations({
+            resolveTag: tagId => this.tagManager.getResolvedTag(tagId),
+            getPriority: annotation => this.getAnnotationPriority(annotation),
+        });
         this.storage = new AnnotationStorageManager(this.annotations, context);
         this.crud = new AnnotationCRUD(this.annotations, this.decorations, this.storage);
         this.exportService = new AnnotationExportService(this.annotations, (tagIds) => this.resolveTagLabels(tagIds));
+        this.runGitCommand = options.runGitCommand ?? runGitCommand;
+        this.undoStack = new AnnotationUndoStack(context.workspaceState);
+
+        // Renames follow the file; deletions leave orphans to re-anchor
+        this.workspaceListeners.push(
+            vscode.workspace.onDidRenameFiles(event => {
+                void this.ready.then(() => this.renameFiles(
+                    event.files.map(file => ({ oldPath: file.oldUri.fsPath, newPath: file.newUri.fsPath }))
+                ));
+            }),
+            vscode.workspace.onDidDeleteFiles(event => {
+                void this.ready.then(() => this.markFilesMissing(event.files.map(uri => uri.fsPath)));
+            }),
+            // Sharded storage reads a file's annotations when the file is first opened
+            vscode.workspace.onDidOpenTextDocument(document => {
+                if (document.uri.scheme === 'file') {
+                    void this.ready.then(() => this.ensureAnnotationsLoaded([document.uri.fsPath]));
+                }
+            }),
+            vscode.workspace.onDidOpenNotebookDocument(notebook => {
+                void this.ready.then(() => this.ensureAnnotationsLoaded([notebook.uri.fsPath]));
+            })
+        );
 
         this.ready = this.initialize();
     }
 
     private async initialize(): Promise<void> {
         await this.loadCustomTags();
+        await this.reloadRules();
         const annotationLoad = await this.storage.loadAnnotations();
+        await this.storage.loadFileAnnotations(this.getOpenFilePaths());
         const migratedAnnotations = this.normalizeLoadedAnnotations();
+        const renamedAnnotations = await this.followGitRenames();
         const rebasedAnnotations = await this.rebaseStoredAnnotations();
 
-        if (annotationLoad.needsSave || migratedAnnotations || rebasedAnnotations) {
+        if (annotationLoad.needsSave || migratedAnnotations || renamedAnnotations || rebasedAnnotations) {
             await this.storage.saveAnnotations();
         }
     }
 
+    /**
+     * Read annotations that sharded storage has not loaded yet: those of the given files,
+     * or without paths every file, for views and operations that cover the whole workspace.
+     */
+    async ensureAnnotationsLoaded(filePaths?: readonly string[]): Promise<void> {
+        const loadedPaths = filePaths
+            ? await this.storage.loadFileAnnotations(filePaths)
+            : await this.storage.loadAllShards();
+        if (loadedPaths.length === 0) {
+            return;
+        }
+
+        let changed = this.normalizeLoadedAnnotations();
+        for (const filePath of loadedPaths) {
+            changed = await this.rebaseFileFromDisk(filePath) || changed;
+        }
+        if (changed) {
+            await this.storage.saveAnnotations();
+        }
+
+        this.notifyAnnotationsChanged();
+        this.refreshVisibleDecorations();
+    }
+
     getTagManager(): TagManager {
         return this.tagManager;
     }
@@ -68,17 +175,24 @@ export class AnnotationManager {
     getTagOptions(): AnnotationTagOption[] {
         return this.tagManager
             .getAllTags()
-            .map(tag => ({
-                id: tag.id,
-                label: tag.name,
-                color: tag.metadata?.color,
-                priority: tag.metadata?.priority,
-            }))
+            .map(tag => {
+                const resolved = this.tagManager.getResolvedTag(tag.id)!;
+                return {
+                    id: tag.id,
+                    label: resolved.name,
+                    color: resolved.metadata?.color,
+                    priority: resolved.metadata?.priority,
+                    parentId: this.tagManager.getAncestorIds(tag.id)[0],
+                };
+            })
             .sort((left, right) => left.label.localeCompare(right.label));
     }
 
+    /**
+     * The tag's name with its parents, e.g. "security/xss", or the ID for unknown tags
+     */
     resolveTagLabel(tagId: string): string {
-        return this.tagManager.getTag(tagId)?.name || tagId;
+        return this.tagManager.getTagPath(tagId) || tagId;
     }
 
     resolveTagLabels(tagIds?: readonly string[]): string[] {
@@ -89,6 +203,13 @@ export class AnnotationManager {
         return tagIds.map(tagId => this.resolveTagLabel(tagId));
     }
 
+    /**
+     * Parent tag IDs, nearest first, so that filtering by "security" includes "security/xss"
+     */
+    getTagAncestors(tagId: string): string[] {
+        return this.tagManager.getAncestorIds(tagId);
+    }
+
     getAnnotationPriority(annotation: Annotation): TagPriority | undefined {
         const priorityOrder: TagPriority[] = ['critical', 'high', 'medium', 'low'];
         const priorities = (annotation.tags || [])
@@ -100,12 +221,20 @@ export class AnnotationManager {
         return priorityOrder.find(priority => priorities.includes(priority));
     }
 
-    async createCustomTag(name: string, category: TagCategory, metadata?: TagMetadata): Promise<AnnotationTag> {
-        const tag = this.tagManager.createCustomTag(name, category, metadata);
+    async createCustomTag(name: string, category: TagCategory, metadata?: TagMetadata, parentId?: string): Promise<AnnotationTag> {
+        const tag = this.tagManager.createCustomTag(name, category, metadata, parentId);
         await this.saveCustomTags();
         return tag;
     }
 
+    async moveCustomTag(id: string, parentId: string | undefined): Promise<AnnotationTag | undefined> {
+        const tag = this.tagManager.moveCustomTag(id, parentId);
+        if (tag) {
+            await this.saveCustomTags();
+        }
+        return tag;
+    }
+
     async updateCustomTag(id: string, name?: string, metadata?: TagMetadata): Promise<AnnotationTag | undefined> {
         const tag = this.tagManager.updateCustomTag(id, name, metadata);
         if (tag) {
@@ -114,16 +243,61 @@ export class AnnotationManager {
         return tag;
     }
 
-    async deleteCustomTag(id: string): Promise<boolean> {
-        const deleted = this.tagManager.deleteCustomTag(id);
-        if (deleted) {
+    /**
+     * Delete a tag and remove it from annotations, or give them the replacement tag instead
+     */
+    async deleteCustomTag(id: string, replacementId?: string): Promise<boolean> {
+        if (!this.tagManager.getTag(id)) {
+            return false;
+        }
+
+        await this.applyTagRewrite(this.tagManager.planTagDelete(id, replacementId));
+        return true;
+    }
+
+    /**
+     * Annotations whose tags a planned rename, merge, or delete would change, in every
+     * file including those whose shard was not read yet
+     */
+    async getTagRewriteImpact(plan: TagRewritePlan): Promise<Annotation[]> {
+        await this.ensureAnnotationsLoaded();
+        return this.getAllAnnotations()
+            .filter(annotation => (annotation.tags || []).some(tagId => plan.replacements.has(tagId)));
+    }
+
+    /**
+     * Apply a planned rename, merge, or delete to the custom tags and to the tags of
+     * every annotation, in all files, as one undo step. Returns the number of annotations changed.
+     */
+    async applyTagRewrite(plan: TagRewritePlan): Promise<number> {
+        await this.ensureAnnotationsLoaded();
+        const changed = await this.trackChanges(plan.label, async () => {
+            this.warnTagHierarchyIssues(this.tagManager.applyTagRewrite(plan));
             await this.saveCustomTags();
+            return this.crud.replaceTagIds(plan.replacements);
+        }, { customTags: true });
+        this.notifyAnnotationsChanged();
+        this.refreshVisibleDecorations();
+        return changed;
+    }
+
+    /**
+     * Merge a tag pack into the custom tags and save them when anything changed
+     */
+    async importTagPack(pack: TagPackFile, resolveConflict: TagPackConflictResolver): Promise<TagPackImportReport> {
+        const report = await this.tagManager.importTagPack(pack, resolveConflict);
+        if (report.added.length > 0 || report.updated.length > 0 || report.renamed.length > 0) {
+            await this.saveCustomTags();
+            this.refreshVisibleDecorations();
         }
-        return deleted;
+        return report;
     }
 
-    getTagSuggestions(comment: string): TagSuggestion[] {
-        return this.tagManager.suggestTagsFromComment(comment);
+    /**
+     * Tags likely to fit a new comment, learned from the workspace's tagged annotations
+     */
+    getTagSuggestions(comment: string, context: TagSuggestionContext = {}): TagSuggestion[] {
+        return this.tagManager.suggestTagsFromComment(comment, this.getAllAnnotations(), context);
     }
 
     async addAnnotation(
@@ -133,21 +307,80 @@ export class AnnotationManager {
         tags?: string[],
         color?: string
     ): Promise<Annotation> {
-        const result = await this.crud.addAnnotation(editor, range, comment, tags, color);
-        this.notifyAnnotationsChanged();
-        return result;
+        await this.ensureAnnotationsLoaded([findNotebookCell(editor.document)?.notebook.uri.fsPath ?? editor.document.uri.fsPath]);
+        return this.trackChanges('Add annotation', async () => {
+            const result = await this.crud.addAnnotation(editor, range, comment, tags, color, this.ruleEvaluator);
+            this.notifyAnnotationsChanged();
+            if (!editor.document.isDirty && isTextAnnotation(result)) {
+                await this.recordGitAnchor(result);
+            }
+            return result;
+        });
+    }
+
+    async addFileAnnotation(filePath: string, comment: string, tags?: string[], color?: string): Promise<Annotation> {
+        await this.ensureAnnotationsLoaded([filePath]);
+        return this.trackChanges('Add annotation', async () => {
+            const result = await this.crud.addFileAnnotation(filePath, comment, tags, color, this.ruleEvaluator);
+            this.notifyAnnotationsChanged();
+            return result;
+        });
     }
 
     async removeAnnotation(annotationId: string, filePath: string): Promise<void> {
-        await this.crud.removeAnnotation(annotationId, filePath);
+        await this.trackChanges('Remove annotation', () => this.crud.removeAnnotation(annotationId, filePath));
         this.notifyAnnotationsChanged();
     }
 
     async toggleResolvedStatus(annotationId: string, filePath: string): Promise<void> {
-        await this.crud.toggleResolvedStatus(annotationId, filePath);
+        await this.trackChanges('Toggle status', () => this.crud.toggleResolvedStatus(annotationId, filePath));
         this.notifyAnnotationsChanged();
     }
 
+    async setAnnotationStatus(annotationId: string, filePath: string, status: AnnotationStatus): Promise<boolean> {
+        const changed = await this.trackChanges('Change status', () => this.crud.setStatus(annotationId, filePath, status));
+        if (changed) {
+            this.notifyAnnotationsChanged();
+        }
+        return changed;
+    }
+
+    async assignAnnotation(annotationId: string, filePath: string, assignment: AnnotationAssignment): Promise<boolean> {
+        const changed = await this.trackChanges('Assign annotation', () => this.crud.setAssignment(annotationId, filePath, assignment));
+        if (changed) {
+            this.notifyAnnotationsChanged();
+        }
+        return changed;
+    }
+
+    /**
+     * The name used as author for new annotations and changes, also used to find
+     * annotations assigned to the current user.
+     */
+    getCurrentUser(): string {
+        return getCurrentAuthor();
+    }
+
+    /**
+     * People to offer when assigning: the current user, then everyone already used as an
+     * author or assignee, then the workspace's git commit authors.
+     */
+    async getAssigneeSuggestions(): Promise<string[]> {
+        const folder = getPreferredWorkspaceFolder();
+        const gitAuthors = folder ? await listGitAuthors(folder.uri.fsPath, this.runGitCommand) : [];
+        const known = this.getAllAnnotations().flatMap(annotation => [annotation.assignee, annotation.author]);
+        const suggestions = new Map<string, string>();
+
+        [this.getCurrentUser(), ...known, ...gitAuthors].forEach(name => {
+            const trimmed = name?.trim();
+            if (trimmed && !suggestions.has(trimmed.toLowerCase())) {
+                suggestions.set(trimmed.toLowerCase(), trimmed);
+            }
+        });
+
+        return [...suggestions.values()];
+    }
+
     async editAnnotation(
         annotationId: string,
         filePath: string,
@@ -155,8 +388,104 @@ export class AnnotationManager {
         tags?: string[],
         color?: string
     ): Promise<void> {
-        await this.crud.editAnnotation(annotationId, filePath, comment, tags, color);
+        await this.trackChanges(
+            'Edit annotation',
+            () => this.crud.editAnnotation(annotationId, filePath, comment, tags, color, this.ruleEvaluator)
+        );
+        this.notifyAnnotationsChanged();
+    }
+
+    async addReply(annotationId: string, filePath: string, body: string): Promise<AnnotationReply | undefined> {
+        const result = await this.trackChanges('Add reply', () => this.crud.addReply(annotationId, filePath, body));
+        if (result) {
+            this.notifyAnnotationsChanged();
+        }
+        return result;
+    }
+
+    async editReply(annotationId: string, filePath: string, replyId: string, body: string): Promise<AnnotationReply | undefined> {
+        const result = await this.trackChanges('Edit reply', () => this.crud.editReply(annotationId, filePath, replyId, body));
+        if (result) {
+            this.notifyAnnotationsChanged();
+        }
+        return result;
+    }
+
+    async removeReply(annotationId: string, filePath: string, replyId: string): Promise<boolean> {
+        const result = await this.trackChanges('Remove reply', () => this.crud.removeReply(annotationId, filePath, replyId));
+        if (result) {
+            this.notifyAnnotationsChanged();
+        }
+        return result;
+    }
+
+    async reanchorAnnotation(
+        annotationId: string,
+        filePath: string,
+        document: vscode.TextDocument,
+        range: vscode.Range
+    ): Promise<Annotation | undefined> {
+        return this.trackChanges('Re-anchor annotation', async () => {
+            const result = await this.crud.reanchorAnnotation(annotationId, filePath, document, range);
+            if (result) {
+                this.notifyAnnotationsChanged();
+                this.refreshVisibleDecorations();
+                if (!document.isDirty && isTextAnnotation(result)) {
+                    await this.recordGitAnchor(result);
+                }
+            }
+            return result;
+        });
+    }
+
+    getOrphanedAnnotations(): Annotation[] {
+        return this.getAllAnnotations().filter(isOrphanedAnnotation);
+    }
+
+    /**
+     * Move annotations to the new path of renamed files (or folders) and reattach them
+     * against the file contents at their new location.
+     */
+    async renameFiles(renames: readonly FileRename[]): Promise<number> {
+        await this.storage.loadFileAnnotations(
+            this.storage.getUnloadedFilePaths().filter(filePath => remapRenamedPath(filePath, renames))
+        );
+        const movedPaths = this.moveRenamedAnnotations(renames);
+        if (movedPaths.length === 0) {
+            return 0;
+        }
+
+        for (const filePath of movedPaths) {
+            await this.rebaseFileFromDisk(filePath);
+        }
+
+        await this.storage.saveAnnotations();
         this.notifyAnnotationsChanged();
+        this.refreshVisibleDecorations();
+
+        return movedPaths.length;
+    }
+
+    /**
+     * Orphan annotations on files (or folders) that were deleted.
+     */
+    async markFilesMissing(filePaths: readonly string[]): Promise<number> {
+        let orphaned = 0;
+        this.annotations.forEach((fileAnnotations, annotatedPath) => {
+            const removed = filePaths.some(removedPath =>
+                annotatedPath === removedPath || annotatedPath.startsWith(`${removedPath}${path.sep}`)
+            );
+            if (removed) {
+                orphaned += this.setFileOrphaned(fileAnnotations);
+            }
+        });
+
+        if (orphaned > 0) {
+            await this.storage.saveAnnotations();
+            this.notifyAnnotationsChanged();
+        }
+
+        return orphaned;
     }
 
     getAnnotation(annotationId: string, filePath: string): Annotation | undefined {
@@ -164,13 +493,14 @@ export class AnnotationManager {
     }
 
     async undoLastAnnotation(): Promise<Annotation | undefined> {
-        const result = await this.crud.undoLastAnnotation();
+        const result = await this.trackChanges('Undo last annotation', () => this.crud.undoLastAnnotation());
         this.notifyAnnotationsChanged();
         return result;
     }
 
     async resolveAll(filePath?: string): Promise<number> {
-        const result = await this.crud.resolveAll(filePath);
+        await this.ensureAnnotationsLoaded(filePath ? [filePath] : undefined);
+        const result = await this.trackChanges('Resolve all', () => this.crud.resolveAll(filePath));
         if (result > 0) {
             this.notifyAnnotationsChanged();
         }
@@ -178,7 +508,8 @@ export class AnnotationManager {
     }
 
     async deleteResolved(filePath?: string): Promise<number> {
-        const result = await this.crud.deleteResolved(filePath);
+        await this.ensureAnnotationsLoaded(filePath ? [filePath] : undefined);
+        const result = await this.trackChanges('Delete resolved', () => this.crud.deleteResolved(filePath));
         if (result > 0) {
             this.notifyAnnotationsChanged();
         }
@@ -186,13 +517,104 @@ export class AnnotationManager {
     }
 
     async deleteAll(filePath?: string): Promise<number> {
-        const result = await this.crud.deleteAll(filePath);
+        await this.ensureAnnotationsLoaded(filePath ? [filePath] : undefined);
+        const result = await this.trackChanges('Delete all', () => this.crud.deleteAll(filePath));
         if (result > 0) {
             this.notifyAnnotationsChanged();
         }
         return result;
     }
 
+    /**
+     * Group several operations into a single undo step, e.g. a bulk edit.
+     */
+    async runBatch<T>(label: string, operation: () => Promise<T>): Promise<T> {
+        return this.trackChanges(label, operation);
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.canUndo();
+    }
+
+    canRedo(): boolean {
+        return this.undoStack.canRedo();
+    }
+
+    /**
+     * Revert the most recent operation. Returns its label, or undefined when there is nothing to undo.
+     * Throws an AnnotationUndoConflictError, leaving the step on the stack, when its annotations
+     * changed after it was recorded, unless `overwriteChanged` is set.
+     */
+    async undo(overwriteChanged = false): Promise<string | undefined> {
+        const entry = this.undoStack.peekUndo();
+        if (!entry) {
+            return undefined;
+        }
+
+        const changes = entry.changes.map(change => ({ id: change.id, current: change.after, target: change.before }));
+        const customTags = entry.customTags && { current: entry.customTags.after, target: entry.customTags.before };
+        await this.checkSnapshotConflicts(entry.label, changes, customTags, overwriteChanged);
+        await this.undoStack.popUndo();
+        await this.applySnapshots(changes, customTags?.target, 'undo', entry.label);
+        return entry.label;
+    }
+
+    /**
+     * Re-apply the most recently undone operation, with the same conflict check as undo.
+     */
+    async redo(overwriteChanged = false): Promise<string | undefined> {
+        const entry = this.undoStack.peekRedo();
+        if (!entry) {
+            return undefined;
+        }
+
+        const changes = entry.changes.map(change => ({ id: change.id, current: change.before, target: change.after }));
+        const customTags = entry.customTags && { current: entry.customTags.before, target: entry.customTags.after };
+        await this.checkSnapshotConflicts(entry.label, changes, customTags, overwriteChanged);
+        await this.undoStack.popRedo();
+        await this.applySnapshots(changes, customTags?.target, 'redo', entry.label);
+        return entry.label;
+    }
+
+    /**
+     * Re-read the automation rules in `.annotative/rules.json`. When the file can't be
+     * read the rules in memory are kept and false is returned.
+     */
+    async reloadRules(): Promise<boolean> {
+        try {
+            const result = await loadAnnotationRules(this.getRulesFilePath(), tagId => !!this.tagManager.getTag(tagId));
+            this.rules = result.rules;
+            this.ruleErrors = result.errors;
+            result.errors.forEach(error => console.warn(`Skipped automation rule ${error}`));
+            return true;
+        } catch (error) {
+            console.error('Failed to load automation rules:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Path of rules.json, or an empty string without project storage
+     */
+    getRulesFilePath(): string {
+        const storageDirectory = this.storage.getStorageDirectory();
+        return storageDirectory ? path.join(storageDirectory, RULES_FILE_NAME) : '';
+    }
+
+    /**
+     * What the rules would change on each annotation, without changing anything
+     */
+    previewRules(): AnnotationRuleDryRun {
+        const context = this.getRuleContext();
+        return {
+            ruleCount: this.rules.length,
+            errors: [...this.ruleErrors],
+            results: this.getAllAnnotations()
+                .map(annotation => ({ annotation, changes: evaluateAnnotationRules(annotation, this.rules, context) }))
+                .filter(result => result.changes.length > 0),
+        };
+    }
+
     getAllTags(): string[] {
         const usedTags = this.exportService.getAllTags();
         const presetTagIds = this.tagManager.getPresetTags().map(tag => tag.id);
@@ -206,6 +628,10 @@ export class AnnotationManager {
     }
 
     getAnnotationsForFile(filePath: string): Annotation[] {
+        if (this.storage.hasUnloadedAnnotations(filePath)) {
+            void this.ensureAnnotationsLoaded([filePath]);
+        }
+
         const openDocument = this.findOpenDocument(filePath);
         if (openDocument && this.rebaseAnnotationsForText(filePath, openDocument.getText())) {
             this.scheduleAnnotationPersistence();
@@ -224,21 +650,40 @@ export class AnnotationManager {
         return this.exportService.getStatistics();
     }
 
+    /**
+     * Annotations shown in an editor for the document: its text ranges, or for a notebook
+     * cell document the annotations on that cell.
+     */
+    getAnnotationsForDocument(document: vscode.TextDocument): Annotation[] {
+        const cell = findNotebookCell(document);
+        if (cell && this.rebaseAnnotationsForText(cell.notebook.uri.fsPath, document.getText(), undefined, cell)) {
+            this.scheduleAnnotationPersistence();
+        }
+
+        const filePath = cell ? cell.notebook.uri.fsPath : document.uri.fsPath;
+        return (cell ? this.exportService.getAnnotationsForFile(filePath) : this.getAnnotationsForFile(filePath))
+            .filter(annotation => isAnnotationInDocument(annotation, cell));
+    }
+
     updateDecorations(editor: vscode.TextEditor): void {
-        if (this.rebaseAnnotationsForText(editor.document.uri.fsPath, editor.document.getText())) {
+        const cell = findNotebookCell(editor.document);
+        const filePath = cell ? cell.notebook.uri.fsPath : editor.document.uri.fsPath;
+        if (this.rebaseAnnotationsForText(filePath, editor.document.getText(), undefined, cell)) {
             this.scheduleAnnotationPersistence();
         }
 
-        const fileAnnotations = this.exportService.getAnnotationsForFile(editor.document.uri.fsPath);
+        const fileAnnotations = this.exportService.getAnnotationsForFile(filePath);
         this.decorations.updateDecorations(editor, fileAnnotations);
     }
 
     async rebaseAnnotationsForDocument(document: vscode.TextDocument): Promise<boolean> {
-        if (document.uri.scheme !== 'file') {
+        const cell = findNotebookCell(document);
+        if (document.uri.scheme !== 'file' && !cell) {
             return false;
         }
 
-        const changed = this.rebaseAnnotationsForText(document.uri.fsPath, document.getText());
+        const filePath = cell ? cell.notebook.uri.fsPath : document.uri.fsPath;
+        const changed = this.rebaseAnnotationsForText(filePath, document.getText(), undefined, cell);
         if (changed) {
             await this.storage.saveAnnotations();
             this.notifyAnnotationsChanged();
@@ -248,10 +693,12 @@ export class AnnotationManager {
     }
 
     async exportAnnotations(): Promise<ExportData> {
+        await this.ensureAnnotationsLoaded();
         return this.exportService.exportAnnotations();
     }
 
     async exportToMarkdown(): Promise<string> {
+        await this.ensureAnnotationsLoaded();
         return this.exportService.exportToMarkdown();
     }
 
@@ -270,7 +717,9 @@ export class AnnotationManager {
     async initializeProjectStorage(): Promise<boolean> {
         const result = await this.storage.initializeProjectStorage();
         await this.loadCustomTags();
+        await this.reloadRules();
         const annotationLoad = await this.storage.loadAnnotations();
+        await this.storage.loadFileAnnotations(this.getOpenFilePaths());
         const migratedAnnotations = this.normalizeLoadedAnnotations();
         if (annotationLoad.needsSave || migratedAnnotations) {
             await this.storage.saveAnnotations();
@@ -284,11 +733,96 @@ export class AnnotationManager {
         this.storage.refreshStorageDetection();
     }
 
+    getStorageLayout(): AnnotationStorageLayout {
+        return this.storage.getStorageLayout();
+    }
+
+    async migrateStorageLayout(layout: AnnotationStorageLayout): Promise<void> {
+        await vscode.workspace
+            .getConfiguration('annotative')
+            .update('storage.layout', layout, vscode.ConfigurationTarget.Workspace);
+        await this.storage.saveAnnotations();
+        this.notifyAnnotationsChanged();
+    }
+
+    /**
+     * Reload tags and annotations from disk after storage files changed outside the extension.
+     */
+    async reloadFromStorage(): Promise<void> {
+        this.tagManager.replaceCustomTags([]);
+        await this.loadCustomTags();
+        await this.reloadRules();
+
+        this.annotations.clear();
+        const annotationLoad = await this.storage.loadAnnotations();
+        await this.storage.loadFileAnnotations(this.getOpenFilePaths());
+        const migratedAnnotations = this.normalizeLoadedAnnotations();
+        const renamedAnnotations = await this.followGitRenames();
+        const rebasedAnnotations = await this.rebaseStoredAnnotations();
+        if (annotationLoad.needsSave || migratedAnnotations || renamedAnnotations || rebasedAnnotations) {
+            await this.storage.saveAnnotations();
+        }
+
+        this.notifyAnnotationsChanged();
+        this.refreshVisibleDecorations();
+    }
+
+    /**
+     * Merge storage changes made outside the extension into memory, keeping in-memory
+     * edits that were not saved yet, and persist the merge if it differs from disk.
+     */
+    async reconcileExternalChanges(): Promise<StorageReconcileSummary> {
+        const tagResult = await this.storage.reconcileExternalCustomTags(this.tagManager.exportCustomTags());
+        if (tagResult.changed) {
+            this.warnTagHierarchyIssues(this.tagManager.replaceCustomTags(tagResult.tags));
+            if (tagResult.needsSave) {
+                await this.saveCustomTags();
+            } else {
+                await this.reloadRules();
+            }
+        }
+
+        const annotationResult = await this.storage.reconcileExternalChanges();
+        if (annotationResult.changed) {
+            const migratedAnnotations = this.normalizeLoadedAnnotations();
+            const rebasedAnnotations = await this.rebaseStoredAnnotations();
+            if (annotationResult.needsSave || migratedAnnotations || rebasedAnnotations) {
+                await this.storage.saveAnnotations();
+            }
+        }
+
+        const changed = tagResult.changed || annotationResult.changed;
+        if (changed) {
+            this.notifyAnnotationsChanged();
+            this.refreshVisibleDecorations();
+        }
+
+        return {
+            changed,
+            unreadable: tagResult.unreadable || annotationResult.unreadable,
+            conflicts: [...tagResult.conflicts, ...annotationResult.conflicts],
+        };
+    }
+
+    private getRuleContext(): AnnotationRuleContext {
+        return {
+            resolveTagLabel: tagId => this.resolveTagLabel(tagId),
+            getTagAncestors: tagId => this.getTagAncestors(tagId),
+            getRelativePath: filePath => vscode.workspace.asRelativePath(filePath, false),
+        };
+    }
+
+    private refreshVisibleDecorations(): void {
+        vscode.window.visibleTextEditors.forEach(editor => {
+            this.updateDecorations(editor);
+        });
+    }
+
     private async loadCustomTags(): Promise<void> {
         try {
             const loaded = await this.storage.loadCustomTags();
             if (loaded.tags.length > 0) {
-                this.tagManager.importCustomTags(loaded.tags);
+                this.warnTagHierarchyIssues(this.tagManager.importCustomTags(loaded.tags));
             }
 
             if (loaded.needsSave) {
@@ -299,6 +833,12 @@ export class AnnotationManager {
         }
     }
 
+    private warnTagHierarchyIssues(issues: TagHierarchyIssue[]): void {
+        issues.forEach(issue => {
+            console.warn(`Moved tag '${issue.tagId}' to the top level: ${issue.error}`);
+        });
+    }
+
     private async saveCustomTags(): Promise<void> {
         try {
             const customTags = this.tagManager.exportCustomTags();
@@ -306,6 +846,8 @@ export class AnnotationManager {
         } catch (error) {
             console.error('Failed to save custom tags:', error);
         }
+        // Rules are checked against the tags that exist
+        await this.reloadRules();
     }
 
     private normalizeLoadedAnnotations(): boolean {
@@ -358,19 +900,160 @@ export class AnnotationManager {
         let changed = false;
 
         for (const filePath of filePaths) {
+            changed = await this.rebaseFileFromDisk(filePath) || changed;
+        }
+
+        return changed;
+    }
+
+    private async rebaseFileFromDisk(filePath: string): Promise<boolean> {
+        const fileAnnotations = this.annotations.get(filePath) || [];
+        try {
+            // Cell and whole-file annotations only need the file to exist. Images and other
+            // binary files are never read as text
+            if (!fileAnnotations.some(isTextAnnotation)) {
+                await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+                return this.restoreTargetedAnnotations(fileAnnotations);
+            }
+
+            const fileContents = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+            const documentText = Buffer.from(fileContents).toString('utf-8');
+            const restored = this.restoreTargetedAnnotations(fileAnnotations);
+            const mappedRanges = await this.resolveGitAnchors(filePath);
+            return this.rebaseAnnotationsForText(filePath, documentText, mappedRanges) || restored;
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return this.setFileOrphaned(this.annotations.get(filePath) || []) > 0;
+            }
+            return false;
+        }
+    }
+
+    /**
+     * Map each git-anchored annotation through `git diff <commit>` for the file on disk.
+     * The diff is read once per commit and shared by the annotations anchored to it.
+     */
+    private async resolveGitAnchors(filePath: string): Promise<Map<string, vscode.Range>> {
+        const mappedRanges = new Map<string, vscode.Range>();
+        const hunksByCommit = new Map<string, Promise<DiffHunk[] | undefined>>();
+
+        for (const annotation of this.annotations.get(filePath) || []) {
+            if (!annotation.gitAnchor || !isTextAnnotation(annotation)) {
+                continue;
+            }
+
+            const { commit } = annotation.gitAnchor;
+            if (!hunksByCommit.has(commit)) {
+                hunksByCommit.set(commit, readGitDiffHunks(filePath, commit, this.runGitCommand));
+            }
+
+            const hunks = await hunksByCommit.get(commit);
+            if (hunks) {
+                mappedRanges.set(annotation.id, mapGitAnchorRange(annotation.gitAnchor, hunks));
+            }
+        }
+
+        return mappedRanges;
+    }
+
+    private async recordGitAnchor(annotation: Annotation): Promise<void> {
+        const gitAnchor = await captureGitAnchor(annotation.filePath, annotation.range, this.runGitCommand);
+        if (gitAnchor) {
+            annotation.gitAnchor = gitAnchor;
+            await this.storage.saveAnnotations();
+        }
+    }
+
+    /**
+     * Files renamed while the editor was closed (git mv, checkouts, pulls) are found
+     * through git's rename detection.
+     */
+    private async followGitRenames(): Promise<boolean> {
+        const missingPaths: string[] = [];
+        for (const filePath of [...this.annotations.keys(), ...this.storage.getUnloadedFilePaths()]) {
             try {
-                const fileContents = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
-                const documentText = Buffer.from(fileContents).toString('utf-8');
-                changed = this.rebaseAnnotationsForText(filePath, documentText) || changed;
+                await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
             } catch {
-                continue;
+                missingPaths.push(filePath);
             }
         }
 
+        if (missingPaths.length === 0) {
+            return false;
+        }
+
+        await this.storage.loadFileAnnotations(missingPaths);
+        const renames = await detectGitRenames(
+            path.dirname(this.storage.getStorageDirectory()),
+            missingPaths,
+            this.runGitCommand
+        );
+        return this.moveRenamedAnnotations(renames).length > 0;
+    }
+
+    private moveRenamedAnnotations(renames: readonly FileRename[]): string[] {
+        const movedPaths = new Set<string>();
+
+        Array.from(this.annotations.entries()).forEach(([filePath, fileAnnotations]) => {
+            const newPath = remapRenamedPath(filePath, renames);
+            if (!newPath || newPath === filePath) {
+                return;
+            }
+
+            fileAnnotations.forEach(annotation => {
+                annotation.filePath = newPath;
+                // Git anchors diff the commit against the same path, which no longer exists there
+                annotation.gitAnchor = undefined;
+                if (annotation.anchorStatus?.reason === 'fileMissing') {
+                    annotation.anchorStatus = undefined;
+                }
+            });
+
+            this.annotations.delete(filePath);
+            this.annotations.set(newPath, [...(this.annotations.get(newPath) || []), ...fileAnnotations]);
+            movedPaths.add(newPath);
+        });
+
+        return Array.from(movedPaths);
+    }
+
+    /**
+     * Cell and whole-file annotations orphaned because their file went missing are
+     * anchored again once it is back.
+     */
+    private restoreTargetedAnnotations(fileAnnotations: Annotation[]): boolean {
+        let changed = false;
+        fileAnnotations.forEach(annotation => {
+            if (!isTextAnnotation(annotation) && annotation.anchorStatus?.reason === 'fileMissing') {
+                annotation.anchorStatus = undefined;
+                changed = true;
+            }
+        });
         return changed;
     }
 
-    private rebaseAnnotationsForText(filePath: string, documentText: string): boolean {
+    private setFileOrphaned(fileAnnotations: Annotation[]): number {
+        const status = createOrphanedStatus('fileMissing');
+        let changed = 0;
+        fileAnnotations.forEach(annotation => {
+            if (!anchorStatusEqual(annotation.anchorStatus, status)) {
+                annotation.anchorStatus = status;
+                changed += 1;
+            }
+        });
+        return changed;
+    }
+
+    /**
+     * Reattach the annotations in `documentText`: the file's text annotations, or with a
+     * `cell` the annotations on that notebook cell.
+     */
+    private rebaseAnnotationsForText(
+        filePath: string,
+        documentText: string,
+        mappedRanges?: ReadonlyMap<string, vscode.Range>,
+        cell?: vscode.NotebookCell
+    ): boolean {
         const fileAnnotations = this.annotations.get(filePath);
         if (!fileAnnotations || fileAnnotations.length === 0) {
             return false;
@@ -378,7 +1061,17 @@ export class AnnotationManager {
 
         let changed = false;
         fileAnnotations.forEach(annotation => {
-            const reattached = reattachAnnotation(annotation, documentText);
+            if (!isAnnotationInDocument(annotation, cell)) {
+                return;
+            }
+
+            // Cells can be reordered, so keep the shown index current
+            if (cell && annotation.target?.type === 'notebookCell' && annotation.target.cellIndex !== cell.index) {
+                annotation.target = createNotebookCellTarget(cell);
+                changed = true;
+            }
+
+            const reattached = reattachAnnotation(annotation, documentText, mappedRanges?.get(annotation.id));
             if (!reattached.changed) {
                 return;
             }
@@ -386,21 +1079,141 @@ export class AnnotationManager {
             annotation.range = reattached.range;
             annotation.text = reattached.text;
             annotation.anchor = reattached.anchor;
+            annotation.anchorStatus = reattached.status;
             changed = true;
         });
 
         return changed;
     }
 
+    private async trackChanges<T>(
+        label: string,
+        operation: () => Promise<T>,
+        options: { customTags?: boolean } = {}
+    ): Promise<T> {
+        if (this.trackingDepth > 0) {
+            return operation();
+        }
+
+        const before = this.snapshotAnnotations();
+        const tagsBefore = options.customTags ? this.tagManager.exportCustomTags() : undefined;
+        this.trackingDepth += 1;
+        try {
+            return await operation();
+        } finally {
+            this.trackingDepth -= 1;
+            const changes = diffAnnotationSnapshots(before, this.snapshotAnnotations());
+            const tagsAfter = this.tagManager.exportCustomTags();
+            const customTags = tagsBefore && !storageValuesEqual(tagsBefore, tagsAfter)
+                ? { before: tagsBefore, after: tagsAfter }
+                : undefined;
+            if (changes.length > 0 || customTags) {
+                await this.undoStack.push({ label, timestamp: new Date().toISOString(), changes, customTags });
+            }
+        }
+    }
+
+    private snapshotAnnotations(): Map<string, AnnotationSnapshot> {
+        const snapshots = new Map<string, AnnotationSnapshot>();
+        this.annotations.forEach((fileAnnotations, filePath) => {
+            fileAnnotations.forEach((annotation, index) => {
+                snapshots.set(annotation.id, {
+                    filePath,
+                    index,
+                    annotation: this.storage.serializeAnnotation(annotation, filePath),
+                });
+            });
+        });
+        return snapshots;
+    }
+
+    private async checkSnapshotConflicts(
+        label: string,
+        changes: Array<{ id: string; current?: AnnotationSnapshot; target?: AnnotationSnapshot }>,
+        customTags: { current: AnnotationTag[]; target: AnnotationTag[] } | undefined,
+        overwriteChanged: boolean
+    ): Promise<void> {
+        const filePaths = changes.flatMap(change => [change.current?.filePath, change.target?.filePath])
+            .filter((filePath): filePath is string => !!filePath);
+        await this.ensureAnnotationsLoaded([...new Set(filePaths)]);
+        if (overwriteChanged) {
+            return;
+        }
+
+        const live = this.snapshotAnnotations();
+        const changedIds = changes
+            .filter(change => !snapshotMatches(change.current, live.get(change.id)))
+            .map(change => change.id);
+        const customTagsChanged = !!customTags && !storageValuesEqual(customTags.current, this.tagManager.exportCustomTags());
+        if (changedIds.length > 0 || customTagsChanged) {
+            throw new AnnotationUndoConflictError(label, changedIds, customTagsChanged);
+        }
+    }
+
+    /**
+     * Replace annotations (and custom tags, for tag rewrites) with their snapshot state.
+     * The change log is never rewound: an annotation that still exists keeps its current
+     * history, and every annotation that is put back gets an entry for the undo or redo.
+     */
+    private async applySnapshots(
+        changes: Array<{ id: string; current?: AnnotationSnapshot; target?: AnnotationSnapshot }>,
+        customTags: AnnotationTag[] | undefined,
+        field: 'undo' | 'redo',
+        label: string
+    ): Promise<void> {
+        if (customTags) {
+            this.warnTagHierarchyIssues(this.tagManager.replaceCustomTags(customTags));
+            await this.saveCustomTags();
+        }
+
+        const histories = new Map<string, Annotation['history']>();
+        const entry = { timestamp: new Date(), author: getCurrentAuthor(), field, newValue: label };
+
+        changes.forEach(change => {
+            this.annotations.forEach(fileAnnotations => {
+                const index = fileAnnotations.findIndex(annotation => annotation.id === change.id);
+                if (index !== -1) {
+                    histories.set(change.id, fileAnnotations[index].history);
+                    fileAnnotations.splice(index, 1);
+                }
+            });
+        });
+
+        changes
+            .filter(change => change.target)
+            .sort((left, right) => left.target!.index - right.target!.index)
+            .forEach(change => {
+                const target = change.target!;
+                const restored = this.storage.deserializeAnnotation(target.filePath, target.annotation);
+                if (histories.has(change.id)) {
+                    restored.history = histories.get(change.id);
+                }
+                restored.history = [...(restored.history || []), { ...entry }];
+
+                if (!this.annotations.has(target.filePath)) {
+                    this.annotations.set(target.filePath, []);
+                }
+                const fileAnnotations = this.annotations.get(target.filePath)!;
+                fileAnnotations.splice(Math.min(target.index, fileAnnotations.length), 0, restored);
+            });
+
+        this.refreshOpenDocuments();
+        await this.storage.saveAnnotations();
+        this.notifyAnnotationsChanged();
+        this.refreshVisibleDecorations();
+    }
+
     private refreshOpenDocuments(): void {
         let changed = false;
 
         vscode.workspace.textDocuments.forEach(document => {
-            if (document.uri.scheme !== 'file') {
+            const cell = findNotebookCell(document);
+            if (document.uri.scheme !== 'file' && !cell) {
                 return;
             }
 
-            changed = this.rebaseAnnotationsForText(document.uri.fsPath, document.getText()) || changed;
+            const filePath = cell ? cell.notebook.uri.fsPath : document.uri.fsPath;
+            changed = this.rebaseAnnotationsForText(filePath, document.getText(), undefined, cell) || changed;
         });
 
         if (changed) {
@@ -408,6 +1221,18 @@ export class AnnotationManager {
         }
     }
 
+    /**
+     * Files open in an editor, with notebooks by their own path rather than their cells'
+     */
+    private getOpenFilePaths(): string[] {
+        return [
+            ...vscode.workspace.textDocuments
+                .filter(document => document.uri.scheme === 'file')
+                .map(document => document.uri.fsPath),
+            ...vscode.workspace.notebookDocuments.map(notebook => notebook.uri.fsPath),
+        ];
+    }
+
     private findOpenDocument(filePath: string): vscode.TextDocument | undefined {
         return vscode.workspace.textDocuments.find(document => document.uri.scheme === 'file' && document.uri.fsPath === filePath);
     }
@@ -431,6 +1256,7 @@ export class AnnotationManager {
 
     dispose(): void {
         void this.context;
+        this.workspaceListeners.forEach(listener => listener.dispose());
         this.decorations.dispose();
         this.onDidChangeAnnotationsEmitter.dispose();
     }
@@ -0,0 +1,120 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GitCommandRunner } from '../utils/git';
+
+const GIT_RENAME_HISTORY_LIMIT = 200;
+const MAX_RENAME_CHAIN = 20;
+
+export interface FileRename {
+    oldPath: string;
+    newPath: string;
+}
+
+/**
+ * Map a path through a set of renames. Folder renames move everything beneath them.
+ */
+export function remapRenamedPath(filePath: string, renames: readonly FileRename[]): string | undefined {
+    for (const rename of renames) {
+        if (filePath === rename.oldPath) {
+            return rename.newPath;
+        }
+
+        const folderPrefix = `${rename.oldPath}${path.sep}`;
+        if (filePath.startsWith(folderPrefix)) {
+            return path.join(rename.newPath, filePath.slice(folderPrefix.length));
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Parse `git diff/log --name-status` output into renames, newest first. Git reports
+ * paths relative to the repository root.
+ */
+export function parseGitRenames(output: string, repositoryRoot: string): FileRename[] {
+    const renames: FileRename[] = [];
+
+    output.split(/\r?\n/).forEach(line => {
+        const [status, oldPath, newPath] = line.split('\t');
+        if (!status?.startsWith('R') || !oldPath || !newPath) {
+            return;
+        }
+
+        renames.push({
+            oldPath: path.join(repositoryRoot, ...oldPath.split('/')),
+            newPath: path.join(repositoryRoot, ...newPath.split('/')),
+        });
+    });
+
+    return renames;
+}
+
+/**
+ * Find where missing files went using git's similarity-based rename detection, looking
+ * at uncommitted changes first and then recent history. Chains (a -> b -> c) are followed
+ * until a path that exists on disk is reached.
+ */
+export async function detectGitRenames(
+    cwd: string,
+    missingPaths: readonly string[],
+    runGitCommand: GitCommandRunner
+): Promise<FileRename[]> {
+    if (missingPaths.length === 0) {
+        return [];
+    }
+
+    let renames: FileRename[];
+    try {
+        const repositoryRoot = (await runGitCommand(cwd, ['rev-parse', '--show-toplevel'])).trim();
+        const [workingTree, history] = await Promise.all([
+            runGitCommand(repositoryRoot, ['-c', 'core.quotePath=false', 'diff', '-M', '--name-status', 'HEAD']),
+            runGitCommand(repositoryRoot, [
+                '-c', 'core.quotePath=false', 'log', '-M', '--diff-filter=R', '--name-status',
+                '--format=', '-n', String(GIT_RENAME_HISTORY_LIMIT),
+            ]),
+        ]);
+        renames = [
+            ...parseGitRenames(workingTree, repositoryRoot),
+            ...parseGitRenames(history, repositoryRoot),
+        ];
+    } catch {
+        // Not a git repository, or git is unavailable
+        return [];
+    }
+
+    // Keep the most recent destination for each source path
+    const destinations = new Map<string, string>();
+    renames.forEach(rename => {
+        if (!destinations.has(rename.oldPath)) {
+            destinations.set(rename.oldPath, rename.newPath);
+        }
+    });
+
+    const resolved: FileRename[] = [];
+    for (const missingPath of missingPaths) {
+        let currentPath = missingPath;
+        for (let step = 0; step < MAX_RENAME_CHAIN; step += 1) {
+            const nextPath = destinations.get(currentPath);
+            if (!nextPath || nextPath === missingPath) {
+                break;
+            }
+            currentPath = nextPath;
+            if (await pathExists(currentPath)) {
+                resolved.push({ oldPath: missingPath, newPath: currentPath });
+                break;
+            }
+        }
+    }
+
+    return resolved;
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
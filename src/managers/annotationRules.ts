@@ -0,0 +1,337 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    Annotation,
+    AnnotationHistoryValue,
+    AnnotationRule,
+    AnnotationRuleActions,
+    AnnotationRuleCondition,
+    AnnotationRuleStorageFile,
+    AnnotationStatus,
+    TagPriority,
+} from '../types';
+import { matchesFilePattern } from '../utils/filePatterns';
+import { canTransition, getAnnotationStatus, isAnnotationStatus } from './annotationWorkflow';
+
+export const RULES_FILE_NAME = 'rules.json';
+
+const PRIORITIES: readonly TagPriority[] = ['low', 'medium', 'high', 'critical'];
+// Decorations turn colors into rgba() and only read #rrggbb
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export type AnnotationRuleField = 'priority' | 'color' | 'status' | 'assignee' | 'tags';
+
+/**
+ * What an edit changed that rule conditions look at
+ */
+export interface AnnotationRuleEdit {
+    commentChanged: boolean;
+    addedTags: readonly string[];   // Tag ids the edit added
+}
+
+/**
+ * A field a rule changes, with the value before the first rule and after the last one
+ */
+export interface AnnotationRuleChange {
+    field: AnnotationRuleField;
+    rules: string[];
+    previousValue?: AnnotationHistoryValue;
+    newValue: AnnotationHistoryValue;
+}
+
+/**
+ * What the rules would change on existing annotations, for a dry run
+ */
+export interface AnnotationRuleDryRun {
+    ruleCount: number;
+    errors: string[];
+    results: Array<{ annotation: Annotation; changes: AnnotationRuleChange[] }>;
+}
+
+export interface AnnotationRuleParseResult {
+    rules: AnnotationRule[];
+    errors: string[];   // Rules that were skipped and why
+}
+
+/**
+ * Resolves tags and paths the way the search syntax does, so rule conditions read like
+ * `tag:` and `file:` terms
+ */
+export interface AnnotationRuleContext {
+    resolveTagLabel?: (tagId: string) => string;
+    getTagAncestors?: (tagId: string) => string[];
+    getRelativePath?: (filePath: string) => string;
+}
+
+interface AnnotationRuleState {
+    priority?: TagPriority;
+    color?: string;
+    status: AnnotationStatus;
+    assignee?: string;
+    tags: string[];
+}
+
+/**
+ * Read the rules from a rules.json payload. Rules that can't be used are skipped and
+ * reported, so one mistake doesn't turn off the others. With `isKnownTag`, rules that
+ * add a tag id it doesn't know are skipped too.
+ */
+export function parseAnnotationRules(raw: unknown, isKnownTag?: (tagId: string) => boolean): AnnotationRuleParseResult {
+    if (!raw || typeof raw !== 'object' || !Array.isArray((raw as Partial<AnnotationRuleStorageFile>).rules)) {
+        throw new Error('Invalid rules file: expected a rules list');
+    }
+
+    const result: AnnotationRuleParseResult = { rules: [], errors: [] };
+    (raw as AnnotationRuleStorageFile).rules.forEach((candidate: unknown, index) => {
+        const value = (candidate && typeof candidate === 'object' ? candidate : {}) as Record<string, unknown>;
+        const name = typeof value.name === 'string' && value.name.trim() ? value.name.trim() : `Rule ${index + 1}`;
+        try {
+            result.rules.push({
+                name,
+                when: parseCondition(value.when),
+                then: parseActions(value.then, isKnownTag),
+            });
+        } catch (error) {
+            result.errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    return result;
+}
+
+/**
+ * Load rules from a rules.json file. A missing file means no rules.
+ */
+export async function loadAnnotationRules(
+    filePath: string,
+    isKnownTag?: (tagId: string) => boolean
+): Promise<AnnotationRuleParseResult> {
+    if (!filePath || !fs.existsSync(filePath)) {
+        return { rules: [], errors: [] };
+    }
+
+    const contents = await fs.promises.readFile(filePath, 'utf-8');
+    let raw: unknown;
+    try {
+        raw = JSON.parse(contents);
+    } catch {
+        throw new Error(`${path.basename(filePath)} is not valid JSON`);
+    }
+    return parseAnnotationRules(raw, isKnownTag);
+}
+
+/**
+ * Run the rules against an annotation, in file order, and return the fields that would
+ * change. Tags added by a rule count for the rules after it, and when two rules set the
+ * same field the later one wins. Status changes the workflow doesn't allow are skipped.
+ * With `edit`, only rules whose comment condition the edit touched or whose tag
+ * condition a newly added tag matches run, so values set by hand are not overridden by
+ * unrelated edits.
+ */
+export function evaluateAnnotationRules(
+    annotation: Annotation,
+    rules: readonly AnnotationRule[],
+    context: AnnotationRuleContext = {},
+    edit?: AnnotationRuleEdit
+): AnnotationRuleChange[] {
+    const original: AnnotationRuleState = {
+        priority: annotation.priority,
+        color: annotation.color,
+        status: getAnnotationStatus(annotation),
+        assignee: annotation.assignee,
+        tags: [...(annotation.tags || [])],
+    };
+    const state: AnnotationRuleState = { ...original, tags: [...original.tags] };
+    const appliedBy = new Map<AnnotationRuleField, string[]>();
+    const setField = <K extends AnnotationRuleField>(field: K, value: AnnotationRuleState[K], rule: AnnotationRule) => {
+        state[field] = value;
+        appliedBy.set(field, [...(appliedBy.get(field) || []), rule.name]);
+    };
+
+    const addedTags = [...(edit?.addedTags || [])];
+
+    rules.forEach(rule => {
+        if (edit && !isTriggeredBy(rule.when, edit.commentChanged, addedTags, context)) {
+            return;
+        }
+        if (!matchesRuleCondition(annotation.comment, annotation.filePath, state.tags, rule.when, context)) {
+            return;
+        }
+
+        const { priority, color, status, assignee, addTags } = rule.then;
+        if (priority) {
+            setField('priority', priority, rule);
+        }
+        if (color) {
+            setField('color', color, rule);
+        }
+        if (status && canTransition(state.status, status)) {
+            setField('status', status, rule);
+        }
+        if (assignee) {
+            setField('assignee', assignee, rule);
+        }
+        const newTags = (addTags || []).filter(tagId => !state.tags.includes(tagId));
+        if (newTags.length > 0) {
+            setField('tags', [...state.tags, ...newTags], rule);
+            addedTags.push(...newTags);
+        }
+    });
+
+    return Array.from(appliedBy.entries())
+        .filter(([field]) => !sameValue(original[field], state[field]))
+        .map(([field, ruleNames]) => ({
+            field,
+            rules: [...new Set(ruleNames)],
+            previousValue: original[field],
+            newValue: state[field]!,
+        }));
+}
+
+function isTriggeredBy(
+    condition: AnnotationRuleCondition,
+    commentChanged: boolean,
+    addedTags: readonly string[],
+    context: AnnotationRuleContext
+): boolean {
+    return (commentChanged && !!(condition.comment || condition.commentPattern))
+        || (!!condition.tags && matchesAnyTag(condition.tags, addedTags, context));
+}
+
+function matchesRuleCondition(
+    comment: string,
+    filePath: string,
+    tagIds: readonly string[],
+    condition: AnnotationRuleCondition,
+    context: AnnotationRuleContext
+): boolean {
+    if (condition.tags && !matchesAnyTag(condition.tags, tagIds, context)) {
+        return false;
+    }
+
+    if (condition.files) {
+        const relativePath = context.getRelativePath?.(filePath) ?? filePath;
+        if (!condition.files.some(pattern => matchesFilePattern(relativePath, pattern))) {
+            return false;
+        }
+    }
+
+    if (condition.comment && !comment.toLowerCase().includes(condition.comment.toLowerCase())) {
+        return false;
+    }
+
+    return !condition.commentPattern || new RegExp(condition.commentPattern, 'i').test(comment);
+}
+
+/**
+ * Whether any of the tags, by id, label, or an ancestor's, is one the condition names
+ */
+function matchesAnyTag(conditionTags: readonly string[], tagIds: readonly string[], context: AnnotationRuleContext): boolean {
+    const tagNames = tagIds
+        .flatMap(tagId => [tagId, ...(context.getTagAncestors?.(tagId) || [])])
+        .flatMap(tagId => [tagId, context.resolveTagLabel?.(tagId) ?? tagId])
+        .map(name => name.toLowerCase());
+    return conditionTags.some(tag => tagNames.includes(tag.toLowerCase()));
+}
+
+function parseCondition(value: unknown): AnnotationRuleCondition {
+    if (value === undefined) {
+        return {};
+    }
+    if (!value || typeof value !== 'object') {
+        throw new Error('"when" must be an object');
+    }
+
+    const candidate = value as Record<keyof AnnotationRuleCondition, unknown>;
+    const condition: AnnotationRuleCondition = {};
+    (['tags', 'files'] as const).forEach(key => {
+        if (candidate[key] !== undefined) {
+            const values = toStringList(candidate[key], key);
+            if (values.length > 0) {
+                condition[key] = values;
+            }
+        }
+    });
+    (['comment', 'commentPattern'] as const).forEach(key => {
+        if (candidate[key] !== undefined) {
+            if (typeof candidate[key] !== 'string') {
+                throw new Error(`"${key}" must be text`);
+            }
+            const text = (candidate[key] as string).trim();
+            if (text) {
+                condition[key] = text;
+            }
+        }
+    });
+
+    if (condition.commentPattern) {
+        try {
+            new RegExp(condition.commentPattern, 'i');
+        } catch {
+            throw new Error(`Invalid commentPattern '${condition.commentPattern}'`);
+        }
+    }
+    return condition;
+}
+
+function parseActions(value: unknown, isKnownTag?: (tagId: string) => boolean): AnnotationRuleActions {
+    if (!value || typeof value !== 'object') {
+        throw new Error('"then" must be an object with at least one action');
+    }
+
+    const candidate = value as Record<keyof AnnotationRuleActions, unknown>;
+    const actions: AnnotationRuleActions = {};
+    if (candidate.priority !== undefined) {
+        const priority = PRIORITIES.find(option => option === candidate.priority);
+        if (!priority) {
+            throw new Error(`Unknown priority '${String(candidate.priority)}'`);
+        }
+        actions.priority = priority;
+    }
+    if (candidate.color !== undefined) {
+        if (typeof candidate.color !== 'string' || !COLOR_PATTERN.test(candidate.color)) {
+            throw new Error(`Invalid color '${String(candidate.color)}', use a hex color such as #FF5252`);
+        }
+        actions.color = candidate.color;
+    }
+    if (candidate.status !== undefined) {
+        if (!isAnnotationStatus(candidate.status)) {
+            throw new Error(`Unknown status '${String(candidate.status)}'`);
+        }
+        actions.status = candidate.status;
+    }
+    if (candidate.assignee !== undefined) {
+        if (typeof candidate.assignee !== 'string' || !candidate.assignee.trim()) {
+            throw new Error('"assignee" must be a name');
+        }
+        actions.assignee = candidate.assignee.trim();
+    }
+    if (candidate.addTags !== undefined) {
+        const tags = toStringList(candidate.addTags, 'addTags');
+        const unknownTag = isKnownTag && tags.find(tagId => !isKnownTag(tagId));
+        if (unknownTag) {
+            throw new Error(`Unknown tag '${unknownTag}' in addTags`);
+        }
+        if (tags.length > 0) {
+            actions.addTags = tags;
+        }
+    }
+
+    if (Object.keys(actions).length === 0) {
+        throw new Error('"then" must be an object with at least one action');
+    }
+    return actions;
+}
+
+function toStringList(value: unknown, key: string): string[] {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new Error(`"${key}" must be a list of text values`);
+    }
+
+    return [...new Set((value as string[]).map(item => item.trim()).filter(Boolean))];
+}
+
+function sameValue(left: AnnotationHistoryValue | undefined, right: AnnotationHistoryValue | undefined): boolean {
+    return Array.isArray(left) && Array.isArray(right)
+        ? left.length === right.length && left.every((item, index) => item === right[index])
+        : left === right;
+}
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
@@ -6,7 +7,15 @@ import {
     AnnotationStorageFile,
     AnnotationTag,
     AnnotationAnchor,
+    AnnotationGitAnchor,
+    AnnotationHistoryEntry,
+    AnnotationReply,
+    AnnotationShardFile,
+    AnnotationStorageLayout,
     StoredAnnotation,
+    StoredAnnotationHistoryEntry,
+    StoredAnnotationReply,
+    StoredPosition,
     TagPriority,
     TagStorageFile,
 } from '../types';
@@ -14,9 +23,19 @@ import {
     findWorkspaceFolderContainingChild,
     getPreferredWorkspaceFolder,
     resolveWorkspaceFolderForAnnotations,
+    resolveWorkspaceStorageKey,
+    toWorkspaceStorageKey,
 } from '../utils/workspaceContext';
+import { normalizeDueDate } from './annotationAssignments';
+import { normalizeAnnotationTarget } from './annotationTargets';
+import { getAnnotationStatus, isClosedStatus, normalizeAnnotationStatus } from './annotationWorkflow';
+import { mergeStorageFiles, StorageMergeConflict, storageValuesEqual } from './storageMerge';
 
-const STORAGE_SCHEMA_VERSION = 2;
+const STORAGE_SCHEMA_VERSION = 3;
+const SHARD_DIRECTORY_NAME = 'annotations';
+const SHARD_FILE_EXTENSION = '.json';
+const ANNOTATIONS_QUEUE_KEY = 'annotations';
+const CUSTOM_TAGS_QUEUE_KEY = 'customTags';
 
 export interface LoadAnnotationsResult {
     needsSave: boolean;
@@ -27,11 +46,30 @@ export interface LoadCustomTagsResult {
     needsSave: boolean;
 }
 
+export interface ReconcileAnnotationsResult {
+    changed: boolean;
+    unreadable: boolean;
+    needsSave: boolean;
+    conflicts: StorageMergeConflict[];
+}
+
+export interface ReconcileCustomTagsResult extends ReconcileAnnotationsResult {
+    tags: AnnotationTag[];
+}
+
 interface ParsedAnnotationsPayload {
     workspaceAnnotations: Record<string, StoredAnnotation[]>;
     needsSave: boolean;
 }
 
+interface CachedShard {
+    schemaVersion: number;
+    modifiedTime: number;
+    contents: string;
+    filePath: string;
+    annotations: StoredAnnotation[];
+}
+
 interface ParsedCustomTagsPayload {
     customTags: AnnotationTag[];
     needsSave: boolean;
@@ -44,8 +82,15 @@ interface ParsedCustomTagsPayload {
 export class AnnotationStorageManager {
     private storageFilePath = '';
     private customTagsPath = '';
+    private shardDirectoryPath = '';
     private projectStorageDir: string | undefined;
-    private writeQueue: Promise<void> = Promise.resolve();
+    private writeQueues = new Map<string, Promise<void>>();
+    private shardCache = new Map<string, CachedShard>();
+    private unloadedShards = new Map<string, string>();   // Absolute file path to a shard not read yet
+    private shardLoadQueue: Promise<unknown> = Promise.resolve();
+    private singleFileLoaded = false;
+    private persistedAnnotations: Record<string, StoredAnnotation[]> = {};
+    private persistedCustomTags: AnnotationTag[] = [];
 
     constructor(
         private annotations: Map<string, Annotation[]>,
@@ -69,6 +114,7 @@ export class AnnotationStorageManager {
         this.projectStorageDir = annotativeDir;
         this.storageFilePath = path.join(annotativeDir, 'annotations.json');
         this.customTagsPath = path.join(annotativeDir, 'customTags.json');
+        this.shardDirectoryPath = path.join(annotativeDir, SHARD_DIRECTORY_NAME);
     }
 
     isProjectStorageActive(): boolean {
@@ -79,6 +125,11 @@ export class AnnotationStorageManager {
         return this.projectStorageDir || '';
     }
 
+    getStorageLayout(): AnnotationStorageLayout {
+        const layout = vscode.workspace.getConfiguration('annotative').get<string>('storage.layout');
+        return layout === 'sharded' ? 'sharded' : 'single';
+    }
+
     async ensureProjectStorage(): Promise<void> {
         if (this.projectStorageDir) {
             return;
@@ -94,13 +145,14 @@ export class AnnotationStorageManager {
             await fs.promises.mkdir(annotativeDir, { recursive: true });
 
             const readmePath = path.join(annotativeDir, 'README.md');
-            const readmeContent = `# Annotative Storage\n\nThis folder contains your project's annotations and custom tags.\n\n## Version Control\n\n**Recommended:** Include this folder in version control to share annotations with your team.\n\n\`\`\`bash\ngit add .annotative/\ngit commit -m "Add annotations"\n\`\`\`\n\n**Private annotations:** Add \`.annotative/\` to your project's \`.gitignore\` file.\n\n## Files\n\n- \`annotations.json\` - All annotations in this project\n- \`customTags.json\` - User-defined tag definitions\n`;
+            const readmeContent = `# Annotative Storage\n\nThis folder contains your project's annotations and custom tags.\n\n## Version Control\n\n**Recommended:** Include this folder in version control to share annotations with your team.\n\n\`\`\`bash\ngit add .annotative/\ngit commit -m "Add annotations"\n\`\`\`\n\n**Private annotations:** Add \`.annotative/\` to your project's \`.gitignore\` file.\n\n## Files\n\n- \`annotations.json\` - All annotations in this project, keyed by workspace-relative file path\n- \`annotations/\` - One file per annotated source file when \`annotative.storage.layout\` is \`sharded\`\n- \`customTags.json\` - User-defined tag definitions\n`;
             await fs.promises.writeFile(readmePath, readmeContent, 'utf-8');
         }
 
         this.projectStorageDir = annotativeDir;
         this.storageFilePath = path.join(annotativeDir, 'annotations.json');
         this.customTagsPath = path.join(annotativeDir, 'customTags.json');
+        this.shardDirectoryPath = path.join(annotativeDir, SHARD_DIRECTORY_NAME);
     }
 
     async initializeProjectStorage(): Promise<boolean> {
@@ -119,6 +171,11 @@ export class AnnotationStorageManager {
         this.projectStorageDir = undefined;
         this.storageFilePath = '';
         this.customTagsPath = '';
+        this.shardDirectoryPath = '';
+        this.shardCache.clear();
+        this.unloadedShards.clear();
+        this.persistedAnnotations = {};
+        this.persistedCustomTags = [];
         this.detectProjectStorage();
     }
 
@@ -133,59 +190,553 @@ export class AnnotationStorageManager {
     }
 
     async loadAnnotations(): Promise<LoadAnnotationsResult> {
-        try {
-            if (!this.storageFilePath || !fs.existsSync(this.storageFilePath)) {
-                return { needsSave: false };
-            }
+        const layout = this.getStorageLayout();
+        const hasSingleFile = !!this.storageFilePath && fs.existsSync(this.storageFilePath);
+        const hasShards = !!this.shardDirectoryPath && fs.existsSync(this.shardDirectoryPath);
+
+        // Prefer the configured layout, but fall back to whichever layout is on disk so it can be migrated.
+        // Shards being migrated are read right away; otherwise each one is read once its file is needed.
+        this.singleFileLoaded = false;
+        this.unloadedShards.clear();
+        if (hasShards && (layout === 'sharded' || !hasSingleFile)) {
+            const parsed = await this.readShardedStorage(true, () => layout === 'sharded');
+            this.applyWorkspaceAnnotations(parsed.workspaceAnnotations);
+            this.persistedAnnotations = this.snapshotAnnotations(this.annotations);
+            return { needsSave: parsed.needsSave || layout !== 'sharded' };
+        }
 
-            const data = await fs.promises.readFile(this.storageFilePath, 'utf-8');
-            const parsed = this.parseAnnotationStorage(JSON.parse(data));
+        if (!hasSingleFile) {
+            this.persistedAnnotations = {};
+            return { needsSave: false };
+        }
 
-            this.annotations.clear();
-            Object.entries(parsed.workspaceAnnotations).forEach(([filePath, annotations]) => {
-                this.annotations.set(
-                    filePath,
-                    annotations.map(annotation => this.deserializeAnnotation(filePath, annotation))
-                );
-            });
+        try {
+            const parsed = await this.readSingleFileStorage();
+            this.applyWorkspaceAnnotations(parsed.workspaceAnnotations);
+            this.persistedAnnotations = this.snapshotAnnotations(this.annotations);
+            this.singleFileLoaded = true;
 
-            return { needsSave: parsed.needsSave };
+            return { needsSave: parsed.needsSave || layout === 'sharded' };
         } catch (error) {
             console.error('Failed to load annotations:', error);
             await this.recoverCorruptFile(this.storageFilePath, 'annotations');
             this.annotations.clear();
+            this.persistedAnnotations = {};
             return { needsSave: false };
         }
     }
 
+    /**
+     * Merge annotation storage that changed outside the extension (e.g. after a pull or
+     * branch switch) into memory. The last loaded or saved state is the merge base, so
+     * in-memory edits that were never persisted survive, and our own writes are no-ops.
+     */
+    async reconcileExternalChanges(): Promise<ReconcileAnnotationsResult> {
+        const unchanged: ReconcileAnnotationsResult = { changed: false, unreadable: false, needsSave: false, conflicts: [] };
+        if (!this.projectStorageDir) {
+            this.detectProjectStorage();
+        }
+
+        await this.waitForPendingWrites();
+
+        let diskAnnotations: Record<string, StoredAnnotation[]>;
+        try {
+            diskAnnotations = await this.readPersistedAnnotations();
+        } catch (error) {
+            console.error('Failed to read external annotation changes:', error);
+            return { ...unchanged, unreadable: true };
+        }
+
+        if (storageValuesEqual(diskAnnotations, this.persistedAnnotations)) {
+            return unchanged;
+        }
+
+        const result = mergeStorageFiles(
+            { schemaVersion: STORAGE_SCHEMA_VERSION, workspaceAnnotations: this.persistedAnnotations },
+            { schemaVersion: STORAGE_SCHEMA_VERSION, workspaceAnnotations: this.snapshotAnnotations(this.annotations) },
+            { schemaVersion: STORAGE_SCHEMA_VERSION, workspaceAnnotations: diskAnnotations }
+        );
+        const merged = (result.merged as AnnotationStorageFile).workspaceAnnotations;
+
+        this.persistedAnnotations = diskAnnotations;
+        this.applyWorkspaceAnnotations(this.resolveStorageKeys(merged));
+
+        return {
+            changed: true,
+            unreadable: false,
+            needsSave: !storageValuesEqual(merged, diskAnnotations),
+            conflicts: result.conflicts,
+        };
+    }
+
+    /**
+     * Merge custom tags that changed outside the extension with the given in-memory tags.
+     */
+    async reconcileExternalCustomTags(currentTags: AnnotationTag[]): Promise<ReconcileCustomTagsResult> {
+        const unchanged: ReconcileCustomTagsResult = {
+            changed: false,
+            unreadable: false,
+            needsSave: false,
+            conflicts: [],
+            tags: currentTags,
+        };
+        if (!this.projectStorageDir) {
+            this.detectProjectStorage();
+        }
+
+        await this.waitForPendingWrites();
+
+        let diskTags: AnnotationTag[] = [];
+        try {
+            if (this.customTagsPath && fs.existsSync(this.customTagsPath)) {
+                const data = await fs.promises.readFile(this.customTagsPath, 'utf-8');
+                diskTags = this.parseCustomTagsStorage(JSON.parse(data)).customTags;
+            }
+        } catch (error) {
+            console.error('Failed to read external custom tag changes:', error);
+            return { ...unchanged, unreadable: true };
+        }
+
+        if (storageValuesEqual(diskTags, this.persistedCustomTags)) {
+            return unchanged;
+        }
+
+        const result = mergeStorageFiles(
+            { schemaVersion: STORAGE_SCHEMA_VERSION, customTags: this.persistedCustomTags },
+            { schemaVersion: STORAGE_SCHEMA_VERSION, customTags: currentTags },
+            { schemaVersion: STORAGE_SCHEMA_VERSION, customTags: diskTags }
+        );
+        const mergedTags = (result.merged as TagStorageFile).customTags;
+        this.persistedCustomTags = this.cloneTags(diskTags);
+
+        return {
+            changed: true,
+            unreadable: false,
+            needsSave: !storageValuesEqual(mergedTags, diskTags),
+            conflicts: result.conflicts,
+            tags: mergedTags,
+        };
+    }
+
     async saveAnnotations(): Promise<void> {
         try {
-            await this.enqueueWrite(async () => {
+            if (this.getStorageLayout() === 'sharded') {
+                await this.saveShardedAnnotations();
+                return;
+            }
+
+            // The single file replaces every shard, so shards not read yet have to be included
+            await this.loadAllShards();
+            await this.enqueueWrite(ANNOTATIONS_QUEUE_KEY, async () => {
                 await this.ensureProjectStorage();
 
+                const storageRoot = this.getStorageRoot();
+                const workspaceAnnotations: Record<string, StoredAnnotation[]> = {};
+                this.annotations.forEach((annotations, filePath) => {
+                    const storageKey = toWorkspaceStorageKey(filePath, storageRoot);
+                    workspaceAnnotations[storageKey] = annotations.map(annotation =>
+                        this.serializeAnnotation(annotation, storageKey)
+                    );
+                });
+
                 const storage: AnnotationStorageFile = {
                     schemaVersion: STORAGE_SCHEMA_VERSION,
-                    workspaceAnnotations: Object.fromEntries(
-                        Array.from(this.annotations.entries()).map(([filePath, annotations]) => [
-                            filePath,
-                            annotations.map(annotation => this.serializeAnnotation(annotation))
-                        ])
-                    )
+                    workspaceAnnotations,
                 };
 
                 await this.writeJsonAtomically(this.storageFilePath, storage);
+                this.persistedAnnotations = this.withoutEmptyFiles(workspaceAnnotations);
+                this.singleFileLoaded = true;
             });
+
+            await this.removeKnownShards();
         } catch (error) {
             console.error('Failed to save annotations:', error);
             vscode.window.showErrorMessage('Failed to save annotations');
         }
     }
 
+    /**
+     * Load the shards under .annotative/annotations/. Shards whose modification time
+     * has not changed since the last read are served from cache instead of re-parsed,
+     * and an unreadable shard is quarantined without affecting the others. Shards that
+     * `isDeferred` picks are only indexed, to be read by loadFileAnnotations.
+     */
+    private async readShardedStorage(
+        recoverCorruptShards: boolean,
+        isDeferred: (filePath: string, shardPath: string) => boolean = () => false
+    ): Promise<ParsedAnnotationsPayload> {
+        const shardPaths = await this.listShardFiles(this.shardDirectoryPath);
+        const storageRoot = this.getStorageRoot();
+        const workspaceAnnotations: Record<string, StoredAnnotation[]> = {};
+        let needsSave = false;
+
+        for (const cachedPath of [...this.shardCache.keys()]) {
+            if (!shardPaths.includes(cachedPath)) {
+                this.shardCache.delete(cachedPath);
+            }
+        }
+
+        this.unloadedShards.clear();
+        for (const shardPath of shardPaths) {
+            const indexedPath = this.getShardFilePath(shardPath);
+            if (indexedPath && isDeferred(indexedPath, shardPath)) {
+                this.shardCache.delete(shardPath);
+                this.unloadedShards.set(indexedPath, shardPath);
+                continue;
+            }
+
+            try {
+                const shard = await this.readShard(shardPath);
+                const filePath = resolveWorkspaceStorageKey(shard.filePath, storageRoot);
+                workspaceAnnotations[filePath] = [...(workspaceAnnotations[filePath] || []), ...shard.annotations];
+                needsSave = needsSave
+                    || shard.schemaVersion !== STORAGE_SCHEMA_VERSION
+                    || this.getShardPath(toWorkspaceStorageKey(filePath, storageRoot)) !== shardPath;
+            } catch (error) {
+                if (!recoverCorruptShards) {
+                    throw error;
+                }
+
+                console.error(`Failed to load annotation shard ${shardPath}:`, error);
+                this.shardCache.delete(shardPath);
+                await this.recoverCorruptFile(shardPath, 'annotation shard');
+            }
+        }
+
+        return { workspaceAnnotations, needsSave };
+    }
+
+    /**
+     * Files with annotations in a shard that has not been read yet
+     */
+    getUnloadedFilePaths(): string[] {
+        return [...this.unloadedShards.keys()];
+    }
+
+    hasUnloadedAnnotations(filePath?: string): boolean {
+        return filePath ? this.unloadedShards.has(filePath) : this.unloadedShards.size > 0;
+    }
+
+    /**
+     * Read the shards of the given files, adding their annotations in front of any made
+     * in memory since. Returns the paths that gained annotations.
+     */
+    async loadFileAnnotations(filePaths: readonly string[]): Promise<string[]> {
+        const load = this.shardLoadQueue.then(async () => {
+            const loadedPaths: string[] = [];
+            for (const filePath of filePaths) {
+                const shardPath = this.unloadedShards.get(filePath);
+                if (!shardPath) {
+                    continue;
+                }
+
+                this.unloadedShards.delete(filePath);
+                let shard: CachedShard;
+                try {
+                    shard = await this.readShard(shardPath);
+                } catch (error) {
+                    console.error(`Failed to load annotation shard ${shardPath}:`, error);
+                    this.shardCache.delete(shardPath);
+                    await this.recoverCorruptFile(shardPath, 'annotation shard');
+                    continue;
+                }
+
+                const storageRoot = this.getStorageRoot();
+                const shardFilePath = resolveWorkspaceStorageKey(shard.filePath, storageRoot);
+                const storageKey = toWorkspaceStorageKey(shardFilePath, storageRoot);
+                const loaded = shard.annotations.map(annotation => this.deserializeAnnotation(shardFilePath, annotation));
+                if (loaded.length === 0) {
+                    continue;
+                }
+
+                this.annotations.set(shardFilePath, [...loaded, ...(this.annotations.get(shardFilePath) || [])]);
+                this.persistedAnnotations = {
+                    ...this.persistedAnnotations,
+                    [storageKey]: [
+                        ...(this.persistedAnnotations[storageKey] || []),
+                        ...loaded.map(annotation => this.serializeAnnotation(annotation, storageKey)),
+                    ],
+                };
+                loadedPaths.push(shardFilePath);
+            }
+            return loadedPaths;
+        });
+        this.shardLoadQueue = load.catch(() => undefined);
+        return load;
+    }
+
+    /**
+     * Read every shard not read yet, for views that cover the whole workspace
+     */
+    async loadAllShards(): Promise<string[]> {
+        return this.loadFileAnnotations(this.getUnloadedFilePaths());
+    }
+
+    private async readSingleFileStorage(): Promise<ParsedAnnotationsPayload> {
+        const data = await fs.promises.readFile(this.storageFilePath, 'utf-8');
+        return this.parseAnnotationStorage(JSON.parse(data));
+    }
+
+    /**
+     * Read whichever layout is on disk, normalized the same way as an in-memory snapshot.
+     * Unlike loading, unreadable files are reported rather than quarantined.
+     */
+    private async readPersistedAnnotations(): Promise<Record<string, StoredAnnotation[]>> {
+        const layout = this.getStorageLayout();
+        const hasSingleFile = !!this.storageFilePath && fs.existsSync(this.storageFilePath);
+        const hasShards = !!this.shardDirectoryPath && fs.existsSync(this.shardDirectoryPath);
+
+        let parsed: ParsedAnnotationsPayload | undefined;
+        if (hasShards && (layout === 'sharded' || !hasSingleFile)) {
+            // Shards nobody has read are not in memory either, so they are re-indexed instead of merged
+            parsed = await this.readShardedStorage(false, (filePath, shardPath) =>
+                layout === 'sharded' && !this.shardCache.has(shardPath) && !this.annotations.has(filePath)
+            );
+        } else if (hasSingleFile) {
+            parsed = await this.readSingleFileStorage();
+        }
+
+        return this.snapshotAnnotations(this.deserializeWorkspaceAnnotations(parsed?.workspaceAnnotations ?? {}));
+    }
+
+    private applyWorkspaceAnnotations(workspaceAnnotations: Record<string, StoredAnnotation[]>): void {
+        const deserialized = this.deserializeWorkspaceAnnotations(workspaceAnnotations);
+        this.annotations.clear();
+        deserialized.forEach((annotations, filePath) => {
+            this.annotations.set(filePath, annotations);
+        });
+    }
+
+    private deserializeWorkspaceAnnotations(workspaceAnnotations: Record<string, StoredAnnotation[]>): Map<string, Annotation[]> {
+        const deserialized = new Map<string, Annotation[]>();
+        Object.entries(workspaceAnnotations).forEach(([filePath, annotations]) => {
+            deserialized.set(filePath, annotations.map(annotation => this.deserializeAnnotation(filePath, annotation)));
+        });
+        return deserialized;
+    }
+
+    /**
+     * Serialize annotations keyed by storage key, leaving out files without annotations
+     * so single-file and sharded storage compare equal.
+     */
+    private snapshotAnnotations(annotations: Map<string, Annotation[]>): Record<string, StoredAnnotation[]> {
+        const storageRoot = this.getStorageRoot();
+        const snapshot: Record<string, StoredAnnotation[]> = {};
+        annotations.forEach((fileAnnotations, filePath) => {
+            const storageKey = toWorkspaceStorageKey(filePath, storageRoot);
+            snapshot[storageKey] = [
+                ...(snapshot[storageKey] || []),
+                ...fileAnnotations.map(annotation => this.serializeAnnotation(annotation, storageKey)),
+            ];
+        });
+        return this.withoutEmptyFiles(snapshot);
+    }
+
+    private withoutEmptyFiles(workspaceAnnotations: Record<string, StoredAnnotation[]>): Record<string, StoredAnnotation[]> {
+        return Object.fromEntries(
+            Object.entries(workspaceAnnotations).filter(([, annotations]) => annotations.length > 0)
+        );
+    }
+
+    // Tags are mutated in place by the registry, so the merge base needs its own copy.
+    private cloneTags(tags: AnnotationTag[]): AnnotationTag[] {
+        return JSON.parse(JSON.stringify(tags)) as AnnotationTag[];
+    }
+
+    private async waitForPendingWrites(): Promise<void> {
+        while (this.writeQueues.size > 0) {
+            await Promise.all([...this.writeQueues.values()]);
+        }
+    }
+
+    private async readShard(shardPath: string): Promise<CachedShard> {
+        const stats = await fs.promises.stat(shardPath);
+        const cached = this.shardCache.get(shardPath);
+        if (cached && cached.modifiedTime === stats.mtimeMs) {
+            return cached;
+        }
+
+        const contents = await fs.promises.readFile(shardPath, 'utf-8');
+        const raw: unknown = JSON.parse(contents);
+        if (!this.isAnnotationShardFile(raw)) {
+            throw new Error('Invalid annotation shard schema');
+        }
+
+        const shard: CachedShard = {
+            schemaVersion: raw.schemaVersion,
+            modifiedTime: stats.mtimeMs,
+            contents,
+            filePath: raw.filePath,
+            annotations: raw.annotations,
+        };
+        this.shardCache.set(shardPath, shard);
+        return shard;
+    }
+
+    /**
+     * Write one shard per annotated file. Each shard has its own write queue and is
+     * only rewritten when its serialized contents change.
+     */
+    private async saveShardedAnnotations(): Promise<void> {
+        await this.ensureProjectStorage();
+
+        // A file annotated before its shard was read would otherwise lose the shard's annotations
+        await this.loadFileAnnotations([...this.annotations.keys()].filter(filePath => this.unloadedShards.has(filePath)));
+
+        const storageRoot = this.getStorageRoot();
+        const nextShards = new Map<string, { shard: AnnotationShardFile; contents: string }>();
+        this.annotations.forEach((annotations, filePath) => {
+            if (annotations.length === 0) {
+                return;
+            }
+
+            const storageKey = toWorkspaceStorageKey(filePath, storageRoot);
+            const shard: AnnotationShardFile = {
+                schemaVersion: STORAGE_SCHEMA_VERSION,
+                filePath: storageKey,
+                annotations: annotations.map(annotation => this.serializeAnnotation(annotation, storageKey)),
+            };
+            nextShards.set(this.getShardPath(storageKey), { shard, contents: `${JSON.stringify(shard, null, 2)}\n` });
+        });
+
+        const writes: Promise<void>[] = [];
+        nextShards.forEach(({ shard, contents }, shardPath) => {
+            if (this.shardCache.get(shardPath)?.contents === contents && fs.existsSync(shardPath)) {
+                return;
+            }
+
+            writes.push(this.enqueueWrite(shardPath, async () => {
+                await fs.promises.mkdir(path.dirname(shardPath), { recursive: true });
+                await this.writeFileAtomically(shardPath, contents);
+                const stats = await fs.promises.stat(shardPath);
+                this.shardCache.set(shardPath, {
+                    schemaVersion: shard.schemaVersion,
+                    modifiedTime: stats.mtimeMs,
+                    contents,
+                    filePath: shard.filePath,
+                    annotations: shard.annotations,
+                });
+            }));
+        });
+
+        // Only remove shards this session has read or written; shards that appeared on disk
+        // since the last load belong to someone else until they are loaded.
+        const staleShards = [...this.shardCache.keys()].filter(shardPath => !nextShards.has(shardPath));
+        staleShards.forEach(shardPath => {
+            writes.push(this.removeShard(shardPath));
+        });
+
+        await Promise.all(writes);
+        this.persistedAnnotations = Object.fromEntries(
+            [...nextShards.values()].map(({ shard }) => [shard.filePath, shard.annotations])
+        );
+
+        // The monolithic file is only removed once its contents have been migrated into shards.
+        if (this.singleFileLoaded) {
+            await this.enqueueWrite(ANNOTATIONS_QUEUE_KEY, async () => {
+                if (fs.existsSync(this.storageFilePath)) {
+                    await fs.promises.unlink(this.storageFilePath);
+                }
+                this.singleFileLoaded = false;
+            });
+        }
+    }
+
+    /**
+     * Map a storage key to its shard file, mirroring the source tree. Files from other
+     * workspace folders and files outside the workspace get their own subfolders.
+     */
+    private getShardPath(storageKey: string): string {
+        const separatorIndex = storageKey.indexOf('::');
+        if (path.isAbsolute(storageKey) || path.win32.isAbsolute(storageKey)) {
+            const digest = createHash('sha1').update(storageKey).digest('hex').slice(0, 16);
+            return path.join(this.shardDirectoryPath, '.external', `${digest}${SHARD_FILE_EXTENSION}`);
+        }
+
+        if (separatorIndex !== -1) {
+            const folderName = storageKey.slice(0, separatorIndex).replace(/[^a-zA-Z0-9._-]/g, '_');
+            const relativePath = storageKey.slice(separatorIndex + 2);
+            return path.join(this.shardDirectoryPath, `.workspace-${folderName}`, ...`${relativePath}${SHARD_FILE_EXTENSION}`.split('/'));
+        }
+
+        return path.join(this.shardDirectoryPath, ...`${storageKey}${SHARD_FILE_EXTENSION}`.split('/'));
+    }
+
+    /**
+     * The source file a shard belongs to, told from its path without reading it. Files
+     * outside the workspace have hashed shard names, so those return undefined.
+     */
+    private getShardFilePath(shardPath: string): string | undefined {
+        const segments = path.relative(this.shardDirectoryPath, shardPath)
+            .slice(0, -SHARD_FILE_EXTENSION.length)
+            .split(path.sep);
+        if (segments[0] === '.external') {
+            return undefined;
+        }
+
+        if (segments[0].startsWith('.workspace-')) {
+            const folderName = segments[0].slice('.workspace-'.length);
+            const folders = (vscode.workspace.workspaceFolders || [])
+                .filter(folder => folder.name.replace(/[^a-zA-Z0-9._-]/g, '_') === folderName);
+            return folders.length === 1 ? path.join(folders[0].uri.fsPath, ...segments.slice(1)) : undefined;
+        }
+
+        return path.join(this.getStorageRoot(), ...segments);
+    }
+
+    private async listShardFiles(directory: string): Promise<string[]> {
+        if (!directory || !fs.existsSync(directory)) {
+            return [];
+        }
+
+        const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        const shardFiles: string[] = [];
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                shardFiles.push(...await this.listShardFiles(entryPath));
+            } else if (entry.name.endsWith(SHARD_FILE_EXTENSION) && !entry.name.includes('.corrupt-')) {
+                shardFiles.push(entryPath);
+            }
+        }
+
+        return shardFiles.sort();
+    }
+
+    private async removeEmptyShardDirectories(directory: string): Promise<void> {
+        let current = directory;
+        while (current.startsWith(this.shardDirectoryPath) && current !== this.shardDirectoryPath) {
+            const entries = await fs.promises.readdir(current).catch(() => undefined);
+            if (!entries || entries.length > 0) {
+                return;
+            }
+
+            await fs.promises.rmdir(current);
+            current = path.dirname(current);
+        }
+    }
+
+    private async removeKnownShards(): Promise<void> {
+        await Promise.all([...this.shardCache.keys()].map(shardPath => this.removeShard(shardPath)));
+    }
+
+    private removeShard(shardPath: string): Promise<void> {
+        return this.enqueueWrite(shardPath, async () => {
+            this.shardCache.delete(shardPath);
+            if (fs.existsSync(shardPath)) {
+                await fs.promises.unlink(shardPath);
+            }
+            await this.removeEmptyShardDirectories(path.dirname(shardPath));
+        });
+    }
+
     async loadCustomTags(): Promise<LoadCustomTagsResult> {
         try {
             if (this.customTagsPath && fs.existsSync(this.customTagsPath)) {
                 const data = await fs.promises.readFile(this.customTagsPath, 'utf-8');
                 const parsed = this.parseCustomTagsStorage(JSON.parse(data));
+                this.persistedCustomTags = this.cloneTags(parsed.customTags);
                 return {
                     tags: parsed.customTags,
                     needsSave: parsed.needsSave,
@@ -201,7 +752,7 @@ export class AnnotationStorageManager {
 
     async saveCustomTags(tags: AnnotationTag[]): Promise<void> {
         try {
-            await this.enqueueWrite(async () => {
+            await this.enqueueWrite(CUSTOM_TAGS_QUEUE_KEY, async () => {
                 await this.ensureProjectStorage();
 
                 const storage: TagStorageFile = {
@@ -210,6 +761,7 @@ export class AnnotationStorageManager {
                 };
 
                 await this.writeJsonAtomically(this.customTagsPath, storage);
+                this.persistedCustomTags = this.cloneTags(tags);
             });
         } catch (error) {
             console.error('Failed to save custom tags:', error);
@@ -217,9 +769,10 @@ export class AnnotationStorageManager {
         }
     }
 
-    private serializeAnnotation(annotation: Annotation): StoredAnnotation {
+    serializeAnnotation(annotation: Annotation, storageKey: string): StoredAnnotation {
         return {
             ...annotation,
+            filePath: storageKey,
             range: {
                 start: {
                     line: annotation.range.start.line,
@@ -232,11 +785,20 @@ export class AnnotationStorageManager {
             },
             timestamp: annotation.timestamp.toISOString(),
             tags: annotation.tags ? [...annotation.tags] : undefined,
+            status: getAnnotationStatus(annotation),
             anchor: this.serializeAnchor(annotation.anchor),
+            replies: annotation.replies?.map(reply => ({
+                ...reply,
+                timestamp: reply.timestamp.toISOString(),
+            })),
+            history: annotation.history?.map(entry => ({
+                ...entry,
+                timestamp: entry.timestamp.toISOString(),
+            })),
         };
     }
 
-    private deserializeAnnotation(filePath: string, annotation: StoredAnnotation): Annotation {
+    deserializeAnnotation(filePath: string, annotation: StoredAnnotation): Annotation {
         const start = annotation.range?.start ?? { line: 0, character: 0 };
         const end = annotation.range?.end ?? start;
         const normalizedTags = Array.isArray(annotation.tags)
@@ -244,6 +806,7 @@ export class AnnotationStorageManager {
                 .map(tag => typeof tag === 'string' ? tag : tag.id || tag.name)
                 .filter((tagId): tagId is string => typeof tagId === 'string' && tagId.trim().length > 0)
             : [];
+        const status = normalizeAnnotationStatus(annotation.status, annotation.resolved);
 
         return {
             ...annotation,
@@ -254,11 +817,60 @@ export class AnnotationStorageManager {
             ),
             timestamp: this.parseTimestamp(annotation.timestamp),
             tags: normalizedTags,
+            resolved: isClosedStatus(status),
+            status,
+            assignee: typeof annotation.assignee === 'string' && annotation.assignee.trim()
+                ? annotation.assignee.trim()
+                : undefined,
+            dueDate: normalizeDueDate(annotation.dueDate),
             priority: this.normalizePriority(annotation.priority),
             anchor: this.deserializeAnchor(annotation.anchor),
+            gitAnchor: this.deserializeGitAnchor(annotation.gitAnchor),
+            target: normalizeAnnotationTarget(annotation.target),
+            replies: this.deserializeReplies(annotation.replies),
+            history: this.deserializeHistory(annotation.history),
         };
     }
 
+    private deserializeHistory(rawHistory: unknown): AnnotationHistoryEntry[] | undefined {
+        if (!Array.isArray(rawHistory)) {
+            return undefined;
+        }
+
+        return rawHistory
+            .filter((entry): entry is StoredAnnotationHistoryEntry =>
+                !!entry
+                && typeof entry === 'object'
+                && typeof entry.field === 'string'
+            )
+            .map(entry => ({
+                ...entry,
+                author: typeof entry.author === 'string' ? entry.author : 'Unknown User',
+                timestamp: this.parseTimestamp(entry.timestamp),
+            }));
+    }
+
+    private deserializeReplies(rawReplies: unknown): AnnotationReply[] | undefined {
+        if (!Array.isArray(rawReplies)) {
+            return undefined;
+        }
+
+        return rawReplies
+            .filter((reply): reply is StoredAnnotationReply =>
+                !!reply
+                && typeof reply === 'object'
+                && typeof reply.id === 'string'
+                && typeof reply.body === 'string'
+            )
+            .map(reply => ({
+                id: reply.id,
+                author: typeof reply.author === 'string' ? reply.author : 'Unknown User',
+                body: reply.body,
+                timestamp: this.parseTimestamp(reply.timestamp),
+                edited: reply.edited === true ? true : undefined,
+            }));
+    }
+
     private serializeAnchor(anchor: AnnotationAnchor | undefined): AnnotationAnchor | undefined {
         if (!anchor) {
             return undefined;
@@ -274,6 +886,22 @@ export class AnnotationStorageManager {
         };
     }
 
+    private deserializeGitAnchor(rawGitAnchor: unknown): AnnotationGitAnchor | undefined {
+        if (!rawGitAnchor || typeof rawGitAnchor !== 'object') {
+            return undefined;
+        }
+
+        const candidate = rawGitAnchor as Partial<AnnotationGitAnchor>;
+        const isPosition = (value: unknown) => !!value
+            && typeof (value as StoredPosition).line === 'number'
+            && typeof (value as StoredPosition).character === 'number';
+        if (typeof candidate.commit !== 'string' || !isPosition(candidate.range?.start) || !isPosition(candidate.range?.end)) {
+            return undefined;
+        }
+
+        return { commit: candidate.commit, range: candidate.range! };
+    }
+
     private deserializeAnchor(rawAnchor: unknown): AnnotationAnchor | undefined {
         if (!rawAnchor || typeof rawAnchor !== 'object') {
             return undefined;
@@ -304,14 +932,14 @@ export class AnnotationStorageManager {
     private parseAnnotationStorage(raw: unknown): ParsedAnnotationsPayload {
         if (this.isAnnotationStorageFile(raw)) {
             return {
-                workspaceAnnotations: raw.workspaceAnnotations,
+                workspaceAnnotations: this.resolveStorageKeys(raw.workspaceAnnotations),
                 needsSave: raw.schemaVersion !== STORAGE_SCHEMA_VERSION,
             };
         }
 
         if (this.isLegacyAnnotationStorage(raw)) {
             return {
-                workspaceAnnotations: raw.workspaceAnnotations,
+                workspaceAnnotations: this.resolveStorageKeys(raw.workspaceAnnotations),
                 needsSave: true,
             };
         }
@@ -319,6 +947,32 @@ export class AnnotationStorageManager {
         throw new Error('Invalid annotation storage schema');
     }
 
+    /**
+     * Map stored keys back to absolute paths. Schema 3 keys are workspace-relative;
+     * older files used absolute keys, which are kept or remapped onto this checkout.
+     */
+    private resolveStorageKeys(
+        workspaceAnnotations: Record<string, StoredAnnotation[]>
+    ): Record<string, StoredAnnotation[]> {
+        const storageRoot = this.getStorageRoot();
+        const resolved: Record<string, StoredAnnotation[]> = {};
+
+        Object.entries(workspaceAnnotations).forEach(([storageKey, annotations]) => {
+            if (!Array.isArray(annotations)) {
+                return;
+            }
+
+            const filePath = resolveWorkspaceStorageKey(storageKey, storageRoot);
+            resolved[filePath] = [...(resolved[filePath] || []), ...annotations];
+        });
+
+        return resolved;
+    }
+
+    private getStorageRoot(): string {
+        return this.projectStorageDir ? path.dirname(this.projectStorageDir) : '';
+    }
+
     private parseCustomTagsStorage(raw: unknown): ParsedCustomTagsPayload {
         if (this.isTagStorageFile(raw)) {
             return {
@@ -357,6 +1011,17 @@ export class AnnotationStorageManager {
         return !!candidate.workspaceAnnotations && typeof candidate.workspaceAnnotations === 'object';
     }
 
+    private isAnnotationShardFile(raw: unknown): raw is AnnotationShardFile {
+        if (!raw || typeof raw !== 'object') {
+            return false;
+        }
+
+        const candidate = raw as Partial<AnnotationShardFile>;
+        return typeof candidate.schemaVersion === 'number'
+            && typeof candidate.filePath === 'string'
+            && Array.isArray(candidate.annotations);
+    }
+
     private isTagStorageFile(raw: unknown): raw is TagStorageFile {
         if (!raw || typeof raw !== 'object') {
             return false;
@@ -380,11 +1045,14 @@ export class AnnotationStorageManager {
     }
 
     private async writeJsonAtomically(filePath: string, payload: unknown): Promise<void> {
+        await this.writeFileAtomically(filePath, `${JSON.stringify(payload, null, 2)}\n`);
+    }
+
+    private async writeFileAtomically(filePath: string, contents: string): Promise<void> {
         const directory = path.dirname(filePath);
         const fileName = path.basename(filePath);
         const tempPath = path.join(directory, `${fileName}.tmp`);
         const backupPath = path.join(directory, `${fileName}.bak`);
-        const contents = `${JSON.stringify(payload, null, 2)}\n`;
 
         await fs.promises.writeFile(tempPath, contents, 'utf-8');
 
@@ -415,9 +1083,16 @@ export class AnnotationStorageManager {
         }
     }
 
-    private async enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
-        const nextWrite = this.writeQueue.then(operation, operation);
-        this.writeQueue = nextWrite.then(() => undefined, () => undefined);
+    private async enqueueWrite<T>(queueKey: string, operation: () => Promise<T>): Promise<T> {
+        const previousWrite = this.writeQueues.get(queueKey) || Promise.resolve();
+        const nextWrite = previousWrite.then(operation, operation);
+        const settled = nextWrite.then(() => undefined, () => undefined);
+        this.writeQueues.set(queueKey, settled);
+        void settled.then(() => {
+            if (this.writeQueues.get(queueKey) === settled) {
+                this.writeQueues.delete(queueKey);
+            }
+        });
         return nextWrite;
     }
 
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { Annotation, AnnotationTarget } from '../types';
+
+export const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell';
+
+/**
+ * Accept a stored target when it is well formed. Anything else is dropped, which turns
+ * the annotation back into a plain text range.
+ */
+export function normalizeAnnotationTarget(value: unknown): AnnotationTarget | undefined {
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+
+    const candidate = value as Partial<{ type: string; cellId: unknown; cellIndex: unknown }>;
+    if (candidate.type === 'file') {
+        return { type: 'file' };
+    }
+    if (
+        candidate.type === 'notebookCell'
+        && typeof candidate.cellId === 'string'
+        && candidate.cellId.length > 0
+        && typeof candidate.cellIndex === 'number'
+        && Number.isInteger(candidate.cellIndex)
+        && candidate.cellIndex >= 0
+    ) {
+        return { type: 'notebookCell', cellId: candidate.cellId, cellIndex: candidate.cellIndex };
+    }
+
+    return undefined;
+}
+
+/**
+ * True for annotations on a range of a text file, the only ones anchored against the
+ * file's contents on disk.
+ */
+export function isTextAnnotation(annotation: Annotation): boolean {
+    return !annotation.target;
+}
+
+/**
+ * Jupyter cells carry a stable id in their metadata. Cells without one fall back to
+ * their position in the notebook.
+ */
+export function getNotebookCellId(cell: vscode.NotebookCell): string {
+    const metadata = cell.metadata as { id?: unknown; custom?: { id?: unknown } } | undefined;
+    const id = metadata?.id ?? metadata?.custom?.id;
+    return typeof id === 'string' && id.length > 0 ? id : `index:${cell.index}`;
+}
+
+export function createNotebookCellTarget(cell: vscode.NotebookCell): AnnotationTarget {
+    return { type: 'notebookCell', cellId: getNotebookCellId(cell), cellIndex: cell.index };
+}
+
+/**
+ * The open notebook cell behind a cell document, if it is one.
+ */
+export function findNotebookCell(document: vscode.TextDocument): vscode.NotebookCell | undefined {
+    if (document.uri.scheme !== NOTEBOOK_CELL_SCHEME) {
+        return undefined;
+    }
+
+    const uri = document.uri.toString();
+    for (const notebook of vscode.workspace.notebookDocuments) {
+        const cell = notebook.getCells().find(candidate => candidate.document.uri.toString() === uri);
+        if (cell) {
+            return cell;
+        }
+    }
+    return undefined;
+}
+
+export function findTargetCell(notebook: vscode.NotebookDocument, annotation: Annotation): vscode.NotebookCell | undefined {
+    const target = annotation.target;
+    if (target?.type !== 'notebookCell') {
+        return undefined;
+    }
+
+    return notebook.getCells().find(cell => getNotebookCellId(cell) === target.cellId);
+}
+
+/**
+ * Whether an annotation belongs in the given editor: cell annotations in their own cell,
+ * text annotations in text files, and whole-file annotations in neither.
+ */
+export function isAnnotationInDocument(annotation: Annotation, cell: vscode.NotebookCell | undefined): boolean {
+    if (!cell) {
+        return isTextAnnotation(annotation);
+    }
+
+    return annotation.target?.type === 'notebookCell' && annotation.target.cellId === getNotebookCellId(cell);
+}
+
+/**
+ * For example "Line 4", "Lines 4-6", "Cell 2, Line 1", or "Whole file".
+ */
+export function formatAnnotationLocation(annotation: Annotation): string {
+    if (annotation.target?.type === 'file') {
+        return 'Whole file';
+    }
+
+    const startLine = annotation.range.start.line + 1;
+    const endLine = annotation.range.end.line + 1;
+    const lines = startLine === endLine ? `Line ${startLine}` : `Lines ${startLine}-${endLine}`;
+    return annotation.target?.type === 'notebookCell'
+        ? `Cell ${annotation.target.cellIndex + 1}, ${lines}`
+        : lines;
+}
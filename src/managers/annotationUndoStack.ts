@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import { AnnotationTag, StoredAnnotation } from '../types';
+
+const UNDO_STATE_KEY = 'annotative.undoStack';
+const MAX_UNDO_ENTRIES = 50;
+
+/**
+ * The state of one annotation before and after an operation. A missing side means the
+ * annotation did not exist (it was added or deleted).
+ */
+export interface AnnotationSnapshotChange {
+    id: string;
+    before?: AnnotationSnapshot;
+    after?: AnnotationSnapshot;
+}
+
+export interface AnnotationSnapshot {
+    filePath: string;
+    index: number;
+    annotation: StoredAnnotation;
+}
+
+export interface AnnotationUndoEntry {
+    label: string;
+    timestamp: string;
+    changes: AnnotationSnapshotChange[];
+    customTags?: { before: AnnotationTag[]; after: AnnotationTag[] };   // Set when the operation rewrote tags
+}
+
+interface UndoStackState {
+    undo: AnnotationUndoEntry[];
+    redo: AnnotationUndoEntry[];
+}
+
+/**
+ * Compare two snapshots of every annotation (keyed by id) and return what changed.
+ */
+export function diffAnnotationSnapshots(
+    before: ReadonlyMap<string, AnnotationSnapshot>,
+    after: ReadonlyMap<string, AnnotationSnapshot>
+): AnnotationSnapshotChange[] {
+    const changes: AnnotationSnapshotChange[] = [];
+
+    before.forEach((previous, id) => {
+        const next = after.get(id);
+        if (!next || next.filePath !== previous.filePath || JSON.stringify(next.annotation) !== JSON.stringify(previous.annotation)) {
+            changes.push({ id, before: previous, after: next });
+        }
+    });
+
+    after.forEach((next, id) => {
+        if (!before.has(id)) {
+            changes.push({ id, after: next });
+        }
+    });
+
+    return changes;
+}
+
+// Fields that follow the code as it is edited, and the change log, which only grows
+const DRIFTING_FIELDS = ['history', 'range', 'text', 'anchor', 'anchorStatus', 'gitAnchor'];
+
+/**
+ * Whether an annotation is still in the state an undo entry recorded for it. A missing
+ * side means the annotation should not exist.
+ */
+export function snapshotMatches(expected?: AnnotationSnapshot, actual?: AnnotationSnapshot): boolean {
+    if (!expected || !actual) {
+        return !expected && !actual;
+    }
+
+    const comparable = (snapshot: AnnotationSnapshot) => JSON.stringify(
+        Object.fromEntries(Object.entries(snapshot.annotation).filter(([key]) => !DRIFTING_FIELDS.includes(key)))
+    );
+    return expected.filePath === actual.filePath && comparable(expected) === comparable(actual);
+}
+
+/**
+ * Thrown instead of undoing or redoing a step whose annotations were changed since it
+ * was recorded, by a later edit, another window, or a merge.
+ */
+export class AnnotationUndoConflictError extends Error {
+    constructor(readonly label: string, readonly annotationIds: string[], readonly customTagsChanged = false) {
+        const changed = [
+            ...(annotationIds.length > 0 ? [`${annotationIds.length} annotation(s)`] : []),
+            ...(customTagsChanged ? ['the custom tags'] : []),
+        ];
+        super(`${changed.join(' and ')} changed after "${label}"`);
+        this.name = 'AnnotationUndoConflictError';
+    }
+}
+
+/**
+ * Bounded undo/redo stack of annotation operations, persisted in workspace state so it
+ * survives window reloads.
+ */
+export class AnnotationUndoStack {
+    private state: UndoStackState;
+
+    constructor(private readonly memento?: vscode.Memento, private readonly limit = MAX_UNDO_ENTRIES) {
+        const stored = memento?.get<UndoStackState>(UNDO_STATE_KEY);
+        this.state = {
+            undo: Array.isArray(stored?.undo) ? stored.undo : [],
+            redo: Array.isArray(stored?.redo) ? stored.redo : [],
+        };
+    }
+
+    canUndo(): boolean {
+        return this.state.undo.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.state.redo.length > 0;
+    }
+
+    peekUndo(): AnnotationUndoEntry | undefined {
+        return this.state.undo[this.state.undo.length - 1];
+    }
+
+    peekRedo(): AnnotationUndoEntry | undefined {
+        return this.state.redo[this.state.redo.length - 1];
+    }
+
+    async push(entry: AnnotationUndoEntry): Promise<void> {
+        this.state.undo.push(entry);
+        if (this.state.undo.length > this.limit) {
+            this.state.undo.splice(0, this.state.undo.length - this.limit);
+        }
+        this.state.redo = [];
+        await this.persist();
+    }
+
+    async popUndo(): Promise<AnnotationUndoEntry | undefined> {
+        const entry = this.state.undo.pop();
+        if (entry) {
+            this.state.redo.push(entry);
+            await this.persist();
+        }
+        return entry;
+    }
+
+    async popRedo(): Promise<AnnotationUndoEntry | undefined> {
+        const entry = this.state.redo.pop();
+        if (entry) {
+            this.state.undo.push(entry);
+            await this.persist();
+        }
+        return entry;
+    }
+
+    private async persist(): Promise<void> {
+        await this.memento?.update(UNDO_STATE_KEY, this.state);
+    }
+}
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { Annotation, AnnotationStatus } from '../types';
+
+export const ANNOTATION_STATUSES: readonly AnnotationStatus[] = [
+    'open',
+    'inProgress',
+    'needsVerification',
+    'deferred',
+    'wontFix',
+    'resolved',
+];
+
+export const ANNOTATION_STATUS_LABELS: Record<AnnotationStatus, string> = {
+    open: 'Open',
+    inProgress: 'In Progress',
+    needsVerification: 'Needs Verification',
+    deferred: 'Deferred',
+    wontFix: "Won't Fix",
+    resolved: 'Resolved',
+};
+
+export type AnnotationWorkflowTransitions = Partial<Record<AnnotationStatus, AnnotationStatus[]>>;
+
+export function isAnnotationStatus(value: unknown): value is AnnotationStatus {
+    return typeof value === 'string' && (ANNOTATION_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Closed states no longer need attention. `Annotation.resolved` mirrors this so older
+ * clients and boolean checks keep working.
+ */
+export function isClosedStatus(status: AnnotationStatus): boolean {
+    return status === 'resolved' || status === 'wontFix';
+}
+
+export function getAnnotationStatus(annotation: Pick<Annotation, 'status' | 'resolved'>): AnnotationStatus {
+    return annotation.status ?? (annotation.resolved ? 'resolved' : 'open');
+}
+
+export function getStatusLabel(status: AnnotationStatus): string {
+    return ANNOTATION_STATUS_LABELS[status];
+}
+
+/**
+ * Work out the status of stored data. Files written before workflow states only carry
+ * `resolved`; when an older client toggled `resolved` without knowing about `status`,
+ * the two disagree and the boolean wins.
+ */
+export function normalizeAnnotationStatus(rawStatus: unknown, resolved: unknown): AnnotationStatus {
+    const isResolved = resolved === true;
+    if (isAnnotationStatus(rawStatus) && isClosedStatus(rawStatus) === isResolved) {
+        return rawStatus;
+    }
+    return isResolved ? 'resolved' : 'open';
+}
+
+/**
+ * Read the `annotative.workflow.transitions` setting. Statuses that are not listed can
+ * move to any other status.
+ */
+export function getWorkflowTransitions(): AnnotationWorkflowTransitions {
+    const configured = vscode.workspace
+        .getConfiguration('annotative')
+        .get<Record<string, unknown>>('workflow.transitions', {});
+    const transitions: AnnotationWorkflowTransitions = {};
+
+    Object.entries(configured || {}).forEach(([from, targets]) => {
+        if (isAnnotationStatus(from) && Array.isArray(targets)) {
+            transitions[from] = targets.filter(isAnnotationStatus);
+        }
+    });
+
+    return transitions;
+}
+
+export function getAllowedTransitions(
+    from: AnnotationStatus,
+    transitions: AnnotationWorkflowTransitions = getWorkflowTransitions()
+): AnnotationStatus[] {
+    const allowed = transitions[from] ?? ANNOTATION_STATUSES;
+    return ANNOTATION_STATUSES.filter(status => status !== from && allowed.includes(status));
+}
+
+export function canTransition(
+    from: AnnotationStatus,
+    to: AnnotationStatus,
+    transitions: AnnotationWorkflowTransitions = getWorkflowTransitions()
+): boolean {
+    return from === to || getAllowedTransitions(from, transitions).includes(to);
+}
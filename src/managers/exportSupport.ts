@@ -1,4 +1,5 @@
-import { Annotation } from '../types';
+import { Annotation, AnnotationHistoryEntry, AnnotationHistoryValue } from '../types';
+import { getStatusLabel, isAnnotationStatus } from './annotationWorkflow';
 import { getRelativePathForFile, getWorkspaceNameForAnnotations } from '../utils/workspaceContext';
 
 export function groupAnnotationsByFile(annotations: readonly Annotation[]): Map<string, Annotation[]> {
@@ -19,4 +20,55 @@ export function groupAnnotationsByFile(annotations: readonly Annotation[]): Map<
     return grouped;
 }
 
+/**
+ * Render one change log entry as a markdown list item
+ */
+export function formatHistoryEntry(
+    entry: AnnotationHistoryEntry,
+    resolveTagLabels: (tagIds?: readonly string[]) => string[]
+): string {
+    const formatValue = (value: AnnotationHistoryValue | undefined): string => {
+        if (value === undefined) {
+            return '(none)';
+        }
+        if (Array.isArray(value)) {
+            return value.length > 0 ? resolveTagLabels(value).join(', ') : '(none)';
+        }
+        return `"${value}"`;
+    };
+
+    const prefix = `- **${entry.author}** (${entry.timestamp.toLocaleString()})`;
+    switch (entry.field) {
+        case 'created':
+            return `${prefix}: created the annotation`;
+        case 'reply':
+            if (entry.previousValue === undefined) {
+                return `${prefix}: replied ${formatValue(entry.newValue)}`;
+            }
+            if (entry.newValue === undefined) {
+                return `${prefix}: removed reply ${formatValue(entry.previousValue)}`;
+            }
+            return `${prefix}: edited reply ${formatValue(entry.previousValue)} to ${formatValue(entry.newValue)}`;
+        case 'assignee':
+            return entry.newValue === undefined
+                ? `${prefix}: unassigned ${entry.previousValue}`
+                : `${prefix}: assigned to ${entry.newValue}`;
+        case 'dueDate':
+            return `${prefix}: changed due date from ${entry.previousValue ?? '(none)'} to ${entry.newValue ?? '(none)'}`;
+        case 'range':
+            return `${prefix}: moved from ${entry.previousValue} to ${entry.newValue}`;
+        case 'undo':
+            return `${prefix}: undid ${formatValue(entry.newValue)}`;
+        case 'redo':
+            return `${prefix}: redid ${formatValue(entry.newValue)}`;
+        case 'status': {
+            const formatStatus = (value: AnnotationHistoryValue | undefined) =>
+                isAnnotationStatus(value) ? getStatusLabel(value) : formatValue(value);
+            return `${prefix}: changed status from ${formatStatus(entry.previousValue)} to ${formatStatus(entry.newValue)}`;
+        }
+        default:
+            return `${prefix}: changed ${entry.field} from ${formatValue(entry.previousValue)} to ${formatValue(entry.newValue)}`;
+    }
+}
+
 export { getRelativePathForFile, getWorkspaceNameForAnnotations };
\ No newline at end of file
@@ -0,0 +1,144 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AnnotationGitAnchor, StoredRange } from '../types';
+import { GitCommandRunner } from '../utils/git';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+}
+
+/**
+ * Parse the hunk headers of a unified diff. Line numbers are 1-based, as git prints them.
+ */
+export function parseDiffHunks(diff: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+
+    diff.split(/\r?\n/).forEach(line => {
+        const match = HUNK_HEADER.exec(line);
+        if (!match) {
+            return;
+        }
+
+        hunks.push({
+            oldStart: Number(match[1]),
+            oldLines: match[2] === undefined ? 1 : Number(match[2]),
+            newStart: Number(match[3]),
+            newLines: match[4] === undefined ? 1 : Number(match[4]),
+        });
+    });
+
+    return hunks;
+}
+
+/**
+ * Replay diff hunks over a range recorded at the old revision. Lines outside the hunks
+ * shift with them; lines inside a hunk land on the matching line of its replacement, or
+ * just after it when the lines were deleted. The result is a position hint, not a
+ * guarantee that the text is still there.
+ */
+export function mapRangeThroughHunks(range: StoredRange, hunks: readonly DiffHunk[]): StoredRange {
+    return {
+        start: { line: mapLineThroughHunks(range.start.line + 1, hunks) - 1, character: range.start.character },
+        end: { line: mapLineThroughHunks(range.end.line + 1, hunks) - 1, character: range.end.character },
+    };
+}
+
+function mapLineThroughHunks(line: number, hunks: readonly DiffHunk[]): number {
+    let offset = 0;
+
+    for (const hunk of hunks) {
+        if (hunk.oldLines === 0) {
+            // Pure insertion after oldStart
+            if (hunk.oldStart < line) {
+                offset += hunk.newLines;
+            }
+            continue;
+        }
+
+        const hunkEnd = hunk.oldStart + hunk.oldLines - 1;
+        if (hunkEnd < line) {
+            offset += hunk.newLines - hunk.oldLines;
+            continue;
+        }
+        if (hunk.oldStart > line) {
+            break;
+        }
+
+        // A deletion's newStart is the line before the removed ones
+        return hunk.newLines === 0
+            ? hunk.newStart + 1
+            : hunk.newStart + Math.min(line - hunk.oldStart, hunk.newLines - 1);
+    }
+
+    return line + offset;
+}
+
+/**
+ * Record the commit an annotation was created at. Only files that match HEAD exactly
+ * get one, because the range has to be valid at that commit.
+ */
+export async function captureGitAnchor(
+    filePath: string,
+    range: vscode.Range,
+    runGitCommand: GitCommandRunner
+): Promise<AnnotationGitAnchor | undefined> {
+    const cwd = path.dirname(filePath);
+    const fileName = path.basename(filePath);
+
+    try {
+        const [commit, tracked, status] = await Promise.all([
+            runGitCommand(cwd, ['rev-parse', 'HEAD']),
+            runGitCommand(cwd, ['ls-files', '--', fileName]),
+            runGitCommand(cwd, ['status', '--porcelain', '--', fileName]),
+        ]);
+        if (!commit.trim() || !tracked.trim() || status.trim()) {
+            return undefined;
+        }
+
+        return {
+            commit: commit.trim(),
+            range: {
+                start: { line: range.start.line, character: range.start.character },
+                end: { line: range.end.line, character: range.end.character },
+            },
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Read the hunks of `git diff <commit>` for the file as it is on disk now. Every anchor
+ * recorded at the same commit can be mapped through the same hunks.
+ */
+export async function readGitDiffHunks(
+    filePath: string,
+    commit: string,
+    runGitCommand: GitCommandRunner
+): Promise<DiffHunk[] | undefined> {
+    try {
+        const diff = await runGitCommand(path.dirname(filePath), [
+            'diff', '-U0', '--no-color', '--no-ext-diff', commit, '--', path.basename(filePath),
+        ]);
+        return parseDiffHunks(diff);
+    } catch {
+        // The commit may have been garbage collected or rewritten
+        return undefined;
+    }
+}
+
+/**
+ * Map a git anchor onto the file on disk through hunks from `readGitDiffHunks`.
+ */
+export function mapGitAnchorRange(gitAnchor: AnnotationGitAnchor, hunks: readonly DiffHunk[]): vscode.Range {
+    const mapped = mapRangeThroughHunks(gitAnchor.range, hunks);
+    return new vscode.Range(
+        new vscode.Position(mapped.start.line, mapped.start.character),
+        new vscode.Position(mapped.end.line, mapped.end.character)
+    );
+}
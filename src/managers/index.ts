@@ -3,12 +3,61 @@
  * Organized for modularity: storage, CRUD, decorations, export, and main manager
  */
 
-export { AnnotationManager } from './annotationManager';
+export { AnnotationManager, type AnnotationManagerOptions, type StorageReconcileSummary } from './annotationManager';
+export { detectGitRenames, parseGitRenames, remapRenamedPath, type FileRename } from './annotationRenames';
+export {
+    DUE_DATE_BUCKETS,
+    DUE_DATE_BUCKET_LABELS,
+    formatDueDate,
+    getDueDateBucket,
+    isAssignedTo,
+    isOverdue,
+    listGitAuthors,
+    normalizeDueDate,
+    toLocalDateString,
+    type DueDateBucket,
+} from './annotationAssignments';
+export {
+    createNotebookCellTarget,
+    findNotebookCell,
+    findTargetCell,
+    formatAnnotationLocation,
+    getNotebookCellId,
+    isAnnotationInDocument,
+    isTextAnnotation,
+    NOTEBOOK_CELL_SCHEME,
+} from './annotationTargets';
+export {
+    evaluateAnnotationRules,
+    loadAnnotationRules,
+    parseAnnotationRules,
+    RULES_FILE_NAME,
+    type AnnotationRuleChange,
+    type AnnotationRuleContext,
+    type AnnotationRuleDryRun,
+    type AnnotationRuleEdit,
+    type AnnotationRuleField,
+    type AnnotationRuleParseResult,
+} from './annotationRules';
+export { AnnotationUndoConflictError } from './annotationUndoStack';
 export { AnnotationCRUD } from './annotationCRUD';
 export { AnnotationDecorations } from './annotationDecorations';
 export { AnnotationExportService } from './annotationExportService';
 export { AnnotationStorageManager } from './annotationStorage';
 export { AnnotationExporter } from './annotationExporter';
+export {
+    ANNOTATION_STATUSES,
+    ANNOTATION_STATUS_LABELS,
+    canTransition,
+    getAllowedTransitions,
+    getAnnotationStatus,
+    getStatusLabel,
+    isAnnotationStatus,
+    isClosedStatus,
+    normalizeAnnotationStatus,
+    type AnnotationWorkflowTransitions,
+} from './annotationWorkflow';
+export { formatHistoryEntry } from './exportSupport';
 export { ReviewArtifactManager, REVIEW_ARTIFACT_MODEL_VERSION, type CreateReviewArtifactInput } from './reviewArtifactManager';
 export {
 	AiResponseReviewService,
@@ -38,4 +87,28 @@ export {
 	ReviewArtifactStorageManager,
 	type LoadReviewArtifactResult,
 	type ListReviewArtifactsResult,
+	type ReviewArtifactFileChange,
 } from './reviewArtifactStorage';
+export {
+    normalizeSavedView,
+    parseSavedViews,
+    SavedViewManager,
+    type SavedViewFileChange,
+} from './savedViewManager';
+export { StorageWatcher, type StorageWatcherOptions } from './storageWatcher';
+export {
+	MERGE_DRIVER_FILE_NAME,
+	StorageMergeService,
+	STORAGE_MERGE_DRIVER_NAME,
+	type InstallMergeDriverResult,
+	type StorageConflictResolution,
+} from './storageMergeService';
+export {
+	detectStorageFileKind,
+	formatStorageMergeConflicts,
+	mergeStorageFileContents,
+	mergeStorageFiles,
+	storageValuesEqual,
+	type StorageMergeConflict,
+	type StorageMergeResult,
+} from './storageMerge';
@@ -1,6 +1,4 @@
-import { execFile } from 'child_process';
 import * as path from 'path';
-import { promisify } from 'util';
 import * as vscode from 'vscode';
 import {
     ReviewArtifact,
@@ -11,10 +9,10 @@ import {
     ReviewArtifactMetadata,
     ReviewArtifactSource,
 } from '../types';
+import { GitCommandRunner, runGitCommand } from '../utils/git';
 import { getPreferredWorkspaceFolder } from '../utils/workspaceContext';
 import { ReviewArtifactManager } from './reviewArtifactManager';
 
-const execFileAsync = promisify(execFile);
 const LOCAL_DIFF_PARSER_ID = 'gitUnifiedDiffV1';
 const DEFAULT_CONTEXT_LINES = 3;
 
@@ -30,7 +28,7 @@ export interface ParsedLocalDiff {
 }
 
 export interface LocalDiffReviewServiceOptions {
-    runGitCommand?: (cwd: string, args: string[]) => Promise<string>;
+    runGitCommand?: GitCommandRunner;
     resolveWorkspaceFolder?: () => vscode.WorkspaceFolder | undefined;
 }
 
@@ -41,7 +39,7 @@ interface MutableDiffHunk {
 }
 
 export class LocalDiffReviewService {
-    private readonly runGitCommand: (cwd: string, args: string[]) => Promise<string>;
+    private readonly runGitCommand: GitCommandRunner;
     private readonly resolveWorkspaceFolder: () => vscode.WorkspaceFolder | undefined;
 
     constructor(
@@ -291,20 +289,6 @@ function deriveTitleFromSource(source: ReviewArtifactSource): string {
     return workspaceFolder ? `Review Local Diff: ${workspaceFolder}` : 'Review Local Diff';
 }
 
-async function runGitCommand(cwd: string, args: string[]): Promise<string> {
-    const { stdout, stderr } = await execFileAsync('git', args, {
-        cwd,
-        maxBuffer: 10 * 1024 * 1024,
-        windowsHide: true,
-    });
-
-    if (stderr && stderr.trim().length > 0) {
-        return stdout;
-    }
-
-    return stdout;
-}
-
 function normalizeDiffText(value: string): string {
     return value.replace(/\r\n/g, '\n').trim();
 }
@@ -7,6 +7,7 @@ import {
     ReviewArtifactMetadata,
     ReviewArtifactSection,
 } from '../types';
+import { getStatusLabel, isClosedStatus } from './annotationWorkflow';
 
 export type ReviewArtifactExportLanguage = 'markdown' | 'text' | 'json';
 
@@ -222,6 +223,14 @@ export class GenericMarkdownReviewArtifactExportAdapter implements ReviewArtifac
             lines.push(`- Severity: ${annotation.severity}`);
         }
 
+        if (annotation.assignee) {
+            lines.push(`- Assignee: ${annotation.assignee}`);
+        }
+
+        if (annotation.dueDate) {
+            lines.push(`- Due: ${annotation.dueDate}`);
+        }
+
         this.appendMetadata(lines, 'Annotation Metadata', annotation.metadata);
         lines.push('');
         lines.push(annotation.body);
@@ -289,8 +298,8 @@ export class CopilotReviewPromptReviewArtifactExportAdapter implements ReviewArt
 
     export(artifact: ReviewArtifact): string {
         const lines: string[] = [];
-        const openAnnotations = sortAnnotations(artifact.annotations.filter(annotation => annotation.status === 'open'));
-        const resolvedAnnotations = sortAnnotations(artifact.annotations.filter(annotation => annotation.status === 'resolved'));
+        const openAnnotations = sortAnnotations(artifact.annotations.filter(annotation => !isClosedStatus(annotation.status)));
+        const resolvedAnnotations = sortAnnotations(artifact.annotations.filter(annotation => isClosedStatus(annotation.status)));
         const groups = groupAnnotationsForCopilot(openAnnotations);
         const nextSteps = buildCopilotNextSteps(artifact, groups, openAnnotations);
 
@@ -511,6 +520,15 @@ function appendCopilotAnnotation(lines: string[], annotation: ReviewAnnotation,
     lines.push(`### ${index}. ${formatAnnotationLabel(annotation)}${severity}`);
     lines.push(`- Target: ${formatAnnotationTarget(annotation)}`);
     lines.push(`- Annotation ID: ${annotation.id}`);
+    if (annotation.status !== 'open' && annotation.status !== 'resolved') {
+        lines.push(`- Status: ${getStatusLabel(annotation.status)}`);
+    }
+    if (annotation.assignee) {
+        lines.push(`- Assignee: ${annotation.assignee}`);
+    }
+    if (annotation.dueDate) {
+        lines.push(`- Due: ${annotation.dueDate}`);
+    }
     lines.push(`- Created At: ${annotation.createdAt}`);
     lines.push(`- Updated At: ${annotation.updatedAt}`);
     lines.push('');
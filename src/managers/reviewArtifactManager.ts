@@ -11,6 +11,8 @@ import {
     ReviewExportState,
     TagPriority,
 } from '../types';
+import { normalizeDueDate } from './annotationAssignments';
+import { isClosedStatus } from './annotationWorkflow';
 import { ReviewArtifactExportAdapter, ReviewArtifactExportResult, ReviewArtifactExportService } from './reviewArtifactExportService';
 import { ReviewArtifactStorageManager } from './reviewArtifactStorage';
 
@@ -41,6 +43,8 @@ export interface CreateReviewAnnotationInput {
     kind: ReviewAnnotationKind;
     status?: ReviewAnnotationStatus;
     severity?: TagPriority;
+    assignee?: string;
+    dueDate?: string;
     target: ReviewAnnotationTarget;
     body: string;
     suggestedReplacement?: string;
@@ -53,6 +57,8 @@ export interface UpdateReviewAnnotationInput {
     kind?: ReviewAnnotationKind;
     status?: ReviewAnnotationStatus;
     severity?: TagPriority;
+    assignee?: string;
+    dueDate?: string;
     target?: ReviewAnnotationTarget;
     body?: string;
     suggestedReplacement?: string;
@@ -104,6 +110,8 @@ export class ReviewArtifactManager {
             kind: input.kind,
             status: input.status ?? 'open',
             severity: input.severity,
+            assignee: input.assignee?.trim() || undefined,
+            dueDate: parseDueDate(input.dueDate),
             target: cloneTarget(input.target),
             body,
             suggestedReplacement: input.suggestedReplacement?.trim() || undefined,
@@ -209,6 +217,8 @@ export class ReviewArtifactManager {
                         kind: updates.kind ?? annotation.kind,
                         status: updates.status ?? annotation.status,
                         severity: updates.severity === undefined ? annotation.severity : updates.severity,
+                        assignee: updates.assignee === undefined ? annotation.assignee : updates.assignee.trim() || undefined,
+                        dueDate: updates.dueDate === undefined ? annotation.dueDate : parseDueDate(updates.dueDate),
                         target: updates.target ? cloneTarget(updates.target) : cloneTarget(annotation.target),
                         body: nextBody,
                         suggestedReplacement: updates.suggestedReplacement === undefined
@@ -245,7 +255,7 @@ export class ReviewArtifactManager {
 
                     return {
                         ...annotation,
-                        status: annotation.status === 'open' ? 'resolved' : 'open',
+                        status: isClosedStatus(annotation.status) ? 'open' : 'resolved',
                         updatedAt: this.clock().toISOString(),
                     };
                 }),
@@ -386,6 +396,18 @@ function cloneAnnotations(annotations: ReviewAnnotation[]): ReviewAnnotation[] {
         });
 }
 
+function parseDueDate(value: string | undefined): string | undefined {
+    if (!value?.trim()) {
+        return undefined;
+    }
+
+    const dueDate = normalizeDueDate(value);
+    if (!dueDate) {
+        throw new Error(`Invalid due date: ${value}. Use YYYY-MM-DD.`);
+    }
+    return dueDate;
+}
+
 function cloneTarget(target: ReviewAnnotationTarget): ReviewAnnotationTarget {
     return {
         ...target,
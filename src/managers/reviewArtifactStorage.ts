@@ -16,6 +16,8 @@ export interface ListReviewArtifactsResult {
     needsSaveIds: string[];
 }
 
+export type ReviewArtifactFileChange = 'unchanged' | 'changed' | 'deleted' | 'unreadable';
+
 interface ParsedReviewArtifactStorage {
     artifact: ReviewArtifact;
     needsSave: boolean;
@@ -25,6 +27,7 @@ export class ReviewArtifactStorageManager {
     private annotativeDir = '';
     private reviewsDir = '';
     private writeQueue: Promise<void> = Promise.resolve();
+    private persistedContents = new Map<string, string>();
 
     constructor() {
         this.detectProjectStorage();
@@ -142,6 +145,32 @@ export class ReviewArtifactStorageManager {
         return { artifacts, needsSaveIds };
     }
 
+    /**
+     * Compare an artifact file with the contents this session last read or wrote, so
+     * watcher events caused by our own writes can be ignored.
+     */
+    async detectExternalChange(filePath: string): Promise<ReviewArtifactFileChange> {
+        await this.writeQueue;
+
+        if (!fs.existsSync(filePath)) {
+            return this.persistedContents.delete(filePath) ? 'deleted' : 'unchanged';
+        }
+
+        let contents: string;
+        try {
+            contents = await fs.promises.readFile(filePath, 'utf-8');
+            this.parseStorageFile(JSON.parse(contents));
+        } catch {
+            return 'unreadable';
+        }
+
+        return contents === this.persistedContents.get(filePath) ? 'unchanged' : 'changed';
+    }
+
+    getArtifactFilePath(artifactId: string): string {
+        return path.join(this.reviewsDir, `${this.sanitizeArtifactId(artifactId)}.json`);
+    }
+
     private detectProjectStorage(): void {
         const storageFolder = findWorkspaceFolderContainingChild('.annotative');
         if (!storageFolder) {
@@ -162,10 +191,6 @@ export class ReviewArtifactStorageManager {
         return findWorkspaceFolderContainingChild('.annotative') || getPreferredWorkspaceFolder();
     }
 
-    private getArtifactFilePath(artifactId: string): string {
-        return path.join(this.reviewsDir, `${this.sanitizeArtifactId(artifactId)}.json`);
-    }
-
     private sanitizeArtifactId(artifactId: string): string {
         const sanitized = artifactId.replace(/[<>:"/\\|?*\x00-\x1f]/g, '-').trim();
         return sanitized.length > 0 ? sanitized : 'review-artifact';
@@ -173,7 +198,9 @@ export class ReviewArtifactStorageManager {
 
     private async readArtifactFile(filePath: string): Promise<ParsedReviewArtifactStorage> {
         const data = await fs.promises.readFile(filePath, 'utf-8');
-        return this.parseStorageFile(JSON.parse(data));
+        const parsed = this.parseStorageFile(JSON.parse(data));
+        this.persistedContents.set(filePath, data);
+        return parsed;
     }
 
     private parseStorageFile(raw: unknown): ParsedReviewArtifactStorage {
@@ -248,6 +275,7 @@ export class ReviewArtifactStorageManager {
 
         try {
             await fs.promises.rename(tempPath, filePath);
+            this.persistedContents.set(filePath, contents);
             if (fs.existsSync(backupPath)) {
                 await fs.promises.unlink(backupPath);
             }
@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SavedView, SavedViewStorageFile } from '../types';
+import { findWorkspaceFolderContainingChild, getPreferredWorkspaceFolder } from '../utils/workspaceContext';
+import { isAnnotationStatus } from './annotationWorkflow';
+
+const SAVED_VIEWS_SCHEMA_VERSION = 1;
+const SAVED_VIEWS_FILE_NAME = 'views.json';
+const GROUP_BY_VALUES: ReadonlyArray<NonNullable<SavedView['groupBy']>> = ['file', 'tag', 'status', 'folder', 'due'];
+
+export type SavedViewFileChange = 'unchanged' | 'changed' | 'unreadable';
+
+/**
+ * Named filter views shared through `.annotative/views.json`. The file is written only
+ * once a view is saved, so workspaces without views stay untouched.
+ */
+export class SavedViewManager implements vscode.Disposable {
+    private views: SavedView[] = [];
+    private persistedContents: string | undefined;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private readonly onDidChangeViewsEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeViews = this.onDidChangeViewsEmitter.event;
+    public readonly ready: Promise<void>;
+
+    constructor() {
+        this.ready = this.reload().then(change => {
+            if (change === 'unreadable') {
+                console.error(`Failed to load saved views from ${this.getStorageFilePath()}`);
+            }
+        });
+    }
+
+    getViews(): SavedView[] {
+        return this.views.map(cloneView);
+    }
+
+    getView(name: string): SavedView | undefined {
+        const view = this.views.find(candidate => sameName(candidate.name, name));
+        return view ? cloneView(view) : undefined;
+    }
+
+    /**
+     * Add a view, or replace the one with the same name.
+     */
+    async saveView(view: SavedView): Promise<void> {
+        const normalized = normalizeSavedView(view);
+        if (!normalized) {
+            throw new Error('A saved view needs a name');
+        }
+
+        const index = this.views.findIndex(candidate => sameName(candidate.name, normalized.name));
+        this.views = index === -1
+            ? [...this.views, normalized]
+            : this.views.map((candidate, candidateIndex) => candidateIndex === index ? normalized : candidate);
+        await this.persist();
+    }
+
+    async deleteView(name: string): Promise<boolean> {
+        const remaining = this.views.filter(view => !sameName(view.name, name));
+        if (remaining.length === this.views.length) {
+            return false;
+        }
+
+        this.views = remaining;
+        await this.persist();
+        return true;
+    }
+
+    /**
+     * Point views at the new IDs of renamed or merged tags. Views keep deleted tags, so
+     * that they don't start matching every annotation.
+     */
+    async replaceTags(replacements: ReadonlyMap<string, string | undefined>): Promise<boolean> {
+        let changed = false;
+        this.views = this.views.map(view => {
+            if (!view.tags?.some(tag => replacements.get(tag))) {
+                return view;
+            }
+
+            changed = true;
+            return { ...view, tags: [...new Set(view.tags.map(tag => replacements.get(tag) || tag))] };
+        });
+
+        if (changed) {
+            await this.persist();
+        }
+        return changed;
+    }
+
+    /**
+     * Re-read views.json after a change on disk. Unreadable files, for example with merge
+     * conflict markers, leave the views in memory as they were.
+     */
+    async reload(): Promise<SavedViewFileChange> {
+        await this.writeQueue;
+        const filePath = this.getStorageFilePath();
+        const contents = filePath && fs.existsSync(filePath)
+            ? await fs.promises.readFile(filePath, 'utf-8')
+            : undefined;
+        if (contents === this.persistedContents) {
+            return 'unchanged';
+        }
+
+        let views: SavedView[];
+        try {
+            views = contents === undefined ? [] : parseSavedViews(JSON.parse(contents));
+        } catch {
+            return 'unreadable';
+        }
+
+        this.views = views;
+        this.persistedContents = contents;
+        this.onDidChangeViewsEmitter.fire();
+        return 'changed';
+    }
+
+    getStorageFilePath(): string {
+        const folder = findWorkspaceFolderContainingChild('.annotative') || getPreferredWorkspaceFolder();
+        return folder ? path.join(folder.uri.fsPath, '.annotative', SAVED_VIEWS_FILE_NAME) : '';
+    }
+
+    dispose(): void {
+        this.onDidChangeViewsEmitter.dispose();
+    }
+
+    private async persist(): Promise<void> {
+        const storage: SavedViewStorageFile = {
+            schemaVersion: SAVED_VIEWS_SCHEMA_VERSION,
+            views: this.views,
+        };
+        const contents = `${JSON.stringify(storage, null, 2)}\n`;
+
+        const write = this.writeQueue.then(async () => {
+            const filePath = this.getStorageFilePath();
+            if (!filePath) {
+                throw new Error('No workspace folder open');
+            }
+
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            const tempPath = `${filePath}.tmp`;
+            await fs.promises.writeFile(tempPath, contents, 'utf-8');
+            await fs.promises.rename(tempPath, filePath);
+            this.persistedContents = contents;
+        });
+        this.writeQueue = write.catch(() => undefined);
+        this.onDidChangeViewsEmitter.fire();
+        await write;
+    }
+}
+
+/**
+ * Read the views from a views.json payload, dropping views without a name, later views
+ * that reuse a name, and values that cannot match anything.
+ */
+export function parseSavedViews(raw: unknown): SavedView[] {
+    if (!raw || typeof raw !== 'object' || !Array.isArray((raw as Partial<SavedViewStorageFile>).views)) {
+        throw new Error('Invalid saved views storage schema');
+    }
+
+    const views: SavedView[] = [];
+    (raw as SavedViewStorageFile).views.forEach(candidate => {
+        const view = normalizeSavedView(candidate);
+        if (view && !views.some(existing => sameName(existing.name, view.name))) {
+            views.push(view);
+        }
+    });
+    return views;
+}
+
+export function normalizeSavedView(value: unknown): SavedView | undefined {
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+
+    const candidate = value as Record<keyof SavedView, unknown>;
+    const name = typeof candidate.name === 'string' ? candidate.name.trim() : '';
+    if (!name) {
+        return undefined;
+    }
+
+    const statuses = toStringList(candidate.statuses)
+        .filter((status): status is NonNullable<SavedView['statuses']>[number] => status === 'unresolved' || isAnnotationStatus(status));
+    const groupBy = GROUP_BY_VALUES.find(option => option === candidate.groupBy);
+    const query = typeof candidate.query === 'string' ? candidate.query.trim() : '';
+    const view: SavedView = { name };
+    if (statuses.length > 0) {
+        view.statuses = statuses;
+    }
+    (['tags', 'authors', 'files'] as const).forEach(key => {
+        const values = toStringList(candidate[key]);
+        if (values.length > 0) {
+            view[key] = values;
+        }
+    });
+    if (query) {
+        view.query = query;
+    }
+    if (groupBy) {
+        view.groupBy = groupBy;
+    }
+    return view;
+}
+
+function toStringList(value: unknown): string[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const values = value
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.trim())
+        .filter(Boolean);
+    return [...new Set(values)];
+}
+
+function sameName(left: string, right: string): boolean {
+    return left.trim().toLowerCase() === right.trim().toLowerCase();
+}
+
+function cloneView(view: SavedView): SavedView {
+    return JSON.parse(JSON.stringify(view)) as SavedView;
+}
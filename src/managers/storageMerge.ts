@@ -0,0 +1,356 @@
+/**
+ * Three-way merge for Annotative storage files.
+ * Kept free of VS Code imports so the standalone git merge driver can bundle it.
+ */
+
+export type StorageFileKind = 'annotations' | 'annotationShard' | 'customTags' | 'reviewArtifact' | 'unknown';
+export type StorageMergeConflictKind = 'field' | 'modifyDelete';
+export type StorageMergeSide = 'ours' | 'theirs';
+
+export interface StorageMergeConflict {
+    path: string;
+    kind: StorageMergeConflictKind;
+    resolution: StorageMergeSide;
+    resolved: boolean;
+}
+
+export interface StorageMergeResult {
+    kind: StorageFileKind;
+    merged: unknown;
+    conflicts: StorageMergeConflict[];
+    hasUnresolvedConflicts: boolean;
+}
+
+export interface StorageMergeTextResult extends StorageMergeResult {
+    text: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+type IdentifiedObject = JsonObject & { id: string };
+
+// Positions and anchors only make sense as a whole: a start from one side and an end
+// from the other would match neither
+const WHOLE_VALUE_KEYS = new Set(['range', 'anchor', 'gitAnchor', 'target']);
+
+interface MergeContext {
+    conflicts: StorageMergeConflict[];
+}
+
+/**
+ * Merge three parsed versions of the same storage file.
+ * Entities with an `id` are merged by id, string arrays such as tags are merged as sets,
+ * and field conflicts are resolved in favour of the entity changed last, going by its
+ * `updatedAt`, its latest change log entry, or its `timestamp`. Conflicts that cannot be
+ * decided keep our value and are reported.
+ */
+export function mergeStorageFiles(base: unknown, ours: unknown, theirs: unknown): StorageMergeResult {
+    const oursKind = detectStorageFileKind(ours);
+    const theirsKind = detectStorageFileKind(theirs);
+    if (oursKind !== theirsKind) {
+        throw new Error(`Cannot merge a ${oursKind} storage file with a ${theirsKind} storage file`);
+    }
+
+    const context: MergeContext = { conflicts: [] };
+    const merged = mergeValue(base, ours, theirs, '', undefined, context);
+
+    return {
+        kind: oursKind,
+        merged,
+        conflicts: context.conflicts,
+        hasUnresolvedConflicts: context.conflicts.some(conflict => !conflict.resolved),
+    };
+}
+
+/**
+ * Merge the raw file contents git hands to a merge driver. A missing or empty
+ * base is treated as an add/add merge.
+ */
+export function mergeStorageFileContents(
+    baseText: string | undefined,
+    oursText: string,
+    theirsText: string
+): StorageMergeTextResult {
+    const base = baseText && baseText.trim().length > 0 ? parseStorageText(baseText, 'base') : undefined;
+    const result = mergeStorageFiles(base, parseStorageText(oursText, 'ours'), parseStorageText(theirsText, 'theirs'));
+
+    return {
+        ...result,
+        text: `${JSON.stringify(result.merged, null, 2)}\n`,
+    };
+}
+
+export function detectStorageFileKind(raw: unknown): StorageFileKind {
+    if (!isPlainObject(raw)) {
+        return 'unknown';
+    }
+
+    if (isPlainObject(raw.workspaceAnnotations)) {
+        return 'annotations';
+    }
+
+    if (typeof raw.filePath === 'string' && Array.isArray(raw.annotations)) {
+        return 'annotationShard';
+    }
+
+    if (Array.isArray(raw.customTags)) {
+        return 'customTags';
+    }
+
+    if (isPlainObject(raw.artifact)) {
+        return 'reviewArtifact';
+    }
+
+    return 'unknown';
+}
+
+export function formatStorageMergeConflicts(conflicts: readonly StorageMergeConflict[]): string {
+    return conflicts
+        .map(conflict => {
+            const location = conflict.path || '(root)';
+            const action = conflict.kind === 'modifyDelete' ? 'edited on one side and deleted on the other' : 'edited on both sides';
+            const outcome = conflict.resolved
+                ? `kept ${conflict.resolution} (newer)`
+                : `kept ${conflict.resolution}, needs review`;
+            return `- ${location}: ${action}; ${outcome}`;
+        })
+        .join('\n');
+}
+
+function parseStorageText(text: string, label: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Unable to parse the ${label} version as JSON: ${message}`);
+    }
+}
+
+function mergeValue(
+    base: unknown,
+    ours: unknown,
+    theirs: unknown,
+    path: string,
+    newer: StorageMergeSide | undefined,
+    context: MergeContext
+): unknown {
+    if (storageValuesEqual(ours, theirs)) {
+        return ours;
+    }
+
+    if (storageValuesEqual(base, ours)) {
+        return theirs;
+    }
+
+    if (storageValuesEqual(base, theirs)) {
+        return ours;
+    }
+
+    if (ours === undefined || theirs === undefined) {
+        return resolveConflict(path, 'modifyDelete', ours, theirs, newer, context);
+    }
+
+    if (isPlainObject(ours) && isPlainObject(theirs)) {
+        const objectNewer = compareEntityTimestamps(ours, theirs) ?? newer;
+        return mergeObjects(isPlainObject(base) ? base : {}, ours, theirs, path, objectNewer, context);
+    }
+
+    if (Array.isArray(ours) && Array.isArray(theirs)) {
+        const baseArray = Array.isArray(base) ? base : [];
+        if ([...baseArray, ...ours, ...theirs].every(isIdentifiedObject)) {
+            return mergeById(
+                baseArray as IdentifiedObject[],
+                ours as IdentifiedObject[],
+                theirs as IdentifiedObject[],
+                path,
+                newer,
+                context
+            );
+        }
+
+        return mergeAsSet(baseArray, ours, theirs);
+    }
+
+    return resolveConflict(path, 'field', ours, theirs, newer, context);
+}
+
+function mergeObjects(
+    base: JsonObject,
+    ours: JsonObject,
+    theirs: JsonObject,
+    path: string,
+    newer: StorageMergeSide | undefined,
+    context: MergeContext
+): JsonObject {
+    const merged: JsonObject = {};
+    const keys = uniqueKeys(Object.keys(ours), Object.keys(theirs), Object.keys(base));
+
+    keys.forEach(key => {
+        if (key === 'schemaVersion' && typeof ours[key] === 'number' && typeof theirs[key] === 'number') {
+            merged[key] = Math.max(ours[key] as number, theirs[key] as number);
+            return;
+        }
+
+        const value = WHOLE_VALUE_KEYS.has(key)
+            ? mergeWholeValue(base[key], ours[key], theirs[key], joinPath(path, key), newer, context)
+            : mergeValue(base[key], ours[key], theirs[key], joinPath(path, key), newer, context);
+        if (value !== undefined) {
+            merged[key] = value;
+        }
+    });
+
+    return merged;
+}
+
+/**
+ * Take the value from one side without merging inside it
+ */
+function mergeWholeValue(
+    base: unknown,
+    ours: unknown,
+    theirs: unknown,
+    path: string,
+    newer: StorageMergeSide | undefined,
+    context: MergeContext
+): unknown {
+    if (storageValuesEqual(ours, theirs) || storageValuesEqual(base, theirs)) {
+        return ours;
+    }
+
+    if (storageValuesEqual(base, ours)) {
+        return theirs;
+    }
+
+    const kind: StorageMergeConflictKind = ours === undefined || theirs === undefined ? 'modifyDelete' : 'field';
+    return resolveConflict(path, kind, ours, theirs, newer, context);
+}
+
+function mergeById(
+    base: IdentifiedObject[],
+    ours: IdentifiedObject[],
+    theirs: IdentifiedObject[],
+    path: string,
+    newer: StorageMergeSide | undefined,
+    context: MergeContext
+): IdentifiedObject[] {
+    const baseById = new Map(base.map(item => [item.id, item]));
+    const oursById = new Map(ours.map(item => [item.id, item]));
+    const theirsById = new Map(theirs.map(item => [item.id, item]));
+    const ids = uniqueKeys(ours.map(item => item.id), theirs.map(item => item.id));
+    const merged: IdentifiedObject[] = [];
+
+    ids.forEach(id => {
+        const value = mergeValue(baseById.get(id), oursById.get(id), theirsById.get(id), `${path}[${id}]`, newer, context);
+        if (isIdentifiedObject(value)) {
+            merged.push(value);
+        }
+    });
+
+    return merged;
+}
+
+function mergeAsSet(base: readonly unknown[], ours: readonly unknown[], theirs: readonly unknown[]): unknown[] {
+    const baseKeys = new Set(base.map(stableStringify));
+    const oursKeys = new Set(ours.map(stableStringify));
+    const theirsKeys = new Set(theirs.map(stableStringify));
+
+    const kept = ours.filter(item => {
+        const key = stableStringify(item);
+        return !baseKeys.has(key) || theirsKeys.has(key);
+    });
+    const added = theirs.filter(item => {
+        const key = stableStringify(item);
+        return !baseKeys.has(key) && !oursKeys.has(key);
+    });
+
+    return [...kept, ...added];
+}
+
+function resolveConflict(
+    path: string,
+    kind: StorageMergeConflictKind,
+    ours: unknown,
+    theirs: unknown,
+    newer: StorageMergeSide | undefined,
+    context: MergeContext
+): unknown {
+    // Without a newer side, prefer whichever side still has data so nothing is silently dropped.
+    const resolution: StorageMergeSide = newer ?? (ours === undefined ? 'theirs' : 'ours');
+    context.conflicts.push({ path, kind, resolution, resolved: newer !== undefined });
+    return resolution === 'ours' ? ours : theirs;
+}
+
+function compareEntityTimestamps(ours: JsonObject, theirs: JsonObject): StorageMergeSide | undefined {
+    const ourTime = getEntityTime(ours);
+    const theirTime = getEntityTime(theirs);
+    if (ourTime === undefined || theirTime === undefined || ourTime === theirTime) {
+        return undefined;
+    }
+
+    return ourTime > theirTime ? 'ours' : 'theirs';
+}
+
+/**
+ * When the entity last changed. Annotations have no `updatedAt`, but every edit adds a
+ * change log entry, while `timestamp` is only when they were created.
+ */
+function getEntityTime(entity: JsonObject): number | undefined {
+    const parseTime = (rawTime: unknown) => {
+        const time = typeof rawTime === 'string' ? Date.parse(rawTime) : NaN;
+        return Number.isNaN(time) ? undefined : time;
+    };
+
+    const historyTimes = (Array.isArray(entity.history) ? entity.history : [])
+        .map(entry => isPlainObject(entry) ? parseTime(entry.timestamp) : undefined)
+        .filter((time): time is number => time !== undefined);
+    return parseTime(entity.updatedAt)
+        ?? (historyTimes.length > 0 ? Math.max(...historyTimes) : undefined)
+        ?? parseTime(entity.timestamp);
+}
+
+function joinPath(path: string, key: string): string {
+    if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+        return path ? `${path}.${key}` : key;
+    }
+
+    return `${path}[${JSON.stringify(key)}]`;
+}
+
+function uniqueKeys(...keyLists: string[][]): string[] {
+    return [...new Set(keyLists.flat())];
+}
+
+function isPlainObject(value: unknown): value is JsonObject {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isIdentifiedObject(value: unknown): value is IdentifiedObject {
+    return isPlainObject(value) && typeof value.id === 'string';
+}
+
+/**
+ * Structural equality that ignores key order and undefined fields.
+ */
+export function storageValuesEqual(left: unknown, right: unknown): boolean {
+    return stableStringify(left) === stableStringify(right);
+}
+
+function stableStringify(value: unknown): string {
+    if (value === undefined) {
+        return 'undefined';
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+
+    if (isPlainObject(value)) {
+        return `{${Object.keys(value)
+            .filter(key => value[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+            .join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitCommandRunner, runGitCommand } from '../utils/git';
+import { mergeStorageFileContents, StorageMergeTextResult } from './storageMerge';
+
+export const STORAGE_MERGE_DRIVER_NAME = 'annotative';
+export const MERGE_DRIVER_FILE_NAME = 'mergeDriver.js';
+
+export interface StorageConflictResolution {
+    filePath: string;
+    result?: StorageMergeTextResult;
+    error?: string;
+    staged: boolean;
+}
+
+export interface InstallMergeDriverResult {
+    gitattributesPath: string;
+    gitattributesUpdated: boolean;
+    driverPath: string;
+}
+
+export interface StorageMergeServiceOptions {
+    runGitCommand?: GitCommandRunner;
+}
+
+/**
+ * Resolves git conflicts in .annotative storage files and installs the
+ * standalone merge driver so future merges resolve them automatically.
+ */
+export class StorageMergeService {
+    private readonly runGitCommand: GitCommandRunner;
+
+    constructor(options: StorageMergeServiceOptions = {}) {
+        this.runGitCommand = options.runGitCommand ?? runGitCommand;
+    }
+
+    /**
+     * Merge every conflicted JSON file under the storage directory from its
+     * base, ours, and theirs index stages. Files without unresolved conflicts are staged.
+     */
+    async resolveConflicts(storageDirectory: string): Promise<StorageConflictResolution[]> {
+        const repositoryRoot = await this.getRepositoryRoot(storageDirectory);
+        const storagePrefix = `${this.toRepositoryPath(repositoryRoot, storageDirectory)}/`;
+        const conflictedFiles = (await this.runGitCommand(repositoryRoot, ['diff', '--name-only', '--diff-filter=U']))
+            .split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(filePath => filePath.startsWith(storagePrefix) && filePath.endsWith('.json'));
+
+        const resolutions: StorageConflictResolution[] = [];
+        for (const filePath of conflictedFiles) {
+            resolutions.push(await this.resolveConflictedFile(repositoryRoot, filePath));
+        }
+
+        return resolutions;
+    }
+
+    /**
+     * Register the driver in git config and .gitattributes. Git runs a copy of the bundled
+     * script in `installDirectory`, since the extension's own folder is renamed on every update.
+     */
+    async installMergeDriver(
+        storageDirectory: string,
+        bundledDriverPath: string,
+        installDirectory: string
+    ): Promise<InstallMergeDriverResult> {
+        const repositoryRoot = await this.getRepositoryRoot(storageDirectory);
+        const storagePath = this.toRepositoryPath(repositoryRoot, storageDirectory);
+        const attributeLine = `${storagePath}/**/*.json merge=${STORAGE_MERGE_DRIVER_NAME}`;
+        const gitattributesPath = path.join(repositoryRoot, '.gitattributes');
+
+        const existing = fs.existsSync(gitattributesPath)
+            ? await fs.promises.readFile(gitattributesPath, 'utf-8')
+            : '';
+        const gitattributesUpdated = !existing.split(/\r?\n/).some(line => line.trim() === attributeLine);
+        if (gitattributesUpdated) {
+            const separator = existing.length > 0 && !existing.endsWith('\n') ? '\n' : '';
+            await fs.promises.writeFile(gitattributesPath, `${existing}${separator}${attributeLine}\n`, 'utf-8');
+        }
+
+        const installedPath = await this.copyDriver(bundledDriverPath, installDirectory);
+        const driverPath = installedPath.split(path.sep).join('/');
+        await this.runGitCommand(repositoryRoot, ['config', `merge.${STORAGE_MERGE_DRIVER_NAME}.name`, 'Annotative storage merge driver']);
+        await this.runGitCommand(repositoryRoot, ['config', `merge.${STORAGE_MERGE_DRIVER_NAME}.driver`, `node "${driverPath}" %O %A %B %P`]);
+
+        return { gitattributesPath, gitattributesUpdated, driverPath: installedPath };
+    }
+
+    /**
+     * Bring an installed driver up to date with the bundled one, e.g. after an extension
+     * update. Returns false when the driver was never installed.
+     */
+    async updateInstalledDriver(bundledDriverPath: string, installDirectory: string): Promise<boolean> {
+        if (!fs.existsSync(path.join(installDirectory, MERGE_DRIVER_FILE_NAME))) {
+            return false;
+        }
+
+        await this.copyDriver(bundledDriverPath, installDirectory);
+        return true;
+    }
+
+    private async copyDriver(bundledDriverPath: string, installDirectory: string): Promise<string> {
+        const installedPath = path.join(installDirectory, MERGE_DRIVER_FILE_NAME);
+        const contents = await fs.promises.readFile(bundledDriverPath, 'utf-8');
+        const installed = fs.existsSync(installedPath) ? await fs.promises.readFile(installedPath, 'utf-8') : undefined;
+        if (installed !== contents) {
+            await fs.promises.mkdir(installDirectory, { recursive: true });
+            await fs.promises.writeFile(installedPath, contents, 'utf-8');
+        }
+        return installedPath;
+    }
+
+    private async resolveConflictedFile(repositoryRoot: string, filePath: string): Promise<StorageConflictResolution> {
+        const base = await this.readStage(repositoryRoot, 1, filePath);
+        const ours = await this.readStage(repositoryRoot, 2, filePath);
+        const theirs = await this.readStage(repositoryRoot, 3, filePath);
+
+        if (ours === undefined || theirs === undefined) {
+            return { filePath, error: 'The file was deleted on one side of the merge.', staged: false };
+        }
+
+        try {
+            const result = mergeStorageFileContents(base, ours, theirs);
+            await fs.promises.writeFile(path.join(repositoryRoot, ...filePath.split('/')), result.text, 'utf-8');
+
+            if (result.hasUnresolvedConflicts) {
+                return { filePath, result, staged: false };
+            }
+
+            await this.runGitCommand(repositoryRoot, ['add', '--', filePath]);
+            return { filePath, result, staged: true };
+        } catch (error) {
+            return { filePath, error: error instanceof Error ? error.message : String(error), staged: false };
+        }
+    }
+
+    private async readStage(repositoryRoot: string, stage: 1 | 2 | 3, filePath: string): Promise<string | undefined> {
+        try {
+            return await this.runGitCommand(repositoryRoot, ['show', `:${stage}:${filePath}`]);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async getRepositoryRoot(cwd: string): Promise<string> {
+        const repositoryRoot = (await this.runGitCommand(cwd, ['rev-parse', '--show-toplevel'])).trim();
+        if (!repositoryRoot) {
+            throw new Error('Annotative storage is not inside a git repository.');
+        }
+
+        return path.resolve(repositoryRoot);
+    }
+
+    private toRepositoryPath(repositoryRoot: string, absolutePath: string): string {
+        return path.relative(repositoryRoot, absolutePath).split(path.sep).join('/');
+    }
+}
@@ -0,0 +1,164 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AnnotationManager } from './annotationManager';
+import { RULES_FILE_NAME } from './annotationRules';
+import { ReviewArtifactManager } from './reviewArtifactManager';
+import { SavedViewFileChange } from './savedViewManager';
+import { formatStorageMergeConflicts, StorageMergeConflict } from './storageMerge';
+
+const STORAGE_GLOB = '**/.annotative/**/*.json';
+const DEFAULT_DEBOUNCE_MS = 300;
+
+export interface StorageWatcherOptions {
+    debounceMs?: number;
+    onReviewArtifactChanged?: (filePath: string) => Promise<void>;
+    onSavedViewsChanged?: () => Promise<SavedViewFileChange>;
+}
+
+/**
+ * Watches .annotative for changes made outside the extension (pulls, branch switches,
+ * manual edits) and reconciles them into memory. Events are debounced so a checkout
+ * touching many shards triggers a single reconcile.
+ */
+export class StorageWatcher implements vscode.Disposable {
+    private readonly watcher: vscode.FileSystemWatcher;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly debounceMs: number;
+    private readonly pendingArtifactPaths = new Set<string>();
+    private annotationTimer: NodeJS.Timeout | undefined;
+    private artifactTimer: NodeJS.Timeout | undefined;
+    private viewsTimer: NodeJS.Timeout | undefined;
+    private rulesTimer: NodeJS.Timeout | undefined;
+    private reconcileQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly annotationManager: AnnotationManager,
+        private readonly reviewArtifactManager: ReviewArtifactManager,
+        private readonly options: StorageWatcherOptions = {}
+    ) {
+        this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+        this.watcher = vscode.workspace.createFileSystemWatcher(STORAGE_GLOB);
+        this.disposables.push(
+            this.watcher,
+            this.watcher.onDidCreate(uri => this.handleStorageEvent(uri)),
+            this.watcher.onDidChange(uri => this.handleStorageEvent(uri)),
+            this.watcher.onDidDelete(uri => this.handleStorageEvent(uri))
+        );
+    }
+
+    private handleStorageEvent(uri: vscode.Uri): void {
+        const filePath = uri.fsPath;
+        if (path.basename(filePath).includes('.corrupt-')) {
+            return;
+        }
+
+        const segments = filePath.split(/[\\/]/);
+        const storageIndex = segments.lastIndexOf('.annotative');
+        if (segments[storageIndex + 1] === 'reviews') {
+            this.pendingArtifactPaths.add(filePath);
+            clearTimeout(this.artifactTimer);
+            this.artifactTimer = setTimeout(() => this.enqueue(() => this.reconcileReviewArtifacts()), this.debounceMs);
+            return;
+        }
+
+        if (segments.length === storageIndex + 2 && segments[storageIndex + 1] === 'views.json') {
+            clearTimeout(this.viewsTimer);
+            this.viewsTimer = setTimeout(() => this.enqueue(() => this.reconcileSavedViews()), this.debounceMs);
+            return;
+        }
+
+        if (segments.length === storageIndex + 2 && segments[storageIndex + 1] === RULES_FILE_NAME) {
+            clearTimeout(this.rulesTimer);
+            this.rulesTimer = setTimeout(() => this.enqueue(() => this.reconcileRules()), this.debounceMs);
+            return;
+        }
+
+        clearTimeout(this.annotationTimer);
+        this.annotationTimer = setTimeout(() => this.enqueue(() => this.reconcileAnnotations()), this.debounceMs);
+    }
+
+    private enqueue(operation: () => Promise<void>): void {
+        this.reconcileQueue = this.reconcileQueue.then(operation).catch(error => {
+            console.error('Failed to reconcile external storage changes:', error);
+        });
+    }
+
+    private async reconcileAnnotations(): Promise<void> {
+        await this.annotationManager.ready;
+        const summary = await this.annotationManager.reconcileExternalChanges();
+
+        if (summary.unreadable) {
+            this.warnUnreadable('Annotative storage');
+            return;
+        }
+
+        if (summary.conflicts.length > 0) {
+            void this.warnConflicts(summary.conflicts);
+        }
+    }
+
+    private async reconcileReviewArtifacts(): Promise<void> {
+        const filePaths = [...this.pendingArtifactPaths];
+        this.pendingArtifactPaths.clear();
+
+        for (const filePath of filePaths) {
+            const change = await this.reviewArtifactManager.getStorage().detectExternalChange(filePath);
+            if (change === 'unreadable') {
+                this.warnUnreadable(`Review file ${path.basename(filePath)}`);
+            } else if (change !== 'unchanged') {
+                await this.options.onReviewArtifactChanged?.(filePath);
+            }
+        }
+    }
+
+    private async reconcileSavedViews(): Promise<void> {
+        const change = await this.options.onSavedViewsChanged?.();
+        if (change === 'unreadable') {
+            this.warnUnreadable('Saved views file views.json');
+        }
+    }
+
+    private async reconcileRules(): Promise<void> {
+        await this.annotationManager.ready;
+        if (!await this.annotationManager.reloadRules()) {
+            this.warnUnreadable(`Automation rules file ${RULES_FILE_NAME}`);
+        }
+    }
+
+    private warnUnreadable(label: string): void {
+        void vscode.window.showWarningMessage(
+            `${label} changed on disk but could not be read. It may contain merge conflict markers; in-memory data was kept.`,
+            'Resolve Conflicts'
+        ).then(action => {
+            if (action === 'Resolve Conflicts') {
+                void vscode.commands.executeCommand('annotative.resolveStorageConflicts');
+            }
+        });
+    }
+
+    private async warnConflicts(conflicts: StorageMergeConflict[]): Promise<void> {
+        const action = await vscode.window.showWarningMessage(
+            `Annotative merged external storage changes, but ${conflicts.length} edit(s) changed on both sides and only one version was kept.`,
+            'Show Details'
+        );
+        if (action !== 'Show Details') {
+            return;
+        }
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: `# Annotative Storage Reconcile\n\n${formatStorageMergeConflicts(conflicts)}\n`,
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(doc);
+    }
+
+    dispose(): void {
+        clearTimeout(this.annotationTimer);
+        clearTimeout(this.artifactTimer);
+        clearTimeout(this.viewsTimer);
+        clearTimeout(this.rulesTimer);
+        while (this.disposables.length > 0) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
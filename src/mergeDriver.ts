@@ -0,0 +1,46 @@
+/**
+ * Standalone git merge driver for Annotative storage files.
+ * Installed by the `Install Storage Merge Driver` command and invoked by git as:
+ *   node mergeDriver.js %O %A %B %P
+ * The merged result is written over %A; a non-zero exit leaves the file marked as conflicted.
+ */
+
+import * as fs from 'fs';
+import { formatStorageMergeConflicts, mergeStorageFileContents } from './managers/storageMerge';
+
+function readOptionalFile(filePath: string): string | undefined {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+}
+
+export function runMergeDriver(args: readonly string[]): number {
+    const [basePath, oursPath, theirsPath, displayPath] = args;
+    if (!basePath || !oursPath || !theirsPath) {
+        process.stderr.write('Usage: mergeDriver <base> <ours> <theirs> [path]\n');
+        return 2;
+    }
+
+    const label = displayPath || oursPath;
+
+    try {
+        const result = mergeStorageFileContents(
+            readOptionalFile(basePath),
+            fs.readFileSync(oursPath, 'utf-8'),
+            fs.readFileSync(theirsPath, 'utf-8')
+        );
+        fs.writeFileSync(oursPath, result.text, 'utf-8');
+
+        if (result.conflicts.length > 0) {
+            process.stderr.write(`Annotative merged ${label} with conflicts:\n${formatStorageMergeConflicts(result.conflicts)}\n`);
+        }
+
+        return result.hasUnresolvedConflicts ? 1 : 0;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        process.stderr.write(`Annotative could not merge ${label}: ${message}\n`);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = runMergeDriver(process.argv.slice(2));
+}
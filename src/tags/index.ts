@@ -5,5 +5,11 @@
 
 export { TagManager } from './tagManager';
 export { TagRegistryStore } from './tagRegistry';
-export { TagValidator } from './tagValidation';
+export { MAX_TAG_DEPTH, TagValidator } from './tagValidation';
+export type { TagHierarchyIssue } from './tagValidation';
 export { TagSuggestionEngine } from './tagSuggestions';
+export type { TagSuggestionContext } from './tagSuggestions';
+export { rewriteTagIds, TagRewritePlanner } from './tagRewrites';
+export type { TagRewritePlan } from './tagRewrites';
+export { createTagPack, parseTagPack, readTagPack, writeTagPack } from './tagPacks';
+export type { TagPackConflictChoice, TagPackConflictResolver, TagPackImportReport } from './tagPacks';
@@ -1,7 +1,9 @@
-import { AnnotationTag, TagCategory, TagMetadata, TagSuggestion } from '../types';
+import { Annotation, AnnotationTag, TagCategory, TagMetadata, TagPackFile, TagSuggestion } from '../types';
+import { sameTagDefinition, sortParentsFirst, TagPackConflictResolver, TagPackImportReport } from './tagPacks';
 import { TagRegistryStore } from './tagRegistry';
-import { TagSuggestionEngine } from './tagSuggestions';
-import { TagValidator } from './tagValidation';
+import { TagRewritePlan, TagRewritePlanner } from './tagRewrites';
+import { TagSuggestionContext, TagSuggestionEngine } from './tagSuggestions';
+import { TagHierarchyIssue, TagValidator } from './tagValidation';
 
 /**
  * TagManager orchestrates tag operations
@@ -11,11 +13,13 @@ export class TagManager {
     private tagRegistry: TagRegistryStore;
     private suggestionEngine: TagSuggestionEngine;
     private validator: TagValidator;
+    private rewritePlanner: TagRewritePlanner;
 
     constructor() {
         this.tagRegistry = new TagRegistryStore();
         this.suggestionEngine = new TagSuggestionEngine(this.tagRegistry);
         this.validator = new TagValidator(this.tagRegistry);
+        this.rewritePlanner = new TagRewritePlanner(this.tagRegistry);
     }
 
     /**
@@ -55,14 +59,81 @@ export class TagManager {
     }
 
     /**
-     * Create a new custom tag
+     * Get a tag with its full path as name and the color and priority it inherits
+     */
+    getResolvedTag(id: string): AnnotationTag | undefined {
+        const tag = this.tagRegistry.getTag(id);
+        if (!tag) {
+            return undefined;
+        }
+
+        return {
+            ...tag,
+            name: this.tagRegistry.getTagPath(id) || tag.name,
+            metadata: this.tagRegistry.getInheritedMetadata(id),
+        };
+    }
+
+    /**
+     * Get the tag's display path, e.g. "security/xss"
+     */
+    getTagPath(id: string): string | undefined {
+        return this.tagRegistry.getTagPath(id);
+    }
+
+    /**
+     * Get ancestor tag IDs, nearest first
+     */
+    getAncestorIds(id: string): string[] {
+        return this.tagRegistry.getAncestorIds(id);
+    }
+
+    /**
+     * Get all tag IDs nested below a tag
+     */
+    getDescendantIds(id: string): string[] {
+        return this.tagRegistry.getDescendantIds(id);
+    }
+
+    /**
+     * Create a new custom tag. "/" in the name nests it below parent tags.
      */
     createCustomTag(
         name: string,
         category: TagCategory,
-        metadata?: TagMetadata
+        metadata?: TagMetadata,
+        parentId?: string
     ): AnnotationTag {
-        return this.validator.createCustomTag(name, category, metadata);
+        return this.validator.createCustomTag(name, category, metadata, parentId);
+    }
+
+    /**
+     * Move a tag below another tag, or to the top level when parentId is undefined
+     */
+    moveCustomTag(id: string, parentId: string | undefined): AnnotationTag | undefined {
+        const tag = this.tagRegistry.getTag(id);
+        if (!tag) {
+            return undefined;
+        }
+
+        const validation = this.validator.validateParent(id, parentId);
+        if (!validation.valid) {
+            throw new Error(validation.error);
+        }
+
+        if (parentId) {
+            tag.parent = parentId;
+        } else {
+            delete tag.parent;
+        }
+        return tag;
+    }
+
+    /**
+     * Validate a tag name
+     */
+    validateTagName(name: string): { valid: boolean; error?: string } {
+        return this.validator.validateTagName(name);
     }
 
     /**
@@ -97,10 +168,42 @@ export class TagManager {
     }
 
     /**
-     * Get tag suggestions based on comment text
+     * Plan renaming a tag, including its ID and the IDs of nested tags derived from it
+     */
+    planTagRename(id: string, newName: string): TagRewritePlan {
+        return this.rewritePlanner.planRename(id, newName);
+    }
+
+    /**
+     * Plan merging the source tag into the target tag
      */
-    suggestTagsFromComment(comment: string): TagSuggestion[] {
-        return this.suggestionEngine.suggestTagsFromComment(comment);
+    planTagMerge(sourceId: string, targetId: string): TagRewritePlan {
+        return this.rewritePlanner.planMerge(sourceId, targetId);
+    }
+
+    /**
+     * Plan deleting a tag, reassigning its annotations to the replacement tag when given
+     */
+    planTagDelete(id: string, replacementId?: string): TagRewritePlan {
+        return this.rewritePlanner.planDelete(id, replacementId);
+    }
+
+    /**
+     * Replace the custom tags with a plan's result. Annotation tags are rewritten by the caller.
+     */
+    applyTagRewrite(plan: TagRewritePlan): TagHierarchyIssue[] {
+        return this.replaceCustomTags(plan.tags);
+    }
+
+    /**
+     * Get tag suggestions based on comment text, learned from the tags on earlier annotations
+     */
+    suggestTagsFromComment(
+        comment: string,
+        history: readonly Annotation[] = [],
+        context: TagSuggestionContext = {}
+    ): TagSuggestion[] {
+        return this.suggestionEngine.suggestTags(comment, history, context);
     }
 
     /**
@@ -118,10 +221,90 @@ export class TagManager {
     }
 
     /**
-     * Import custom tags from storage
+     * Import custom tags from storage. Tags with a missing parent, a cycle, or too deep
+     * a nesting move to the top level; the fixed issues are returned.
      */
-    importCustomTags(tags: AnnotationTag[]): void {
+    importCustomTags(tags: AnnotationTag[]): TagHierarchyIssue[] {
         this.tagRegistry.importCustomTags(tags);
+        return this.validator.repairHierarchy();
+    }
+
+    /**
+     * Replace all custom tags, e.g. after storage was changed outside the extension
+     */
+    replaceCustomTags(tags: AnnotationTag[]): TagHierarchyIssue[] {
+        this.tagRegistry.clearAllTags();
+        return this.importCustomTags(tags);
+    }
+
+    /**
+     * Merge a tag pack by id. New tags are added and identical ones left alone; for
+     * conflicting ones `resolveConflict` keeps, replaces, or imports a renamed copy.
+     * Definitions that fail validation are skipped, and tags whose parent can't be used
+     * are imported at the top level.
+     */
+    async importTagPack(pack: TagPackFile, resolveConflict: TagPackConflictResolver): Promise<TagPackImportReport> {
+        const report: TagPackImportReport = { added: [], updated: [], unchanged: [], renamed: [], skipped: [], movedToTopLevel: [] };
+        const validTags: AnnotationTag[] = [];
+
+        pack.customTags.forEach((raw: unknown) => {
+            const validation = this.validator.validateImportedTag(raw);
+            if (validation.tag) {
+                validTags.push(validation.tag);
+            } else {
+                const id = (raw as Partial<AnnotationTag> | undefined)?.id;
+                report.skipped.push({ id: typeof id === 'string' ? id : '(no id)', reason: validation.error || 'Invalid tag' });
+            }
+        });
+
+        // Pack ids mapped to the ids they were imported under, for children of renamed tags
+        const importedIds = new Map<string, string>();
+        for (const packTag of sortParentsFirst(validTags)) {
+            if (importedIds.has(packTag.id)) {
+                report.skipped.push({ id: packTag.id, reason: 'Duplicate id in the pack' });
+                continue;
+            }
+
+            const incoming: AnnotationTag = packTag.parent
+                ? { ...packTag, parent: importedIds.get(packTag.parent) ?? packTag.parent }
+                : packTag;
+            const existing = this.tagRegistry.getTag(incoming.id);
+            let importedId: string | undefined = incoming.id;
+
+            if (!existing) {
+                this.tagRegistry.addCustomTag(incoming);
+                report.added.push(incoming.id);
+            } else if (sameTagDefinition(existing, incoming)) {
+                report.unchanged.push(incoming.id);
+                importedId = undefined;
+            } else {
+                const choice = await resolveConflict(existing, incoming);
+                if (choice === 'replace') {
+                    this.tagRegistry.addCustomTag(incoming);
+                    report.updated.push(incoming.id);
+                } else if (choice === 'rename') {
+                    const copy = this.createRenamedCopy(incoming);
+                    this.tagRegistry.addCustomTag(copy);
+                    report.renamed.push({ from: incoming.id, to: copy.id });
+                    importedId = copy.id;
+                } else {
+                    report.skipped.push({ id: incoming.id, reason: 'Kept the existing tag' });
+                    importedId = undefined;
+                }
+            }
+
+            importedIds.set(packTag.id, importedId ?? packTag.id);
+            const imported = importedId ? this.tagRegistry.getTag(importedId) : undefined;
+            if (imported?.parent) {
+                const validation = this.validator.validateParent(imported.id, imported.parent);
+                if (!validation.valid) {
+                    delete imported.parent;
+                    report.movedToTopLevel.push({ id: imported.id, reason: validation.error || 'Invalid parent' });
+                }
+            }
+        }
+
+        return report;
     }
 
     /**
@@ -147,11 +330,10 @@ export class TagManager {
     }
 
     /**
-     * Get priority for a tag
+     * Get priority for a tag, inherited from its parents when it has none
      */
     getTagPriority(tagId: string): string {
-        const tag = this.tagRegistry.getTag(tagId);
-        return tag?.metadata?.priority || 'medium';
+        return this.tagRegistry.getInheritedMetadata(tagId)?.priority || 'medium';
     }
 
     /**
@@ -160,4 +342,15 @@ export class TagManager {
     hasTags(): boolean {
         return this.tagRegistry.hasTags();
     }
+
+    /**
+     * A copy of the tag under the first free id, e.g. "bug-2" named "bug 2"
+     */
+    private createRenamedCopy(tag: AnnotationTag): AnnotationTag {
+        let suffix = 2;
+        while (this.tagRegistry.getTag(`${tag.id}-${suffix}`)) {
+            suffix++;
+        }
+        return { ...tag, id: `${tag.id}-${suffix}`, name: `${tag.name} ${suffix}` };
+    }
 }
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnnotationTag, TagPackFile } from '../types';
+
+const TAG_PACK_SCHEMA_VERSION = 1;
+
+export type TagPackConflictChoice = 'keep' | 'replace' | 'rename';
+
+/**
+ * Decides what to do when a pack defines a tag id that already exists with a different
+ * definition. Undefined keeps the existing tag.
+ */
+export type TagPackConflictResolver = (
+    existing: AnnotationTag,
+    incoming: AnnotationTag
+) => Promise<TagPackConflictChoice | undefined>;
+
+export interface TagPackImportReport {
+    added: string[];
+    updated: string[];
+    unchanged: string[];
+    renamed: Array<{ from: string; to: string }>;
+    skipped: Array<{ id: string; reason: string }>;
+    movedToTopLevel: Array<{ id: string; reason: string }>;
+}
+
+/**
+ * Create a pack from tag definitions. Parents of the given tags are included so that
+ * nested tags keep their place when imported.
+ */
+export function createTagPack(
+    tags: readonly AnnotationTag[],
+    allTags: readonly AnnotationTag[],
+    name: string,
+    version: string,
+    description?: string
+): TagPackFile {
+    const tagsById = new Map(allTags.map(tag => [tag.id, tag]));
+    const included = new Map<string, AnnotationTag>();
+    tags.forEach(tag => {
+        let current: AnnotationTag | undefined = tag;
+        while (current && !included.has(current.id)) {
+            included.set(current.id, current);
+            current = current.parent ? tagsById.get(current.parent) : undefined;
+        }
+    });
+
+    const pack: TagPackFile = {
+        schemaVersion: TAG_PACK_SCHEMA_VERSION,
+        name,
+        version,
+        customTags: sortParentsFirst(Array.from(included.values())).map(tag => JSON.parse(JSON.stringify(tag)) as AnnotationTag),
+    };
+    if (description) {
+        pack.description = description;
+    }
+    return pack;
+}
+
+/**
+ * Read a pack payload. A plain customTags.json is accepted too, named after the file.
+ * Tag definitions are checked on import, not here.
+ */
+export function parseTagPack(raw: unknown, fallbackName: string): TagPackFile {
+    if (!raw || typeof raw !== 'object' || !Array.isArray((raw as Partial<TagPackFile>).customTags)) {
+        throw new Error('Invalid tag pack: expected a customTags list');
+    }
+
+    const candidate = raw as Partial<TagPackFile>;
+    const pack: TagPackFile = {
+        schemaVersion: typeof candidate.schemaVersion === 'number' ? candidate.schemaVersion : TAG_PACK_SCHEMA_VERSION,
+        name: typeof candidate.name === 'string' && candidate.name.trim() ? candidate.name.trim() : fallbackName,
+        version: typeof candidate.version === 'string' && candidate.version.trim() ? candidate.version.trim() : '0.0.0',
+        customTags: candidate.customTags as AnnotationTag[],
+    };
+    if (typeof candidate.description === 'string' && candidate.description.trim()) {
+        pack.description = candidate.description.trim();
+    }
+    return pack;
+}
+
+export async function readTagPack(filePath: string): Promise<TagPackFile> {
+    const contents = await fs.promises.readFile(filePath, 'utf-8');
+    let raw: unknown;
+    try {
+        raw = JSON.parse(contents);
+    } catch {
+        throw new Error(`${path.basename(filePath)} is not valid JSON`);
+    }
+    return parseTagPack(raw, path.basename(filePath, '.json'));
+}
+
+export async function writeTagPack(filePath: string, pack: TagPackFile): Promise<void> {
+    await fs.promises.writeFile(filePath, `${JSON.stringify(pack, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Whether two definitions describe the same tag, ignoring the order of metadata keys
+ */
+export function sameTagDefinition(left: AnnotationTag, right: AnnotationTag): boolean {
+    const leftMetadata = left.metadata || {};
+    const rightMetadata = right.metadata || {};
+    const metadataKeys = new Set([...Object.keys(leftMetadata), ...Object.keys(rightMetadata)]) as Set<keyof typeof leftMetadata>;
+
+    return left.id === right.id
+        && left.name === right.name
+        && left.category === right.category
+        && (left.parent || '') === (right.parent || '')
+        && Array.from(metadataKeys).every(key => leftMetadata[key] === rightMetadata[key]);
+}
+
+/**
+ * Order tags so that each parent comes before its children, keeping the original order
+ * otherwise. Parents outside the list, and cycles, don't hold tags back.
+ */
+export function sortParentsFirst<T extends { id: string; parent?: string }>(tags: readonly T[]): T[] {
+    const byId = new Map(tags.map(tag => [tag.id, tag]));
+    const depth = (tag: T): number => {
+        const seen = new Set([tag.id]);
+        let levels = 0;
+        let parent = tag.parent ? byId.get(tag.parent) : undefined;
+        while (parent && !seen.has(parent.id)) {
+            seen.add(parent.id);
+            levels++;
+            parent = parent.parent ? byId.get(parent.parent) : undefined;
+        }
+        return levels;
+    };
+
+    return tags
+        .map((tag, index) => ({ tag, index, depth: depth(tag) }))
+        .sort((left, right) => left.depth - right.depth || left.index - right.index)
+        .map(entry => entry.tag);
+}
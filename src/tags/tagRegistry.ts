@@ -1,4 +1,4 @@
-import { AnnotationTag, TagRegistry as ITagRegistry } from '../types';
+import { AnnotationTag, TagMetadata, TagRegistry as ITagRegistry } from '../types';
 
 /**
  * Manages user-defined tag storage
@@ -72,12 +72,99 @@ export class TagRegistryStore {
     }
 
     /**
-     * Delete a custom tag from registry
+     * Delete a custom tag from registry. Its child tags move up to its parent.
      */
     deleteCustomTag(id: string): boolean {
+        const tag = this.registry.customTags.get(id);
+        if (!tag) {
+            return false;
+        }
+
+        this.getChildTags(id).forEach(child => {
+            if (tag.parent) {
+                child.parent = tag.parent;
+            } else {
+                delete child.parent;
+            }
+        });
         return this.registry.customTags.delete(id);
     }
 
+    /**
+     * Get the parent tag ID, ignoring parents that don't exist
+     */
+    getParentId(id: string): string | undefined {
+        const parent = this.registry.customTags.get(id)?.parent;
+        return parent && parent !== id && this.registry.customTags.has(parent) ? parent : undefined;
+    }
+
+    /**
+     * Get ancestor tag IDs, nearest first. Stops at a cycle instead of looping.
+     */
+    getAncestorIds(id: string): string[] {
+        const ancestors: string[] = [];
+        let parent = this.getParentId(id);
+        while (parent && parent !== id && !ancestors.includes(parent)) {
+            ancestors.push(parent);
+            parent = this.getParentId(parent);
+        }
+        return ancestors;
+    }
+
+    /**
+     * Get the direct children of a tag
+     */
+    getChildTags(id: string): AnnotationTag[] {
+        return this.getCustomTags().filter(tag => tag.parent === id && tag.id !== id);
+    }
+
+    /**
+     * Get all tag IDs nested below a tag
+     */
+    getDescendantIds(id: string): string[] {
+        return this.getCustomTags()
+            .filter(tag => tag.id !== id && this.getAncestorIds(tag.id).includes(id))
+            .map(tag => tag.id);
+    }
+
+    /**
+     * Get the tag's display path, e.g. "security/xss"
+     */
+    getTagPath(id: string): string | undefined {
+        const tag = this.getTag(id);
+        if (!tag) {
+            return undefined;
+        }
+
+        return [...this.getAncestorIds(id)].reverse()
+            .map(ancestorId => this.getTag(ancestorId)!.name)
+            .concat(tag.name)
+            .join('/');
+    }
+
+    /**
+     * Get a tag's metadata with the color and priority it inherits from its ancestors
+     */
+    getInheritedMetadata(id: string): TagMetadata | undefined {
+        const tag = this.getTag(id);
+        if (!tag) {
+            return undefined;
+        }
+
+        // Nearest tag in the chain that sets each value wins
+        const chain = [tag, ...this.getAncestorIds(id).map(ancestorId => this.getTag(ancestorId)!)];
+        const color = chain.find(candidate => candidate.metadata?.color)?.metadata?.color;
+        const priority = chain.find(candidate => candidate.metadata?.priority)?.metadata?.priority;
+        const metadata: TagMetadata = { ...tag.metadata };
+        if (color) {
+            metadata.color = color;
+        }
+        if (priority) {
+            metadata.priority = priority;
+        }
+        return Object.keys(metadata).length > 0 ? metadata : undefined;
+    }
+
     /**
      * Get a suggested color for a new tag (cycles through palette)
      */
@@ -101,9 +188,9 @@ export class TagRegistryStore {
      * Get default color for a tag
      */
     getDefaultColor(tagId: string): string {
-        const tag = this.getTag(tagId);
-        if (tag?.metadata?.color) {
-            return tag.metadata.color;
+        const color = this.getInheritedMetadata(tagId)?.color;
+        if (color) {
+            return color;
         }
         return '#9E9E9E'; // Default gray
     }
@@ -0,0 +1,164 @@
+import { AnnotationTag } from '../types';
+import { TagRegistryStore } from './tagRegistry';
+import { TagValidator } from './tagValidation';
+
+/**
+ * A rename, merge, or delete worked out against the current tags. Nothing changes until
+ * the plan is applied, so the affected annotations can be previewed first.
+ */
+export interface TagRewritePlan {
+    operation: 'rename' | 'merge' | 'delete';
+    label: string;
+    replacements: Map<string, string | undefined>;  // Old tag ID to new ID, undefined removes the tag
+    tags: AnnotationTag[];                          // Custom tags once the plan is applied
+}
+
+/**
+ * Plans tag renames, merges, and deletions on a copy of the registry
+ */
+export class TagRewritePlanner {
+    private tagRegistry: TagRegistryStore;
+
+    constructor(tagRegistry: TagRegistryStore) {
+        this.tagRegistry = tagRegistry;
+    }
+
+    /**
+     * Rename a tag. Its ID follows the new name, and so do the IDs of nested tags that
+     * start with it, e.g. renaming "security" to "AppSec" turns "security/xss" into "appsec/xss".
+     */
+    planRename(id: string, newName: string): TagRewritePlan {
+        const tag = this.requireTag(id);
+        const name = newName.trim();
+        if (name.includes('/')) {
+            throw new Error('Tag name cannot contain /, move the tag to change its parent');
+        }
+
+        const copy = this.createCopy();
+        const validation = copy.validator.validateTagName(name);
+        if (!validation.valid) {
+            throw new Error(validation.error);
+        }
+
+        const newId = copy.validator.generateId(name, tag.parent);
+        const replacements = new Map<string, string | undefined>();
+        if (newId !== id) {
+            replacements.set(id, newId);
+            this.tagRegistry.getDescendantIds(id)
+                .filter(descendantId => descendantId.startsWith(`${id}/`))
+                .forEach(descendantId => replacements.set(descendantId, `${newId}${descendantId.slice(id.length)}`));
+        }
+
+        replacements.forEach(replacement => {
+            if (replacement && this.tagRegistry.getTag(replacement) && !replacements.has(replacement)) {
+                throw new Error(`Tag with id '${replacement}' already exists, merge the tags instead`);
+            }
+        });
+
+        copy.registry.updateCustomTag(id, { name });
+        return {
+            operation: 'rename',
+            label: `Rename tag "${this.getLabel(id)}" to "${name}"`,
+            replacements,
+            tags: copy.registry.exportCustomTags().map(candidate => ({
+                ...candidate,
+                id: replacements.get(candidate.id) ?? candidate.id,
+                ...(candidate.parent ? { parent: replacements.get(candidate.parent) ?? candidate.parent } : {}),
+            })),
+        };
+    }
+
+    /**
+     * Merge one tag into another: annotations get the target tag instead, and tags
+     * nested below the source move below the target.
+     */
+    planMerge(sourceId: string, targetId: string): TagRewritePlan {
+        this.requireTag(sourceId);
+        this.requireTag(targetId);
+        if (sourceId === targetId) {
+            throw new Error('Choose two different tags to merge');
+        }
+        if (this.tagRegistry.getDescendantIds(sourceId).includes(targetId)) {
+            throw new Error('A tag cannot be merged into one of its nested tags');
+        }
+
+        const copy = this.createCopy();
+        copy.registry.getChildTags(sourceId).forEach(child => {
+            const validation = copy.validator.validateParent(child.id, targetId);
+            if (!validation.valid) {
+                throw new Error(`Cannot move "${this.getLabel(child.id)}" below "${this.getLabel(targetId)}": ${validation.error}`);
+            }
+            child.parent = targetId;
+        });
+        copy.registry.deleteCustomTag(sourceId);
+
+        return {
+            operation: 'merge',
+            label: `Merge tag "${this.getLabel(sourceId)}" into "${this.getLabel(targetId)}"`,
+            replacements: new Map([[sourceId, targetId]]),
+            tags: copy.registry.exportCustomTags(),
+        };
+    }
+
+    /**
+     * Delete a tag, giving its annotations the replacement tag or no tag. Nested tags
+     * move up to the deleted tag's parent.
+     */
+    planDelete(id: string, replacementId?: string): TagRewritePlan {
+        this.requireTag(id);
+        if (replacementId !== undefined) {
+            this.requireTag(replacementId);
+            if (replacementId === id) {
+                throw new Error('A tag cannot be replaced by itself');
+            }
+        }
+
+        const copy = this.createCopy();
+        copy.registry.deleteCustomTag(id);
+
+        return {
+            operation: 'delete',
+            label: replacementId
+                ? `Delete tag "${this.getLabel(id)}" and use "${this.getLabel(replacementId)}" instead`
+                : `Delete tag "${this.getLabel(id)}"`,
+            replacements: new Map([[id, replacementId]]),
+            tags: copy.registry.exportCustomTags(),
+        };
+    }
+
+    private requireTag(id: string): AnnotationTag {
+        const tag = this.tagRegistry.getTag(id);
+        if (!tag) {
+            throw new Error(`Tag '${id}' does not exist`);
+        }
+        return tag;
+    }
+
+    private getLabel(id: string): string {
+        return this.tagRegistry.getTagPath(id) || id;
+    }
+
+    /**
+     * A registry with copies of the custom tags, and a validator for it
+     */
+    private createCopy(): { registry: TagRegistryStore; validator: TagValidator } {
+        const registry = new TagRegistryStore();
+        registry.importCustomTags(this.tagRegistry.exportCustomTags().map(tag => JSON.parse(JSON.stringify(tag)) as AnnotationTag));
+        return { registry, validator: new TagValidator(registry) };
+    }
+}
+
+/**
+ * Apply a plan's replacements to an annotation's tag IDs, dropping removed tags and
+ * duplicates, e.g. when both merged tags were on the annotation
+ */
+export function rewriteTagIds(tagIds: readonly string[], replacements: ReadonlyMap<string, string | undefined>): string[] {
+    const rewritten = tagIds.flatMap(tagId => {
+        if (!replacements.has(tagId)) {
+            return [tagId];
+        }
+        const replacement = replacements.get(tagId);
+        return replacement ? [replacement] : [];
+    });
+    return [...new Set(rewritten)];
+}
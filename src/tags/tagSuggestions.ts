@@ -1,9 +1,79 @@
-import { AnnotationTag, TagSuggestion } from '../types';
+import * as path from 'path';
+import { Annotation, TagSuggestion } from '../types';
 import { TagRegistryStore } from './tagRegistry';
 
+/**
+ * What is known about the annotation being tagged besides its comment
+ */
+export interface TagSuggestionContext {
+    filePath?: string;
+    tags?: readonly string[];   // Tags already on the annotation, never suggested again
+}
+
+const MIN_CONFIDENCE = 0.3;
+const MAX_SUGGESTIONS = 5;
+const KEYWORD_CONFIDENCE = 0.9;
+
+// How much each kind of evidence counts towards the confidence
+const TERM_WEIGHT = 1;
+const FOLDER_WEIGHT = 0.6;
+const LANGUAGE_WEIGHT = 0.35;
+const CO_OCCURRENCE_WEIGHT = 0.5;
+
+// Pseudo-count of annotations at the tag's usual rate, so that one or two matching
+// annotations don't look certain
+const SMOOTHING = 2;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'this', 'that', 'with', 'from', 'are', 'was', 'were', 'not', 'but',
+    'have', 'has', 'can', 'should', 'would', 'could', 'will', 'into', 'when', 'then', 'than',
+    'there', 'here', 'its', 'it\'s', 'also', 'use', 'used', 'using', 'just', 'more', 'some',
+]);
+
+/**
+ * Counts of annotations per key (a term, folder, language, or tag) and per key and tag
+ */
+class TagCountTable {
+    private readonly totals = new Map<string, number>();
+    private readonly tagCounts = new Map<string, Map<string, number>>();
+
+    add(key: string, tags: readonly string[]): void {
+        this.totals.set(key, (this.totals.get(key) || 0) + 1);
+        const counts = this.tagCounts.get(key) || new Map<string, number>();
+        tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+        this.tagCounts.set(key, counts);
+    }
+
+    /**
+     * Share of the key's annotations that have each tag, smoothed towards the tag's base rate
+     */
+    probabilities(key: string, baseRates: ReadonlyMap<string, number>): Map<string, number> {
+        const total = this.totals.get(key) || 0;
+        const result = new Map<string, number>();
+        this.tagCounts.get(key)?.forEach((count, tag) => {
+            result.set(tag, (count + SMOOTHING * (baseRates.get(tag) || 0)) / (total + SMOOTHING));
+        });
+        return result;
+    }
+}
+
+interface TagHistoryModel {
+    baseRates: Map<string, number>;     // Share of all annotations that have each tag
+    terms: TagCountTable;
+    folders: TagCountTable;
+    languages: TagCountTable;
+    coOccurrence: TagCountTable;
+}
+
+interface TagEvidence {
+    reason: TagSuggestion['reason'];
+    strength: number;
+}
+
 /**
  * Tag suggestion engine
- * Analyzes comments and suggests relevant tags
+ * Learns from the workspace's tagged annotations: which tags go with which comment
+ * terms, folders, and file types, and which tags are used together.
  */
 export class TagSuggestionEngine {
     private tagRegistry: TagRegistryStore;
@@ -13,79 +83,155 @@ export class TagSuggestionEngine {
     }
 
     /**
-     * Get tag suggestions based on comment text
+     * Suggest tags for a comment, most confident first. Without history only tags named
+     * in the comment are suggested.
      */
-    suggestTagsFromComment(comment: string): TagSuggestion[] {
-        const suggestions: TagSuggestion[] = [];
-        const commentLower = comment.toLowerCase();
-
-        const keywordMap: { [key: string]: string } = {
-            bug: 'bug',
-            error: 'bug',
-            issue: 'bug',
-            broken: 'bug',
-            crash: 'bug',
-
-            security: 'security',
-            vulnerability: 'security',
-            exploit: 'security',
-            xss: 'security',
-            injection: 'security',
-
-            performance: 'performance',
-            slow: 'performance',
-            optimize: 'optimization',
-            efficient: 'optimization',
-
-            accessibility: 'accessibility',
-            a11y: 'accessibility',
-            wcag: 'accessibility',
-
-            todo: 'todo',
-            fixme: 'todo',
-            hack: 'todo',
-
-            refactor: 'refactor',
-            cleanup: 'refactor',
-            simplify: 'refactor',
-
-            test: 'test',
-            unit: 'test',
-            integration: 'test',
-
-            documentation: 'doc',
-            docs: 'doc',
-            comment: 'doc',
-
-            deprecated: 'deprecated',
-            obsolete: 'deprecated',
-
-            'breaking change': 'breaking-change',
-            'breaking-change': 'breaking-change',
+    suggestTags(
+        comment: string,
+        history: readonly Annotation[] = [],
+        context: TagSuggestionContext = {}
+    ): TagSuggestion[] {
+        const model = this.buildModel(history);
+        const evidence = new Map<string, TagEvidence[]>();
+        const addEvidence = (tagId: string, reason: TagSuggestion['reason'], strength: number) => {
+            if (strength > 0) {
+                evidence.set(tagId, [...(evidence.get(tagId) || []), { reason, strength }]);
+            }
         };
 
-        Object.entries(keywordMap).forEach(([keyword, tagId]) => {
-            if (commentLower.includes(keyword)) {
-                const tag = this.tagRegistry.getTag(tagId);
-                if (tag) {
-                    suggestions.push({
-                        tag,
-                        confidence: 0.8,
-                        reason: 'keyword',
-                    });
-                }
+        const terms = tokenize(comment);
+        this.findNamedTags(comment).forEach(tagId => addEvidence(tagId, 'keyword', KEYWORD_CONFIDENCE));
+        const addAssociations = (table: TagCountTable, key: string, reason: TagSuggestion['reason'], weight: number) => {
+            table.probabilities(key, model.baseRates).forEach((probability, tagId) => {
+                addEvidence(tagId, reason, getLift(probability, model.baseRates.get(tagId) || 0) * weight);
+            });
+        };
+        terms.forEach(term => addAssociations(model.terms, term, 'history', TERM_WEIGHT));
+        if (context.filePath) {
+            addAssociations(model.folders, getFolderKey(context.filePath), 'context', FOLDER_WEIGHT);
+            const language = getLanguageKey(context.filePath);
+            if (language) {
+                addAssociations(model.languages, language, 'context', LANGUAGE_WEIGHT);
+            }
+        }
+
+        // Tags already applied, or already likely, bring along the tags usually used with them
+        const seeds = new Map<string, number>((context.tags || []).map(tagId => [tagId, 1]));
+        evidence.forEach((items, tagId) => {
+            const confidence = combine(items);
+            if (confidence >= MIN_CONFIDENCE && !seeds.has(tagId)) {
+                seeds.set(tagId, confidence);
             }
         });
+        seeds.forEach((seedConfidence, seedId) => {
+            model.coOccurrence.probabilities(seedId, model.baseRates).forEach((probability, tagId) => {
+                if (tagId !== seedId) {
+                    addEvidence(tagId, 'pattern', probability * seedConfidence * CO_OCCURRENCE_WEIGHT);
+                }
+            });
+        });
 
-        // Remove duplicates (keep highest confidence)
-        const uniqueSuggestions = new Map<string, TagSuggestion>();
-        suggestions.forEach(suggestion => {
-            const key = suggestion.tag.id;
-            if (!uniqueSuggestions.has(key) || suggestion.confidence > uniqueSuggestions.get(key)!.confidence) {
-                uniqueSuggestions.set(key, suggestion);
+        const applied = new Set(context.tags || []);
+        return Array.from(evidence.entries())
+            .filter(([tagId]) => !applied.has(tagId))
+            .map(([tagId, items]) => ({ tagId, items, confidence: combine(items) }))
+            .filter(entry => entry.confidence >= MIN_CONFIDENCE)
+            .flatMap(entry => {
+                const tag = this.tagRegistry.getTag(entry.tagId);
+                if (!tag) {
+                    return [];
+                }
+                const strongest = entry.items.reduce((best, item) => item.strength > best.strength ? item : best);
+                return [{ tag, confidence: Math.round(entry.confidence * 100) / 100, reason: strongest.reason }];
+            })
+            .sort((left, right) => right.confidence - left.confidence || left.tag.id.localeCompare(right.tag.id))
+            .slice(0, MAX_SUGGESTIONS);
+    }
+
+    /**
+     * Get tag suggestions based on comment text alone
+     */
+    suggestTagsFromComment(comment: string): TagSuggestion[] {
+        return this.suggestTags(comment);
+    }
+
+    private buildModel(history: readonly Annotation[]): TagHistoryModel {
+        const model: TagHistoryModel = {
+            baseRates: new Map(),
+            terms: new TagCountTable(),
+            folders: new TagCountTable(),
+            languages: new TagCountTable(),
+            coOccurrence: new TagCountTable(),
+        };
+
+        history.forEach(annotation => {
+            const tags = [...new Set(annotation.tags || [])];
+            tokenize(annotation.comment).forEach(term => model.terms.add(term, tags));
+            model.folders.add(getFolderKey(annotation.filePath), tags);
+            const language = getLanguageKey(annotation.filePath);
+            if (language) {
+                model.languages.add(language, tags);
             }
+            tags.forEach(tagId => {
+                model.coOccurrence.add(tagId, tags);
+                model.baseRates.set(tagId, (model.baseRates.get(tagId) || 0) + 1);
+            });
         });
+        model.baseRates.forEach((count, tagId) => model.baseRates.set(tagId, count / history.length));
 
-        return Array.from(uniqueSuggestions.values());
+        return model;
     }
+
+    /**
+     * Tags whose name or id appears in the comment, e.g. "needs review" or "needs-review"
+     */
+    private findNamedTags(comment: string): string[] {
+        const normalizedComment = ` ${normalizeWords(comment)} `;
+
+        return this.tagRegistry.getAllTags()
+            .filter(tag => {
+                const names = [tag.name, tag.id.split('/').pop() || tag.id]
+                    .map(normalizeWords)
+                    .filter(Boolean);
+                return names.some(name => normalizedComment.includes(` ${name} `));
+            })
+            .map(tag => tag.id);
+    }
+}
+
+/**
+ * Noisy-or of the evidence: each piece independently makes the tag more likely
+ */
+function combine(items: readonly TagEvidence[]): number {
+    return 1 - items.reduce((remaining, item) => remaining * (1 - Math.min(item.strength, 0.99)), 1);
+}
+
+/**
+ * How much more often than usual a tag appears with a term, folder, or file type, from
+ * 0 (no more than usual) to 1 (always). Words common to every tag add nothing.
+ */
+function getLift(probability: number, baseRate: number): number {
+    return baseRate >= 1 ? 0 : Math.max(0, (probability - baseRate) / (1 - baseRate));
+}
+
+/**
+ * Distinct lowercase words of a comment, without short words and stop words
+ */
+function tokenize(text: string): string[] {
+    const words = text.toLowerCase().split(/[^a-z0-9']+/)
+        .map(word => word.replace(/^'+|'+$/g, ''))
+        .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+    return [...new Set(words)];
+}
+
+function normalizeWords(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function getFolderKey(filePath: string): string {
+    return path.dirname(filePath.replace(/\\/g, '/')).toLowerCase();
+}
+
+function getLanguageKey(filePath: string): string {
+    return path.extname(filePath).toLowerCase();
 }
@@ -1,6 +1,20 @@
-import { AnnotationTag, TagCategory, TagMetadata } from '../types';
+import { AnnotationTag, TagCategory, TagMetadata, TagPriority } from '../types';
 import { TagRegistryStore } from './tagRegistry';
 
+/**
+ * Deepest allowed nesting, e.g. "security/web/xss"
+ */
+export const MAX_TAG_DEPTH = 3;
+
+const TAG_CATEGORIES: readonly TagCategory[] = ['issue', 'action', 'reference', 'meta', 'custom'];
+const TAG_PRIORITIES: readonly TagPriority[] = ['low', 'medium', 'high', 'critical'];
+const TAG_ID_PATTERN = /^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/;
+
+export interface TagHierarchyIssue {
+    tagId: string;
+    error: string;
+}
+
 /**
  * Tag validation and creation utilities
  * Handles tag creation, validation, and normalization
@@ -13,50 +27,215 @@ export class TagValidator {
     }
 
     /**
-     * Create a new custom tag with validation
+     * Create a new custom tag with validation. Names such as "security/xss" nest the tag
+     * below "security", creating any missing parent tags with the same category.
      */
     createCustomTag(
         name: string,
         category: TagCategory,
-        metadata?: TagMetadata
+        metadata?: TagMetadata,
+        parentId?: string
     ): AnnotationTag {
-        const id = this.generateId(name);
+        const validation = this.validateTagName(name);
+        if (!validation.valid) {
+            throw new Error(validation.error);
+        }
+        if (parentId && !this.tagRegistry.getTag(parentId)) {
+            throw new Error(`Parent tag '${parentId}' does not exist`);
+        }
+
+        const segments = name.split('/').map(segment => segment.trim());
+        const ids = segments.reduce<string[]>(
+            (previous, segment) => [...previous, this.generateId(segment, previous[previous.length - 1] ?? parentId)],
+            []
+        );
+        const id = ids[ids.length - 1];
 
         if (this.tagRegistry.getTag(id)) {
             throw new Error(`Tag with id '${id}' already exists`);
         }
 
-        const tag: AnnotationTag = {
+        const parentDepth = parentId ? this.getDepth(parentId) : 0;
+        if (parentDepth + segments.length > MAX_TAG_DEPTH) {
+            throw new Error(`Tags can be nested at most ${MAX_TAG_DEPTH} levels deep`);
+        }
+
+        ids.slice(0, -1).forEach((segmentId, index) => {
+            if (!this.tagRegistry.getTag(segmentId)) {
+                this.tagRegistry.addCustomTag(this.withParent({
+                    id: segmentId,
+                    name: segments[index],
+                    category,
+                    isPreset: false,
+                }, index === 0 ? parentId : ids[index - 1]));
+            }
+        });
+
+        const tag: AnnotationTag = this.withParent({
             id,
-            name,
+            name: segments[segments.length - 1],
             category,
             metadata,
             isPreset: false,
-        };
+        }, ids.length > 1 ? ids[ids.length - 2] : parentId);
 
         this.tagRegistry.addCustomTag(tag);
         return tag;
     }
 
     /**
-     * Validate tag name
+     * Validate tag name. "/" separates nesting levels.
      */
     validateTagName(name: string): { valid: boolean; error?: string } {
         if (!name || name.trim().length === 0) {
             return { valid: false, error: 'Tag name cannot be empty' };
         }
 
-        if (name.length > 50) {
-            return { valid: false, error: 'Tag name must be 50 characters or less' };
+        const segments = name.split('/');
+        if (segments.length > MAX_TAG_DEPTH) {
+            return { valid: false, error: `Tags can be nested at most ${MAX_TAG_DEPTH} levels deep` };
         }
 
-        if (!/^[a-zA-Z0-9\s\-_]+$/.test(name)) {
-            return { valid: false, error: 'Tag name can only contain letters, numbers, spaces, hyphens, and underscores' };
+        for (const segment of segments) {
+            if (segment.trim().length === 0) {
+                return { valid: false, error: 'Each level of a tag name needs a name' };
+            }
+
+            if (segment.length > 50) {
+                return { valid: false, error: 'Tag name must be 50 characters or less per level' };
+            }
+
+            if (!/^[a-zA-Z0-9\s\-_]+$/.test(segment)) {
+                return { valid: false, error: 'Tag name can only contain letters, numbers, spaces, hyphens, and underscores, with / between levels' };
+            }
         }
 
         return { valid: true };
     }
 
+    /**
+     * Validate a tag definition from a file, such as a tag pack, and return it without
+     * unknown fields. Nesting uses `parent`, so names cannot contain "/".
+     */
+    validateImportedTag(value: unknown): { valid: boolean; error?: string; tag?: AnnotationTag } {
+        if (!value || typeof value !== 'object') {
+            return { valid: false, error: 'Not a tag definition' };
+        }
+
+        const candidate = value as Partial<Record<keyof AnnotationTag, unknown>>;
+        const id = typeof candidate.id === 'string' ? candidate.id.trim() : '';
+        if (!TAG_ID_PATTERN.test(id)) {
+            return { valid: false, error: `Invalid tag id '${id}'` };
+        }
+
+        const name = typeof candidate.name === 'string' ? candidate.name.trim() : '';
+        if (name.includes('/')) {
+            return { valid: false, error: 'Tag name cannot contain /, use parent to nest tags' };
+        }
+        const nameValidation = this.validateTagName(name);
+        if (!nameValidation.valid) {
+            return nameValidation;
+        }
+
+        const category = TAG_CATEGORIES.find(option => option === candidate.category);
+        if (!category) {
+            return { valid: false, error: `Unknown category '${String(candidate.category)}'` };
+        }
+
+        const rawMetadata = candidate.metadata && typeof candidate.metadata === 'object'
+            ? candidate.metadata as Partial<Record<keyof TagMetadata, unknown>>
+            : {};
+        if (rawMetadata.priority !== undefined && !TAG_PRIORITIES.some(priority => priority === rawMetadata.priority)) {
+            return { valid: false, error: `Unknown priority '${String(rawMetadata.priority)}'` };
+        }
+
+        const metadata: TagMetadata = {};
+        if (rawMetadata.priority !== undefined) {
+            metadata.priority = rawMetadata.priority as TagPriority;
+        }
+        (['color', 'icon', 'description'] as const).forEach(key => {
+            if (typeof rawMetadata[key] === 'string' && rawMetadata[key]) {
+                metadata[key] = rawMetadata[key] as string;
+            }
+        });
+
+        const tag: AnnotationTag = { id, name, category, isPreset: false };
+        if (Object.keys(metadata).length > 0) {
+            tag.metadata = metadata;
+        }
+        if (typeof candidate.parent === 'string' && candidate.parent.trim()) {
+            tag.parent = candidate.parent.trim();
+        }
+        return { valid: true, tag };
+    }
+
+    /**
+     * Validate moving a tag below another tag, or to the top level when parentId is undefined
+     */
+    validateParent(tagId: string, parentId: string | undefined): { valid: boolean; error?: string } {
+        if (!parentId) {
+            return { valid: true };
+        }
+
+        if (!this.tagRegistry.getTag(parentId)) {
+            return { valid: false, error: `Parent tag '${parentId}' does not exist` };
+        }
+
+        if (parentId === tagId || this.tagRegistry.getDescendantIds(tagId).includes(parentId)) {
+            return { valid: false, error: 'A tag cannot be nested below itself or one of its children' };
+        }
+
+        if (this.getDepth(parentId) + this.getSubtreeHeight(tagId) > MAX_TAG_DEPTH) {
+            return { valid: false, error: `Tags can be nested at most ${MAX_TAG_DEPTH} levels deep` };
+        }
+
+        return { valid: true };
+    }
+
+    /**
+     * Find parent links that can't be used: missing parents, cycles, and nesting deeper
+     * than MAX_TAG_DEPTH. Tag files edited by hand or merged between branches can contain all three.
+     */
+    validateHierarchy(): TagHierarchyIssue[] {
+        const issues: TagHierarchyIssue[] = [];
+
+        this.tagRegistry.getCustomTags().forEach(tag => {
+            if (!tag.parent) {
+                return;
+            }
+
+            if (!this.tagRegistry.getTag(tag.parent)) {
+                issues.push({ tagId: tag.id, error: `Parent tag '${tag.parent}' does not exist` });
+            } else if (tag.parent === tag.id || this.isInCycle(tag.id)) {
+                issues.push({ tagId: tag.id, error: 'Tag is nested below itself' });
+            } else if (this.getDepth(tag.id) > MAX_TAG_DEPTH) {
+                issues.push({ tagId: tag.id, error: `Tag is nested more than ${MAX_TAG_DEPTH} levels deep` });
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * Move tags with invalid parent links to the top level, one at a time so that each
+     * cycle is broken only once. Returns the issues that were fixed.
+     */
+    repairHierarchy(): TagHierarchyIssue[] {
+        const repaired: TagHierarchyIssue[] = [];
+        let issue = this.validateHierarchy()[0];
+
+        while (issue) {
+            const tag = this.tagRegistry.getTag(issue.tagId);
+            if (tag) {
+                delete tag.parent;
+            }
+            repaired.push(issue);
+            issue = this.validateHierarchy()[0];
+        }
+
+        return repaired;
+    }
+
     /**
      * Normalize tags - convert strings to AnnotationTag objects if needed
      */
@@ -96,12 +275,47 @@ export class TagValidator {
     }
 
     /**
-     * Generate a valid tag ID from name
+     * Generate a valid tag ID from name, prefixed with the parent's ID
      */
-    private generateId(name: string): string {
-        return name
+    generateId(name: string, parentId?: string): string {
+        const id = name
             .toLowerCase()
             .replace(/\s+/g, '-')
             .replace(/[^a-z0-9\-]/g, '');
+        return parentId ? `${parentId}/${id}` : id;
+    }
+
+    private withParent(tag: AnnotationTag, parentId: string | undefined): AnnotationTag {
+        return parentId ? { ...tag, parent: parentId } : tag;
+    }
+
+    /**
+     * Levels from the top, 1 for a tag without a parent
+     */
+    private getDepth(tagId: string): number {
+        return this.tagRegistry.getAncestorIds(tagId).length + 1;
+    }
+
+    /**
+     * Levels in the tag's subtree, 1 for a tag without children
+     */
+    private getSubtreeHeight(tagId: string): number {
+        const nestedLevels = this.tagRegistry.getDescendantIds(tagId)
+            .map(descendantId => this.tagRegistry.getAncestorIds(descendantId).indexOf(tagId) + 1);
+        return Math.max(0, ...nestedLevels) + 1;
+    }
+
+    private isInCycle(tagId: string): boolean {
+        const visited = new Set<string>();
+        let current = this.tagRegistry.getParentId(tagId);
+
+        while (current && !visited.has(current)) {
+            if (current === tagId) {
+                return true;
+            }
+            visited.add(current);
+            current = this.tagRegistry.getParentId(current);
+        }
+        return false;
     }
 }
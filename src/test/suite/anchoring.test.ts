@@ -1,13 +1,16 @@
 import * as assert from 'assert';
+import * as fs from 'fs/promises';
 import * as vscode from 'vscode';
 import { AnnotationManager } from '../../managers';
 import { captureAnnotationAnchor } from '../../managers/annotationAnchors';
+import { mapRangeThroughHunks, parseDiffHunks } from '../../managers/gitAnchors';
 import { AnnotationStorageFile } from '../../types';
 import {
     clearTestWorkspace,
     createAnnotation,
     createTestContext,
     ensureWorkspaceFile,
+    getStorageKey,
     getStoragePaths,
     readJson,
     toStoredAnnotation,
@@ -43,8 +46,8 @@ suite('Annotation anchoring', () => {
         assert.strictEqual(loadedAnnotation.text, 'answer');
 
         const persisted = await readJson<AnnotationStorageFile>(getStoragePaths().annotationsPath);
-        assert.strictEqual(persisted.schemaVersion, 2);
-        assert.ok(persisted.workspaceAnnotations[filePath][0].anchor);
+        assert.strictEqual(persisted.schemaVersion, 3);
+        assert.ok(persisted.workspaceAnnotations[getStorageKey(filePath)][0].anchor);
 
         manager.dispose();
     });
@@ -147,6 +150,249 @@ suite('Annotation anchoring', () => {
 
         manager.dispose();
     });
+
+    test('maps git-anchored ranges through diff hunks before fuzzy matching', async () => {
+        await clearTestWorkspace();
+
+        const committedContents = 'dup();\ndup();\n';
+        const currentContents = 'dup();\nnew();\ndup();\ndup();\n';
+        const filePath = await ensureWorkspaceFile('anchors-git.ts', currentContents);
+        const storedAnnotation = buildStoredAnnotation({
+            filePath,
+            originalContents: committedContents,
+            selectedText: 'dup()',
+            occurrence: 1,
+        });
+        storedAnnotation.gitAnchor = { commit: 'abc123', range: storedAnnotation.range };
+
+        await writeAnnotationsFile(filePath, [storedAnnotation], 3);
+
+        const gitCalls: string[][] = [];
+        const manager = new AnnotationManager(createTestContext(), {
+            runGitCommand: async (_cwd, args) => {
+                gitCalls.push(args);
+                return args[0] === 'diff'
+                    ? 'diff --git a/anchors-git.ts b/anchors-git.ts\n@@ -1,0 +2 @@\n+new();\n@@ -2,0 +4 @@\n+dup();\n'
+                    : '';
+            },
+        });
+        await manager.ready;
+
+        const loadedAnnotation = manager.getAnnotationsForFile(filePath)[0];
+        assert.strictEqual(loadedAnnotation.range.start.line, 2);
+        assert.deepStrictEqual(loadedAnnotation.anchorStatus, { state: 'anchored', confidence: 1 });
+        assert.deepStrictEqual(loadedAnnotation.gitAnchor, storedAnnotation.gitAnchor);
+        assert.ok(gitCalls.some(args => args[0] === 'diff' && args.includes('abc123')));
+
+        manager.dispose();
+    });
+
+    test('uses the lines git maps an edited range to as a hint and reads the diff once per commit', async () => {
+        await clearTestWorkspace();
+
+        const committedContents = 'dup();\ndup();\n';
+        const currentContents = 'dup();\nnew();\n    dup(); // edited\ndup();\n';
+        const filePath = await ensureWorkspaceFile('anchors-git-edited.ts', currentContents);
+        const firstAnnotation = buildStoredAnnotation({ filePath, originalContents: committedContents, selectedText: 'dup()' });
+        const secondAnnotation = buildStoredAnnotation({ filePath, originalContents: committedContents, selectedText: 'dup()', occurrence: 1 });
+        secondAnnotation.id = `${secondAnnotation.id}-second`;
+        firstAnnotation.gitAnchor = { commit: 'abc123', range: firstAnnotation.range };
+        secondAnnotation.gitAnchor = { commit: 'abc123', range: secondAnnotation.range };
+
+        await writeAnnotationsFile(filePath, [firstAnnotation, secondAnnotation], 3);
+
+        const gitCalls: string[][] = [];
+        const manager = new AnnotationManager(createTestContext(), {
+            runGitCommand: async (_cwd, args) => {
+                gitCalls.push(args);
+                return args[0] === 'diff'
+                    ? '@@ -1,0 +2 @@\n+new();\n@@ -2 +3 @@\n-dup();\n+    dup(); // edited\n@@ -2,0 +4 @@\n+dup();\n'
+                    : '';
+            },
+        });
+        await manager.ready;
+
+        const [first, second] = manager.getAnnotationsForFile(filePath);
+        assert.strictEqual(first.range.start.line, 0);
+        assert.strictEqual(second.range.start.line, 2);
+        assert.strictEqual(second.range.start.character, 4);
+        assert.strictEqual(second.anchorStatus?.state, 'anchored');
+        assert.strictEqual(gitCalls.filter(args => args[0] === 'diff').length, 1);
+
+        manager.dispose();
+    });
+
+    test('drops git anchors when their file is renamed', async () => {
+        await clearTestWorkspace();
+
+        const contents = 'keep();\n';
+        const filePath = await ensureWorkspaceFile('anchors-git-renamed.ts', contents);
+        const storedAnnotation = buildStoredAnnotation({ filePath, originalContents: contents, selectedText: 'keep()' });
+        storedAnnotation.gitAnchor = { commit: 'abc123', range: storedAnnotation.range };
+
+        await writeAnnotationsFile(filePath, [storedAnnotation], 3);
+
+        const gitCalls: string[][] = [];
+        const manager = new AnnotationManager(createTestContext(), {
+            runGitCommand: async (_cwd, args) => {
+                gitCalls.push(args);
+                return '';
+            },
+        });
+        await manager.ready;
+
+        const renamedPath = filePath.replace('anchors-git-renamed.ts', 'anchors-git-moved.ts');
+        await fs.rename(filePath, renamedPath);
+        gitCalls.length = 0;
+        await manager.renameFiles([{ oldPath: filePath, newPath: renamedPath }]);
+
+        const moved = manager.getAnnotationsForFile(renamedPath)[0];
+        assert.strictEqual(moved.gitAnchor, undefined);
+        assert.strictEqual(moved.range.start.line, 0);
+        assert.ok(!gitCalls.some(args => args[0] === 'diff'));
+
+        manager.dispose();
+    });
+
+    test('maps ranges through the hunks around and inside them', () => {
+        const range = { start: { line: 4, character: 2 }, end: { line: 5, character: 8 } };
+        const hunks = parseDiffHunks('@@ -1,2 +1,3 @@\n@@ -10 +11,0 @@\n');
+
+        assert.deepStrictEqual(mapRangeThroughHunks(range, hunks), {
+            start: { line: 5, character: 2 },
+            end: { line: 6, character: 8 },
+        });
+        assert.deepStrictEqual(mapRangeThroughHunks(range, parseDiffHunks('@@ -1,2 +1,3 @@\n@@ -6 +7,4 @@\n')), {
+            start: { line: 5, character: 2 },
+            end: { line: 6, character: 8 },
+        });
+        assert.deepStrictEqual(mapRangeThroughHunks(range, parseDiffHunks('@@ -5,0 +6,2 @@\n')), {
+            start: { line: 4, character: 2 },
+            end: { line: 7, character: 8 },
+        });
+        assert.deepStrictEqual(mapRangeThroughHunks(range, parseDiffHunks('@@ -3,4 +2,0 @@\n')), {
+            start: { line: 2, character: 2 },
+            end: { line: 2, character: 8 },
+        });
+    });
+
+    test('marks annotations orphaned when their code is removed and re-anchors them to a new selection', async () => {
+        await clearTestWorkspace();
+
+        const originalContents = 'const a = 1;\nlegacyHelper(a);\nconst b = 2;\n';
+        const currentContents = 'const a = 1;\nconst b = 2;\nmodernHelper(a, b);\n';
+        const filePath = await ensureWorkspaceFile('anchors-orphaned.ts', currentContents);
+        const storedAnnotation = buildStoredAnnotation({
+            filePath,
+            originalContents,
+            selectedText: 'legacyHelper(a)',
+        });
+
+        await writeAnnotationsFile(filePath, [storedAnnotation], 2);
+
+        const manager = new AnnotationManager(createTestContext());
+        await manager.ready;
+
+        const orphaned = manager.getAnnotationsForFile(filePath)[0];
+        assert.deepStrictEqual(orphaned.anchorStatus, { state: 'orphaned', confidence: 0, reason: 'textNotFound' });
+        assert.strictEqual(orphaned.text, 'legacyHelper(a)');
+        assert.deepStrictEqual(manager.getOrphanedAnnotations().map(annotation => annotation.id), [orphaned.id]);
+
+        let persisted = await readJson<AnnotationStorageFile>(getStoragePaths().annotationsPath);
+        assert.strictEqual(persisted.workspaceAnnotations[getStorageKey(filePath)][0].anchorStatus?.state, 'orphaned');
+
+        const document = await vscode.workspace.openTextDocument(filePath);
+        const newRange = findRange(currentContents, 'modernHelper(a, b)', 0);
+        await manager.reanchorAnnotation(orphaned.id, filePath, document, newRange);
+
+        const reanchored = manager.getAnnotationsForFile(filePath)[0];
+        assert.deepStrictEqual(reanchored.anchorStatus, { state: 'anchored', confidence: 1 });
+        assert.strictEqual(reanchored.text, 'modernHelper(a, b)');
+        assert.strictEqual(reanchored.anchor?.selectedText, 'modernHelper(a, b)');
+        assert.deepStrictEqual(manager.getOrphanedAnnotations(), []);
+
+        persisted = await readJson<AnnotationStorageFile>(getStoragePaths().annotationsPath);
+        assert.strictEqual(persisted.workspaceAnnotations[getStorageKey(filePath)][0].anchorStatus?.state, 'anchored');
+
+        manager.dispose();
+    });
+
+    test('orphans annotations whose file was deleted', async () => {
+        await clearTestWorkspace();
+
+        const contents = 'export const value = 1;\n';
+        const filePath = await ensureWorkspaceFile('anchors-deleted.ts', contents);
+        const storedAnnotation = buildStoredAnnotation({
+            filePath,
+            originalContents: contents,
+            selectedText: 'value',
+        });
+
+        await writeAnnotationsFile(filePath, [storedAnnotation], 2);
+        await fs.rm(filePath);
+
+        const manager = new AnnotationManager(createTestContext());
+        await manager.ready;
+
+        const loadedAnnotation = manager.getAnnotationsForFile(filePath)[0];
+        assert.deepStrictEqual(loadedAnnotation.anchorStatus, { state: 'orphaned', confidence: 0, reason: 'fileMissing' });
+
+        manager.dispose();
+    });
+
+    test('keeps notebook cell and whole-file annotations out of text anchoring until their file is gone', async () => {
+        await clearTestWorkspace();
+
+        const notebookPath = await ensureWorkspaceFile('anchors-notebook.ipynb', '{"cells": [{"source": ["x = 1"]}]}\n');
+        const imagePath = await ensureWorkspaceFile('anchors-diagram.png', '\u0089PNG\r\n');
+        const cellRange = new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 5));
+        const cellAnnotation = createAnnotation({
+            filePath: notebookPath,
+            id: 'anchors-cell',
+            range: cellRange,
+            text: 'x = 1',
+            target: { type: 'notebookCell', cellId: 'cell-1', cellIndex: 0 },
+        });
+        cellAnnotation.anchor = captureAnnotationAnchor('x = 1', cellRange);
+        const imageAnnotation = createAnnotation({
+            filePath: imagePath,
+            id: 'anchors-image',
+            range: new vscode.Range(0, 0, 0, 0),
+            text: '',
+            target: { type: 'file' },
+        });
+
+        await writeJson(getStoragePaths().annotationsPath, {
+            schemaVersion: 3,
+            workspaceAnnotations: {
+                [notebookPath]: [toStoredAnnotation(cellAnnotation)],
+                [imagePath]: [toStoredAnnotation(imageAnnotation)],
+            },
+        } satisfies AnnotationStorageFile);
+
+        let manager = new AnnotationManager(createTestContext());
+        await manager.ready;
+
+        const loadedCell = manager.getAnnotationsForFile(notebookPath)[0];
+        assert.strictEqual(loadedCell.anchorStatus, undefined);
+        assert.ok(loadedCell.range.isEqual(cellRange));
+        assert.strictEqual(manager.getAnnotationsForFile(imagePath)[0].anchorStatus, undefined);
+        manager.dispose();
+
+        await fs.rm(imagePath);
+        manager = new AnnotationManager(createTestContext());
+        await manager.ready;
+
+        assert.strictEqual(manager.getAnnotationsForFile(imagePath)[0].anchorStatus?.reason, 'fileMissing');
+
+        await ensureWorkspaceFile('anchors-diagram.png', '\u0089PNG\r\n');
+        manager.dispose();
+        manager = new AnnotationManager(createTestContext());
+        await manager.ready;
+
+        assert.strictEqual(manager.getAnnotationsForFile(imagePath)[0].anchorStatus, undefined);
+        manager.dispose();
+    });
 });
 
 function buildStoredAnnotation(options: {
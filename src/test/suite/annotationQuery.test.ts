@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import { parseSavedViews } from '../../managers/savedViewManager';
+import { createSavedViewFilter, filterAnnotations } from '../../ui/filtering';
+import {
+    AnnotationQueryContext,
+    matchesAnnotationQuery,
+    parseAnnotationQuery,
+    parseSearchText,
+} from '../../ui/filtering/annotationQuery';
+import { createAnnotation } from './testUtils';
+
+suite('Annotation search queries', () => {
+    const context: AnnotationQueryContext = {
+        resolveTagLabel: tagId => ({ 'security-tag': 'Security', 'docs-tag': 'Docs' } as Record<string, string>)[tagId] || tagId,
+        getPriority: annotation => annotation.priority,
+        getRelativePath: filePath => filePath.replace('c:\\workspace\\', ''),
+        currentUser: 'Alice Example',
+    };
+    const annotations = [
+        createAnnotation({
+            id: 'auth',
+            filePath: 'c:\\workspace\\src\\auth\\login.ts',
+            comment: 'Validate the session token before the redirect',
+            author: 'Alice Example',
+            assignee: 'Bob',
+            tags: ['security-tag'],
+            priority: 'critical',
+            timestamp: new Date(2026, 2, 4, 10),
+            dueDate: '2026-03-10',
+        }),
+        createAnnotation({
+            id: 'docs',
+            filePath: 'c:\\workspace\\docs\\guide.md',
+            comment: 'Explain the session lifetime',
+            author: 'Bob',
+            tags: ['docs-tag'],
+            priority: 'low',
+            status: 'resolved',
+            resolved: true,
+            timestamp: new Date(2025, 11, 20, 10),
+        }),
+        createAnnotation({
+            id: 'helper',
+            filePath: 'c:\\workspace\\src\\util.ts',
+            comment: 'Rename helper',
+            author: 'Carol',
+            assignee: 'Alice Example',
+            status: 'inProgress',
+            timestamp: new Date(2026, 0, 15, 10),
+        }),
+    ];
+    const search = (source: string) => annotations
+        .filter(annotation => matchesAnnotationQuery(annotation, parseAnnotationQuery(source), context))
+        .map(annotation => annotation.id);
+
+    test('parses fields, comparators, quoted values, and negation', () => {
+        assert.deepStrictEqual(
+            parseAnnotationQuery('tag:security -status:Resolved priority>=HIGH created:>2026-01-01 author:"Alice Example" "exact phrase" http://host').terms,
+            [
+                { field: 'tag', comparator: '=', value: 'security', negated: false },
+                { field: 'status', comparator: '=', value: 'resolved', negated: true },
+                { field: 'priority', comparator: '>=', value: 'high', negated: false },
+                { field: 'created', comparator: '>', value: '2026-01-01', negated: false },
+                { field: 'author', comparator: '=', value: 'Alice Example', negated: false },
+                { comparator: '=', value: 'exact phrase', negated: false },
+                { comparator: '=', value: 'http://host', negated: false },
+            ]
+        );
+    });
+
+    test('rejects malformed queries with a readable reason', () => {
+        assert.throws(() => parseAnnotationQuery('"unterminated'), /Unterminated quote/);
+        assert.throws(() => parseAnnotationQuery('tag:'), /Missing value for tag/);
+        assert.throws(() => parseAnnotationQuery('tag>=bug'), /tag does not support >=/);
+        assert.throws(() => parseAnnotationQuery('priority:urgent'), /Unknown priority: urgent/);
+        assert.throws(() => parseAnnotationQuery('status:done'), /Unknown status: done/);
+        assert.throws(() => parseAnnotationQuery('created:>yesterday'), /Invalid date for created/);
+        assert.deepStrictEqual(parseSearchText('tag:').terms, [{ comparator: '=', value: 'tag:', negated: false }]);
+    });
+
+    test('matches annotations across every field', () => {
+        assert.deepStrictEqual(search('session'), ['auth', 'docs']);
+        assert.deepStrictEqual(search('"session token"'), ['auth']);
+        assert.deepStrictEqual(search('"status:open"'), []);
+        assert.deepStrictEqual(search('tag:security'), ['auth']);
+        assert.deepStrictEqual(search('tag:docs-tag'), ['docs']);
+        assert.deepStrictEqual(search('status:unresolved'), ['auth', 'helper']);
+        assert.deepStrictEqual(search('status:inprogress'), ['helper']);
+        assert.deepStrictEqual(search('author:alice'), ['auth']);
+        assert.deepStrictEqual(search('assignee:me'), ['helper']);
+        assert.deepStrictEqual(search('assignee:none'), ['docs']);
+        assert.deepStrictEqual(search('file:src/**'), ['auth', 'helper']);
+        assert.deepStrictEqual(search('file:src/*.ts'), ['helper']);
+        assert.deepStrictEqual(search('file:**/login.ts'), ['auth']);
+        assert.deepStrictEqual(search('file:guide'), ['docs']);
+        assert.deepStrictEqual(search('priority>=high'), ['auth']);
+        assert.deepStrictEqual(search('priority:<medium'), ['docs']);
+        assert.deepStrictEqual(search('created:>2026-01-01'), ['auth', 'helper']);
+        assert.deepStrictEqual(search('created:2026-01-15'), ['helper']);
+        assert.deepStrictEqual(search('due<=2026-03-10'), ['auth']);
+        assert.deepStrictEqual(search('session -tag:docs'), ['auth']);
+        assert.deepStrictEqual(search(''), ['auth', 'docs', 'helper']);
+    });
+
+    test('applies queries in the tree view filter and falls back to plain text when invalid', () => {
+        const ids = (source: string) => filterAnnotations(annotations, 'all', 'all', source, context).map(annotation => annotation.id);
+
+        assert.deepStrictEqual(ids('status:open priority:critical'), ['auth']);
+        assert.deepStrictEqual(ids('rename -status:resolved'), ['helper']);
+        assert.deepStrictEqual(ids('"rename'), []);
+        assert.deepStrictEqual(
+            filterAnnotations([createAnnotation({ filePath: 'c:\\workspace\\quote.ts', comment: 'Check "rename first' })], 'all', 'all', '"rename')
+                .map(annotation => annotation.comment),
+            ['Check "rename first']
+        );
+    });
+
+    test('reads saved views and matches any value of each list', () => {
+        const views = parseSavedViews({
+            schemaVersion: 1,
+            views: [
+                {
+                    name: ' Security triage ',
+                    statuses: ['unresolved', 'done', 'resolved'],
+                    tags: ['security', 'docs-tag', 7],
+                    files: ['src/**', ''],
+                    groupBy: 'sideways',
+                },
+                { name: 'security TRIAGE', tags: ['docs-tag'] },
+                { name: 'By Bob', authors: ['bob'], query: 'session', groupBy: 'tag' },
+                { tags: ['nameless'] },
+            ],
+        });
+
+        assert.deepStrictEqual(views, [
+            { name: 'Security triage', statuses: ['unresolved', 'resolved'], tags: ['security', 'docs-tag'], files: ['src/**'] },
+            { name: 'By Bob', authors: ['bob'], query: 'session', groupBy: 'tag' },
+        ]);
+        const ids = (index: number) => annotations.filter(createSavedViewFilter(views[index], context)).map(annotation => annotation.id);
+        assert.deepStrictEqual(ids(0), ['auth']);
+        assert.deepStrictEqual(ids(1), ['docs']);
+        assert.throws(() => parseSavedViews({ schemaVersion: 1 }), /Invalid saved views/);
+    });
+});
@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { AnnotationManager, AnnotationRuleEdit, evaluateAnnotationRules, parseAnnotationRules } from '../../managers';
+import { AnnotationRuleStorageFile, TagStorageFile } from '../../types';
+import {
+    clearTestWorkspace,
+    createAnnotation,
+    createCustomTag,
+    createTestContext,
+    ensureWorkspaceFile,
+    getStoragePaths,
+    writeJson,
+} from './testUtils';
+
+suite('Automation rules', () => {
+    teardown(async () => {
+        await clearTestWorkspace();
+    });
+
+    test('reads rules and skips the ones that cannot be used', () => {
+        const result = parseAnnotationRules({
+            schemaVersion: 1,
+            rules: [
+                { name: ' Security ', when: { tags: ['security', ''], comment: ' ' }, then: { priority: 'critical' } },
+                { when: { files: ['src/**'] }, then: { addTags: ['review', 'review'], assignee: ' Dana ' } },
+                { name: 'Urgent', then: { priority: 'urgent' } },
+                { name: 'Pink', then: { color: 'pink' } },
+                { name: 'Short red', then: { color: '#f00' } },
+                { name: 'Bad pattern', when: { commentPattern: '(' }, then: { status: 'inProgress' } },
+                { name: 'Nothing', when: { tags: ['bug'] }, then: {} },
+                { name: 'Odd tags', when: { tags: 'bug' }, then: { status: 'resolved' } },
+            ],
+        });
+
+        assert.deepStrictEqual(result.rules, [
+            { name: 'Security', when: { tags: ['security'] }, then: { priority: 'critical' } },
+            { name: 'Rule 2', when: { files: ['src/**'] }, then: { assignee: 'Dana', addTags: ['review'] } },
+        ]);
+        assert.deepStrictEqual(result.errors, [
+            'Urgent: Unknown priority \'urgent\'',
+            'Pink: Invalid color \'pink\', use a hex color such as #FF5252',
+            'Short red: Invalid color \'#f00\', use a hex color such as #FF5252',
+            'Bad pattern: Invalid commentPattern \'(\'',
+            'Nothing: "then" must be an object with at least one action',
+            'Odd tags: "tags" must be a list of text values',
+        ]);
+        assert.throws(() => parseAnnotationRules({ schemaVersion: 1 }), /expected a rules list/);
+
+        const checked = parseAnnotationRules({
+            schemaVersion: 1,
+            rules: [{ name: 'Review', then: { addTags: ['review'] } }, { name: 'Ghost', then: { addTags: ['review', 'ghost'] } }],
+        }, tagId => tagId === 'review');
+        assert.deepStrictEqual(checked.rules.map(rule => rule.name), ['Review']);
+        assert.deepStrictEqual(checked.errors, ['Ghost: Unknown tag \'ghost\' in addTags']);
+    });
+
+    test('runs rules in order on tags, files, and comment text', () => {
+        const { rules } = parseAnnotationRules({
+            schemaVersion: 1,
+            rules: [
+                { name: 'Flag TODOs', when: { commentPattern: '\\btodo\\b' }, then: { addTags: ['security'] } },
+                { name: 'Security', when: { tags: ['Security'] }, then: { priority: 'critical', color: '#FF5252' } },
+                { name: 'UI owner', when: { tags: ['a11y'], files: ['src/ui/**'] }, then: { assignee: 'Dana' } },
+                { name: 'Token', when: { comment: 'TOKEN' }, then: { priority: 'high', status: 'inProgress' } },
+                { name: 'Reopen', when: { tags: ['a11y'] }, then: { status: 'open' } },
+            ],
+        });
+        const context = {
+            resolveTagLabel: (tagId: string) => ({ security: 'Security', 'a11y/contrast': 'a11y/Contrast' } as Record<string, string>)[tagId] || tagId,
+            getTagAncestors: (tagId: string) => tagId === 'a11y/contrast' ? ['a11y'] : [],
+            getRelativePath: (filePath: string) => filePath.replace('c:\\workspace\\', ''),
+        };
+        const changes = (overrides: Parameters<typeof createAnnotation>[0]) => evaluateAnnotationRules(createAnnotation(overrides), rules, context)
+            .map(change => `${change.field}: ${change.previousValue} -> ${change.newValue} (${change.rules.join(', ')})`);
+
+        assert.deepStrictEqual(changes({ filePath: 'c:\\workspace\\src\\auth.ts', comment: 'TODO check the token' }), [
+            'tags:  -> security (Flag TODOs)',
+            'priority: undefined -> high (Security, Token)',
+            'color: #ffc107 -> #FF5252 (Security)',
+            'status: open -> inProgress (Token)',
+        ]);
+        assert.deepStrictEqual(changes({ filePath: 'c:\\workspace\\src\\ui\\menu.ts', tags: ['a11y/contrast'] }), [
+            'assignee: undefined -> Dana (UI owner)',
+        ]);
+        assert.deepStrictEqual(changes({ filePath: 'c:\\workspace\\lib\\menu.ts', tags: ['a11y/contrast'] }), []);
+        assert.deepStrictEqual(changes({ filePath: 'c:\\workspace\\src\\auth.ts', tags: ['security'], priority: 'critical', color: '#FF5252' }), []);
+
+        // After an edit only comment rules and rules matching newly added tags run, including tags other rules add
+        const afterEdit = (overrides: Parameters<typeof createAnnotation>[0], edit: AnnotationRuleEdit) =>
+            evaluateAnnotationRules(createAnnotation(overrides), rules, context, edit).map(change => change.field);
+        assert.deepStrictEqual(afterEdit({ filePath: 'c:\\workspace\\src\\auth.ts', comment: 'TODO: the token' }, { commentChanged: true, addedTags: [] }), [
+            'tags', 'priority', 'color', 'status',
+        ]);
+        assert.deepStrictEqual(afterEdit({ filePath: 'c:\\workspace\\src\\ui\\menu.ts', tags: ['a11y/contrast'] }, { commentChanged: true, addedTags: [] }), []);
+        assert.deepStrictEqual(afterEdit({ filePath: 'c:\\workspace\\src\\ui\\menu.ts', tags: ['a11y/contrast'] }, { commentChanged: false, addedTags: ['a11y/contrast'] }), [
+            'assignee',
+        ]);
+        assert.deepStrictEqual(afterEdit({ filePath: 'c:\\workspace\\src\\ui\\menu.ts', tags: ['security', 'a11y/contrast'] }, { commentChanged: false, addedTags: ['a11y/contrast'] }), [
+            'assignee',
+        ]);
+    });
+
+    test('applies rules when annotations are added or edited and previews them for existing ones', async () => {
+        await clearTestWorkspace();
+
+        const filePath = await ensureWorkspaceFile('rules.png', 'image');
+        const { storageDir, customTagsPath } = getStoragePaths();
+        await writeJson(customTagsPath, {
+            schemaVersion: 1,
+            customTags: [createCustomTag({ id: 'security', name: 'security' }), createCustomTag({ id: 'bug', name: 'bug' })],
+        } satisfies TagStorageFile);
+        await writeJson(path.join(storageDir, 'rules.json'), {
+            schemaVersion: 1,
+            rules: [
+                { name: 'Security is critical', when: { tags: ['security'] }, then: { priority: 'critical', assignee: 'Dana' } },
+                { name: 'Bugs are red', when: { tags: ['bug'] }, then: { color: '#FF5252' } },
+                { name: 'Ghost tag', when: { tags: ['bug'] }, then: { addTags: ['ghost'] } },
+            ],
+        } satisfies AnnotationRuleStorageFile);
+
+        const manager = new AnnotationManager(createTestContext());
+        await manager.ready;
+
+        const added = await manager.addFileAnnotation(filePath, 'Check the login flow.', ['security']);
+        assert.strictEqual(added.priority, 'critical');
+        assert.strictEqual(added.assignee, 'Dana');
+        assert.deepStrictEqual(added.history?.map(entry => entry.field), ['created', 'priority', 'assignee']);
+
+        await manager.assignAnnotation(added.id, filePath, { assignee: 'Sam' });
+        await manager.editAnnotation(added.id, filePath, 'Check the login flow again.', ['security']);
+        assert.strictEqual(added.assignee, 'Sam');
+
+        await manager.editAnnotation(added.id, filePath, 'Check the login flow again.', ['security', 'bug']);
+        assert.strictEqual(added.color, '#FF5252');
+        assert.strictEqual(added.assignee, 'Sam');
+        assert.deepStrictEqual(added.tags, ['security', 'bug']);
+
+        await manager.undo();
+        const restored = manager.getAnnotationsForFile(filePath)[0];
+        assert.deepStrictEqual(restored.tags, ['security']);
+        assert.strictEqual(restored.color, '#ffc107');
+
+        restored.tags = ['bug'];
+        const dryRun = manager.previewRules();
+        assert.strictEqual(dryRun.ruleCount, 2);
+        assert.deepStrictEqual(dryRun.errors, ['Ghost tag: Unknown tag \'ghost\' in addTags']);
+        assert.deepStrictEqual(dryRun.results.map(result => result.changes.map(change => change.field)), [['color']]);
+        assert.strictEqual(restored.color, '#ffc107');
+
+        manager.dispose();
+    });
+});
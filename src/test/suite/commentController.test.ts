@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AnnotationCommentController } from '../../ui/annotationCommentController';
+import { Annotation } from '../../types';
+import { createAnnotation } from './testUtils';
+
+suite('AnnotationCommentController', () => {
+    test('mirrors annotations as comment threads and follows their changes', async () => {
+        const filePath = 'c:\\workspace\\threads.ts';
+        const annotations: Annotation[] = [
+            createAnnotation({
+                filePath,
+                id: 'threaded',
+                replies: [{ id: 'reply-1', author: 'Ada', body: 'Agreed.', timestamp: new Date('2026-03-25T12:00:00.000Z') }],
+            }),
+        ];
+        const changed = new vscode.EventEmitter<void>();
+        const manager = {
+            ready: Promise.resolve(),
+            onDidChangeAnnotations: changed.event,
+            getAllAnnotations: () => annotations,
+            getAnnotation: (id: string) => annotations.find(annotation => annotation.id === id),
+        };
+        const configuration = vscode.workspace.getConfiguration('annotative');
+        await configuration.update('comments.enabled', true, vscode.ConfigurationTarget.Workspace);
+        const controller = new AnnotationCommentController(manager as unknown as never);
+
+        try {
+            await manager.ready;
+            const thread = controller.getThread('threaded');
+            assert.ok(thread, 'Expected a thread for the annotation.');
+            assert.strictEqual(thread.contextValue, 'open');
+            assert.deepStrictEqual(
+                thread.comments.map(comment => comment.author.name),
+                ['Test User', 'Ada']
+            );
+            assert.strictEqual(controller.getAnnotation(thread)?.id, 'threaded');
+
+            annotations[0].range = new vscode.Range(new vscode.Position(4, 0), new vscode.Position(5, 2));
+            annotations[0].resolved = true;
+            annotations[0].status = 'resolved';
+            changed.fire();
+            assert.strictEqual(thread.range?.start.line, 4);
+            assert.strictEqual(thread.contextValue, 'resolved');
+            assert.strictEqual(thread.state, vscode.CommentThreadState.Resolved);
+
+            annotations.splice(0, 1);
+            changed.fire();
+            assert.strictEqual(controller.getThread('threaded'), undefined);
+        } finally {
+            controller.dispose();
+            await configuration.update('comments.enabled', undefined, vscode.ConfigurationTarget.Workspace);
+        }
+    });
+});
@@ -1,6 +1,6 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { AnnotationCRUD } from '../../managers';
+import { AnnotationCRUD, getDueDateBucket, isAssignedTo } from '../../managers';
 import { Annotation } from '../../types';
 import { createAnnotation } from './testUtils';
 
@@ -104,4 +104,168 @@ suite('AnnotationCRUD', () => {
         assert.deepStrictEqual(annotations.get(fileTwo), []);
         assert.strictEqual(saveCount, 3);
     });
-});
\ No newline at end of file
+
+    test('moves annotations through workflow statuses within the configured transitions', async () => {
+        const filePath = 'c:\\workspace\\workflow.ts';
+        const annotations = new Map<string, Annotation[]>([
+            [filePath, [createAnnotation({ filePath, id: 'workflow' })]],
+        ]);
+        const crud = new AnnotationCRUD(
+            annotations,
+            { updateDecorations: () => undefined } as unknown as never,
+            { saveAnnotations: async () => undefined } as unknown as never
+        );
+        const configuration = vscode.workspace.getConfiguration('annotative');
+        const annotation = annotations.get(filePath)![0];
+
+        try {
+            assert.strictEqual(await crud.setStatus('workflow', filePath, 'inProgress'), true);
+            assert.strictEqual(annotation.status, 'inProgress');
+            assert.strictEqual(annotation.resolved, false);
+
+            assert.strictEqual(await crud.setStatus('workflow', filePath, 'wontFix'), true);
+            assert.strictEqual(annotation.resolved, true);
+
+            await configuration.update(
+                'workflow.transitions',
+                { wontFix: ['open'], open: ['inProgress'] },
+                vscode.ConfigurationTarget.Workspace
+            );
+            await assert.rejects(crud.setStatus('workflow', filePath, 'resolved'), /Won't Fix to Resolved/);
+
+            await crud.toggleResolvedStatus('workflow', filePath);
+            assert.strictEqual(annotation.status, 'open');
+            assert.strictEqual(await crud.resolveAll(filePath), 0);
+            assert.strictEqual(annotation.resolved, false);
+        } finally {
+            await configuration.update('workflow.transitions', undefined, vscode.ConfigurationTarget.Workspace);
+        }
+    });
+
+    test('assigns annotations and tracks due dates', async () => {
+        const filePath = 'c:\\workspace\\assigned.ts';
+        const annotations = new Map<string, Annotation[]>([
+            [filePath, [createAnnotation({ filePath, id: 'assigned' })]],
+        ]);
+        let saveCount = 0;
+        const crud = new AnnotationCRUD(
+            annotations,
+            { updateDecorations: () => undefined } as unknown as never,
+            {
+                saveAnnotations: async () => {
+                    saveCount += 1;
+                },
+            } as unknown as never
+        );
+        const annotation = annotations.get(filePath)![0];
+
+        assert.strictEqual(await crud.setAssignment('assigned', filePath, { assignee: ' Ada ', dueDate: '2026-05-01' }), true);
+        assert.strictEqual(annotation.assignee, 'Ada');
+        assert.strictEqual(annotation.dueDate, '2026-05-01');
+        assert.ok(isAssignedTo(annotation, 'ada'));
+        assert.deepStrictEqual(
+            annotation.history?.map(entry => [entry.field, entry.previousValue, entry.newValue]),
+            [['assignee', undefined, 'Ada'], ['dueDate', undefined, '2026-05-01']]
+        );
+
+        assert.strictEqual(await crud.setAssignment('assigned', filePath, { assignee: 'Ada' }), false);
+        await assert.rejects(crud.setAssignment('assigned', filePath, { dueDate: '2026-02-30' }), /Invalid due date/);
+        assert.strictEqual(annotation.dueDate, '2026-05-01');
+        assert.strictEqual(saveCount, 1);
+
+        const now = new Date(2026, 4, 2);
+        assert.strictEqual(getDueDateBucket(annotation, now), 'overdue');
+        assert.strictEqual(getDueDateBucket(annotation, new Date(2026, 4, 1)), 'today');
+        assert.strictEqual(getDueDateBucket({ ...annotation, resolved: true }, now), 'closed');
+
+        assert.strictEqual(await crud.setAssignment('assigned', filePath, { assignee: '', dueDate: '' }), true);
+        assert.strictEqual(annotation.assignee, undefined);
+        assert.strictEqual(annotation.dueDate, undefined);
+        assert.strictEqual(getDueDateBucket(annotation, now), 'none');
+    });
+
+    test('appends, edits, and removes replies on an annotation thread', async () => {
+        const filePath = 'c:\\workspace\\replies.ts';
+        const annotations = new Map<string, Annotation[]>([
+            [filePath, [createAnnotation({ filePath, id: 'threaded' })]],
+        ]);
+        let saveCount = 0;
+        const crud = new AnnotationCRUD(
+            annotations,
+            { updateDecorations: () => undefined } as unknown as never,
+            {
+                saveAnnotations: async () => {
+                    saveCount += 1;
+                },
+            } as unknown as never
+        );
+
+        const first = await crud.addReply('threaded', filePath, 'Why is this needed?');
+        const second = await crud.addReply('threaded', filePath, 'It guards the retry path.');
+
+        assert.ok(first && second);
+        assert.deepStrictEqual(
+            annotations.get(filePath)?.[0].replies?.map(reply => reply.body),
+            ['Why is this needed?', 'It guards the retry path.']
+        );
+        assert.strictEqual(annotations.get(filePath)?.[0].comment, 'Review this code path.');
+        assert.ok(first.author.length > 0);
+        assert.strictEqual(first.edited, undefined);
+
+        const edited = await crud.editReply('threaded', filePath, first.id, 'Why is this still needed?');
+        assert.strictEqual(edited?.body, 'Why is this still needed?');
+        assert.strictEqual(edited?.edited, true);
+
+        assert.strictEqual(await crud.removeReply('threaded', filePath, second.id), true);
+        assert.strictEqual(await crud.removeReply('threaded', filePath, second.id), false);
+        assert.strictEqual(await crud.addReply('missing', filePath, 'Nobody home.'), undefined);
+        assert.deepStrictEqual(
+            annotations.get(filePath)?.[0].replies?.map(reply => reply.id),
+            [first.id]
+        );
+        assert.strictEqual(saveCount, 4);
+    });
+
+    test('keeps an append-only change log of edits, status changes, and replies', async () => {
+        const annotations = new Map<string, Annotation[]>();
+        const filePath = 'c:\\workspace\\history.ts';
+        const editor = {
+            document: {
+                uri: vscode.Uri.file(filePath),
+                getText: () => 'const answer = 42;',
+            },
+        } as unknown as vscode.TextEditor;
+        const crud = new AnnotationCRUD(
+            annotations,
+            { updateDecorations: () => undefined } as unknown as never,
+            { saveAnnotations: async () => undefined } as unknown as never
+        );
+        const range = new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 12));
+
+        const created = await crud.addAnnotation(editor, range, 'First draft.', ['bug'], '#42A5F5');
+        await crud.editAnnotation(created.id, filePath, 'Second draft.', ['bug', 'security'], '#42A5F5');
+        await crud.toggleResolvedStatus(created.id, filePath);
+        await crud.addReply(created.id, filePath, 'Fixed in the retry handler.');
+        await crud.editAnnotation(created.id, filePath, 'Second draft.', ['bug', 'security'], '#42A5F5');
+
+        const history = annotations.get(filePath)?.[0].history || [];
+        assert.deepStrictEqual(
+            history.map(entry => [entry.field, entry.previousValue, entry.newValue]),
+            [
+                ['created', undefined, 'First draft.'],
+                ['comment', 'First draft.', 'Second draft.'],
+                ['tags', ['bug'], ['bug', 'security']],
+                ['status', 'open', 'resolved'],
+                ['reply', undefined, 'Fixed in the retry handler.'],
+            ]
+        );
+        assert.ok(history.every(entry => entry.author === created.author && entry.timestamp instanceof Date));
+
+        await crud.resolveAll(filePath);
+        await crud.toggleResolvedStatus(created.id, filePath);
+        assert.deepStrictEqual(
+            annotations.get(filePath)?.[0].history?.slice(5).map(entry => [entry.field, entry.previousValue, entry.newValue]),
+            [['status', 'resolved', 'open']]
+        );
+    });
+});
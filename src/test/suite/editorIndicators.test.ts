@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AnnotationDecorations, getOverviewRulerColor } from '../../managers/annotationDecorations';
+import { getGutterGlyph, renderGutterIconSvg } from '../../managers/annotationGutter';
+import { AnnotationCodeLensProvider } from '../../ui/annotationCodeLensProvider';
+import { formatFileDecorationBadge, summarizeAnnotatedPaths } from '../../ui/annotationFileDecorationProvider';
+import { buildAnnotationHover } from '../../ui/annotationHoverProvider';
+import { Annotation } from '../../types';
+import { createAnnotation, createCustomTag } from './testUtils';
+
+suite('Editor indicators', () => {
+    test('picks gutter glyphs from priority, primary tag, and resolution', () => {
+        const filePath = 'c:\\workspace\\gutter.ts';
+        const bugTag = createCustomTag({ id: 'bug', name: 'bug', metadata: { color: '#f44336' } });
+        const resolveTag = (tagId: string) => tagId === bugTag.id ? bugTag : undefined;
+
+        assert.deepStrictEqual(
+            getGutterGlyph(createAnnotation({ filePath, priority: 'critical', color: '#2196f3' }), 'priority', resolveTag),
+            { shape: 'diamond', color: '#2196f3' }
+        );
+        assert.strictEqual(getGutterGlyph(createAnnotation({ filePath, tags: ['bug'] }), 'priority', resolveTag, 'low').shape, 'ring');
+        assert.strictEqual(getGutterGlyph(createAnnotation({ filePath }), 'priority', resolveTag).shape, 'bar');
+        assert.deepStrictEqual(
+            getGutterGlyph(createAnnotation({ filePath, tags: ['bug'] }), 'tag', resolveTag),
+            { shape: 'badge', color: '#f44336', letter: 'B' }
+        );
+        assert.strictEqual(getGutterGlyph(createAnnotation({ filePath, resolved: true, tags: ['bug'] }), 'tag', resolveTag).shape, 'check');
+        assert.match(renderGutterIconSvg({ shape: 'badge', color: '#f44336', letter: '<' }), /&lt;<\/text>/);
+    });
+
+    test('colors overview ruler marks by priority or tag and keeps resolved annotations when asked', async () => {
+        const filePath = 'c:\\workspace\\ruler.ts';
+        const bugTag = createCustomTag({ id: 'bug', name: 'bug', metadata: { color: '#9c27b0' } });
+        const resolveTag = (tagId: string) => tagId === bugTag.id ? bugTag : undefined;
+        const tagged = createAnnotation({ filePath, id: 'tagged', tags: ['bug'], color: '#2196f3' });
+
+        assert.strictEqual(getOverviewRulerColor(tagged, 'priority', resolveTag, 'critical'), '#f44336');
+        assert.strictEqual(getOverviewRulerColor(tagged, 'priority', resolveTag), '#2196f3');
+        assert.strictEqual(getOverviewRulerColor(tagged, 'tag', resolveTag), '#9c27b0');
+
+        const annotations = [
+            tagged,
+            createAnnotation({
+                filePath,
+                id: 'closed',
+                resolved: true,
+                range: new vscode.Range(new vscode.Position(2, 0), new vscode.Position(2, 5)),
+            }),
+        ];
+        const decorated: vscode.Range[][] = [];
+        const editor = {
+            document: { uri: vscode.Uri.file(filePath) },
+            setDecorations: (_type: vscode.TextEditorDecorationType, ranges: vscode.Range[]) => {
+                if (ranges.length > 0) {
+                    decorated.push(ranges);
+                }
+            },
+        } as unknown as vscode.TextEditor;
+        const configuration = vscode.workspace.getConfiguration('annotative');
+        const decorations = new AnnotationDecorations({ resolveTag });
+
+        try {
+            // Highlight and ruler mark for the open annotation, gutter icons for both
+            decorations.updateDecorations(editor, annotations);
+            assert.strictEqual(decorated.length, 4);
+
+            decorated.length = 0;
+            await configuration.update('decorations.showResolved', true, vscode.ConfigurationTarget.Workspace);
+            decorations.updateDecorations(editor, annotations);
+            assert.strictEqual(decorated.length, 6);
+        } finally {
+            decorations.dispose();
+            await configuration.update('decorations.showResolved', undefined, vscode.ConfigurationTarget.Workspace);
+        }
+    });
+
+    test('builds hovers with tag colors, priority, and action links for resolved annotations', () => {
+        const filePath = 'c:\\workspace\\hover.ts';
+        const bugTag = createCustomTag({ id: 'bug', name: 'bug', metadata: { color: '#f44336' } });
+        const annotation = createAnnotation({
+            filePath,
+            id: 'hovered',
+            resolved: true,
+            status: 'resolved',
+            tags: ['bug'],
+            comment: 'Use a guard:\n\n```ts\nif (!value) { return; }\n```',
+        });
+
+        const [details, comment] = buildAnnotationHover(annotation, {
+            resolveTag: tagId => tagId === bugTag.id ? bugTag : undefined,
+            priority: 'high',
+        });
+
+        assert.match(details.value, /\*\*Resolved\*\*/);
+        assert.match(details.value, /Priority: high/);
+        assert.match(details.value, /<span style="color:#f44336;">●<\/span> bug/);
+        assert.match(details.value, /\[\$\(issues\) Reopen\]\(command:annotative\.runAnnotationAction\?/);
+        assert.ok(details.value.includes(encodeURIComponent(JSON.stringify(['revealInSidebar', 'hovered', filePath]))));
+        assert.deepStrictEqual(details.isTrusted, { enabledCommands: ['annotative.runAnnotationAction'] });
+        assert.strictEqual(comment.value, annotation.comment);
+        assert.ok(!comment.isTrusted);
+    });
+
+    test('counts open annotations per file and rolls them up to workspace folders', () => {
+        const root = path.join(path.sep, 'workspace');
+        const nested = path.join(root, 'src', 'core', 'engine.ts');
+        const sibling = path.join(root, 'src', 'util.ts');
+        const outside = path.join(path.sep, 'elsewhere', 'notes.md');
+        const summaries = summarizeAnnotatedPaths([
+            createAnnotation({ filePath: nested, id: 'a', priority: 'low' }),
+            createAnnotation({ filePath: nested, id: 'b', priority: 'critical' }),
+            createAnnotation({ filePath: nested, id: 'closed', priority: 'critical', resolved: true }),
+            createAnnotation({ filePath: sibling, id: 'c' }),
+            createAnnotation({ filePath: outside, id: 'd', priority: 'high' }),
+        ], annotation => annotation.priority, [root]);
+
+        assert.deepStrictEqual(summaries.get(nested), { count: 2, priority: 'critical' });
+        assert.deepStrictEqual(summaries.get(sibling), { count: 1, priority: undefined });
+        assert.deepStrictEqual(summaries.get(path.join(root, 'src')), { count: 3, priority: 'critical' });
+        assert.deepStrictEqual(summaries.get(root), { count: 3, priority: 'critical' });
+        assert.deepStrictEqual(summaries.get(outside), { count: 1, priority: 'high' });
+        assert.strictEqual(summaries.has(path.dirname(outside)), false);
+        assert.strictEqual(summaries.has(path.dirname(root)), false);
+        assert.strictEqual(formatFileDecorationBadge(250), '99');
+    });
+
+    test('rolls up files whose names start with two dots to their workspace folder', () => {
+        const root = path.join(path.sep, 'workspace');
+        const dotted = path.join(root, '..env.md');
+        const summaries = summarizeAnnotatedPaths([createAnnotation({ filePath: dotted, id: 'dotted' })], () => undefined, [root]);
+
+        assert.deepStrictEqual(summaries.get(dotted), { count: 1, priority: undefined });
+        assert.deepStrictEqual(summaries.get(root), { count: 1, priority: undefined });
+    });
+
+    test('summarizes annotations per line with quick actions in CodeLens', () => {
+        const filePath = 'c:\\workspace\\lens.ts';
+        const range = (line: number) => new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, 4));
+        const annotations: Annotation[] = [
+            createAnnotation({ filePath, id: 'closed', range: range(3), resolved: true }),
+            createAnnotation({ filePath, id: 'open', range: range(3) }),
+            createAnnotation({ filePath, id: 'single', range: range(9), resolved: true }),
+        ];
+        const provider = new AnnotationCodeLensProvider({
+            onDidChangeAnnotations: () => ({ dispose: () => undefined }),
+            getAnnotationsForDocument: () => annotations,
+        } as unknown as never);
+
+        try {
+            const lenses = provider.provideCodeLenses({ uri: vscode.Uri.file(filePath) } as vscode.TextDocument);
+            const describe = (lens: vscode.CodeLens) => [
+                lens.range.start.line,
+                lens.command?.title,
+                (lens.command?.arguments?.[0] as { annotation: Annotation }).annotation.id,
+            ];
+
+            assert.deepStrictEqual(lenses.map(describe), [
+                [3, '$(comment) 2 annotations · 1 open, 1 resolved', 'open'],
+                [3, 'Resolve', 'open'],
+                [3, 'Edit', 'open'],
+                [3, 'Ask Copilot', 'open'],
+                [9, '$(comment) 1 annotation · 1 resolved', 'single'],
+                [9, 'Reopen', 'single'],
+                [9, 'Edit', 'single'],
+                [9, 'Ask Copilot', 'single'],
+            ]);
+        } finally {
+            provider.dispose();
+        }
+    });
+});
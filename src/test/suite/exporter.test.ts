@@ -44,6 +44,58 @@ suite('Exporters', () => {
         assert.ok(markdown.includes('**Tags:** Bug, Docs'));
     });
 
+    test('includes reply threads as a discussion section in markdown exports', async () => {
+        const filePath = await ensureWorkspaceFile('exports/discussion.ts', 'export const retries = 3;\n');
+        const annotations = new Map<string, Annotation[]>([
+            [
+                filePath,
+                [
+                    createAnnotation({
+                        filePath,
+                        id: 'discussion-export',
+                        comment: 'Why three retries?',
+                        replies: [
+                            { id: 'reply-1', author: 'Reviewer', body: 'Matches the upstream SLA.', timestamp: new Date() },
+                            { id: 'reply-2', author: 'Author', body: 'Documented it.', timestamp: new Date(), edited: true },
+                        ],
+                    }),
+                ],
+            ],
+        ]);
+        const exporter = new AnnotationExporter(annotations);
+
+        const markdown = await exporter.exportToMarkdown();
+
+        assert.ok(markdown.includes('**Comment:**\nWhy three retries?'));
+        assert.ok(markdown.includes('**Discussion:**'));
+        assert.ok(markdown.includes('- **Reviewer** ('));
+        assert.ok(markdown.includes('): Matches the upstream SLA.'));
+        assert.ok(markdown.includes('(edited): Documented it.'));
+    });
+
+    test('keeps multi-line replies inside their discussion bullet', async () => {
+        const filePath = await ensureWorkspaceFile('exports/multiline-reply.ts', 'export const timeout = 30;\n');
+        const annotations = new Map<string, Annotation[]>([
+            [
+                filePath,
+                [
+                    createAnnotation({
+                        filePath,
+                        id: 'multiline-reply-export',
+                        replies: [
+                            { id: 'reply-1', author: 'Reviewer', body: 'Two reasons:\n- the proxy\r\n- the retries', timestamp: new Date() },
+                        ],
+                    }),
+                ],
+            ],
+        ]);
+        const exporter = new AnnotationExporter(annotations);
+
+        const markdown = await exporter.exportToMarkdown();
+
+        assert.ok(markdown.includes('): Two reasons:\n  - the proxy\n  - the retries\n'));
+    });
+
     test('exports AI-specific formats and intent filters from current behavior', async () => {
         const filePath = await ensureWorkspaceFile('exports/ai.ts', 'export function render() {}\n');
         const annotations = [
@@ -1,5 +1,9 @@
 import * as assert from 'assert';
-import { AnnotationManager } from '../../managers';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AnnotationManager, AnnotationUndoConflictError } from '../../managers';
+import { captureAnnotationAnchor } from '../../managers/annotationAnchors';
 import { AnnotationStorageFile, TagStorageFile } from '../../types';
 import {
     clearTestWorkspace,
@@ -7,7 +11,9 @@ import {
     createCustomTag,
     createTestContext,
     ensureWorkspaceFile,
+    getStorageKey,
     getStoragePaths,
+    getWorkspaceRoot,
     readJson,
     toStoredAnnotation,
     writeJson,
@@ -57,7 +63,7 @@ suite('AnnotationManager', () => {
         assert.strictEqual(manager.getAnnotationPriority(loadedAnnotation), 'high');
 
         const persisted = await readJson<AnnotationStorageFile>(annotationsPath);
-        assert.deepStrictEqual(persisted.workspaceAnnotations[filePath][0].tags, ['needs-review']);
+        assert.deepStrictEqual(persisted.workspaceAnnotations[getStorageKey(filePath)][0].tags, ['needs-review']);
 
         manager.dispose();
     });
@@ -106,9 +112,202 @@ suite('AnnotationManager', () => {
 
         const deleted = await manager.deleteCustomTag('bug-tag');
         assert.strictEqual(deleted, true);
-        assert.deepStrictEqual(annotation.tags, ['bug-tag', 'critical-tag']);
+        assert.deepStrictEqual(annotation.tags, ['critical-tag']);
         assert.strictEqual(manager.resolveTagLabel('bug-tag'), 'bug-tag');
 
+        assert.ok(await manager.undo());
+        assert.deepStrictEqual(manager.getAnnotationsForFile(filePath)[0].tags, ['bug-tag', 'critical-tag']);
+        assert.strictEqual(manager.resolveTagLabel('bug-tag'), 'Bugs');
+
+        manager.dispose();
+    });
+
+    test('undoes and redoes edits, batches, and deletions across reloads', async () => {
+        await clearTestWorkspace();
+
+        const filePath = await ensureWorkspaceFile('manager-undo.ts', 'const first = 1;\nconst second = 2;\n');
+        await writeJson(getStoragePaths().annotationsPath, {
+            schemaVersion: 3,
+            workspaceAnnotations: {
+                [getStorageKey(filePath)]: [
+                    toStoredAnnotation(createAnnotation({ filePath, id: 'undo-first', comment: 'First.' })),
+                    toStoredAnnotation(createAnnotation({ filePath, id: 'undo-second', comment: 'Second.' })),
+                ],
+            },
+        } satisfies AnnotationStorageFile);
+
+        const workspaceState = new Map<string, unknown>();
+        const context = {
+            ...createTestContext(),
+            workspaceState: {
+                get: (key: string) => workspaceState.get(key),
+                update: async (key: string, value: unknown) => {
+                    workspaceState.set(key, JSON.parse(JSON.stringify(value)));
+                },
+                keys: () => Array.from(workspaceState.keys()),
+            },
+        } as unknown as vscode.ExtensionContext;
+        const manager = new AnnotationManager(context);
+        await manager.ready;
+        const comments = () => manager.getAnnotationsForFile(filePath).map(annotation => annotation.comment);
+
+        await manager.editAnnotation('undo-first', filePath, 'First, edited.', []);
+        await manager.runBatch('Bulk resolve', async () => {
+            await manager.toggleResolvedStatus('undo-first', filePath);
+            await manager.toggleResolvedStatus('undo-second', filePath);
+        });
+        await manager.deleteAll();
+        assert.deepStrictEqual(comments(), []);
+
+        assert.strictEqual(await manager.undo(), 'Delete all');
+        assert.deepStrictEqual(comments(), ['First, edited.', 'Second.']);
+        assert.strictEqual(await manager.undo(), 'Bulk resolve');
+        assert.deepStrictEqual(manager.getAnnotationsForFile(filePath).map(annotation => annotation.resolved), [false, false]);
+        assert.strictEqual(await manager.redo(), 'Bulk resolve');
+        assert.deepStrictEqual(manager.getAnnotationsForFile(filePath).map(annotation => annotation.resolved), [true, true]);
+        manager.dispose();
+
+        const reloaded = new AnnotationManager(context);
+        await reloaded.ready;
+        assert.strictEqual(reloaded.canRedo(), true);
+        assert.strictEqual(await reloaded.undo(), 'Bulk resolve');
+        assert.strictEqual(await reloaded.undo(), 'Edit annotation');
+        assert.deepStrictEqual(reloaded.getAnnotationsForFile(filePath).map(annotation => annotation.comment), ['First.', 'Second.']);
+        assert.ok(reloaded.getAnnotationsForFile(filePath)[0].history?.some(entry => entry.field === 'comment'));
+        assert.strictEqual(await reloaded.undo(), undefined);
+
+        const persisted = await readJson<AnnotationStorageFile>(getStoragePaths().annotationsPath);
+        assert.deepStrictEqual(
+            persisted.workspaceAnnotations[getStorageKey(filePath)].map(annotation => annotation.comment),
+            ['First.', 'Second.']
+        );
+
+        reloaded.dispose();
+    });
+
+    test('refuses to undo over later changes unless asked to and logs undo and redo', async () => {
+        await clearTestWorkspace();
+
+        const filePath = await ensureWorkspaceFile('manager-undo-conflict.ts', 'const value = 1;\n');
+        await writeJson(getStoragePaths().annotationsPath, {
+            schemaVersion: 3,
+            workspaceAnnotations: {
+                [getStorageKey(filePath)]: [toStoredAnnotation(createAnnotation({ filePath, id: 'undo-conflict', comment: 'First.' }))],
+            },
+        } satisfies AnnotationStorageFile);
+
+        const manager = new AnnotationManager(createTestContext());
+        await manager.ready;
+        const annotation = () => manager.getAnnotationsForFile(filePath)[0];
+
+        await manager.editAnnotation('undo-conflict', filePath, 'Edited.', []);
+        // Changed without an undo step, as the storage watcher or a merge would
+        annotation().comment = 'Changed elsewhere.';
+
+        await assert.rejects(manager.undo(), AnnotationUndoConflictError);
+        assert.strictEqual(annotation().comment, 'Changed elsewhere.');
+        assert.strictEqual(manager.canUndo(), true);
+
+        assert.strictEqual(await manager.undo(true), 'Edit annotation');
+        assert.strictEqual(annotation().comment, 'First.');
+        assert.strictEqual(await manager.redo(), 'Edit annotation');
+        assert.strictEqual(annotation().comment, 'Edited.');
+        assert.deepStrictEqual(
+            annotation().history?.slice(-2).map(entry => `${entry.field}: ${entry.newValue}`),
+            ['undo: Edit annotation', 'redo: Edit annotation']
+        );
+
+        manager.dispose();
+    });
+
+    test('moves annotations with renamed files and folders', async () => {
+        await clearTestWorkspace();
+
+        const contents = 'const moved = true;\n';
+        const filePath = await ensureWorkspaceFile('rename-source/manager-rename.ts', contents);
+        const storedAnnotation = createAnnotation({
+            filePath,
+            id: 'rename-target',
+            range: new vscode.Range(0, 6, 0, 11),
+            text: 'moved',
+        });
+        storedAnnotation.anchor = captureAnnotationAnchor(contents, storedAnnotation.range);
+        await writeJson(getStoragePaths().annotationsPath, {
+            schemaVersion: 3,
+            workspaceAnnotations: {
+                [getStorageKey(filePath)]: [toStoredAnnotation(storedAnnotation)],
+            },
+        } satisfies AnnotationStorageFile);
+
+        const manager = new AnnotationManager(createTestContext());
+        await manager.ready;
+
+        const renamedPath = path.join(path.dirname(filePath), 'manager-renamed.ts');
+        await fs.rename(filePath, renamedPath);
+        assert.strictEqual(await manager.renameFiles([{ oldPath: filePath, newPath: renamedPath }]), 1);
+        assert.deepStrictEqual(manager.getAnnotationsForFile(filePath), []);
+        assert.strictEqual(manager.getAnnotationsForFile(renamedPath)[0].filePath, renamedPath);
+
+        const sourceFolder = path.dirname(renamedPath);
+        const targetFolder = path.join(path.dirname(sourceFolder), 'rename-target');
+        const movedPath = path.join(targetFolder, 'manager-renamed.ts');
+        await fs.rename(sourceFolder, targetFolder);
+        await manager.renameFiles([{ oldPath: sourceFolder, newPath: targetFolder }]);
+
+        const moved = manager.getAnnotationsForFile(movedPath)[0];
+        assert.strictEqual(moved.id, 'rename-target');
+        assert.strictEqual(moved.filePath, movedPath);
+        assert.strictEqual(moved.text, 'moved');
+
+        const persisted = await readJson<AnnotationStorageFile>(getStoragePaths().annotationsPath);
+        assert.deepStrictEqual(Object.keys(persisted.workspaceAnnotations), [getStorageKey(movedPath)]);
+
+        manager.dispose();
+    });
+
+    test('follows renames detected by git when files moved while the editor was closed', async () => {
+        await clearTestWorkspace();
+
+        const newPath = await ensureWorkspaceFile('git-renamed.ts', 'const inserted = 1;\nconst tracked = 2;\n');
+        const oldPath = path.join(path.dirname(newPath), 'git-original.ts');
+        const storedAnnotation = createAnnotation({
+            filePath: oldPath,
+            id: 'git-rename-target',
+            range: new vscode.Range(0, 6, 0, 13),
+            text: 'tracked',
+        });
+        storedAnnotation.anchor = captureAnnotationAnchor('const tracked = 2;\n', storedAnnotation.range);
+
+        await writeJson(getStoragePaths().annotationsPath, {
+            schemaVersion: 3,
+            workspaceAnnotations: {
+                [getStorageKey(oldPath)]: [toStoredAnnotation(storedAnnotation)],
+            },
+        } satisfies AnnotationStorageFile);
+
+        const workspaceRoot = getWorkspaceRoot();
+        const manager = new AnnotationManager(createTestContext(), {
+            runGitCommand: async (_cwd, args) => {
+                if (args[0] === 'rev-parse') {
+                    return `${workspaceRoot}\n`;
+                }
+                if (args.includes('diff')) {
+                    return `R086\t${getStorageKey(oldPath)}\t${getStorageKey(newPath)}\n`;
+                }
+                return '';
+            },
+        });
+        await manager.ready;
+
+        assert.deepStrictEqual(manager.getAnnotationsForFile(oldPath), []);
+        const loadedAnnotation = manager.getAnnotationsForFile(newPath)[0];
+        assert.strictEqual(loadedAnnotation.filePath, newPath);
+        assert.strictEqual(loadedAnnotation.range.start.line, 1);
+        assert.strictEqual(loadedAnnotation.anchorStatus?.state, 'anchored');
+
+        const persisted = await readJson<AnnotationStorageFile>(getStoragePaths().annotationsPath);
+        assert.deepStrictEqual(Object.keys(persisted.workspaceAnnotations), [getStorageKey(newPath)]);
+
         manager.dispose();
     });
 });
\ No newline at end of file
@@ -105,4 +105,41 @@ suite('ReviewArtifactManager', () => {
         assert.strictEqual(stored?.exportState?.lastExportedAt, '2026-04-05T11:45:00.000Z');
         assert.strictEqual(stored?.exportState?.exports?.length, 1);
     });
+
+    test('assigns plan review annotations and validates their due dates', async () => {
+        const planText = await readReviewArtifactFixture('plan-basic.md');
+        const manager = new ReviewArtifactManager({
+            clock: () => new Date('2026-04-05T11:45:00.000Z'),
+            createId: () => 'plan-assignee-fixture',
+        });
+
+        await manager.createAndSaveArtifact({
+            kind: 'plan',
+            title: 'Review Plan Assignees',
+            source: {
+                type: 'manualPaste',
+                workspaceFolder: getWorkspaceRoot(),
+            },
+            content: {
+                rawText: planText,
+            },
+        });
+        await manager.addAnnotation('plan-assignee-fixture', {
+            kind: 'requestChange',
+            target: { type: 'section', sectionId: 'goal' },
+            body: 'Clarify the migration safety constraints.',
+        });
+
+        const updated = await manager.updateAnnotation('plan-assignee-fixture', 'requestChange-section-goal-20260405114500000', {
+            assignee: ' Ada ',
+            dueDate: '2026-04-10',
+        });
+
+        assert.strictEqual(updated.annotations[0].assignee, 'Ada');
+        assert.strictEqual(updated.annotations[0].dueDate, '2026-04-10');
+        await assert.rejects(
+            manager.updateAnnotation('plan-assignee-fixture', 'requestChange-section-goal-20260405114500000', { dueDate: 'soon' }),
+            /Invalid due date/
+        );
+    });
 });
\ No newline at end of file
@@ -89,4 +89,23 @@ suite('ReviewArtifactStorageManager', () => {
         );
         assert.ok(!entries.includes('broken.json'));
     });
-});
\ No newline at end of file
+
+    test('detects review artifact files changed outside this session', async () => {
+        const storage = new ReviewArtifactStorageManager();
+        const artifact = createReviewArtifact({ id: 'watched-artifact' });
+        const { artifactPath } = getReviewStoragePaths(artifact.id);
+
+        await storage.saveArtifact(artifact);
+        assert.strictEqual(await storage.detectExternalChange(artifactPath!), 'unchanged');
+
+        const storedFile = await readJson<ReviewArtifactStorageFile>(artifactPath!);
+        await fs.writeFile(artifactPath!, JSON.stringify({ ...storedFile, artifact: { ...artifact, title: 'Edited elsewhere' } }), 'utf-8');
+        assert.strictEqual(await storage.detectExternalChange(artifactPath!), 'changed');
+
+        await fs.writeFile(artifactPath!, '<<<<<<< HEAD', 'utf-8');
+        assert.strictEqual(await storage.detectExternalChange(artifactPath!), 'unreadable');
+
+        await fs.rm(artifactPath!);
+        assert.strictEqual(await storage.detectExternalChange(artifactPath!), 'deleted');
+    });
+});
@@ -1,7 +1,8 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { AnnotationTagOption } from '../../types';
+import { AnnotationTagOption, SavedView } from '../../types';
 import { SidebarWebview } from '../../ui/sidebarWebview';
+import { FilterState } from '../../ui/webview/types';
 import { createAnnotation, getWorkspaceRoot } from './testUtils';
 
 class FakeWebview {
@@ -54,6 +55,7 @@ suite('SidebarWebview', () => {
         const annotation = createAnnotation({ filePath, id: 'sidebar-initial' });
         const tags: AnnotationTagOption[] = [{ id: 'bug-tag', label: 'Bug', priority: 'high' }];
         const annotationManager = {
+            ensureAnnotationsLoaded: async () => undefined,
             getAllAnnotations: () => [annotation],
             getTagOptions: () => tags,
         };
@@ -95,8 +97,13 @@ suite('SidebarWebview', () => {
             deleteResolved: 0,
         };
         const annotationManager = {
+            ensureAnnotationsLoaded: async () => undefined,
             getAllAnnotations: () => [annotation],
             getTagOptions: () => [{ id: 'bug-tag', label: 'Bug' }],
+            resolveTagLabel: (tagId: string) => tagId === 'bug-tag' ? 'Bug' : tagId,
+            getTagAncestors: () => [],
+            getAnnotationPriority: () => undefined,
+            getCurrentUser: () => 'Reviewer',
             toggleResolvedStatus: async (id: string, targetFilePath: string) => {
                 calls.toggles.push({ id, filePath: targetFilePath });
                 annotation.resolved = !annotation.resolved;
@@ -140,10 +147,19 @@ suite('SidebarWebview', () => {
         });
         assert.deepStrictEqual(sidebar.getFilterState(), {
             status: 'resolved',
+            assignee: 'all',
             tag: 'bug-tag',
             search: 'sidebar',
             groupBy: 'file',
+            view: '',
         });
+        const searchResults = webview.postedMessages.at(-1);
+        assert.strictEqual(searchResults?.command, 'searchResults');
+        assert.deepStrictEqual(searchResults?.ids, ['sidebar-actions']);
+
+        await webview.dispatch({ command: 'filterStateChanged', filters: { search: 'priority>=urgent' } });
+        assert.match(String(webview.postedMessages.at(-1)?.error), /Unknown priority: urgent/);
+        await webview.dispatch({ command: 'filterStateChanged', filters: { search: 'sidebar' } });
 
         await webview.dispatch({ command: 'toggleResolved', id: 'sidebar-actions' });
         await webview.dispatch({ command: 'addTag', id: 'sidebar-actions', tag: 'docs-tag' });
@@ -166,6 +182,7 @@ suite('SidebarWebview', () => {
     test('maps sidebar workflow actions to shipped commands', async () => {
         const executedCommands: string[] = [];
         const annotationManager = {
+            ensureAnnotationsLoaded: async () => undefined,
             getAllAnnotations: () => [],
             getTagOptions: () => [],
         };
@@ -197,4 +214,60 @@ suite('SidebarWebview', () => {
             'workbench.action.showCommands',
         ]);
     });
-});
\ No newline at end of file
+
+    test('applies saved views and keeps filters in workspace state', () => {
+        const filePath = `${getWorkspaceRoot()}\\views.ts`;
+        const annotations = [
+            createAnnotation({ filePath, id: 'bug', tags: ['bug-tag'] }),
+            createAnnotation({ filePath, id: 'docs', tags: ['docs-tag'], status: 'resolved', resolved: true }),
+            createAnnotation({ filePath, id: 'other', tags: ['perf-tag'] }),
+        ];
+        const annotationManager = {
+            ensureAnnotationsLoaded: async () => undefined,
+            getAllAnnotations: () => annotations,
+            getTagOptions: () => [],
+            resolveTagLabel: (tagId: string) => tagId,
+            getTagAncestors: () => [],
+            getAnnotationPriority: () => undefined,
+            getCurrentUser: () => 'Reviewer',
+        };
+        const views: SavedView[] = [{ name: 'Triage', tags: ['bug-tag', 'docs-tag'], groupBy: 'tag' }];
+        const savedViews = {
+            getViews: () => views,
+            getView: (name: string) => views.find(view => view.name === name),
+            onDidChangeViews: () => new vscode.Disposable(() => undefined),
+        };
+        const stored = new Map<string, unknown>([['annotative.sidebar.filterState', { search: 'status:open' }]]);
+        const workspaceState = {
+            get: (key: string) => stored.get(key),
+            update: async (key: string, value: unknown) => {
+                stored.set(key, value);
+            },
+        };
+        const sidebar = new SidebarWebview(
+            vscode.Uri.file(getWorkspaceRoot()),
+            annotationManager as never,
+            savedViews as never,
+            workspaceState as never
+        );
+        const webview = new FakeWebview();
+
+        sidebar.resolveWebviewView(
+            new FakeWebviewView(webview) as unknown as vscode.WebviewView,
+            {} as vscode.WebviewViewResolveContext,
+            {} as vscode.CancellationToken
+        );
+        assert.strictEqual(sidebar.getFilterState().search, 'status:open');
+        assert.deepStrictEqual(webview.postedMessages.find(message => message.command === 'savedViewsUpdated')?.views, views);
+
+        sidebar.applySavedView('Triage');
+        assert.strictEqual(sidebar.getFilterState().groupBy, 'tag');
+        assert.deepStrictEqual(webview.postedMessages.at(-1)?.ids, ['bug']);
+        assert.strictEqual((stored.get('annotative.sidebar.filterState') as FilterState).view, 'Triage');
+
+        sidebar.clearFilters();
+        views.length = 0;
+        sidebar.setFilterState({ view: 'Triage' });
+        assert.strictEqual(sidebar.getFilterState().view, '');
+    });
+});
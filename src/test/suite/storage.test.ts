@@ -2,15 +2,20 @@ import * as assert from 'assert';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { AnnotationStorageManager } from '../../managers';
-import { AnnotationStorageFile, TagStorageFile } from '../../types';
+import { AnnotationManager, AnnotationStorageManager } from '../../managers';
+import { Annotation, AnnotationHistoryEntry, AnnotationReply, AnnotationShardFile, AnnotationStorageFile, TagStorageFile } from '../../types';
+import { toWorkspaceStorageKey } from '../../utils/workspaceContext';
 import {
     clearTestWorkspace,
     createAnnotation,
     createCustomTag,
     createTestContext,
     ensureWorkspaceFile,
+    getStorageKey,
     getStoragePaths,
+    getWorkspaceRoot,
+    readJson,
+    toStoredAnnotation,
     writeJson,
 } from './testUtils';
 
@@ -34,6 +39,8 @@ suite('AnnotationStorageManager', () => {
             tags: ['needs-review'],
             priority: 'high',
             color: '#42A5F5',
+            assignee: 'Ada',
+            dueDate: '2026-05-01',
         });
         const customTags = [
             createCustomTag({
@@ -65,6 +72,186 @@ suite('AnnotationStorageManager', () => {
         assert.deepStrictEqual(loadedAnnotation.tags, ['needs-review']);
         assert.strictEqual(loadedAnnotation.priority, 'high');
         assert.strictEqual(loadedAnnotation.color, '#42A5F5');
+        assert.strictEqual(loadedAnnotation.assignee, 'Ada');
+        assert.strictEqual(loadedAnnotation.dueDate, '2026-05-01');
+    });
+
+    test('round-trips notebook cell and whole-file targets and drops malformed ones', async () => {
+        const annotations = new Map();
+        const storage = new AnnotationStorageManager(annotations, createTestContext());
+        const notebookPath = await ensureWorkspaceFile('storage-targets.ipynb', '{"cells": []}\n');
+        const imagePath = await ensureWorkspaceFile('storage-targets.png', 'not really a png');
+
+        annotations.set(notebookPath, [
+            createAnnotation({ filePath: notebookPath, id: 'cell', target: { type: 'notebookCell', cellId: 'a1b2', cellIndex: 3 } }),
+        ]);
+        annotations.set(imagePath, [
+            createAnnotation({ filePath: imagePath, id: 'image', text: '', target: { type: 'file' } }),
+        ]);
+
+        await storage.saveAnnotations();
+        annotations.clear();
+        await storage.loadAnnotations();
+
+        assert.deepStrictEqual(annotations.get(notebookPath)?.[0].target, { type: 'notebookCell', cellId: 'a1b2', cellIndex: 3 });
+        assert.deepStrictEqual(annotations.get(imagePath)?.[0].target, { type: 'file' });
+
+        const storageFile = await readJson<AnnotationStorageFile>(getStoragePaths().annotationsPath);
+        storageFile.workspaceAnnotations[getStorageKey(notebookPath)][0].target = { type: 'notebookCell', cellId: '', cellIndex: -1 };
+        await writeJson(getStoragePaths().annotationsPath, storageFile);
+        await storage.loadAnnotations();
+
+        assert.strictEqual(annotations.get(notebookPath)?.[0].target, undefined);
+    });
+
+    test('round-trips reply threads with their timestamps and edited flags', async () => {
+        const annotations = new Map();
+        const storage = new AnnotationStorageManager(annotations, createTestContext());
+        const filePath = await ensureWorkspaceFile('storage-replies.ts', 'const thread = true;\n');
+        const replyTimestamp = new Date('2026-01-02T03:04:05.000Z');
+
+        annotations.set(filePath, [
+            createAnnotation({
+                filePath,
+                id: 'storage-replies',
+                replies: [
+                    { id: 'reply-1', author: 'Reviewer', body: 'Can we cache this?', timestamp: replyTimestamp },
+                    { id: 'reply-2', author: 'Author', body: 'Done in the next commit.', timestamp: replyTimestamp, edited: true },
+                ],
+            }),
+        ]);
+
+        await storage.saveAnnotations();
+        annotations.clear();
+        await storage.loadAnnotations();
+
+        const replies = annotations.get(filePath)?.[0].replies;
+        assert.ok(replies, 'Expected the reply thread to load back from storage.');
+        assert.deepStrictEqual(replies.map((reply: AnnotationReply) => reply.body), ['Can we cache this?', 'Done in the next commit.']);
+        assert.strictEqual(replies[0].timestamp.toISOString(), replyTimestamp.toISOString());
+        assert.strictEqual(replies[0].edited, undefined);
+        assert.strictEqual(replies[1].edited, true);
+    });
+
+    test('round-trips the annotation change log', async () => {
+        const annotations = new Map();
+        const storage = new AnnotationStorageManager(annotations, createTestContext());
+        const filePath = await ensureWorkspaceFile('storage-history.ts', 'const audited = true;\n');
+        const changedAt = new Date('2026-02-03T04:05:06.000Z');
+
+        annotations.set(filePath, [
+            createAnnotation({
+                filePath,
+                id: 'storage-history',
+                history: [
+                    { timestamp: changedAt, author: 'Reviewer', field: 'created', newValue: 'Audit me.' },
+                    { timestamp: changedAt, author: 'Author', field: 'tags', previousValue: [], newValue: ['bug'] },
+                ],
+            }),
+        ]);
+
+        await storage.saveAnnotations();
+        annotations.clear();
+        await storage.loadAnnotations();
+
+        const history: AnnotationHistoryEntry[] = annotations.get(filePath)?.[0].history;
+        assert.deepStrictEqual(history.map(entry => [entry.author, entry.field, entry.newValue]), [
+            ['Reviewer', 'created', 'Audit me.'],
+            ['Author', 'tags', ['bug']],
+        ]);
+        assert.strictEqual(history[1].timestamp.toISOString(), changedAt.toISOString());
+        assert.deepStrictEqual(history[1].previousValue, []);
+    });
+
+    test('migrates boolean resolution into workflow statuses on load', async () => {
+        const annotations = new Map();
+        const storage = new AnnotationStorageManager(annotations, createTestContext());
+        const filePath = await ensureWorkspaceFile('storage-status.ts', 'const triaged = true;\n');
+        const storageKey = getStorageKey(filePath);
+        const { annotationsPath } = getStoragePaths();
+        const stored = (id: string, resolved: boolean, status?: string) => ({
+            ...toStoredAnnotation(createAnnotation({ filePath, id, resolved })),
+            ...(status ? { status } : {}),
+        });
+
+        await storage.ensureProjectStorage();
+        await writeJson(annotationsPath, {
+            schemaVersion: 3,
+            workspaceAnnotations: {
+                [storageKey]: [
+                    stored('boolean-open', false),
+                    stored('boolean-resolved', true),
+                    stored('in-progress', false, 'inProgress'),
+                    // Resolved by a client that only knows the boolean
+                    stored('stale-status', true, 'inProgress'),
+                    stored('unknown-status', false, 'blocked'),
+                ],
+            },
+        });
+
+        await storage.loadAnnotations();
+
+        const loaded: Annotation[] = annotations.get(filePath);
+        assert.deepStrictEqual(loaded.map(annotation => [annotation.id, annotation.status, annotation.resolved]), [
+            ['boolean-open', 'open', false],
+            ['boolean-resolved', 'resolved', true],
+            ['in-progress', 'inProgress', false],
+            ['stale-status', 'resolved', true],
+            ['unknown-status', 'open', false],
+        ]);
+    });
+
+    test('persists workspace-relative keys and resolves them back to absolute paths', async () => {
+        const annotations = new Map();
+        const storage = new AnnotationStorageManager(annotations, createTestContext());
+        const filePath = await ensureWorkspaceFile('nested/relative-keys.ts', 'const portable = true;\n');
+        const { annotationsPath } = getStoragePaths();
+
+        annotations.set(filePath, [createAnnotation({ filePath, id: 'relative-key' })]);
+        await storage.saveAnnotations();
+
+        const persisted = await readJson<AnnotationStorageFile>(annotationsPath);
+        const storageKey = '.test-artifacts/workspace-files/nested/relative-keys.ts';
+        assert.strictEqual(persisted.schemaVersion, 3);
+        assert.deepStrictEqual(Object.keys(persisted.workspaceAnnotations), [storageKey]);
+        assert.strictEqual(persisted.workspaceAnnotations[storageKey][0].filePath, storageKey);
+
+        annotations.clear();
+        const result = await storage.loadAnnotations();
+
+        assert.strictEqual(result.needsSave, false);
+        assert.strictEqual(annotations.get(filePath)?.[0].filePath, filePath);
+    });
+
+    test('keys files named with leading dots relative to the workspace, but not files above it', () => {
+        const root = getWorkspaceRoot();
+        const outsidePath = path.join(path.dirname(root), 'outside.md');
+
+        assert.strictEqual(toWorkspaceStorageKey(path.join(root, '..env.md'), root), '..env.md');
+        assert.strictEqual(toWorkspaceStorageKey(outsidePath, root), outsidePath);
+    });
+
+    test('migrates absolute keys from another checkout onto the local workspace', async () => {
+        const annotations = new Map();
+        const storage = new AnnotationStorageManager(annotations, createTestContext());
+        const filePath = await ensureWorkspaceFile('migrated/foreign-path.ts', 'const moved = true;\n');
+        const foreignPath = '/home/teammate/checkouts/project/.test-artifacts/workspace-files/migrated/foreign-path.ts';
+        const { annotationsPath } = getStoragePaths();
+
+        await storage.ensureProjectStorage();
+        await writeJson(annotationsPath, {
+            schemaVersion: 2,
+            workspaceAnnotations: {
+                [foreignPath]: [toStoredAnnotation(createAnnotation({ filePath: foreignPath, id: 'foreign-key' }))],
+            },
+        } satisfies AnnotationStorageFile);
+
+        const result = await storage.loadAnnotations();
+
+        assert.strictEqual(result.needsSave, true);
+        assert.strictEqual(annotations.get(filePath)?.[0].id, 'foreign-key');
+        assert.strictEqual(annotations.get(filePath)?.[0].filePath, filePath);
+        assert.ok(!annotations.has(foreignPath));
     });
 
     test('quarantines a corrupted annotation storage file and resets in-memory state', async () => {
@@ -141,4 +328,215 @@ suite('AnnotationStorageManager', () => {
 
         await editor.hide();
     });
-});
\ No newline at end of file
+
+    suite('sharded layout', () => {
+        const configuration = vscode.workspace.getConfiguration('annotative');
+
+        setup(async () => {
+            await configuration.update('storage.layout', 'sharded', vscode.ConfigurationTarget.Workspace);
+        });
+
+        teardown(async () => {
+            await configuration.update('storage.layout', undefined, vscode.ConfigurationTarget.Workspace);
+        });
+
+        test('writes one shard per annotated file and removes shards for emptied files', async () => {
+            const annotations = new Map();
+            const storage = new AnnotationStorageManager(annotations, createTestContext());
+            const firstPath = await ensureWorkspaceFile('shards/first.ts', 'const first = 1;\n');
+            const secondPath = await ensureWorkspaceFile('shards/second.ts', 'const second = 2;\n');
+            const { storageDir, annotationsPath } = getStoragePaths();
+            const shardPath = (filePath: string) => path.join(storageDir, 'annotations', ...getStorageKey(filePath).split('/')) + '.json';
+
+            annotations.set(firstPath, [createAnnotation({ filePath: firstPath, id: 'first-shard' })]);
+            annotations.set(secondPath, [createAnnotation({ filePath: secondPath, id: 'second-shard' })]);
+            await storage.saveAnnotations();
+
+            const firstShard = await readJson<AnnotationShardFile>(shardPath(firstPath));
+            assert.strictEqual(firstShard.filePath, getStorageKey(firstPath));
+            assert.deepStrictEqual(firstShard.annotations.map(annotation => annotation.id), ['first-shard']);
+            await assert.rejects(fs.access(annotationsPath));
+
+            annotations.set(secondPath, []);
+            await storage.saveAnnotations();
+            await assert.rejects(fs.access(shardPath(secondPath)));
+
+            annotations.clear();
+            const result = await storage.loadAnnotations();
+            assert.strictEqual(result.needsSave, false);
+            assert.deepStrictEqual(storage.getUnloadedFilePaths(), [firstPath]);
+        });
+
+        test('reads a shard only once its file is needed', async () => {
+            const annotations = new Map();
+            const storage = new AnnotationStorageManager(annotations, createTestContext());
+            const firstPath = await ensureWorkspaceFile('shards/lazy-first.ts', 'const first = 1;\n');
+            const secondPath = await ensureWorkspaceFile('shards/lazy-second.ts', 'const second = 2;\n');
+            const { storageDir } = getStoragePaths();
+
+            annotations.set(firstPath, [createAnnotation({ filePath: firstPath, id: 'first' })]);
+            annotations.set(secondPath, [createAnnotation({ filePath: secondPath, id: 'second' })]);
+            await storage.saveAnnotations();
+
+            annotations.clear();
+            await storage.loadAnnotations();
+            assert.strictEqual(annotations.size, 0);
+            assert.deepStrictEqual(storage.getUnloadedFilePaths().sort(), [firstPath, secondPath].sort());
+
+            assert.deepStrictEqual(await storage.loadFileAnnotations([firstPath]), [firstPath]);
+            assert.deepStrictEqual(annotations.get(firstPath)?.map((annotation: Annotation) => annotation.id), ['first']);
+            assert.deepStrictEqual(storage.getUnloadedFilePaths(), [secondPath]);
+
+            // Annotating a file before its shard is read keeps the shard's annotations
+            annotations.set(secondPath, [createAnnotation({ filePath: secondPath, id: 'added' })]);
+            await storage.saveAnnotations();
+            const secondShard = await readJson<AnnotationShardFile>(
+                path.join(storageDir, 'annotations', ...getStorageKey(secondPath).split('/')) + '.json'
+            );
+            assert.deepStrictEqual(secondShard.annotations.map(annotation => annotation.id), ['second', 'added']);
+        });
+
+        test('finds and rewrites tags in shards that were not read yet', async () => {
+            const annotations = new Map();
+            const storage = new AnnotationStorageManager(annotations, createTestContext());
+            const filePath = await ensureWorkspaceFile('shards/unopened-tagged.ts', 'const tagged = true;\n');
+            const { storageDir, customTagsPath } = getStoragePaths();
+            await writeJson(customTagsPath, {
+                schemaVersion: 1,
+                customTags: [createCustomTag({ id: 'old-tag', name: 'old-tag' }), createCustomTag({ id: 'new-tag', name: 'new-tag' })],
+            } satisfies TagStorageFile);
+
+            annotations.set(filePath, [createAnnotation({ filePath, id: 'tagged', tags: ['old-tag'] })]);
+            await storage.saveAnnotations();
+
+            const manager = new AnnotationManager(createTestContext());
+            await manager.ready;
+            assert.deepStrictEqual(manager.getAllAnnotations(), []);
+            const plan = manager.getTagManager().planTagDelete('old-tag', 'new-tag');
+            assert.deepStrictEqual((await manager.getTagRewriteImpact(plan)).map(annotation => annotation.id), ['tagged']);
+
+            assert.strictEqual(await manager.deleteCustomTag('old-tag', 'new-tag'), true);
+            assert.deepStrictEqual(manager.getAnnotationsForFile(filePath)[0].tags, ['new-tag']);
+            const shard = await readJson<AnnotationShardFile>(
+                path.join(storageDir, 'annotations', ...getStorageKey(filePath).split('/')) + '.json'
+            );
+            assert.deepStrictEqual(shard.annotations.map(annotation => annotation.tags), [['new-tag']]);
+
+            manager.dispose();
+        });
+
+        test('quarantines a corrupt shard without dropping the other shards', async () => {
+            const annotations = new Map();
+            const storage = new AnnotationStorageManager(annotations, createTestContext());
+            const healthyPath = await ensureWorkspaceFile('shards/healthy.ts', 'const healthy = true;\n');
+            const brokenPath = await ensureWorkspaceFile('shards/broken.ts', 'const broken = true;\n');
+            const { storageDir } = getStoragePaths();
+
+            annotations.set(healthyPath, [createAnnotation({ filePath: healthyPath, id: 'healthy' })]);
+            annotations.set(brokenPath, [createAnnotation({ filePath: brokenPath, id: 'broken' })]);
+            await storage.saveAnnotations();
+
+            const brokenShard = path.join(storageDir, 'annotations', ...getStorageKey(brokenPath).split('/')) + '.json';
+            await fs.writeFile(brokenShard, '{ invalid json', 'utf-8');
+
+            annotations.clear();
+            await storage.loadAnnotations();
+            await storage.loadAllShards();
+            const shardEntries = await fs.readdir(path.dirname(brokenShard));
+
+            assert.strictEqual(annotations.get(healthyPath)?.[0].id, 'healthy');
+            assert.ok(!annotations.has(brokenPath));
+            assert.ok(shardEntries.some(name => /^broken\.ts\.corrupt-.*\.json$/.test(name)));
+        });
+
+        test('migrates between the monolithic file and shards in both directions', async () => {
+            const annotations = new Map();
+            const storage = new AnnotationStorageManager(annotations, createTestContext());
+            const filePath = await ensureWorkspaceFile('shards/migrated.ts', 'const migrated = true;\n');
+            const { storageDir, annotationsPath } = getStoragePaths();
+
+            await storage.ensureProjectStorage();
+            await writeJson(annotationsPath, {
+                schemaVersion: 3,
+                workspaceAnnotations: {
+                    [getStorageKey(filePath)]: [toStoredAnnotation(createAnnotation({ filePath, id: 'migrated' }))],
+                },
+            } satisfies AnnotationStorageFile);
+
+            const toShards = await storage.loadAnnotations();
+            assert.strictEqual(toShards.needsSave, true);
+            await storage.saveAnnotations();
+            await assert.rejects(fs.access(annotationsPath));
+
+            await configuration.update('storage.layout', 'single', vscode.ConfigurationTarget.Workspace);
+            annotations.clear();
+
+            const toSingle = await storage.loadAnnotations();
+            assert.strictEqual(toSingle.needsSave, true);
+            assert.strictEqual(annotations.get(filePath)?.[0].id, 'migrated');
+            await storage.saveAnnotations();
+
+            const persisted = await readJson<AnnotationStorageFile>(annotationsPath);
+            assert.deepStrictEqual(Object.keys(persisted.workspaceAnnotations), [getStorageKey(filePath)]);
+            assert.deepStrictEqual(await fs.readdir(path.join(storageDir, 'annotations')), []);
+        });
+    });
+
+    suite('external changes', () => {
+        test('ignores its own writes', async () => {
+            const annotations = new Map();
+            const storage = new AnnotationStorageManager(annotations, createTestContext());
+            const filePath = await ensureWorkspaceFile('external/own.ts', 'const own = 1;\n');
+
+            annotations.set(filePath, [createAnnotation({ filePath, id: 'own-write' })]);
+            await storage.saveAnnotations();
+
+            const result = await storage.reconcileExternalChanges();
+            assert.strictEqual(result.changed, false);
+            assert.strictEqual(annotations.get(filePath)?.[0].id, 'own-write');
+        });
+
+        test('merges external additions with unsaved in-memory annotations', async () => {
+            const annotations = new Map();
+            const storage = new AnnotationStorageManager(annotations, createTestContext());
+            const filePath = await ensureWorkspaceFile('external/merge.ts', 'const merge = 1;\n');
+            const { annotationsPath } = getStoragePaths();
+            const saved = createAnnotation({ filePath, id: 'saved' });
+            const incoming = createAnnotation({ filePath, id: 'incoming' });
+
+            annotations.set(filePath, [saved]);
+            await storage.saveAnnotations();
+            annotations.set(filePath, [saved, createAnnotation({ filePath, id: 'unsaved' })]);
+            await writeJson(annotationsPath, {
+                schemaVersion: 3,
+                workspaceAnnotations: {
+                    [getStorageKey(filePath)]: [toStoredAnnotation(saved), toStoredAnnotation(incoming)],
+                },
+            } satisfies AnnotationStorageFile);
+
+            const result = await storage.reconcileExternalChanges();
+
+            assert.strictEqual(result.changed, true);
+            assert.strictEqual(result.needsSave, true);
+            assert.deepStrictEqual(result.conflicts, []);
+            assert.deepStrictEqual(annotations.get(filePath)?.map((annotation: Annotation) => annotation.id), ['saved', 'unsaved', 'incoming']);
+        });
+
+        test('keeps memory and the file untouched when storage cannot be read', async () => {
+            const annotations = new Map();
+            const storage = new AnnotationStorageManager(annotations, createTestContext());
+            const filePath = await ensureWorkspaceFile('external/conflicted.ts', 'const conflicted = 1;\n');
+            const { annotationsPath } = getStoragePaths();
+
+            annotations.set(filePath, [createAnnotation({ filePath, id: 'kept' })]);
+            await storage.saveAnnotations();
+            await fs.writeFile(annotationsPath, '<<<<<<< HEAD\n{}\n=======\n{}\n>>>>>>> branch\n', 'utf-8');
+
+            const result = await storage.reconcileExternalChanges();
+
+            assert.strictEqual(result.unreadable, true);
+            assert.strictEqual(annotations.get(filePath)?.[0].id, 'kept');
+            assert.match(await fs.readFile(annotationsPath, 'utf-8'), /^<<<<<<< HEAD/);
+        });
+    });
+});
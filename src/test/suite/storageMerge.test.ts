@@ -0,0 +1,229 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StorageMergeService, mergeStorageFileContents, mergeStorageFiles } from '../../managers';
+import { clearTestWorkspace, getWorkspaceRoot } from './testUtils';
+
+function storedAnnotation(id: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        id,
+        filePath: 'src/app.ts',
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 5 } },
+        text: 'const',
+        comment: `Comment ${id}`,
+        author: 'tester',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        resolved: false,
+        tags: [],
+        ...overrides,
+    };
+}
+
+function annotationFile(annotations: Record<string, unknown>[]): Record<string, unknown> {
+    return {
+        schemaVersion: 3,
+        workspaceAnnotations: { 'src/app.ts': annotations },
+    };
+}
+
+function getMergedAnnotations(merged: unknown): Array<Record<string, unknown>> {
+    return (merged as { workspaceAnnotations: Record<string, Array<Record<string, unknown>>> })
+        .workspaceAnnotations['src/app.ts'];
+}
+
+suite('Storage merge', () => {
+    test('merges annotations added on both sides by id', () => {
+        const base = annotationFile([storedAnnotation('a')]);
+        const ours = annotationFile([storedAnnotation('a'), storedAnnotation('b')]);
+        const theirs = annotationFile([storedAnnotation('a'), storedAnnotation('c')]);
+
+        const result = mergeStorageFiles(base, ours, theirs);
+
+        assert.strictEqual(result.kind, 'annotations');
+        assert.deepStrictEqual(getMergedAnnotations(result.merged).map(annotation => annotation.id), ['a', 'b', 'c']);
+        assert.deepStrictEqual(result.conflicts, []);
+    });
+
+    test('unions tag lists and keeps removals from one side', () => {
+        const base = annotationFile([storedAnnotation('a', { tags: ['bug', 'todo'] })]);
+        const ours = annotationFile([storedAnnotation('a', { tags: ['bug', 'todo', 'security'] })]);
+        const theirs = annotationFile([storedAnnotation('a', { tags: ['bug', 'performance'] })]);
+
+        const result = mergeStorageFiles(base, ours, theirs);
+
+        assert.deepStrictEqual(getMergedAnnotations(result.merged)[0].tags, ['bug', 'security', 'performance']);
+        assert.strictEqual(result.hasUnresolvedConflicts, false);
+    });
+
+    test('prefers the newer side when both edited the same review artifact field', () => {
+        const artifact = (title: string, updatedAt: string) => ({
+            schemaVersion: 1,
+            artifact: { id: 'review-1', title, updatedAt, annotations: [] },
+        });
+
+        const result = mergeStorageFiles(
+            artifact('Original', '2024-01-01T00:00:00.000Z'),
+            artifact('Ours', '2024-01-02T00:00:00.000Z'),
+            artifact('Theirs', '2024-01-03T00:00:00.000Z')
+        );
+
+        const merged = result.merged as { artifact: { title: string; updatedAt: string } };
+        assert.strictEqual(result.kind, 'reviewArtifact');
+        assert.strictEqual(merged.artifact.title, 'Theirs');
+        assert.strictEqual(merged.artifact.updatedAt, '2024-01-03T00:00:00.000Z');
+        assert.deepStrictEqual(result.conflicts.map(conflict => conflict.resolution), ['theirs', 'theirs']);
+        assert.strictEqual(result.hasUnresolvedConflicts, false);
+    });
+
+    test('reports field conflicts that cannot be ordered by time', () => {
+        const base = annotationFile([storedAnnotation('a')]);
+        const ours = annotationFile([storedAnnotation('a', { comment: 'Ours' })]);
+        const theirs = annotationFile([storedAnnotation('a', { comment: 'Theirs' })]);
+
+        const result = mergeStorageFiles(base, ours, theirs);
+
+        assert.strictEqual(getMergedAnnotations(result.merged)[0].comment, 'Ours');
+        assert.strictEqual(result.hasUnresolvedConflicts, true);
+        assert.deepStrictEqual(result.conflicts, [{
+            path: 'workspaceAnnotations["src/app.ts"][a].comment',
+            kind: 'field',
+            resolution: 'ours',
+            resolved: false,
+        }]);
+    });
+
+    test('prefers the annotation with the later change log entry', () => {
+        const edited = (comment: string, timestamp: string) => storedAnnotation('a', {
+            comment,
+            history: [{ field: 'comment', author: 'tester', timestamp, previousValue: 'Comment a', newValue: comment }],
+        });
+
+        const result = mergeStorageFiles(
+            annotationFile([storedAnnotation('a')]),
+            annotationFile([edited('Ours', '2024-01-03T00:00:00.000Z')]),
+            annotationFile([edited('Theirs', '2024-01-02T00:00:00.000Z')])
+        );
+
+        const merged = getMergedAnnotations(result.merged)[0];
+        assert.strictEqual(merged.comment, 'Ours');
+        assert.strictEqual((merged.history as unknown[]).length, 2);
+        assert.strictEqual(result.hasUnresolvedConflicts, false);
+    });
+
+    test('takes a range from one side instead of mixing its ends', () => {
+        const range = (startLine: number, endLine: number) => ({
+            start: { line: startLine, character: 0 },
+            end: { line: endLine, character: 5 },
+        });
+
+        const result = mergeStorageFiles(
+            annotationFile([storedAnnotation('a', { range: range(0, 0) })]),
+            annotationFile([storedAnnotation('a', { range: range(2, 2) })]),
+            annotationFile([storedAnnotation('a', { range: range(0, 4) })])
+        );
+
+        assert.deepStrictEqual(getMergedAnnotations(result.merged)[0].range, range(2, 2));
+        assert.deepStrictEqual(result.conflicts.map(conflict => conflict.path), ['workspaceAnnotations["src/app.ts"][a].range']);
+    });
+
+    test('keeps an annotation edited on one side and deleted on the other', () => {
+        const base = annotationFile([storedAnnotation('a'), storedAnnotation('b')]);
+        const ours = annotationFile([storedAnnotation('a')]);
+        const theirs = annotationFile([storedAnnotation('a'), storedAnnotation('b', { resolved: true })]);
+
+        const result = mergeStorageFiles(base, ours, theirs);
+
+        assert.deepStrictEqual(getMergedAnnotations(result.merged).map(annotation => annotation.id), ['a', 'b']);
+        assert.strictEqual(result.conflicts[0].kind, 'modifyDelete');
+        assert.strictEqual(result.hasUnresolvedConflicts, true);
+    });
+
+    test('treats a missing base as an add/add merge and rejects invalid JSON', () => {
+        const ours = JSON.stringify({ schemaVersion: 2, customTags: [{ id: 'alpha', name: 'Alpha' }] });
+        const theirs = JSON.stringify({ schemaVersion: 3, customTags: [{ id: 'beta', name: 'Beta' }] });
+
+        const result = mergeStorageFileContents(undefined, ours, theirs);
+
+        assert.deepStrictEqual(JSON.parse(result.text), {
+            schemaVersion: 3,
+            customTags: [{ id: 'alpha', name: 'Alpha' }, { id: 'beta', name: 'Beta' }],
+        });
+        assert.throws(() => mergeStorageFileContents(undefined, '{', theirs), /ours version as JSON/);
+    });
+
+    suite('StorageMergeService', () => {
+        setup(async () => {
+            await clearTestWorkspace();
+        });
+
+        teardown(async () => {
+            await clearTestWorkspace();
+        });
+
+        test('merges conflicted storage files from index stages and stages clean results', async () => {
+            const workspaceRoot = getWorkspaceRoot();
+            const storageDirectory = path.join(workspaceRoot, '.annotative');
+            await fs.mkdir(storageDirectory, { recursive: true });
+            const stages: Record<string, string> = {
+                ':1:.annotative/annotations.json': JSON.stringify(annotationFile([storedAnnotation('a')])),
+                ':2:.annotative/annotations.json': JSON.stringify(annotationFile([storedAnnotation('a'), storedAnnotation('b')])),
+                ':3:.annotative/annotations.json': JSON.stringify(annotationFile([storedAnnotation('a'), storedAnnotation('c')])),
+            };
+            const gitCalls: string[][] = [];
+            const service = new StorageMergeService({
+                runGitCommand: async (_cwd, args) => {
+                    gitCalls.push(args);
+                    if (args[0] === 'rev-parse') {
+                        return `${workspaceRoot}\n`;
+                    }
+                    if (args[0] === 'diff') {
+                        return '.annotative/annotations.json\nsrc/app.ts\n';
+                    }
+                    if (args[0] === 'show') {
+                        return stages[args[1]];
+                    }
+                    return '';
+                },
+            });
+
+            const resolutions = await service.resolveConflicts(storageDirectory);
+
+            assert.strictEqual(resolutions.length, 1);
+            assert.strictEqual(resolutions[0].staged, true);
+            const written = JSON.parse(await fs.readFile(path.join(storageDirectory, 'annotations.json'), 'utf-8'));
+            assert.deepStrictEqual(getMergedAnnotations(written).map(annotation => annotation.id), ['a', 'b', 'c']);
+            assert.deepStrictEqual(gitCalls[gitCalls.length - 1], ['add', '--', '.annotative/annotations.json']);
+        });
+
+        test('points git at a copy of the driver outside the extension folder', async () => {
+            const repositoryRoot = path.join(getWorkspaceRoot(), '.test-artifacts', 'repository');
+            const storageDirectory = path.join(repositoryRoot, '.annotative');
+            const bundledPath = path.join(getWorkspaceRoot(), '.test-artifacts', 'extension-1.0.0', 'mergeDriver.js');
+            const installDirectory = path.join(getWorkspaceRoot(), '.test-artifacts', 'global-storage');
+            await fs.mkdir(storageDirectory, { recursive: true });
+            await fs.mkdir(path.dirname(bundledPath), { recursive: true });
+            await fs.writeFile(bundledPath, '// driver 1\n', 'utf-8');
+            const gitCalls: string[][] = [];
+            const service = new StorageMergeService({
+                runGitCommand: async (_cwd, args) => {
+                    gitCalls.push(args);
+                    return args[0] === 'rev-parse' ? `${repositoryRoot}\n` : '';
+                },
+            });
+
+            assert.strictEqual(await service.updateInstalledDriver(bundledPath, installDirectory), false);
+            const result = await service.installMergeDriver(storageDirectory, bundledPath, installDirectory);
+
+            assert.strictEqual(result.driverPath, path.join(installDirectory, 'mergeDriver.js'));
+            assert.deepStrictEqual(gitCalls[gitCalls.length - 1], [
+                'config',
+                'merge.annotative.driver',
+                `node "${result.driverPath.split(path.sep).join('/')}" %O %A %B %P`,
+            ]);
+
+            await fs.writeFile(bundledPath, '// driver 2\n', 'utf-8');
+            assert.strictEqual(await service.updateInstalledDriver(bundledPath, installDirectory), true);
+            assert.strictEqual(await fs.readFile(result.driverPath, 'utf-8'), '// driver 2\n');
+        });
+    });
+});
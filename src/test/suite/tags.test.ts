@@ -0,0 +1,211 @@
+import * as assert from 'assert';
+import { createTagPack, parseTagPack, rewriteTagIds, TagManager, TagPackConflictChoice } from '../../tags';
+import { filterAnnotations } from '../../ui/filtering';
+import { AnnotationQueryContext } from '../../ui/filtering/annotationQuery';
+import { groupByTag } from '../../ui/grouping';
+import { createAnnotation, createCustomTag } from './testUtils';
+
+suite('Hierarchical tags', () => {
+    test('creates nested tags with their parents and inherits color and priority', () => {
+        const tagManager = new TagManager();
+        tagManager.createCustomTag('Security', 'issue', { color: '#FF5252', priority: 'high' });
+        const xss = tagManager.createCustomTag('Security/Web/XSS', 'issue');
+        const crypto = tagManager.createCustomTag('Crypto', 'issue', { priority: 'critical' }, 'security');
+
+        assert.strictEqual(xss.id, 'security/web/xss');
+        assert.strictEqual(xss.parent, 'security/web');
+        assert.strictEqual(tagManager.getTag('security/web')?.parent, 'security');
+        assert.strictEqual(crypto.id, 'security/crypto');
+        assert.strictEqual(tagManager.getTagPath('security/web/xss'), 'Security/Web/XSS');
+        assert.deepStrictEqual(tagManager.getAncestorIds('security/web/xss'), ['security/web', 'security']);
+        assert.deepStrictEqual(tagManager.getDescendantIds('security').sort(), ['security/crypto', 'security/web', 'security/web/xss']);
+
+        assert.strictEqual(tagManager.getTagColor('security/web/xss'), '#FF5252');
+        assert.strictEqual(tagManager.getTagPriority('security/web/xss'), 'high');
+        assert.strictEqual(tagManager.getTagPriority('security/crypto'), 'critical');
+        assert.deepStrictEqual(tagManager.getResolvedTag('security/crypto')?.metadata, { color: '#FF5252', priority: 'critical' });
+
+        tagManager.deleteCustomTag('security/web');
+        assert.strictEqual(tagManager.getTag('security/web/xss')?.parent, 'security');
+    });
+
+    test('validates names, depth, and cycles', () => {
+        const tagManager = new TagManager();
+        tagManager.createCustomTag('a/b/c', 'custom');
+
+        assert.strictEqual(tagManager.validateTagName('security/xss').valid, true);
+        assert.match(tagManager.validateTagName('security//xss').error || '', /needs a name/);
+        assert.match(tagManager.validateTagName('a/b/c/d').error || '', /at most 3 levels/);
+        assert.match(tagManager.validateTagName('bug!').error || '', /letters, numbers/);
+        assert.throws(() => tagManager.createCustomTag('d', 'custom', undefined, 'a/b/c'), /at most 3 levels/);
+        assert.throws(() => tagManager.createCustomTag('a/b', 'custom'), /already exists/);
+
+        assert.throws(() => tagManager.moveCustomTag('a', 'a/b'), /below itself or one of its children/);
+        assert.throws(() => tagManager.moveCustomTag('a/b', 'missing'), /does not exist/);
+        tagManager.createCustomTag('x', 'custom');
+        assert.throws(() => tagManager.moveCustomTag('a', 'x'), /at most 3 levels/);
+        assert.strictEqual(tagManager.moveCustomTag('a/b/c', 'x')?.parent, 'x');
+        assert.strictEqual(tagManager.moveCustomTag('a/b/c', undefined)?.parent, undefined);
+    });
+
+    test('moves tags with broken parent links to the top level on import', () => {
+        const tagManager = new TagManager();
+        const issues = tagManager.importCustomTags([
+            createCustomTag({ id: 'a', name: 'A', parent: 'b' }),
+            createCustomTag({ id: 'b', name: 'B', parent: 'a' }),
+            createCustomTag({ id: 'c', name: 'C', parent: 'gone' }),
+            createCustomTag({ id: 'd', name: 'D', parent: 'b' }),
+        ]);
+
+        assert.deepStrictEqual(issues, [
+            { tagId: 'a', error: 'Tag is nested below itself' },
+            { tagId: 'c', error: 'Parent tag \'gone\' does not exist' },
+        ]);
+        assert.strictEqual(tagManager.getTagPath('d'), 'A/B/D');
+    });
+
+    test('filters and groups nested tags under their parents', () => {
+        const tagManager = new TagManager();
+        tagManager.createCustomTag('security/xss', 'issue');
+        tagManager.createCustomTag('security/authz', 'issue');
+        tagManager.createCustomTag('docs', 'reference');
+        const context: AnnotationQueryContext = {
+            resolveTagLabel: tagId => tagManager.getTagPath(tagId) || tagId,
+            getTagAncestors: tagId => tagManager.getAncestorIds(tagId),
+        };
+        const annotations = [
+            createAnnotation({ filePath: 'c:\\workspace\\tags.ts', id: 'xss', tags: ['security/xss'] }),
+            createAnnotation({ filePath: 'c:\\workspace\\tags.ts', id: 'authz', tags: ['security/authz', 'docs'] }),
+            createAnnotation({ filePath: 'c:\\workspace\\tags.ts', id: 'general', tags: ['security'] }),
+            createAnnotation({ filePath: 'c:\\workspace\\tags.ts', id: 'plain' }),
+        ];
+        const ids = (tag: string, search = '') => filterAnnotations(annotations, 'all', tag, search, context).map(annotation => annotation.id);
+
+        assert.deepStrictEqual(ids('security'), ['xss', 'authz', 'general']);
+        assert.deepStrictEqual(ids('security/xss'), ['xss']);
+        assert.deepStrictEqual(ids('all', 'tag:security'), ['xss', 'authz', 'general']);
+        assert.deepStrictEqual(ids('all', 'tag:security/authz'), ['authz']);
+
+        const groups = groupByTag(annotations, context.resolveTagLabel, context.getTagAncestors);
+        assert.deepStrictEqual(groups.map(group => group.label), ['docs (1)', 'security (3)', 'Untagged (1)']);
+        assert.deepStrictEqual(groups[1].annotations.map(annotation => annotation.id), ['general']);
+        assert.deepStrictEqual(groups[1].children.map(group => group.label), ['authz (1)', 'xss (1)']);
+    });
+
+    test('exports tag packs with parents and imports them by id with conflict choices', async () => {
+        const source = new TagManager();
+        source.createCustomTag('security/xss', 'issue', { priority: 'high' });
+        source.createCustomTag('perf', 'action', { color: '#42A5F5' });
+        const pack = createTagPack([source.getTag('security/xss')!], source.getCustomTags(), 'Org review', '2.0.0');
+        assert.deepStrictEqual(pack.customTags.map(tag => tag.id), ['security', 'security/xss']);
+        assert.strictEqual(parseTagPack({ schemaVersion: 3, customTags: [] }, 'customTags').name, 'customTags');
+        assert.throws(() => parseTagPack({ tags: [] }, 'pack'), /Invalid tag pack/);
+
+        const target = new TagManager();
+        target.createCustomTag('security', 'issue', { color: '#FF5252' });
+        target.createCustomTag('perf', 'meta');
+        target.createCustomTag('a11y', 'custom');
+        const choices: Record<string, TagPackConflictChoice> = { security: 'rename', perf: 'replace', a11y: 'keep' };
+        const conflicts: string[] = [];
+        const report = await target.importTagPack(parseTagPack({
+            schemaVersion: 1,
+            name: 'Org review',
+            version: '2.0.0',
+            customTags: [
+                createCustomTag({ id: 'security/xss', name: 'xss', parent: 'security', metadata: { priority: 'high' } }),
+                createCustomTag({ id: 'security', name: 'security' }),
+                createCustomTag({ id: 'perf', name: 'perf', category: 'action', metadata: { color: '#42A5F5' } }),
+                createCustomTag({ id: 'a11y', name: 'a11y', category: 'reference' }),
+                createCustomTag({ id: 'bad', name: 'bad/name' }),
+                createCustomTag({ id: 'loose', name: 'loose', parent: 'missing' }),
+                { id: 'odd', name: 'odd', category: 'unknown' },
+            ],
+        }, 'pack'), async (existing, incoming) => {
+            conflicts.push(existing.id);
+            assert.strictEqual(existing.id, incoming.id);
+            return choices[existing.id];
+        });
+
+        assert.deepStrictEqual(conflicts, ['security', 'perf', 'a11y']);
+        assert.deepStrictEqual(report.added, ['loose', 'security/xss']);
+        assert.deepStrictEqual(report.updated, ['perf']);
+        assert.deepStrictEqual(report.renamed, [{ from: 'security', to: 'security-2' }]);
+        assert.deepStrictEqual(report.skipped, [
+            { id: 'bad', reason: 'Tag name cannot contain /, use parent to nest tags' },
+            { id: 'odd', reason: 'Unknown category \'unknown\'' },
+            { id: 'a11y', reason: 'Kept the existing tag' },
+        ]);
+        assert.deepStrictEqual(report.movedToTopLevel, [{ id: 'loose', reason: 'Parent tag \'missing\' does not exist' }]);
+        assert.strictEqual(target.getTagPath('security/xss'), 'security 2/xss');
+        assert.strictEqual(target.getTag('perf')?.category, 'action');
+        assert.strictEqual(target.getTag('a11y')?.category, 'custom');
+    });
+
+    test('suggests tags learned from comments, folders, file types, and co-occurrence', () => {
+        const tagManager = new TagManager();
+        ['security', 'perf', 'docs', 'tests'].forEach(name => tagManager.createCustomTag(name, 'custom'));
+        const history = [
+            createAnnotation({ filePath: 'c:\\workspace\\src\\auth\\login.ts', comment: 'Validate the token before the redirect', tags: ['security'] }),
+            createAnnotation({ filePath: 'c:\\workspace\\src\\auth\\session.ts', comment: 'Token expiry is never checked', tags: ['security', 'tests'] }),
+            createAnnotation({ filePath: 'c:\\workspace\\src\\auth\\api.ts', comment: 'Validate input before use', tags: ['security', 'tests'] }),
+            createAnnotation({ filePath: 'c:\\workspace\\src\\ui\\list.tsx', comment: 'Slow loop on every render', tags: ['perf'] }),
+            createAnnotation({ filePath: 'c:\\workspace\\src\\ui\\grid.tsx', comment: 'Cache the render result', tags: ['perf'] }),
+            createAnnotation({ filePath: 'c:\\workspace\\docs\\config.md', comment: 'Explain the config options', tags: ['docs'] }),
+        ];
+        const suggest = (comment: string, filePath?: string, tags?: string[]) => tagManager
+            .suggestTagsFromComment(comment, history, { filePath, tags })
+            .map(suggestion => `${suggestion.tag.id}:${suggestion.reason}`);
+
+        assert.deepStrictEqual(suggest('Validate the token', 'c:\\workspace\\src\\auth\\oauth.ts'), ['security:history', 'tests:pattern']);
+        assert.deepStrictEqual(suggest('Validate the token', undefined, ['security']), ['tests:pattern']);
+        assert.deepStrictEqual(suggest('Render is slow', 'c:\\workspace\\src\\ui\\table.tsx'), ['perf:history']);
+        assert.deepStrictEqual(suggest('Looks odd', 'c:\\workspace\\src\\ui\\menu.tsx'), ['perf:context']);
+        assert.deepStrictEqual(suggest('Needs docs'), ['docs:keyword']);
+        assert.deepStrictEqual(suggest('Rename this variable', 'c:\\workspace\\src\\other.py'), []);
+
+        const [first, second] = tagManager.suggestTagsFromComment('Validate the token', history, { filePath: 'c:\\workspace\\src\\auth\\oauth.ts' });
+        assert.ok(first.confidence > second.confidence && first.confidence < 1);
+    });
+
+    test('plans renames, merges, and deletions that rewrite annotation tags', () => {
+        const tagManager = new TagManager();
+        tagManager.createCustomTag('security/xss', 'issue', { priority: 'high' });
+        tagManager.createCustomTag('appsec/authz', 'issue');
+        tagManager.createCustomTag('vuln', 'issue');
+        tagManager.moveCustomTag('vuln', 'security');
+
+        const rename = tagManager.planTagRename('security', 'Web Security');
+        assert.deepStrictEqual(Array.from(rename.replacements), [['security', 'web-security'], ['security/xss', 'web-security/xss']]);
+        assert.deepStrictEqual(
+            rename.tags.map(tag => `${tag.id}<${tag.parent || ''}`),
+            ['web-security<', 'web-security/xss<web-security', 'appsec<', 'appsec/authz<appsec', 'vuln<web-security']
+        );
+        assert.strictEqual(tagManager.getTag('security')?.name, 'security');
+        assert.strictEqual(tagManager.planTagRename('security', 'SECURITY').replacements.size, 0);
+        assert.throws(() => tagManager.planTagRename('security', 'AppSec'), /already exists, merge the tags instead/);
+        assert.throws(() => tagManager.planTagRename('security', 'a/b'), /cannot contain \//);
+
+        const merge = tagManager.planTagMerge('security', 'appsec');
+        assert.deepStrictEqual(Array.from(merge.replacements), [['security', 'appsec']]);
+        assert.deepStrictEqual(
+            merge.tags.map(tag => `${tag.id}<${tag.parent || ''}`),
+            ['security/xss<appsec', 'appsec<', 'appsec/authz<appsec', 'vuln<appsec']
+        );
+        assert.throws(() => tagManager.planTagMerge('security', 'security/xss'), /one of its nested tags/);
+        tagManager.createCustomTag('deep/er/est', 'custom');
+        assert.throws(() => tagManager.planTagMerge('security', 'deep/er/est'), /at most 3 levels/);
+
+        const remove = tagManager.planTagDelete('security', 'appsec/authz');
+        assert.deepStrictEqual(Array.from(remove.replacements), [['security', 'appsec/authz']]);
+        assert.strictEqual(remove.tags.find(tag => tag.id === 'security/xss')?.parent, undefined);
+        assert.throws(() => tagManager.planTagDelete('missing'), /does not exist/);
+
+        assert.deepStrictEqual(rewriteTagIds(['security', 'docs', 'appsec'], merge.replacements), ['appsec', 'docs']);
+        assert.deepStrictEqual(rewriteTagIds(['security', 'docs'], tagManager.planTagDelete('security').replacements), ['docs']);
+
+        tagManager.applyTagRewrite(rename);
+        assert.strictEqual(tagManager.getTagPath('web-security/xss'), 'Web Security/xss');
+        assert.strictEqual(tagManager.getTagPriority('web-security/xss'), 'high');
+        assert.strictEqual(tagManager.getTag('security'), undefined);
+    });
+});
@@ -46,6 +46,10 @@ export async function readJson<T>(filePath: string): Promise<T> {
     return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
 }
 
+export function getStorageKey(filePath: string): string {
+    return path.relative(getWorkspaceRoot(), filePath).split(path.sep).join('/');
+}
+
 export function getStoragePaths(): { storageDir: string; annotationsPath: string; customTagsPath: string } {
     const storageDir = path.join(getWorkspaceRoot(), '.annotative');
     return {
@@ -81,6 +85,7 @@ export function createAnnotation(overrides: Partial<Annotation> & { filePath: st
         filePath: overrides.filePath,
         range: overrides.range ?? new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 12)),
         text: overrides.text ?? 'const answer = 42;',
+        target: overrides.target,
         comment: overrides.comment ?? 'Review this code path.',
         author: overrides.author ?? 'Test User',
         timestamp: overrides.timestamp ?? new Date('2026-03-24T12:00:00.000Z'),
@@ -89,6 +94,11 @@ export function createAnnotation(overrides: Partial<Annotation> & { filePath: st
         priority: overrides.priority,
         color: overrides.color ?? '#ffc107',
         aiConversations: overrides.aiConversations,
+        replies: overrides.replies,
+        history: overrides.history,
+        status: overrides.status,
+        assignee: overrides.assignee,
+        dueDate: overrides.dueDate,
     };
 }
 
@@ -154,6 +164,14 @@ export function toStoredAnnotation(annotation: Annotation): StoredAnnotation {
         },
         timestamp: annotation.timestamp.toISOString(),
         tags: annotation.tags ? [...annotation.tags] : undefined,
+        replies: annotation.replies?.map(reply => ({
+            ...reply,
+            timestamp: reply.timestamp.toISOString(),
+        })),
+        history: annotation.history?.map(entry => ({
+            ...entry,
+            timestamp: entry.timestamp.toISOString(),
+        })),
     };
 }
 
@@ -164,5 +182,6 @@ export function createCustomTag(overrides: Partial<AnnotationTag> & { id: string
         category: overrides.category ?? 'issue',
         metadata: overrides.metadata,
         isPreset: overrides.isPreset ?? false,
+        ...(overrides.parent ? { parent: overrides.parent } : {}),
     };
 }
\ No newline at end of file
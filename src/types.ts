@@ -31,6 +31,7 @@ export interface AnnotationTag {
     category: TagCategory;
     metadata?: TagMetadata;
     isPreset: boolean; // Always false for user-created tags
+    parent?: string;   // Id of the parent tag, e.g. 'security' for 'security/xss'
 }
 
 export interface AnnotationTagOption {
@@ -38,6 +39,7 @@ export interface AnnotationTagOption {
     label: string;
     color?: string;
     priority?: TagPriority;
+    parentId?: string;
 }
 
 export interface AnnotationAnchor {
@@ -49,20 +51,95 @@ export interface AnnotationAnchor {
     contextHash: string;
 }
 
+/**
+ * The commit an annotation was created at and its range in that commit, used to
+ * follow the code through later diffs.
+ */
+export interface AnnotationGitAnchor {
+    commit: string;
+    range: StoredRange;
+}
+
+export type AnnotationAnchorState = 'anchored' | 'orphaned';
+export type AnnotationOrphanReason = 'textNotFound' | 'fileMissing';
+
+/**
+ * How confidently an annotation is attached to its code. Orphaned annotations keep
+ * their original anchor so they can reattach if the code comes back.
+ */
+export interface AnnotationAnchorStatus {
+    state: AnnotationAnchorState;
+    confidence: number;       // 0-1, 1 when the anchored text matched exactly in place
+    reason?: AnnotationOrphanReason;
+}
+
+/**
+ * Workflow state of an annotation. 'resolved' and 'wontFix' are closed states.
+ */
+export type AnnotationStatus = 'open' | 'inProgress' | 'needsVerification' | 'deferred' | 'wontFix' | 'resolved';
+
+export type AnnotationHistoryField = 'created' | 'comment' | 'tags' | 'color' | 'priority' | 'status' | 'assignee' | 'dueDate' | 'range' | 'reply' | 'undo' | 'redo';
+export type AnnotationHistoryValue = string | string[];
+
+/**
+ * One append-only change log entry. Values are recorded as they were shown to the user,
+ * e.g. tag ids and `file:line` locations.
+ */
+export interface AnnotationHistoryEntry {
+    timestamp: Date;
+    author: string;
+    field: AnnotationHistoryField;
+    previousValue?: AnnotationHistoryValue;
+    newValue?: AnnotationHistoryValue;
+}
+
+/**
+ * What an annotation is attached to when it is not a range in a text file. Notebook cells
+ * are found by cell id, with the index kept for display and as a fallback. Whole-file
+ * annotations cover resources without text, such as images, and keep an empty range.
+ */
+export type AnnotationTarget =
+    | { type: 'notebookCell'; cellId: string; cellIndex: number }
+    | { type: 'file' };
+
+export interface AnnotationReply {
+    id: string;
+    author: string;
+    body: string;
+    timestamp: Date;
+    edited?: boolean;
+}
+
 export interface Annotation {
     id: string;
     filePath: string;
-    range: vscode.Range;
+    range: vscode.Range;      // Within the notebook cell for cell targets
     text: string;
+    target?: AnnotationTarget; // Absent for ranges in text files
     comment: string;
     author: string;
     timestamp: Date;
-    resolved: boolean;        // Resolution status - open (false) or resolved (true)
+    resolved: boolean;        // True for closed statuses (resolved, won't fix)
+    status?: AnnotationStatus; // Workflow state, derived from resolved when missing
+    assignee?: string;        // Who should address the annotation
+    dueDate?: string;         // Calendar date, YYYY-MM-DD
     tags?: string[];
     priority?: TagPriority;
     color?: string;           // Hex color code - user's visual preference only
     aiConversations?: AIConversation[];
     anchor?: AnnotationAnchor;
+    anchorStatus?: AnnotationAnchorStatus;
+    gitAnchor?: AnnotationGitAnchor;
+    replies?: AnnotationReply[];
+    history?: AnnotationHistoryEntry[];
+}
+
+/**
+ * Assignment fields that can be changed together. An empty string clears a field.
+ */
+export interface AnnotationAssignment {
+    assignee?: string;
+    dueDate?: string;
 }
 
 export interface AnnotationDecoration {
@@ -88,10 +165,20 @@ export interface StoredRange {
 export type LegacyStoredTag = string | AnnotationTag;
 export type Tag = string | AnnotationTag;
 
-export interface StoredAnnotation extends Omit<Annotation, 'range' | 'timestamp' | 'tags'> {
+export interface StoredAnnotationReply extends Omit<AnnotationReply, 'timestamp'> {
+    timestamp: string;
+}
+
+export interface StoredAnnotationHistoryEntry extends Omit<AnnotationHistoryEntry, 'timestamp'> {
+    timestamp: string;
+}
+
+export interface StoredAnnotation extends Omit<Annotation, 'range' | 'timestamp' | 'tags' | 'replies' | 'history'> {
     range: StoredRange;
     timestamp: string;
     tags?: LegacyStoredTag[];
+    replies?: StoredAnnotationReply[];
+    history?: StoredAnnotationHistoryEntry[];
 }
 
 export interface AnnotationStorageFile {
@@ -99,11 +186,77 @@ export interface AnnotationStorageFile {
     workspaceAnnotations: { [filePath: string]: StoredAnnotation[] };
 }
 
+export type AnnotationStorageLayout = 'single' | 'sharded';
+
+export interface AnnotationShardFile {
+    schemaVersion: number;
+    filePath: string;
+    annotations: StoredAnnotation[];
+}
+
 export interface TagStorageFile {
     schemaVersion: number;
     customTags: AnnotationTag[];
 }
 
+/**
+ * A shareable tag vocabulary: the contents of customTags.json with a name and version
+ */
+export interface TagPackFile extends TagStorageFile {
+    name: string;
+    version: string;
+    description?: string;
+}
+
+/**
+ * A named set of filters stored in `.annotative/views.json`. An annotation matches when it
+ * matches one value of every list that is set, and the query.
+ */
+export interface SavedView {
+    name: string;
+    statuses?: Array<AnnotationStatus | 'unresolved'>;
+    tags?: string[];
+    authors?: string[];
+    files?: string[];
+    query?: string;
+    groupBy?: 'file' | 'tag' | 'status' | 'folder' | 'due';
+}
+
+export interface SavedViewStorageFile {
+    schemaVersion: number;
+    views: SavedView[];
+}
+
+/**
+ * An automation rule from `.annotative/rules.json`, run when an annotation is added or
+ * edited. Every condition that is set must match; a list matches any of its values.
+ */
+export interface AnnotationRule {
+    name: string;
+    when: AnnotationRuleCondition;
+    then: AnnotationRuleActions;
+}
+
+export interface AnnotationRuleCondition {
+    tags?: string[];          // Tag IDs or names; a parent tag also matches its nested tags
+    files?: string[];         // Globs against the workspace relative path
+    comment?: string;         // Text the comment contains, ignoring case
+    commentPattern?: string;  // Regular expression tested against the comment, ignoring case
+}
+
+export interface AnnotationRuleActions {
+    priority?: TagPriority;
+    color?: string;
+    status?: AnnotationStatus;
+    assignee?: string;
+    addTags?: string[];
+}
+
+export interface AnnotationRuleStorageFile {
+    schemaVersion: number;
+    rules: AnnotationRule[];
+}
+
 // Tag management
 export interface TagRegistry {
     customTags: Map<string, AnnotationTag>;
@@ -146,7 +299,7 @@ export interface AnnotationStatistics {
 export type ReviewArtifactKind = 'plan' | 'aiResponse' | 'localDiff';
 export type ReviewArtifactSourceType = 'markdownFile' | 'chatResponse' | 'gitDiff' | 'manualPaste';
 export type ReviewAnnotationKind = 'comment' | 'issue' | 'requestChange' | 'question' | 'risk' | 'testGap' | 'maintainability';
-export type ReviewAnnotationStatus = 'open' | 'resolved';
+export type ReviewAnnotationStatus = AnnotationStatus;
 export type ReviewAnnotationTargetType = 'artifact' | 'section' | 'block' | 'diffFile' | 'diffHunk' | 'lineRange';
 export type ReviewArtifactDiffFileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'unknown';
 export type ReviewArtifactDiffLineType = 'context' | 'add' | 'delete';
@@ -234,6 +387,8 @@ export interface ReviewAnnotation {
     kind: ReviewAnnotationKind;
     status: ReviewAnnotationStatus;
     severity?: TagPriority;
+    assignee?: string;
+    dueDate?: string;         // Calendar date, YYYY-MM-DD
     target: ReviewAnnotationTarget;
     body: string;
     suggestedReplacement?: string;
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { AnnotationManager } from '../managers';
+import { Annotation } from '../types';
+
+/**
+ * Shows a summary and quick actions above every line where annotations start.
+ */
+export class AnnotationCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+    public readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+
+    constructor(private readonly annotationManager: AnnotationManager) {
+        this.disposables.push(
+            annotationManager.onDidChangeAnnotations(() => this.onDidChangeCodeLensesEmitter.fire()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('annotative.codeLens') || event.affectsConfiguration('annotative.copilot.enabled')) {
+                    this.onDidChangeCodeLensesEmitter.fire();
+                }
+            })
+        );
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const configuration = vscode.workspace.getConfiguration('annotative');
+        if (!configuration.get<boolean>('codeLens.enabled', true)) {
+            return [];
+        }
+
+        const showActions = configuration.get<boolean>('codeLens.showActions', true);
+        const copilotEnabled = configuration.get<boolean>('copilot.enabled', true);
+        const annotationsByLine = new Map<number, Annotation[]>();
+
+        this.annotationManager.getAnnotationsForDocument(document)
+            .filter(annotation => annotation.anchorStatus?.state !== 'orphaned')
+            .forEach(annotation => {
+                const line = annotation.range.start.line;
+                annotationsByLine.set(line, [...(annotationsByLine.get(line) || []), annotation]);
+            });
+
+        const lenses: vscode.CodeLens[] = [];
+        [...annotationsByLine.entries()]
+            .sort(([left], [right]) => left - right)
+            .forEach(([line, annotations]) => {
+                const range = new vscode.Range(line, 0, line, 0);
+                // Actions target the first open annotation, or the first one when all are closed
+                const target = annotations.find(annotation => !annotation.resolved) || annotations[0];
+                const args = [{ annotation: target }];
+
+                lenses.push(new vscode.CodeLens(range, {
+                    title: formatCodeLensSummary(annotations),
+                    tooltip: target.comment,
+                    command: 'annotative.viewAnnotation',
+                    arguments: args,
+                }));
+
+                if (!showActions) {
+                    return;
+                }
+
+                lenses.push(
+                    new vscode.CodeLens(range, {
+                        title: target.resolved ? 'Reopen' : 'Resolve',
+                        command: 'annotative.toggleResolved',
+                        arguments: args,
+                    }),
+                    new vscode.CodeLens(range, {
+                        title: 'Edit',
+                        command: 'annotative.editAnnotation',
+                        arguments: args,
+                    })
+                );
+
+                if (copilotEnabled) {
+                    lenses.push(new vscode.CodeLens(range, {
+                        title: 'Ask Copilot',
+                        command: 'annotative.askCopilotAboutAnnotation',
+                        arguments: args,
+                    }));
+                }
+            });
+
+        return lenses;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.onDidChangeCodeLensesEmitter.dispose();
+    }
+}
+
+/**
+ * For example "2 annotations · 1 open, 1 resolved".
+ */
+export function formatCodeLensSummary(annotations: readonly Annotation[]): string {
+    const resolved = annotations.filter(annotation => annotation.resolved).length;
+    const open = annotations.length - resolved;
+    const counts = [
+        open > 0 ? `${open} open` : '',
+        resolved > 0 ? `${resolved} resolved` : '',
+    ].filter(Boolean).join(', ');
+
+    return `$(comment) ${annotations.length} annotation${annotations.length === 1 ? '' : 's'} · ${counts}`;
+}
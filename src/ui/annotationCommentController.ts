@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import { AnnotationManager, getAnnotationStatus, getStatusLabel, isTextAnnotation } from '../managers';
+import { Annotation, AnnotationReply } from '../types';
+
+/**
+ * A comment shown in a thread. The first comment is the annotation itself, the rest are
+ * its replies.
+ */
+export interface AnnotationComment extends vscode.Comment {
+    annotationId: string;
+    filePath: string;
+    replyId?: string;
+}
+
+interface MirroredThread {
+    thread: vscode.CommentThread;
+    filePath: string;
+    signature: string;
+}
+
+/**
+ * Mirrors annotations as threads of VS Code's Comments API when
+ * `annotative.comments.enabled` is on. Threads are rebuilt from the annotation map after
+ * every change, so the annotations stay the source of truth. Only annotations on text
+ * ranges get threads; notebook cells and whole files have no place to show one.
+ */
+export class AnnotationCommentController implements vscode.Disposable {
+    static readonly controllerId = 'annotative';
+
+    private controller: vscode.CommentController | undefined;
+    private readonly threads = new Map<string, MirroredThread>();
+    private readonly editing = new Set<string>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly annotationManager: AnnotationManager) {
+        this.disposables.push(
+            annotationManager.onDidChangeAnnotations(() => this.syncThreads()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('annotative.comments.enabled')) {
+                    this.applyConfiguration();
+                }
+            })
+        );
+        this.applyConfiguration();
+    }
+
+    isEnabled(): boolean {
+        return this.controller !== undefined;
+    }
+
+    getThread(annotationId: string): vscode.CommentThread | undefined {
+        return this.threads.get(annotationId)?.thread;
+    }
+
+    /**
+     * Find the annotation behind a thread or one of its comments.
+     */
+    getAnnotation(target: vscode.CommentThread | AnnotationComment): Annotation | undefined {
+        if ('annotationId' in target) {
+            return this.annotationManager.getAnnotation(target.annotationId, target.filePath);
+        }
+
+        for (const [annotationId, mirrored] of this.threads) {
+            if (mirrored.thread === target) {
+                return this.annotationManager.getAnnotation(annotationId, mirrored.filePath);
+            }
+        }
+        return undefined;
+    }
+
+    startEditing(comment: AnnotationComment): void {
+        this.setEditing(comment, true);
+    }
+
+    cancelEditing(comment: AnnotationComment): void {
+        this.setEditing(comment, false);
+    }
+
+    /**
+     * Bring every thread in line with the annotations: create missing threads, move or
+     * refresh changed ones, and drop threads whose annotation is gone or orphaned.
+     */
+    syncThreads(): void {
+        const controller = this.controller;
+        if (!controller) {
+            return;
+        }
+
+        const seen = new Set<string>();
+        this.annotationManager.getAllAnnotations()
+            .filter(annotation => isTextAnnotation(annotation) && annotation.anchorStatus?.state !== 'orphaned')
+            .forEach(annotation => {
+                seen.add(annotation.id);
+                let mirrored = this.threads.get(annotation.id);
+
+                // A thread's uri is fixed, so renamed files need a new thread
+                if (mirrored && mirrored.filePath !== annotation.filePath) {
+                    mirrored.thread.dispose();
+                    mirrored = undefined;
+                }
+
+                if (!mirrored) {
+                    const thread = controller.createCommentThread(vscode.Uri.file(annotation.filePath), annotation.range, []);
+                    thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+                    mirrored = { thread, filePath: annotation.filePath, signature: '' };
+                    this.threads.set(annotation.id, mirrored);
+                }
+
+                this.updateThread(mirrored, annotation);
+            });
+
+        [...this.threads.entries()]
+            .filter(([annotationId]) => !seen.has(annotationId))
+            .forEach(([annotationId, mirrored]) => {
+                mirrored.thread.dispose();
+                this.threads.delete(annotationId);
+            });
+    }
+
+    dispose(): void {
+        this.disposeController();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private applyConfiguration(): void {
+        const enabled = vscode.workspace.getConfiguration('annotative').get<boolean>('comments.enabled', false);
+        if (enabled && !this.controller) {
+            this.controller = vscode.comments.createCommentController(AnnotationCommentController.controllerId, 'Annotative');
+            this.controller.options = { placeHolder: 'Reply to this annotation', prompt: 'Reply' };
+            void this.annotationManager.ready.then(() => this.syncThreads());
+        } else if (!enabled && this.controller) {
+            this.disposeController();
+        }
+    }
+
+    private disposeController(): void {
+        this.threads.forEach(mirrored => mirrored.thread.dispose());
+        this.threads.clear();
+        this.editing.clear();
+        this.controller?.dispose();
+        this.controller = undefined;
+    }
+
+    private updateThread(mirrored: MirroredThread, annotation: Annotation): void {
+        const { thread } = mirrored;
+        if (!thread.range || !thread.range.isEqual(annotation.range)) {
+            thread.range = annotation.range;
+        }
+
+        const signature = JSON.stringify([
+            getAnnotationStatus(annotation),
+            annotation.comment,
+            annotation.replies,
+            [...this.editing].filter(key => key.startsWith(`${annotation.id}:`)),
+        ]);
+        if (signature === mirrored.signature) {
+            return;
+        }
+        mirrored.signature = signature;
+
+        const status = getAnnotationStatus(annotation);
+        thread.label = getStatusLabel(status);
+        thread.contextValue = annotation.resolved ? 'resolved' : 'open';
+        thread.state = annotation.resolved ? vscode.CommentThreadState.Resolved : vscode.CommentThreadState.Unresolved;
+        thread.comments = [
+            this.createComment(annotation),
+            ...(annotation.replies || []).map(reply => this.createComment(annotation, reply)),
+        ];
+    }
+
+    private createComment(annotation: Annotation, reply?: AnnotationReply): AnnotationComment {
+        const editing = this.editing.has(getCommentKey(annotation.id, reply?.id));
+        const body = reply ? reply.body : annotation.comment;
+        const timestamp = reply ? reply.timestamp : annotation.timestamp;
+
+        return {
+            annotationId: annotation.id,
+            filePath: annotation.filePath,
+            replyId: reply?.id,
+            author: { name: reply ? reply.author : annotation.author },
+            body: editing ? body : new vscode.MarkdownString(body),
+            mode: editing ? vscode.CommentMode.Editing : vscode.CommentMode.Preview,
+            contextValue: reply ? 'reply' : 'annotation',
+            label: reply?.edited ? 'edited' : undefined,
+            timestamp,
+        };
+    }
+
+    private setEditing(comment: AnnotationComment, editing: boolean): void {
+        const key = getCommentKey(comment.annotationId, comment.replyId);
+        if (editing) {
+            this.editing.add(key);
+        } else {
+            this.editing.delete(key);
+        }
+        this.syncThreads();
+    }
+}
+
+function getCommentKey(annotationId: string, replyId?: string): string {
+    return `${annotationId}:${replyId ?? ''}`;
+}
@@ -0,0 +1,151 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AnnotationManager } from '../managers';
+import { Annotation, TagPriority } from '../types';
+
+/**
+ * Open annotations under a file or folder, and the highest priority among them.
+ */
+export interface AnnotatedPathSummary {
+    count: number;
+    priority?: TagPriority;
+}
+
+const PRIORITY_ORDER: readonly TagPriority[] = ['critical', 'high', 'medium', 'low'];
+
+const PRIORITY_COLORS: Record<TagPriority, string> = {
+    critical: 'list.errorForeground',
+    high: 'list.warningForeground',
+    medium: 'charts.yellow',
+    low: 'charts.green',
+};
+
+/**
+ * Badges files in the explorer and SCM views with their open annotation count, colored by
+ * the highest priority. Folders inside the workspace show the totals of everything below
+ * them. Controlled by `annotative.fileDecorations.enabled`.
+ */
+export class AnnotationFileDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+    private readonly onDidChangeFileDecorationsEmitter = new vscode.EventEmitter<vscode.Uri[] | undefined>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private summaries = new Map<string, AnnotatedPathSummary>();
+    public readonly onDidChangeFileDecorations = this.onDidChangeFileDecorationsEmitter.event;
+
+    constructor(private readonly annotationManager: AnnotationManager) {
+        this.disposables.push(
+            annotationManager.onDidChangeAnnotations(() => void this.refresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('annotative.fileDecorations')) {
+                    void this.refresh();
+                }
+            })
+        );
+        void annotationManager.ready.then(() => this.refresh());
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        const summary = uri.scheme === 'file' ? this.summaries.get(uri.fsPath) : undefined;
+        if (!summary) {
+            return undefined;
+        }
+
+        const priorityLabel = summary.priority ? ` · highest priority ${summary.priority}` : '';
+        return new vscode.FileDecoration(
+            formatFileDecorationBadge(summary.count),
+            `${summary.count} open annotation${summary.count === 1 ? '' : 's'}${priorityLabel}`,
+            summary.priority ? new vscode.ThemeColor(PRIORITY_COLORS[summary.priority]) : undefined
+        );
+    }
+
+    /**
+     * Recompute every summary and repaint the paths whose decoration may have changed.
+     * Badges cover the whole workspace, so shards not read yet are loaded first.
+     */
+    async refresh(): Promise<void> {
+        const enabled = vscode.workspace.getConfiguration('annotative').get<boolean>('fileDecorations.enabled', true);
+        if (enabled) {
+            await this.annotationManager.ensureAnnotationsLoaded();
+        }
+
+        const previous = this.summaries;
+        this.summaries = enabled
+            ? summarizeAnnotatedPaths(
+                this.annotationManager.getAllAnnotations(),
+                annotation => annotation.priority ?? this.annotationManager.getAnnotationPriority(annotation),
+                (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath)
+            )
+            : new Map();
+
+        const changed = new Set([...previous.keys(), ...this.summaries.keys()]);
+        if (changed.size > 0) {
+            this.onDidChangeFileDecorationsEmitter.fire([...changed].map(fsPath => vscode.Uri.file(fsPath)));
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.onDidChangeFileDecorationsEmitter.dispose();
+    }
+}
+
+/**
+ * Count open annotations per file and add each file's count to its parent folders, up to
+ * and including the workspace root that contains it. Files outside every root only
+ * decorate themselves.
+ */
+export function summarizeAnnotatedPaths(
+    annotations: readonly Annotation[],
+    getPriority: (annotation: Annotation) => TagPriority | undefined,
+    workspaceRoots: readonly string[]
+): Map<string, AnnotatedPathSummary> {
+    const summaries = new Map<string, AnnotatedPathSummary>();
+    const add = (fsPath: string, priority: TagPriority | undefined) => {
+        const summary = summaries.get(fsPath) || { count: 0 };
+        summary.count += 1;
+        summary.priority = higherPriority(summary.priority, priority);
+        summaries.set(fsPath, summary);
+    };
+
+    annotations
+        .filter(annotation => !annotation.resolved)
+        .forEach(annotation => {
+            const priority = getPriority(annotation);
+            add(annotation.filePath, priority);
+
+            const root = workspaceRoots.find(candidate => isInside(annotation.filePath, candidate));
+            if (!root) {
+                return;
+            }
+
+            // Walk up to the root itself, which is the first folder not inside it
+            for (let folder = path.dirname(annotation.filePath); ; folder = path.dirname(folder)) {
+                add(folder, priority);
+                if (!isInside(folder, root)) {
+                    break;
+                }
+            }
+        });
+
+    return summaries;
+}
+
+/**
+ * Badges hold at most two characters, so larger counts stop at 99. The tooltip has the
+ * exact number.
+ */
+export function formatFileDecorationBadge(count: number): string {
+    return count > 99 ? '99' : String(count);
+}
+
+function higherPriority(left: TagPriority | undefined, right: TagPriority | undefined): TagPriority | undefined {
+    if (!left || !right) {
+        return left ?? right;
+    }
+    return PRIORITY_ORDER.indexOf(left) <= PRIORITY_ORDER.indexOf(right) ? left : right;
+}
+
+function isInside(fsPath: string, folder: string): boolean {
+    const relative = path.relative(folder, fsPath);
+    const outside = relative === '..' || relative.startsWith(`..${path.sep}`);
+    return relative.length > 0 && !outside && !path.isAbsolute(relative);
+}
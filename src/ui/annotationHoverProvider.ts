@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { AnnotationManager, formatDueDate, getAnnotationStatus, getStatusLabel } from '../managers';
+import { Annotation, AnnotationTag, TagPriority } from '../types';
+
+/**
+ * Commands the hover links may run through `annotative.runAnnotationAction`. Hover
+ * markdown only trusts that one command, so links inside comments cannot run anything else.
+ */
+export const ANNOTATION_HOVER_ACTIONS = ['toggleResolved', 'editAnnotation', 'copyAsCopilotContext', 'revealInSidebar'] as const;
+
+export type AnnotationHoverAction = typeof ANNOTATION_HOVER_ACTIONS[number];
+
+export interface AnnotationHoverContext {
+    resolveTag: (tagId: string) => AnnotationTag | undefined;
+    priority?: TagPriority;
+}
+
+const RUN_ACTION_COMMAND = 'annotative.runAnnotationAction';
+const DEFAULT_TAG_COLOR = '#9e9e9e';
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{3,8}$/i;
+
+/**
+ * Hover for annotated ranges, resolved ones included.
+ */
+export class AnnotationHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly annotationManager: AnnotationManager) {}
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const annotations = this.annotationManager.getAnnotationsForDocument(document)
+            .filter(annotation => annotation.anchorStatus?.state !== 'orphaned' && annotation.range.contains(position));
+        if (annotations.length === 0) {
+            return undefined;
+        }
+
+        const contents = annotations.flatMap(annotation => buildAnnotationHover(annotation, {
+            resolveTag: tagId => this.annotationManager.getTagManager().getResolvedTag(tagId),
+            priority: this.annotationManager.getAnnotationPriority(annotation),
+        }));
+        return new vscode.Hover(contents, annotations[0].range);
+    }
+}
+
+/**
+ * Two sections per annotation: the details with action links, then the comment rendered
+ * as markdown. They are separate strings so only the details allow inline HTML and
+ * command links; comments come from the shared annotations file.
+ */
+export function buildAnnotationHover(annotation: Annotation, context: AnnotationHoverContext): vscode.MarkdownString[] {
+    const details = new vscode.MarkdownString('', true);
+    details.isTrusted = { enabledCommands: [RUN_ACTION_COMMAND] };
+    details.supportHtml = true;
+
+    details.appendMarkdown(`**${getStatusLabel(getAnnotationStatus(annotation))}** · `);
+    details.appendText(annotation.author);
+    details.appendMarkdown(` · ${annotation.timestamp.toLocaleString()}\n\n`);
+
+    const priority = annotation.priority ?? context.priority;
+    if (priority) {
+        details.appendMarkdown(`$(flame) Priority: ${priority}\n\n`);
+    }
+
+    if (annotation.tags && annotation.tags.length > 0) {
+        const tags = annotation.tags.map(tagId => {
+            const tag = context.resolveTag(tagId);
+            const tagColor = tag?.metadata?.color;
+            const color = tagColor && HEX_COLOR_PATTERN.test(tagColor) ? tagColor : DEFAULT_TAG_COLOR;
+            return `<span style="color:${color};">●</span> ${escapeMarkdown(tag?.name || tagId)}`;
+        });
+        details.appendMarkdown(`$(tag) ${tags.join('&nbsp;&nbsp;')}\n\n`);
+    }
+
+    if (annotation.assignee || annotation.dueDate) {
+        const parts = [
+            annotation.assignee ? `$(person) ${escapeMarkdown(annotation.assignee)}` : '',
+            annotation.dueDate ? `$(calendar) Due ${formatDueDate(annotation)}` : '',
+        ].filter(Boolean);
+        details.appendMarkdown(`${parts.join(' · ')}\n\n`);
+    }
+
+    if (annotation.aiConversations && annotation.aiConversations.length > 0) {
+        details.appendMarkdown('$(copilot) AI conversations:\n\n');
+        annotation.aiConversations.forEach(conversation => {
+            const resolvedLabel = conversation.resolved ? ' · resolved' : '';
+            details.appendMarkdown(
+                `- ${escapeMarkdown(conversation.model)} · ${conversation.messages.length} messages · ${new Date(conversation.timestamp).toLocaleDateString()}${resolvedLabel}\n`
+            );
+        });
+        details.appendMarkdown('\n');
+    }
+
+    if (annotation.replies && annotation.replies.length > 0) {
+        details.appendMarkdown(`$(comment-discussion) ${annotation.replies.length} ${annotation.replies.length === 1 ? 'reply' : 'replies'}\n\n`);
+    }
+
+    const link = (label: string, action: AnnotationHoverAction) => {
+        const args = encodeURIComponent(JSON.stringify([action, annotation.id, annotation.filePath]));
+        return `[${label}](command:${RUN_ACTION_COMMAND}?${args})`;
+    };
+    details.appendMarkdown([
+        link(annotation.resolved ? '$(issues) Reopen' : '$(check) Resolve', 'toggleResolved'),
+        link('$(edit) Edit', 'editAnnotation'),
+        link('$(copy) Copy for Copilot', 'copyAsCopilotContext'),
+        link('$(layout-sidebar-left) Open in Sidebar', 'revealInSidebar'),
+    ].join(' · '));
+
+    const comment = new vscode.MarkdownString(annotation.comment);
+
+    return [details, comment];
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!<>|~]/g, match => `\\${match}`);
+}
@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { findTargetCell } from '../managers';
+import { Annotation } from '../types';
+
+/**
+ * Open what a cell or whole-file annotation is attached to: the file in its default
+ * editor, or the notebook scrolled to the cell with the range selected. Returns false for
+ * text annotations, which callers open as text documents.
+ */
+export async function revealTargetedAnnotation(annotation: Annotation): Promise<boolean> {
+    const uri = vscode.Uri.file(annotation.filePath);
+    const target = annotation.target;
+    if (target?.type === 'file') {
+        await vscode.commands.executeCommand('vscode.open', uri);
+        return true;
+    }
+    if (target?.type !== 'notebookCell') {
+        return false;
+    }
+
+    const notebook = await vscode.workspace.openNotebookDocument(uri);
+    const notebookEditor = await vscode.window.showNotebookDocument(notebook);
+    const cell = findTargetCell(notebook, annotation);
+    if (!cell) {
+        vscode.window.showWarningMessage(`Cell ${target.cellIndex + 1} is no longer in the notebook.`);
+        return true;
+    }
+
+    notebookEditor.revealRange(
+        new vscode.NotebookRange(cell.index, cell.index + 1),
+        vscode.NotebookEditorRevealType.InCenterIfOutsideViewport
+    );
+    const editor = await vscode.window.showTextDocument(cell.document, { viewColumn: notebookEditor.viewColumn });
+    editor.selection = new vscode.Selection(annotation.range.start, annotation.range.end);
+    editor.revealRange(annotation.range, vscode.TextEditorRevealType.InCenter);
+    return true;
+}
@@ -8,15 +8,16 @@ import {
     AnnotationFolderItem,
     type TreeItem
 } from './treeItems';
-import { filterAnnotations, type FilterStatus, type FilterTag } from './filtering';
+import { createAnnotationQueryContext, filterAnnotations, type FilterStatus, type FilterTag } from './filtering';
 import {
     groupByFile,
     groupByTag,
     groupByStatus,
-    groupByFolder
+    groupByFolder,
+    groupByDueDate
 } from './grouping';
 
-export type GroupBy = 'file' | 'tag' | 'status' | 'folder';
+export type GroupBy = 'file' | 'tag' | 'status' | 'folder' | 'due';
 
 export class AnnotationProvider implements vscode.TreeDataProvider<TreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
@@ -109,7 +110,13 @@ export class AnnotationProvider implements vscode.TreeDataProvider<TreeItem> {
     }
 
     private filterAnnotationsInternal(annotations: Annotation[]): Annotation[] {
-        return filterAnnotations(annotations, this.filterStatus, this.filterTag, this.searchQuery);
+        return filterAnnotations(
+            annotations,
+            this.filterStatus,
+            this.filterTag,
+            this.searchQuery,
+            createAnnotationQueryContext(this.annotationManager)
+        );
     }
 
     getTreeItem(element: TreeItem): vscode.TreeItem {
@@ -125,9 +132,15 @@ export class AnnotationProvider implements vscode.TreeDataProvider<TreeItem> {
             if (this.groupBy === 'file') {
                 return Promise.resolve(groupByFile(filteredAnnotations) as TreeItem[]);
             } else if (this.groupBy === 'tag') {
-                return Promise.resolve(groupByTag(filteredAnnotations, (tagId) => this.annotationManager.resolveTagLabel(tagId)) as TreeItem[]);
+                return Promise.resolve(groupByTag(
+                    filteredAnnotations,
+                    (tagId) => this.annotationManager.resolveTagLabel(tagId),
+                    (tagId) => this.annotationManager.getTagAncestors(tagId)
+                ) as TreeItem[]);
             } else if (this.groupBy === 'folder') {
                 return Promise.resolve(groupByFolder(filteredAnnotations) as TreeItem[]);
+            } else if (this.groupBy === 'due') {
+                return Promise.resolve(groupByDueDate(filteredAnnotations) as TreeItem[]);
             } else {
                 return Promise.resolve(groupByStatus(filteredAnnotations) as TreeItem[]);
             }
@@ -181,7 +194,7 @@ export class AnnotationProvider implements vscode.TreeDataProvider<TreeItem> {
 
             return Promise.resolve(fileItems);
         } else if (element instanceof GroupCategoryItem) {
-            // Show annotations for this group
+            // Show nested groups, then annotations for this group
             const annotationItems = element.annotations.map((annotation: Annotation) =>
                 new AnnotationItem(
                     annotation,
@@ -190,7 +203,7 @@ export class AnnotationProvider implements vscode.TreeDataProvider<TreeItem> {
                     this.annotationManager.resolveTagLabels(annotation.tags)
                 )
             );
-            return Promise.resolve(annotationItems as TreeItem[]);
+            return Promise.resolve([...element.children, ...annotationItems] as TreeItem[]);
         }
 
         return Promise.resolve([]);
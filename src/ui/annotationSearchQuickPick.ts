@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { AnnotationManager, formatAnnotationLocation, getAnnotationStatus, getStatusLabel } from '../managers';
+import { Annotation } from '../types';
+import { createAnnotationQueryContext, matchesAnnotationQuery, parseAnnotationQuery } from './filtering';
+
+export type AnnotationSearchResult =
+    | { type: 'annotation'; annotation: Annotation }
+    | { type: 'showInSidebar'; query: string };
+
+interface AnnotationSearchItem extends vscode.QuickPickItem {
+    annotation?: Annotation;
+}
+
+const SHOW_IN_SIDEBAR_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('filter'),
+    tooltip: 'Show Results in Sidebar',
+};
+
+/**
+ * Searches every annotation in the workspace as the query is typed. Picking a result
+ * opens it; the title button applies the query to the sidebar instead.
+ */
+export function showAnnotationSearch(
+    annotationManager: AnnotationManager,
+    initialQuery = ''
+): Promise<AnnotationSearchResult | undefined> {
+    const quickPick = vscode.window.createQuickPick<AnnotationSearchItem>();
+    quickPick.title = 'Search Annotations';
+    quickPick.placeholder = 'tag:security status:open author:alice file:src/** priority>=high created:>2026-01-01 "exact phrase"';
+    quickPick.buttons = [SHOW_IN_SIDEBAR_BUTTON];
+    quickPick.value = initialQuery;
+
+    const update = () => {
+        quickPick.items = buildAnnotationSearchItems(annotationManager, quickPick.value);
+    };
+    update();
+    void annotationManager.ensureAnnotationsLoaded();
+
+    return new Promise(resolve => {
+        let result: AnnotationSearchResult | undefined;
+        const disposables = [
+            quickPick.onDidChangeValue(update),
+            annotationManager.onDidChangeAnnotations(update),
+            quickPick.onDidAccept(() => {
+                const annotation = quickPick.selectedItems[0]?.annotation;
+                if (annotation) {
+                    result = { type: 'annotation', annotation };
+                    quickPick.hide();
+                }
+            }),
+            quickPick.onDidTriggerButton(() => {
+                result = { type: 'showInSidebar', query: quickPick.value.trim() };
+                quickPick.hide();
+            }),
+            quickPick.onDidHide(() => {
+                disposables.forEach(disposable => disposable.dispose());
+                quickPick.dispose();
+                resolve(result);
+            }),
+        ];
+        quickPick.show();
+    });
+}
+
+/**
+ * One item per match, newest first, or a single warning item when the query is invalid.
+ * Items always show, since the query has already done the filtering.
+ */
+export function buildAnnotationSearchItems(annotationManager: AnnotationManager, source: string): AnnotationSearchItem[] {
+    let matches: Annotation[];
+    try {
+        const query = parseAnnotationQuery(source);
+        const context = createAnnotationQueryContext(annotationManager);
+        matches = annotationManager.getAllAnnotations()
+            .filter(annotation => matchesAnnotationQuery(annotation, query, context));
+    } catch (error) {
+        return [{ label: `$(warning) ${(error as Error).message}`, alwaysShow: true }];
+    }
+
+    if (matches.length === 0) {
+        return [{ label: '$(info) No annotations match', alwaysShow: true }];
+    }
+
+    return matches
+        .sort((left, right) => right.timestamp.getTime() - left.timestamp.getTime())
+        .map(annotation => ({
+            label: summarize(annotation.comment) || '(no comment)',
+            description: `${vscode.workspace.asRelativePath(annotation.filePath, false)} · ${formatAnnotationLocation(annotation)}`,
+            detail: [
+                getStatusLabel(getAnnotationStatus(annotation)),
+                annotation.author,
+                ...annotationManager.resolveTagLabels(annotation.tags),
+                summarize(annotation.text),
+            ].filter(Boolean).join(' · '),
+            alwaysShow: true,
+            annotation,
+        }));
+}
+
+function summarize(text: string): string {
+    const line = text.split(/\r?\n/).map(part => part.trim()).find(Boolean) || '';
+    return line.length > 80 ? `${line.slice(0, 79)}…` : line;
+}
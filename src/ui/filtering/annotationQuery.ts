@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import {
+    ANNOTATION_STATUSES,
+    AnnotationManager,
+    getAnnotationStatus,
+    isAssignedTo,
+    isClosedStatus,
+    normalizeDueDate,
+    toLocalDateString,
+} from '../../managers';
+import { Annotation, TagPriority } from '../../types';
+import { matchesFilePattern } from '../../utils/filePatterns';
+
+export type AnnotationQueryField = 'tag' | 'status' | 'author' | 'assignee' | 'file' | 'priority' | 'created' | 'due';
+export type AnnotationQueryComparator = '=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * One condition of a query. Terms without a field match free text.
+ */
+export interface AnnotationQueryTerm {
+    field?: AnnotationQueryField;
+    comparator: AnnotationQueryComparator;
+    value: string;
+    negated: boolean;
+}
+
+/**
+ * A parsed search. An annotation matches when it matches every term.
+ */
+export interface AnnotationQuery {
+    source: string;
+    terms: AnnotationQueryTerm[];
+}
+
+export interface AnnotationQueryContext {
+    resolveTagLabel?: (tagId: string) => string;
+    getTagAncestors?: (tagId: string) => string[];
+    getPriority?: (annotation: Annotation) => TagPriority | undefined;
+    getRelativePath?: (filePath: string) => string;
+    currentUser?: string;
+}
+
+const QUERY_FIELDS: readonly AnnotationQueryField[] = ['tag', 'status', 'author', 'assignee', 'file', 'priority', 'created', 'due'];
+const ORDERED_FIELDS: readonly AnnotationQueryField[] = ['priority', 'created', 'due'];
+const PRIORITY_ORDER: readonly TagPriority[] = ['low', 'medium', 'high', 'critical'];
+const FIELD_PATTERN = /^([a-z]+)(:>=|:<=|:>|:<|:=|:|>=|<=|>|<|=)(.*)$/is;
+
+/**
+ * Parse a search such as
+ * `tag:security status:open author:alice file:src/** priority>=high created:>2026-01-01 "exact phrase"`.
+ *
+ * Words and quoted phrases match the comment, code, file path, author, tags, and replies.
+ * A leading `-` negates a term. Unknown fields are searched as plain text, so pasted URLs
+ * keep working. Throws on malformed input, for example an unknown priority.
+ */
+export function parseAnnotationQuery(source: string): AnnotationQuery {
+    return {
+        source,
+        terms: tokenizeQuery(source).map(parseTerm),
+    };
+}
+
+/**
+ * Like `parseAnnotationQuery`, but an invalid query searches for its text as one phrase,
+ * so a half-typed query never hides everything.
+ */
+export function parseSearchText(source: string): AnnotationQuery {
+    try {
+        return parseAnnotationQuery(source);
+    } catch {
+        const value = source.trim();
+        return { source, terms: value ? [{ comparator: '=', value, negated: false }] : [] };
+    }
+}
+
+export function matchesAnnotationQuery(
+    annotation: Annotation,
+    query: AnnotationQuery,
+    context: AnnotationQueryContext = {}
+): boolean {
+    return query.terms.every(term => matchesAnnotationQueryTerm(annotation, term, context));
+}
+
+export function matchesAnnotationQueryTerm(
+    annotation: Annotation,
+    term: AnnotationQueryTerm,
+    context: AnnotationQueryContext = {}
+): boolean {
+    return matchesTerm(annotation, term, context) !== term.negated;
+}
+
+/**
+ * The term `field:value` would parse to, for building queries from other filters.
+ * Throws for values the field does not accept.
+ */
+export function createAnnotationQueryTerm(field: AnnotationQueryField, value: string): AnnotationQueryTerm {
+    return { field, comparator: '=', value: normalizeTermValue(field, value.trim()), negated: false };
+}
+
+/**
+ * Resolves tags and priorities through the manager, matches `file:` against workspace
+ * relative paths, and treats the current user as `assignee:me`.
+ */
+export function createAnnotationQueryContext(annotationManager: AnnotationManager): AnnotationQueryContext {
+    return {
+        resolveTagLabel: tagId => annotationManager.resolveTagLabel(tagId),
+        getTagAncestors: tagId => annotationManager.getTagAncestors(tagId),
+        getPriority: annotation => annotation.priority ?? annotationManager.getAnnotationPriority(annotation),
+        getRelativePath: filePath => vscode.workspace.asRelativePath(filePath, false),
+        currentUser: annotationManager.getCurrentUser(),
+    };
+}
+
+/**
+ * `phrase` is set for tokens that open with a quote, which are never read as fields.
+ */
+interface QueryToken {
+    text: string;
+    phrase: boolean;
+    negated: boolean;
+}
+
+function tokenizeQuery(source: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+        if (/\s/.test(source[index])) {
+            index += 1;
+            continue;
+        }
+
+        let negated = false;
+        if (source[index] === '-' && index + 1 < source.length && !/\s/.test(source[index + 1])) {
+            negated = true;
+            index += 1;
+        }
+
+        let text = '';
+        const phrase = source[index] === '"';
+        while (index < source.length && !/\s/.test(source[index])) {
+            if (source[index] === '"') {
+                const closing = source.indexOf('"', index + 1);
+                if (closing === -1) {
+                    throw new Error('Unterminated quote in search query');
+                }
+                text += source.slice(index + 1, closing);
+                index = closing + 1;
+            } else {
+                text += source[index];
+                index += 1;
+            }
+        }
+
+        if (text.length > 0) {
+            tokens.push({ text, phrase, negated });
+        }
+    }
+
+    return tokens;
+}
+
+function parseTerm({ text, phrase, negated }: QueryToken): AnnotationQueryTerm {
+    const match = phrase ? null : FIELD_PATTERN.exec(text);
+    const field = match?.[1].toLowerCase() as AnnotationQueryField | undefined;
+    if (!match || !field || !QUERY_FIELDS.includes(field)) {
+        return { comparator: '=', value: text, negated };
+    }
+
+    const comparator = (match[2].replace(':', '') || '=') as AnnotationQueryComparator;
+    const value = match[3].trim();
+    if (!value) {
+        throw new Error(`Missing value for ${field}`);
+    }
+    if (comparator !== '=' && !ORDERED_FIELDS.includes(field)) {
+        throw new Error(`${field} does not support ${comparator}; only priority, created, and due compare`);
+    }
+
+    return { field, comparator, value: normalizeTermValue(field, value), negated };
+}
+
+function normalizeTermValue(field: AnnotationQueryField, value: string): string {
+    switch (field) {
+        case 'priority': {
+            const priority = value.toLowerCase();
+            if (!(PRIORITY_ORDER as readonly string[]).includes(priority)) {
+                throw new Error(`Unknown priority: ${value}. Use ${PRIORITY_ORDER.join(', ')}.`);
+            }
+            return priority;
+        }
+        case 'created':
+        case 'due': {
+            const date = normalizeDueDate(value);
+            if (!date) {
+                throw new Error(`Invalid date for ${field}: ${value}. Use YYYY-MM-DD.`);
+            }
+            return date;
+        }
+        case 'status': {
+            const status = ANNOTATION_STATUSES.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+            const alias = ['unresolved', 'closed'].find(candidate => candidate === value.toLowerCase());
+            if (!status && !alias) {
+                throw new Error(`Unknown status: ${value}. Use ${[...ANNOTATION_STATUSES, 'unresolved', 'closed'].join(', ')}.`);
+            }
+            return status ?? alias!;
+        }
+        default:
+            return value;
+    }
+}
+
+function matchesTerm(annotation: Annotation, term: AnnotationQueryTerm, context: AnnotationQueryContext): boolean {
+    const value = term.value.toLowerCase();
+    const includes = (text: string | undefined) => !!text && text.toLowerCase().includes(value);
+
+    switch (term.field) {
+        case undefined:
+            return [
+                annotation.comment,
+                annotation.text,
+                annotation.filePath,
+                annotation.author,
+                ...(annotation.replies || []).map(reply => reply.body),
+                ...getTagNames(annotation, context),
+            ].some(includes);
+        case 'tag':
+            return getTagNames(annotation, context).some(name => name.toLowerCase() === value);
+        case 'status': {
+            const status = getAnnotationStatus(annotation);
+            if (value === 'unresolved') {
+                return !isClosedStatus(status);
+            }
+            return value === 'closed' ? isClosedStatus(status) : status === term.value;
+        }
+        case 'author':
+            return includes(annotation.author);
+        case 'assignee':
+            if (value === 'me') {
+                return !!context.currentUser && isAssignedTo(annotation, context.currentUser);
+            }
+            return value === 'none' ? !annotation.assignee : includes(annotation.assignee);
+        case 'file':
+            return matchesFilePattern(context.getRelativePath?.(annotation.filePath) ?? annotation.filePath, term.value);
+        case 'priority': {
+            const priority = context.getPriority?.(annotation) ?? annotation.priority;
+            return !!priority && compare(PRIORITY_ORDER.indexOf(priority), PRIORITY_ORDER.indexOf(value as TagPriority), term.comparator);
+        }
+        case 'created':
+            return compare(toLocalDateString(annotation.timestamp), term.value, term.comparator);
+        case 'due':
+            return !!annotation.dueDate && compare(annotation.dueDate, term.value, term.comparator);
+    }
+}
+
+/**
+ * IDs and labels of the annotation's tags and their parents, so `tag:security` also
+ * matches `security/xss`
+ */
+function getTagNames(annotation: Annotation, context: AnnotationQueryContext): string[] {
+    const tagIds = (annotation.tags || []).flatMap(tagId => [tagId, ...(context.getTagAncestors?.(tagId) || [])]);
+    return [...new Set(tagIds)].flatMap(tagId => {
+        const label = context.resolveTagLabel?.(tagId);
+        return label && label !== tagId ? [tagId, label] : [tagId];
+    });
+}
+
+function compare<T extends string | number>(left: T, right: T, comparator: AnnotationQueryComparator): boolean {
+    switch (comparator) {
+        case '>':
+            return left > right;
+        case '>=':
+            return left >= right;
+        case '<':
+            return left < right;
+        case '<=':
+            return left <= right;
+        default:
+            return left === right;
+    }
+}
@@ -1,23 +1,30 @@
-import { Annotation } from '../../types';
+import { getAnnotationStatus, isClosedStatus } from '../../managers';
+import { Annotation, AnnotationStatus } from '../../types';
+import { AnnotationQueryContext, matchesAnnotationQuery, parseSearchText } from './annotationQuery';
 
-export type FilterStatus = 'all' | 'unresolved' | 'resolved';
+/**
+ * 'unresolved' matches every status that is not closed
+ */
+export type FilterStatus = 'all' | 'unresolved' | AnnotationStatus;
 export type FilterTag = 'all' | string;
 
 /**
- * Filters annotations based on status, tags, and search query
+ * Filters annotations based on status, tags, and search query. The search query uses the
+ * syntax of `parseAnnotationQuery`. A parent tag also matches its nested tags when the
+ * context provides `getTagAncestors`.
  */
 export function filterAnnotations(
     annotations: Annotation[],
     filterStatus: FilterStatus,
     filterTag: FilterTag,
-    searchQuery: string
+    searchQuery: string,
+    queryContext: AnnotationQueryContext = {}
 ): Annotation[] {
+    const query = parseSearchText(searchQuery);
+
     return annotations.filter(annotation => {
         // Filter by status
-        if (filterStatus === 'resolved' && !annotation.resolved) {
-            return false;
-        }
-        if (filterStatus === 'unresolved' && annotation.resolved) {
+        if (!matchesStatusFilter(annotation, filterStatus)) {
             return false;
         }
 
@@ -26,25 +33,34 @@ export function filterAnnotations(
             if (!annotation.tags) {
                 return false;
             }
-            const hasTag = annotation.tags.some(tagId => tagId === filterTag);
+            const hasTag = annotation.tags.some(tagId =>
+                tagId === filterTag || !!queryContext.getTagAncestors?.(tagId).includes(filterTag)
+            );
             if (!hasTag) {
                 return false;
             }
         }
 
         // Filter by search query
-        if (searchQuery) {
-            const searchLower = searchQuery.toLowerCase();
-            const commentMatch = annotation.comment.toLowerCase().includes(searchLower);
-            const textMatch = annotation.text.toLowerCase().includes(searchLower);
-            const authorMatch = annotation.author.toLowerCase().includes(searchLower);
-            const tagMatch = annotation.tags?.some(tagId => tagId.toLowerCase().includes(searchLower));
-
-            if (!commentMatch && !textMatch && !authorMatch && !tagMatch) {
-                return false;
-            }
+        if (!matchesAnnotationQuery(annotation, query, queryContext)) {
+            return false;
         }
 
         return true;
     });
 }
+
+/**
+ * Whether an annotation passes a status filter
+ */
+export function matchesStatusFilter(annotation: Annotation, filterStatus: FilterStatus): boolean {
+    if (filterStatus === 'all') {
+        return true;
+    }
+
+    const status = getAnnotationStatus(annotation);
+    if (filterStatus === 'unresolved') {
+        return !isClosedStatus(status);
+    }
+    return status === filterStatus;
+}
@@ -2,4 +2,18 @@
  * Filtering logic exports
  */
 
-export { filterAnnotations, FilterStatus, FilterTag } from './filterAnnotations';
+export { filterAnnotations, matchesStatusFilter, FilterStatus, FilterTag } from './filterAnnotations';
+export {
+    parseAnnotationQuery,
+    parseSearchText,
+    matchesAnnotationQuery,
+    matchesAnnotationQueryTerm,
+    createAnnotationQueryTerm,
+    createAnnotationQueryContext,
+    AnnotationQuery,
+    AnnotationQueryTerm,
+    AnnotationQueryField,
+    AnnotationQueryComparator,
+    AnnotationQueryContext,
+} from './annotationQuery';
+export { createSavedViewFilter } from './savedViewFilter';
@@ -0,0 +1,41 @@
+import { Annotation, SavedView } from '../../types';
+import {
+    AnnotationQueryContext,
+    AnnotationQueryField,
+    AnnotationQueryTerm,
+    createAnnotationQueryTerm,
+    matchesAnnotationQuery,
+    matchesAnnotationQueryTerm,
+    parseSearchText,
+} from './annotationQuery';
+
+/**
+ * Predicate for a saved view. Each list matches any of its values through the same
+ * fields as the search syntax, so `tags: ["bug", "security"]` behaves like
+ * `tag:bug` or `tag:security`.
+ */
+export function createSavedViewFilter(
+    view: SavedView,
+    context: AnnotationQueryContext = {}
+): (annotation: Annotation) => boolean {
+    const groups = [
+        toTerms('status', view.statuses),
+        toTerms('tag', view.tags),
+        toTerms('author', view.authors),
+        toTerms('file', view.files),
+    ].filter(terms => terms.length > 0);
+    const query = parseSearchText(view.query || '');
+
+    return annotation => groups.every(terms => terms.some(term => matchesAnnotationQueryTerm(annotation, term, context)))
+        && matchesAnnotationQuery(annotation, query, context);
+}
+
+function toTerms(field: AnnotationQueryField, values: readonly string[] | undefined): AnnotationQueryTerm[] {
+    return (values || []).flatMap(value => {
+        try {
+            return [createAnnotationQueryTerm(field, value)];
+        } catch {
+            return [];
+        }
+    });
+}
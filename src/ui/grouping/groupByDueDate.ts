@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { DUE_DATE_BUCKETS, DUE_DATE_BUCKET_LABELS, getDueDateBucket } from '../../managers';
+import { Annotation } from '../../types';
+import { GroupCategoryItem } from '../treeItems';
+
+/**
+ * Groups annotations by due date, with overdue annotations first
+ */
+export function groupByDueDate(annotations: Annotation[], now: Date = new Date()): GroupCategoryItem[] {
+    const dueItems: GroupCategoryItem[] = [];
+
+    DUE_DATE_BUCKETS.forEach(bucket => {
+        const bucketAnnotations = annotations
+            .filter(a => getDueDateBucket(a, now) === bucket)
+            .sort((left, right) => (left.dueDate || '').localeCompare(right.dueDate || ''));
+        if (bucketAnnotations.length > 0) {
+            dueItems.push(new GroupCategoryItem(
+                `${DUE_DATE_BUCKET_LABELS[bucket]} (${bucketAnnotations.length})`,
+                bucketAnnotations,
+                bucket === 'closed' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded
+            ));
+        }
+    });
+
+    return dueItems;
+}
@@ -1,31 +1,24 @@
 import * as vscode from 'vscode';
+import { ANNOTATION_STATUSES, getAnnotationStatus, getStatusLabel } from '../../managers';
 import { Annotation } from '../../types';
 import { GroupCategoryItem } from '../treeItems';
 
 /**
- * Groups annotations by resolution status (open/resolved)
+ * Groups annotations by workflow status, in workflow order
  */
 export function groupByStatus(annotations: Annotation[]): GroupCategoryItem[] {
-    const openAnnotations = annotations.filter(a => !a.resolved);
-    const resolvedAnnotations = annotations.filter(a => a.resolved);
-
     const statusItems: GroupCategoryItem[] = [];
 
-    if (openAnnotations.length > 0) {
-        statusItems.push(new GroupCategoryItem(
-            `Open (${openAnnotations.length})`,
-            openAnnotations,
-            vscode.TreeItemCollapsibleState.Expanded
-        ));
-    }
-
-    if (resolvedAnnotations.length > 0) {
-        statusItems.push(new GroupCategoryItem(
-            `Resolved (${resolvedAnnotations.length})`,
-            resolvedAnnotations,
-            vscode.TreeItemCollapsibleState.Expanded
-        ));
-    }
+    ANNOTATION_STATUSES.forEach(status => {
+        const statusAnnotations = annotations.filter(a => getAnnotationStatus(a) === status);
+        if (statusAnnotations.length > 0) {
+            statusItems.push(new GroupCategoryItem(
+                `${getStatusLabel(status)} (${statusAnnotations.length})`,
+                statusAnnotations,
+                vscode.TreeItemCollapsibleState.Expanded
+            ));
+        }
+    });
 
     if (statusItems.length === 0) {
         statusItems.push(new GroupCategoryItem(
@@ -2,14 +2,23 @@ import * as vscode from 'vscode';
 import { Annotation } from '../../types';
 import { GroupCategoryItem } from '../treeItems';
 
+interface TagGroupNode {
+    tagId: string;
+    annotations: Annotation[];  // Tagged with this tag itself
+    total: Set<Annotation>;     // Tagged with this tag or a nested tag
+    children: Map<string, TagGroupNode>;
+}
+
 /**
- * Groups annotations by tag
+ * Groups annotations by tag. With `getTagAncestors`, nested tags such as "security/xss"
+ * appear inside their parent's group, and the parent's count includes them.
  */
 export function groupByTag(
     annotations: Annotation[],
-    resolveTagLabel: (tagId: string) => string = (tagId) => tagId
+    resolveTagLabel: (tagId: string) => string = (tagId) => tagId,
+    getTagAncestors: (tagId: string) => string[] = () => []
 ): GroupCategoryItem[] {
-    const tagGroups = new Map<string, Annotation[]>();
+    const rootGroups = new Map<string, TagGroupNode>();
     const untaggedAnnotations: Annotation[] = [];
 
     annotations.forEach(annotation => {
@@ -17,26 +26,26 @@ export function groupByTag(
             untaggedAnnotations.push(annotation);
         } else {
             annotation.tags.forEach(tagId => {
-                if (!tagGroups.has(tagId)) {
-                    tagGroups.set(tagId, []);
+                // Walk from the top-level tag down to the tag itself
+                const path = [...getTagAncestors(tagId)].reverse().concat(tagId);
+                let groups = rootGroups;
+                let node: TagGroupNode | undefined;
+                path.forEach(pathTagId => {
+                    if (!groups.has(pathTagId)) {
+                        groups.set(pathTagId, { tagId: pathTagId, annotations: [], total: new Set(), children: new Map() });
+                    }
+                    node = groups.get(pathTagId)!;
+                    node.total.add(annotation);
+                    groups = node.children;
+                });
+                if (node && !node.annotations.includes(annotation)) {
+                    node.annotations.push(annotation);
                 }
-                tagGroups.get(tagId)!.push(annotation);
             });
         }
     });
 
-    const tagItems: GroupCategoryItem[] = [];
-
-    // Add tagged groups
-    Array.from(tagGroups.entries())
-        .sort((a, b) => a[0].localeCompare(b[0]))
-        .forEach(([tagId, anns]) => {
-            tagItems.push(new GroupCategoryItem(
-                `${resolveTagLabel(tagId)} (${anns.length})`,
-                anns,
-                vscode.TreeItemCollapsibleState.Expanded
-            ));
-        });
+    const tagItems = createTagGroupItems(rootGroups, resolveTagLabel);
 
     // Add untagged group if there are any
     if (untaggedAnnotations.length > 0) {
@@ -49,3 +58,25 @@ export function groupByTag(
 
     return tagItems;
 }
+
+function createTagGroupItems(
+    groups: Map<string, TagGroupNode>,
+    resolveTagLabel: (tagId: string) => string,
+    parentLabel?: string
+): GroupCategoryItem[] {
+    return Array.from(groups.values())
+        .sort((a, b) => a.tagId.localeCompare(b.tagId))
+        .map(node => {
+            // Nested groups show only their own level, e.g. "xss" under "security"
+            const label = resolveTagLabel(node.tagId);
+            const shortLabel = parentLabel && label.startsWith(`${parentLabel}/`)
+                ? label.slice(parentLabel.length + 1)
+                : label;
+            return new GroupCategoryItem(
+                `${shortLabel} (${node.total.size})`,
+                node.annotations,
+                vscode.TreeItemCollapsibleState.Expanded,
+                createTagGroupItems(node.children, resolveTagLabel, label)
+            );
+        });
+}
@@ -8,3 +8,4 @@ export { groupByTag } from './groupByTag';
 export { groupByStatus } from './groupByStatus';
 export { groupByFolder } from './groupByFolder';
 export { groupByPriority } from './groupByPriority';
+export { groupByDueDate } from './groupByDueDate';
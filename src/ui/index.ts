@@ -1,5 +1,23 @@
+export { AnnotationCodeLensProvider } from './annotationCodeLensProvider';
+export { AnnotationCommentController, type AnnotationComment } from './annotationCommentController';
+export {
+    AnnotationFileDecorationProvider,
+    formatFileDecorationBadge,
+    summarizeAnnotatedPaths,
+    type AnnotatedPathSummary,
+} from './annotationFileDecorationProvider';
+export {
+    AnnotationHoverProvider,
+    ANNOTATION_HOVER_ACTIONS,
+    buildAnnotationHover,
+    type AnnotationHoverAction,
+} from './annotationHoverProvider';
+export { revealTargetedAnnotation } from './annotationNavigation';
 export { AnnotationProvider } from './annotationProvider';
+export { showAnnotationSearch, type AnnotationSearchResult } from './annotationSearchQuickPick';
 export { PlanReviewPanel } from './planReviewPanel';
+export { describeSavedView, pickSavedView, promptForSavedView, type SavedViewPick } from './savedViewPrompts';
 export { SidebarWebview } from './sidebarWebview';
+export { pickTagsForAnnotation } from './tagPicker';
 export type { TreeItem } from './treeItems';
 export { AnnotationItem } from './treeItems';
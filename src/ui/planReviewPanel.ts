@@ -127,6 +127,28 @@ export class PlanReviewPanel implements vscode.Disposable {
         this.panel.webview.html = this.renderHtml(this.panel.webview, artifact);
     }
 
+    /**
+     * Re-render the open artifact when its storage file was changed or removed outside the panel.
+     */
+    async reloadArtifactFile(filePath: string): Promise<void> {
+        if (!this.panel || !this.currentArtifactId) {
+            return;
+        }
+
+        const artifactPath = this.reviewArtifactManager.getStorage().getArtifactFilePath(this.currentArtifactId);
+        if (path.resolve(artifactPath) !== path.resolve(filePath)) {
+            return;
+        }
+
+        const artifact = await this.reviewArtifactManager.getArtifact(this.currentArtifactId);
+        if (!artifact) {
+            void vscode.window.showWarningMessage(`The open review "${this.panel.title}" was removed outside Annotative.`);
+            return;
+        }
+
+        await this.refresh();
+    }
+
     dispose(): void {
         this.panel?.dispose();
         while (this.disposables.length > 0) {
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import { ANNOTATION_STATUSES, AnnotationManager, getStatusLabel } from '../managers';
+import { SavedView } from '../types';
+import { FilterState } from './webview/types';
+
+export type SavedViewPick =
+    | { type: 'apply'; name: string }
+    | { type: 'save' }
+    | { type: 'delete' }
+    | { type: 'openFile' };
+
+type SavedViewStatus = NonNullable<SavedView['statuses']>[number];
+
+/**
+ * Pick a view for the sidebar, or one of the actions that manage views.
+ */
+export async function pickSavedView(
+    views: readonly SavedView[],
+    activeName: string,
+    resolveTagLabel?: (tagId: string) => string
+): Promise<SavedViewPick | undefined> {
+    const items: Array<vscode.QuickPickItem & { pick?: SavedViewPick }> = [
+        {
+            label: 'No Saved View',
+            description: activeName ? '' : '(current)',
+            pick: { type: 'apply', name: '' },
+        },
+        ...views.map(view => ({
+            label: view.name,
+            description: view.name === activeName ? '(current)' : '',
+            detail: describeSavedView(view, resolveTagLabel),
+            pick: { type: 'apply', name: view.name } as SavedViewPick,
+        })),
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(add) Save Current Filters as View...', pick: { type: 'save' } },
+        ...(views.length > 0 ? [{ label: '$(trash) Delete Saved View...', pick: { type: 'delete' } as SavedViewPick }] : []),
+        { label: '$(go-to-file) Open views.json', pick: { type: 'openFile' } },
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select a saved view for the sidebar',
+        matchOnDetail: true,
+    });
+    return selected?.pick;
+}
+
+/**
+ * Ask for a view's name and filters, starting from the sidebar's current filters or the
+ * view being replaced. Returns undefined when cancelled.
+ */
+export async function promptForSavedView(
+    annotationManager: AnnotationManager,
+    filters: FilterState,
+    existing?: SavedView
+): Promise<SavedView | undefined> {
+    const name = await vscode.window.showInputBox({
+        prompt: 'Name of the saved view',
+        value: existing?.name ?? filters.view,
+        validateInput: value => value.trim() ? undefined : 'Enter a name',
+    });
+    if (name === undefined) {
+        return undefined;
+    }
+
+    const currentStatuses = existing?.statuses ?? (filters.status === 'all' ? [] : [filters.status]);
+    const statuses = await pickMany<SavedViewStatus>(
+        'Statuses to include (none for all)',
+        (['unresolved', ...ANNOTATION_STATUSES] as SavedViewStatus[]).map(status => ({
+            label: status === 'unresolved' ? 'Unresolved' : getStatusLabel(status),
+            value: status,
+            picked: currentStatuses.includes(status),
+        }))
+    );
+    if (!statuses) {
+        return undefined;
+    }
+
+    const currentTags = existing?.tags ?? (filters.tag === 'all' ? [] : [filters.tag]);
+    const tags = await pickMany(
+        'Tags to include (none for all)',
+        annotationManager.getTagOptions().map(tag => ({ label: tag.label, value: tag.id, picked: currentTags.includes(tag.id) }))
+    );
+    if (!tags) {
+        return undefined;
+    }
+
+    const currentAuthors = existing?.authors ?? [];
+    const people = [...new Set([...currentAuthors, ...await annotationManager.getAssigneeSuggestions()])];
+    const authors = await pickMany(
+        'Authors to include (none for all)',
+        people.map(person => ({ label: person, value: person, picked: currentAuthors.includes(person) }))
+    );
+    if (!authors) {
+        return undefined;
+    }
+
+    const files = await vscode.window.showInputBox({
+        prompt: 'File globs to include, separated by commas (empty for all files)',
+        placeHolder: 'src/**, docs/*.md',
+        value: (existing?.files ?? []).join(', '),
+    });
+    if (files === undefined) {
+        return undefined;
+    }
+
+    return {
+        name: name.trim(),
+        statuses,
+        tags,
+        authors,
+        files: files.split(',').map(file => file.trim()).filter(Boolean),
+        query: existing?.query ?? filters.search,
+        groupBy: existing?.groupBy ?? filters.groupBy,
+    };
+}
+
+/**
+ * For example "Unresolved · tags: bug, security · files: src/**".
+ */
+export function describeSavedView(view: SavedView, resolveTagLabel: (tagId: string) => string = tagId => tagId): string {
+    const parts = [
+        view.statuses?.length ? view.statuses.map(status => status === 'unresolved' ? 'Unresolved' : getStatusLabel(status)).join(', ') : '',
+        view.tags?.length ? `tags: ${view.tags.map(resolveTagLabel).join(', ')}` : '',
+        view.authors?.length ? `authors: ${view.authors.join(', ')}` : '',
+        view.files?.length ? `files: ${view.files.join(', ')}` : '',
+        view.query ? `query: ${view.query}` : '',
+        view.groupBy ? `grouped by ${view.groupBy}` : '',
+    ];
+    return parts.filter(Boolean).join(' · ') || 'All annotations';
+}
+
+async function pickMany<T>(
+    placeHolder: string,
+    options: Array<{ label: string; value: T; picked: boolean }>
+): Promise<T[] | undefined> {
+    if (options.length === 0) {
+        return [];
+    }
+
+    const selected = await vscode.window.showQuickPick(options, { placeHolder, canPickMany: true });
+    return selected?.map(option => option.value);
+}
@@ -1,11 +1,29 @@
 import * as vscode from 'vscode';
-import { AnnotationManager } from '../managers';
+import { AnnotationManager, SavedViewManager } from '../managers';
 import { Annotation } from '../types';
+import { getCurrentAuthor } from '../utils/author';
+import { revealTargetedAnnotation } from './annotationNavigation';
+import {
+    createAnnotationQueryContext,
+    createSavedViewFilter,
+    matchesAnnotationQuery,
+    parseAnnotationQuery,
+} from './filtering';
 import { generateWebviewHtml } from './webview';
 import { FilterState, SidebarAction, WebviewMessage } from './webview/types';
 
 type SidebarFilterState = FilterState;
 
+const FILTER_STATE_KEY = 'annotative.sidebar.filterState';
+const DEFAULT_FILTER_STATE: SidebarFilterState = {
+    status: 'all',
+    assignee: 'all',
+    tag: 'all',
+    search: '',
+    groupBy: 'file',
+    view: '',
+};
+
 /**
  * Sidebar Webview Provider
  * Implements WebviewViewProvider for the sidebar view
@@ -17,15 +35,31 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
     private view?: vscode.WebviewView;
     private annotationManager: AnnotationManager;
     private disposables: vscode.Disposable[] = [];
-    private filterState: SidebarFilterState = {
-        status: 'all',
-        tag: 'all',
-        search: '',
-        groupBy: 'file'
-    };
-
-    constructor(private extensionUri: vscode.Uri, annotationManager: AnnotationManager) {
+    private pendingRevealId?: string;
+    private filterState: SidebarFilterState;
+
+    /**
+     * Filters are kept in `workspaceState` when given, so they survive reloads. Saved views
+     * are offered in the filter bar when a view manager is given.
+     */
+    constructor(
+        private extensionUri: vscode.Uri,
+        annotationManager: AnnotationManager,
+        private readonly savedViews?: SavedViewManager,
+        private readonly workspaceState?: vscode.Memento
+    ) {
         this.annotationManager = annotationManager;
+        this.filterState = {
+            ...DEFAULT_FILTER_STATE,
+            ...workspaceState?.get<Partial<SidebarFilterState>>(FILTER_STATE_KEY),
+        };
+
+        if (savedViews) {
+            this.disposables.push(savedViews.onDidChangeViews(() => {
+                this.postSavedViews();
+                this.postSearchResults();
+            }));
+        }
     }
 
     /**
@@ -89,6 +123,19 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Focus the sidebar and scroll to an annotation's card. A view that is not created yet
+     * receives the request once its script has loaded.
+     */
+    async revealAnnotation(annotationId: string) {
+        if (this.view) {
+            this.postMessage({ command: 'revealAnnotation', id: annotationId });
+        } else {
+            this.pendingRevealId = annotationId;
+        }
+        await vscode.commands.executeCommand('annotativeView.focus');
+    }
+
     /**
      * Refresh annotations in the webview
      */
@@ -107,21 +154,29 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
             ...this.filterState,
             ...nextState,
         };
+        void this.workspaceState?.update(FILTER_STATE_KEY, this.filterState);
 
         if (this.view) {
             this.postMessage({
                 command: 'filterStateUpdated',
                 filters: this.getFilterState(),
             });
+            this.postSearchResults();
         }
     }
 
     clearFilters() {
+        this.setFilterState(DEFAULT_FILTER_STATE);
+    }
+
+    /**
+     * Switch to a saved view, or back to no view, and use the view's grouping.
+     */
+    applySavedView(name: string) {
+        const view = name ? this.savedViews?.getView(name) : undefined;
         this.setFilterState({
-            status: 'all',
-            tag: 'all',
-            search: '',
-            groupBy: 'file',
+            view: view?.name ?? '',
+            ...(view?.groupBy ? { groupBy: view.groupBy } : {}),
         });
     }
 
@@ -158,10 +213,13 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
      * Load initial annotation data
      */
     private loadInitialData(webview: vscode.Webview) {
+        // The sidebar lists the whole workspace, so files sharded storage hasn't read yet are loaded too
+        void this.annotationManager.ensureAnnotationsLoaded();
         const annotations = this.annotationManager.getAllAnnotations();
         this.postMessage({
             command: 'updateAnnotations',
             annotations,
+            currentUser: getCurrentAuthor(),
         });
 
         const tags = this.annotationManager.getTagOptions();
@@ -169,11 +227,54 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
             command: 'tagsUpdated',
             tags,
         });
+        this.postSavedViews();
 
         this.postMessage({
             command: 'filterStateUpdated',
             filters: this.getFilterState(),
         });
+        this.postSearchResults();
+    }
+
+    private postSavedViews() {
+        if (this.savedViews) {
+            this.postMessage({ command: 'savedViewsUpdated', views: this.savedViews.getViews() });
+        }
+    }
+
+    /**
+     * Evaluate the active saved view and the search box, a structured query, and send the
+     * ids matching both. The webview falls back to a plain substring search until they
+     * arrive, or when the query is invalid.
+     */
+    private postSearchResults() {
+        const { search, view: viewName } = this.filterState;
+        if (!search && !viewName) {
+            return;
+        }
+
+        const view = viewName ? this.savedViews?.getView(viewName) : undefined;
+        if (viewName && !view) {
+            this.setFilterState({ view: '' });
+            return;
+        }
+
+        const context = createAnnotationQueryContext(this.annotationManager);
+        const filters: Array<(annotation: Annotation) => boolean> = view ? [createSavedViewFilter(view, context)] : [];
+        let error: string | undefined;
+        try {
+            const query = parseAnnotationQuery(search);
+            filters.push(annotation => matchesAnnotationQuery(annotation, query, context));
+        } catch (queryError) {
+            error = (queryError as Error).message;
+        }
+
+        const ids = filters.length > 0
+            ? this.annotationManager.getAllAnnotations()
+                .filter(annotation => filters.every(filter => filter(annotation)))
+                .map(annotation => annotation.id)
+            : undefined;
+        this.postMessage({ command: 'searchResults', query: search, view: viewName, ids, error });
     }
 
     /**
@@ -185,14 +286,23 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
                 switch (message.command) {
                     case 'requestAnnotations':
                         this.loadInitialData(webview);
+                        if (this.pendingRevealId) {
+                            this.postMessage({ command: 'revealAnnotation', id: this.pendingRevealId });
+                            this.pendingRevealId = undefined;
+                        }
                         break;
 
                     case 'filterStateChanged':
                         if (message.filters) {
+                            const { search, view } = this.filterState;
                             this.filterState = {
                                 ...this.filterState,
                                 ...message.filters,
                             };
+                            void this.workspaceState?.update(FILTER_STATE_KEY, this.filterState);
+                            if (this.filterState.search !== search || this.filterState.view !== view) {
+                                this.postSearchResults();
+                            }
                         }
                         break;
 
@@ -220,6 +330,36 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
                         }
                         break;
 
+                    case 'reply':
+                        if (typeof message.id === 'string') {
+                            await this.handleReply(message.id);
+                        }
+                        break;
+
+                    case 'editReply':
+                        if (typeof message.id === 'string' && typeof message.replyId === 'string') {
+                            await this.handleEditReply(message.id, message.replyId);
+                        }
+                        break;
+
+                    case 'reanchor':
+                        if (typeof message.id === 'string') {
+                            await this.handleReanchor(message.id);
+                        }
+                        break;
+
+                    case 'setStatus':
+                        if (typeof message.id === 'string') {
+                            await this.handleSetStatus(message.id);
+                        }
+                        break;
+
+                    case 'assign':
+                        if (typeof message.id === 'string') {
+                            await this.handleAssign(message.id);
+                        }
+                        break;
+
                     case 'resolveAll':
                         await this.handleResolveAll();
                         break;
@@ -265,6 +405,12 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
      */
     private async handleNavigate(annotation: Annotation) {
         try {
+            // Webview messages carry plain JSON, so use the stored annotation's ranges
+            const storedAnnotation = this.annotationManager.getAnnotation(annotation.id, annotation.filePath);
+            if (storedAnnotation && await revealTargetedAnnotation(storedAnnotation)) {
+                return;
+            }
+
             const uri = vscode.Uri.file(annotation.filePath);
             const doc = await vscode.workspace.openTextDocument(uri);
             await this.annotationManager.rebaseAnnotationsForDocument(doc);
@@ -350,6 +496,96 @@ export class SidebarWebview implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Reply to an annotation's discussion thread
+     */
+    private async handleReply(id: string) {
+        try {
+            const annotation = this.annotationManager.getAllAnnotations().find((a) => a.id === id);
+            if (!annotation) {
+                return;
+            }
+
+            const body = await vscode.window.showInputBox({
+                prompt: 'Reply to annotation',
+                placeHolder: 'Enter your reply',
+                validateInput: (value) => {
+                    if (!value || value.trim().length === 0) {
+                        return 'Reply cannot be empty';
+                    }
+                    return null;
+                }
+            });
+
+            if (body !== undefined && body.trim().length > 0) {
+                await this.annotationManager.addReply(id, annotation.filePath, body.trim());
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to add reply: ${error}`);
+        }
+    }
+
+    /**
+     * Re-anchor an annotation to a new selection
+     */
+    private async handleReanchor(id: string) {
+        const annotation = this.annotationManager.getAllAnnotations().find((a) => a.id === id);
+        if (annotation) {
+            await vscode.commands.executeCommand('annotative.reanchorAnnotation', { annotation });
+        }
+    }
+
+    /**
+     * Pick a new workflow status for an annotation
+     */
+    private async handleSetStatus(id: string) {
+        const annotation = this.annotationManager.getAllAnnotations().find((a) => a.id === id);
+        if (annotation) {
+            await vscode.commands.executeCommand('annotative.setStatus', { annotation });
+        }
+    }
+
+    /**
+     * Pick an assignee for an annotation
+     */
+    private async handleAssign(id: string) {
+        const annotation = this.annotationManager.getAllAnnotations().find((a) => a.id === id);
+        if (annotation) {
+            await vscode.commands.executeCommand('annotative.assignAnnotation', { annotation });
+        }
+    }
+
+    /**
+     * Edit an existing reply
+     */
+    private async handleEditReply(id: string, replyId: string) {
+        try {
+            const annotation = this.annotationManager.getAllAnnotations().find((a) => a.id === id);
+            const reply = annotation?.replies?.find((r) => r.id === replyId);
+            if (!annotation || !reply) {
+                return;
+            }
+
+            const body = await vscode.window.showInputBox({
+                prompt: 'Edit reply',
+                value: reply.body,
+                placeHolder: 'Enter your reply',
+                validateInput: (value) => {
+                    if (!value || value.trim().length === 0) {
+                        return 'Reply cannot be empty';
+                    }
+                    return null;
+                }
+            });
+
+            if (body !== undefined && body.trim().length > 0) {
+                await this.annotationManager.editReply(id, annotation.filePath, replyId, body.trim());
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to edit reply: ${error}`);
+        }
+    }
+
     /**
      * Resolve all visible annotations
      */
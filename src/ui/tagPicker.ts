@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { AnnotationManager } from '../managers';
+import { TagSuggestion } from '../types';
+
+const SUGGESTION_REASONS: Record<TagSuggestion['reason'], string> = {
+    keyword: 'named in the comment',
+    history: 'used on similar comments',
+    context: 'common in this folder or file type',
+    pattern: 'often used with the other suggestions',
+};
+
+/**
+ * Pick tags for a new annotation. Tags suggested from the workspace's annotation history
+ * come first and are pre-selected. Returns no tags when none exist or the pick is dismissed.
+ */
+export async function pickTagsForAnnotation(
+    annotationManager: AnnotationManager,
+    comment: string,
+    filePath: string
+): Promise<string[]> {
+    const customTags = annotationManager.getCustomTags();
+    if (customTags.length === 0) {
+        return [];
+    }
+
+    // Suggestions learn from every tagged annotation, not only those in files opened so far
+    await annotationManager.ensureAnnotationsLoaded();
+    const suggestions = new Map(
+        annotationManager.getTagSuggestions(comment, { filePath }).map(suggestion => [suggestion.tag.id, suggestion])
+    );
+    const tagOptions = customTags
+        .map(tag => {
+            const suggestion = suggestions.get(tag.id);
+            return {
+                label: annotationManager.resolveTagLabel(tag.id),
+                description: suggestion
+                    ? `$(sparkle) ${Math.round(suggestion.confidence * 100)}% · ${SUGGESTION_REASONS[suggestion.reason]}`
+                    : undefined,
+                value: tag.id,
+                picked: !!suggestion,
+                confidence: suggestion?.confidence ?? 0,
+            };
+        })
+        .sort((left, right) => right.confidence - left.confidence);
+
+    const selected = await vscode.window.showQuickPick(tagOptions, {
+        placeHolder: suggestions.size > 0 ? 'Select tags (suggested tags are pre-selected)' : 'Select tags (optional)',
+        canPickMany: true
+    });
+    return selected?.map(tag => tag.value) || [];
+}
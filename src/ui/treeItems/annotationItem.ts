@@ -1,5 +1,15 @@
 import * as vscode from 'vscode';
-import { Annotation } from '../../types';
+import { formatAnnotationLocation, getAnnotationStatus, getStatusLabel, isOverdue } from '../../managers';
+import { Annotation, AnnotationStatus } from '../../types';
+
+const STATUS_ICONS: Record<AnnotationStatus, { text: string; icon: string; color: string }> = {
+    open: { text: '○', icon: 'circle-outline', color: 'testing.iconQueued' },
+    inProgress: { text: '◐', icon: 'sync', color: 'charts.blue' },
+    needsVerification: { text: '?', icon: 'eye', color: 'charts.purple' },
+    deferred: { text: '…', icon: 'clock', color: 'charts.orange' },
+    wontFix: { text: '✕', icon: 'circle-slash', color: 'disabledForeground' },
+    resolved: { text: '✓', icon: 'check-all', color: 'testing.iconPassed' },
+};
 
 /**
  * Tree item representing an individual annotation
@@ -11,18 +21,23 @@ export class AnnotationItem extends vscode.TreeItem {
         public readonly isSelected: boolean = false,
         tagLabels: string[] = annotation.tags || []
     ) {
-        const statusIcon = annotation.resolved ? '✓' : '○';
+        const status = getAnnotationStatus(annotation);
+        const statusIcon = STATUS_ICONS[status].text;
         const selectedIcon = isSelected ? '☑ ' : '☐ ';
         const preview = annotation.comment.length > 45
             ? annotation.comment.substring(0, 42) + '...'
             : annotation.comment;
         const tagsLabel = tagLabels.length > 0 ? ` [${tagLabels.join(', ')}]` : '';
+        const location = annotation.target ? formatAnnotationLocation(annotation) : `Line ${annotation.range.start.line + 1}`;
 
-        super(`${selectedIcon}${statusIcon} Line ${annotation.range.start.line + 1}: ${preview}${tagsLabel}`, collapsibleState);
+        super(`${selectedIcon}${statusIcon} ${location}: ${preview}${tagsLabel}`, collapsibleState);
 
-        const statusText = annotation.resolved ? 'Resolved' : 'Open';
-        this.tooltip = `${annotation.comment}\n\nStatus: ${statusText}\nAuthor: ${annotation.author}\nDate: ${annotation.timestamp.toLocaleString()}`;
-        this.description = annotation.author;
+        const assignmentLines = [
+            annotation.assignee ? `\nAssignee: ${annotation.assignee}` : '',
+            annotation.dueDate ? `\nDue: ${annotation.dueDate}${isOverdue(annotation) ? ' (overdue)' : ''}` : '',
+        ].join('');
+        this.tooltip = `${annotation.comment}\n\nStatus: ${getStatusLabel(status)}\nAuthor: ${annotation.author}${assignmentLines}\nDate: ${annotation.timestamp.toLocaleString()}`;
+        this.description = annotation.assignee ? `${annotation.author} → ${annotation.assignee}` : annotation.author;
         this.contextValue = annotation.resolved ? 'resolvedAnnotation' : 'unresolvedAnnotation';
         this.iconPath = this.getIconPath();
 
@@ -35,9 +50,7 @@ export class AnnotationItem extends vscode.TreeItem {
     }
 
     private getIconPath(): vscode.ThemeIcon {
-        if (this.annotation.resolved) {
-            return new vscode.ThemeIcon('check-all', new vscode.ThemeColor('testing.iconPassed'));
-        }
-        return new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor('testing.iconQueued'));
+        const { icon, color } = STATUS_ICONS[getAnnotationStatus(this.annotation)];
+        return new vscode.ThemeIcon(icon, new vscode.ThemeColor(color));
     }
 }
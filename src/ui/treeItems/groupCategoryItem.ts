@@ -2,13 +2,15 @@ import * as vscode from 'vscode';
 import { Annotation } from '../../types';
 
 /**
- * Tree item representing a group of annotations (by tag, status, priority, etc.)
+ * Tree item representing a group of annotations (by tag, status, priority, etc.).
+ * Nested groups, such as child tags, are listed before the group's own annotations.
  */
 export class GroupCategoryItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
         public readonly annotations: Annotation[],
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly children: GroupCategoryItem[] = []
     ) {
         super(label, collapsibleState);
 
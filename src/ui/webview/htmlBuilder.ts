@@ -5,6 +5,7 @@
  */
 
 import * as vscode from 'vscode';
+import { ANNOTATION_STATUSES, getStatusLabel } from '../../managers';
 
 export interface HtmlBuilderOptions {
   cssUri: string;
@@ -19,6 +20,9 @@ export interface HtmlBuilderOptions {
  */
 export function generateWebviewHtml(options: HtmlBuilderOptions): string {
   const { cssUri, jsUri, codiconUri, nonce, cspSource } = options;
+  const statusOptions = ANNOTATION_STATUSES
+    .map(status => `<option value="${status}">${getStatusLabel(status)}</option>`)
+    .join('\n                                ');
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -62,7 +66,7 @@ export function generateWebviewHtml(options: HtmlBuilderOptions): string {
                         id="filter-search"
                         class="filter-input"
                         type="search"
-                        placeholder="Search annotations"
+                        placeholder="Search, e.g. tag:bug status:open"
                         title="Search annotations"
                         aria-label="Search annotations"
                     >
@@ -80,15 +84,27 @@ export function generateWebviewHtml(options: HtmlBuilderOptions): string {
                 <details class="control-panel">
                     <summary class="control-summary">
                         <span class="control-summary-title">Filters and Grouping</span>
-                        <span class="control-summary-hint">Status, tags, layout</span>
+                        <span class="control-summary-hint">Saved view, status, assignee, tags, layout</span>
                     </summary>
                     <div class="control-panel-body">
+                        <!-- Saved View Row -->
+                        <div class="groupby-row">
+                            <label for="view-select" class="groupby-label">View:</label>
+                            <select id="view-select" class="filter-select" title="Apply a saved view">
+                                <option value="">No Saved View</option>
+                            </select>
+                        </div>
+
                         <!-- Filter Row -->
                         <div class="filter-row">
                             <select id="filter-status" class="filter-select" title="Filter by status">
                                 <option value="all">All Status</option>
                                 <option value="unresolved">Unresolved</option>
-                                <option value="resolved">Resolved</option>
+                                ${statusOptions}
+                            </select>
+                            <select id="filter-assignee" class="filter-select" title="Filter by assignee">
+                                <option value="all">All Assignees</option>
+                                <option value="me">My Annotations</option>
                             </select>
                             <select id="filter-tag" class="filter-select" title="Filter by tag">
                                 <option value="all">All Tags</option>
@@ -103,6 +119,7 @@ export function generateWebviewHtml(options: HtmlBuilderOptions): string {
                                 <option value="tag">Tag</option>
                                 <option value="status">Status</option>
                                 <option value="folder">Folder</option>
+                                <option value="due">Due Date</option>
                             </select>
                         </div>
 
@@ -3,7 +3,7 @@
  * Defines all message interfaces for communication between webview and extension
  */
 
-import { Annotation, AnnotationTagOption } from '../../types';
+import { Annotation, AnnotationStatus, AnnotationTagOption, SavedView } from '../../types';
 
 /**
  * Messages sent FROM the webview TO the extension
@@ -16,6 +16,11 @@ export type WebviewToExtensionCommand =
   | 'resolveAll'
   | 'deleteResolved'
   | 'edit'
+  | 'reply'
+  | 'editReply'
+  | 'reanchor'
+  | 'setStatus'
+  | 'assign'
   | 'addTag'
   | 'removeTag'
   | 'manageTags'
@@ -33,6 +38,7 @@ export interface WebviewMessage {
   command: WebviewToExtensionCommand;
   annotation?: Annotation;
   id?: string;
+  replyId?: string;
   filePath?: string;
   resolved?: boolean;
   tag?: string;
@@ -50,7 +56,10 @@ export type ExtensionToWebviewCommand =
   | 'annotationAdded'
   | 'annotationRemoved'
   | 'annotationUpdated'
-  | 'filterStateUpdated';
+  | 'filterStateUpdated'
+  | 'revealAnnotation'
+  | 'searchResults'
+  | 'savedViewsUpdated';
 
 export interface ExtensionMessage {
   command: ExtensionToWebviewCommand;
@@ -58,6 +67,12 @@ export interface ExtensionMessage {
   tags?: AnnotationTagOption[];
   annotation?: Annotation;
   filters?: FilterState;
+  currentUser?: string;
+  query?: string;
+  view?: string;
+  views?: SavedView[];
+  ids?: string[];
+  error?: string;
   [key: string]: unknown;
 }
 
@@ -65,10 +80,13 @@ export interface ExtensionMessage {
  * Filter state for annotations
  */
 export interface FilterState {
-  status: 'all' | 'resolved' | 'unresolved';
+  status: 'all' | 'unresolved' | AnnotationStatus;
+  assignee: 'all' | 'me';
   tag: string;
   search: string;
-  groupBy: 'file' | 'tag' | 'status' | 'folder';
+  groupBy: 'file' | 'tag' | 'status' | 'folder' | 'due';
+  /** Name of the active saved view, or empty for none */
+  view: string;
 }
 
 /**
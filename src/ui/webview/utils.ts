@@ -3,7 +3,15 @@
  * Shared helper functions for filtering, grouping, and formatting
  */
 
+import {
+  DUE_DATE_BUCKET_LABELS,
+  getAnnotationStatus,
+  getDueDateBucket,
+  getStatusLabel,
+  isAssignedTo,
+} from '../../managers';
 import { Annotation } from '../../types';
+import { matchesAnnotationQuery, matchesStatusFilter, parseSearchText } from '../filtering';
 import { FilterState, GroupedAnnotations, AnnotationStats } from './types';
 
 /**
@@ -25,14 +33,19 @@ export function debounce<T extends (...args: unknown[]) => void>(
  */
 export function filterAnnotations(
   annotations: Annotation[],
-  filters: FilterState
+  filters: FilterState,
+  currentUser = ''
 ): Annotation[] {
+  const query = parseSearchText(filters.search);
+
   return annotations.filter((ann) => {
     // Filter by status
-    if (filters.status === 'resolved' && !ann.resolved) {
+    if (!matchesStatusFilter(ann, filters.status)) {
       return false;
     }
-    if (filters.status === 'unresolved' && ann.resolved) {
+
+    // Filter by assignee
+    if (filters.assignee === 'me' && !isAssignedTo(ann, currentUser)) {
       return false;
     }
 
@@ -44,13 +57,9 @@ export function filterAnnotations(
       }
     }
 
-    // Filter by search text
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      const searchText = `${ann.comment} ${ann.filePath}`.toLowerCase();
-      if (!searchText.includes(searchLower)) {
-        return false;
-      }
+    // Filter by search query
+    if (!matchesAnnotationQuery(ann, query, { currentUser })) {
+      return false;
     }
 
     return true;
@@ -81,7 +90,9 @@ export function groupAnnotations(
         key = 'Untagged';
       }
     } else if (groupBy === 'status') {
-      key = ann.resolved ? 'Resolved' : 'Unresolved';
+      key = getStatusLabel(getAnnotationStatus(ann));
+    } else if (groupBy === 'due') {
+      key = DUE_DATE_BUCKET_LABELS[getDueDateBucket(ann)];
     }
 
     if (!groups[key]) {
@@ -0,0 +1,18 @@
+import * as vscode from 'vscode';
+
+/**
+ * Name recorded as the author of new annotations and changes
+ */
+export function getCurrentAuthor(): string {
+    try {
+        const gitConfig = vscode.workspace.getConfiguration('git');
+        const userName = gitConfig.get<string>('user.name');
+        if (userName) {
+            return userName;
+        }
+    } catch (error) {
+        // Ignore
+    }
+
+    return process.env.USERNAME || process.env.USER || 'Unknown User';
+}
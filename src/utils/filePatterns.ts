@@ -0,0 +1,30 @@
+/**
+ * Globs use `*` within a path segment, `**` across segments, and `?` for one character.
+ * Patterns without wildcards match any path containing them.
+ */
+export function matchesFilePattern(filePath: string, pattern: string): boolean {
+    const normalizedPath = filePath.replace(/\\/g, '/').toLowerCase();
+    const normalizedPattern = pattern.replace(/\\/g, '/').toLowerCase();
+    if (!/[*?]/.test(normalizedPattern)) {
+        return normalizedPath.includes(normalizedPattern);
+    }
+
+    const expression = normalizedPattern
+        .split(/(\*\*\/?|\*|\?)/)
+        .map(part => {
+            switch (part) {
+                case '**/':
+                    return '(?:.*/)?';
+                case '**':
+                    return '.*';
+                case '*':
+                    return '[^/]*';
+                case '?':
+                    return '[^/]';
+                default:
+                    return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            }
+        })
+        .join('');
+    return new RegExp(`^${expression}$`).test(normalizedPath);
+}
@@ -0,0 +1,16 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export type GitCommandRunner = (cwd: string, args: string[]) => Promise<string>;
+
+export async function runGitCommand(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+        cwd,
+        maxBuffer: 10 * 1024 * 1024,
+        windowsHide: true,
+    });
+
+    return stdout;
+}
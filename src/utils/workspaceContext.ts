@@ -16,6 +16,81 @@ export function getWorkspaceFolderForFilePath(filePath: string): vscode.Workspac
     return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
 }
 
+const WORKSPACE_FOLDER_KEY_SEPARATOR = '::';
+
+function isAbsoluteStoragePath(filePath: string): boolean {
+    return path.isAbsolute(filePath) || path.win32.isAbsolute(filePath);
+}
+
+function toPosixPath(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Convert an absolute file path into a portable storage key.
+ * Files under the storage root become relative paths, files in other workspace
+ * folders are prefixed with the folder name, and anything else stays absolute.
+ */
+export function toWorkspaceStorageKey(filePath: string, storageRoot: string): string {
+    if (!storageRoot) {
+        return filePath;
+    }
+
+    const relativeToRoot = path.relative(storageRoot, filePath);
+    const outsideRoot = relativeToRoot === '..' || relativeToRoot.startsWith(`..${path.sep}`);
+    if (relativeToRoot && !outsideRoot && !path.isAbsolute(relativeToRoot)) {
+        return toPosixPath(relativeToRoot);
+    }
+
+    const folder = getWorkspaceFolderForFilePath(filePath);
+    if (folder && path.resolve(folder.uri.fsPath) !== path.resolve(storageRoot)) {
+        return `${folder.name}${WORKSPACE_FOLDER_KEY_SEPARATOR}${toPosixPath(path.relative(folder.uri.fsPath, filePath))}`;
+    }
+
+    return filePath;
+}
+
+/**
+ * Resolve a storage key written by toWorkspaceStorageKey back to an absolute path.
+ * Legacy absolute keys from another checkout are remapped onto the storage root
+ * when a file with the same trailing path exists locally.
+ */
+export function resolveWorkspaceStorageKey(key: string, storageRoot: string): string {
+    if (isAbsoluteStoragePath(key)) {
+        return remapForeignAbsolutePath(key, storageRoot);
+    }
+
+    const separatorIndex = key.indexOf(WORKSPACE_FOLDER_KEY_SEPARATOR);
+    if (separatorIndex !== -1) {
+        const folderName = key.slice(0, separatorIndex);
+        const relativePath = key.slice(separatorIndex + WORKSPACE_FOLDER_KEY_SEPARATOR.length);
+        const folder = vscode.workspace.workspaceFolders?.find(candidate => candidate.name === folderName);
+        if (folder) {
+            return path.join(folder.uri.fsPath, ...relativePath.split('/'));
+        }
+
+        return path.join(storageRoot, ...relativePath.split('/'));
+    }
+
+    return path.join(storageRoot, ...key.split('/'));
+}
+
+function remapForeignAbsolutePath(filePath: string, storageRoot: string): string {
+    if (fs.existsSync(filePath) || getWorkspaceFolderForFilePath(filePath)) {
+        return filePath;
+    }
+
+    const segments = filePath.split(/[\\/]/).filter(segment => segment.length > 0);
+    for (let start = 1; start < segments.length; start++) {
+        const candidate = path.join(storageRoot, ...segments.slice(start));
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+
+    return filePath;
+}
+
 export function getRelativePathForFile(filePath: string): string {
     return vscode.workspace.asRelativePath(vscode.Uri.file(filePath), false);
 }
@@ -53,4 +53,20 @@ const extensionConfig = {
     level: "log", // enables logging required for problem matchers
   },
 };
-module.exports = [ extensionConfig ];
\ No newline at end of file
+
+/** @type WebpackConfig */
+const mergeDriverConfig = {
+  target: 'node', // standalone git merge driver, runs outside VS Code
+	mode: 'none',
+
+  entry: './src/mergeDriver.ts',
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: 'mergeDriver.js',
+    libraryTarget: 'commonjs2'
+  },
+  resolve: extensionConfig.resolve,
+  module: extensionConfig.module,
+  devtool: 'nosources-source-map',
+};
+module.exports = [ extensionConfig, mergeDriverConfig ];
\ No newline at end of file